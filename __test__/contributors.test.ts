@@ -0,0 +1,80 @@
+/**
+ * Unit tests for contributor acknowledgements (`utils/contributors`).
+ *
+ * @remarks
+ * `repos.getCommit` and `repos.listCommits` are recorded `GitHubClientTest`
+ * responses, so every commit resolves to the same login and first-time
+ * lookups share one result.
+ */
+
+import { GitHubClientTest } from "@savvy-web/github-action-effects/testing";
+import { Effect, Logger } from "effect";
+import { describe, expect, it } from "vitest";
+import type { Contributor } from "../src/utils/contributors.js";
+import { formatContributors, resolveContributors } from "../src/utils/contributors.js";
+
+const commit = (sha: string, author: string) => ({ sha, message: `change ${sha}`, author });
+
+const run = (
+	commits: ReadonlyArray<{ sha: string; message: string; author: string }>,
+	latestTagSha: string | null,
+	restResponses: Array<[string, unknown]>,
+	exclude?: ReadonlyArray<string>,
+): Promise<ReadonlyArray<Contributor>> =>
+	Effect.runPromise(
+		resolveContributors(commits, latestTagSha, exclude).pipe(
+			Effect.provide(
+				GitHubClientTest.layer({
+					restResponses: new Map(restResponses.map(([op, data]) => [op, { data }])),
+					graphqlResponses: new Map(),
+					paginateResponses: new Map(),
+					repo: { owner: "owner", repo: "repo" },
+				}),
+			),
+			Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+		),
+	);
+
+describe("resolveContributors", () => {
+	it("resolves authors to logins, merging authors that share one", async () => {
+		const contributors = await run([commit("a", "Mona"), commit("b", "Mona Lisa"), commit("c", "Mona")], null, [
+			["repos.getCommit", { author: { login: "octocat" } }],
+		]);
+
+		expect(contributors).toEqual([{ login: "octocat", name: "Mona", firstTime: false }]);
+	});
+
+	it("keeps the author name when the commit has no linked account", async () => {
+		const contributors = await run([commit("a", "Mona")], null, [["repos.getCommit", { author: null }]]);
+
+		expect(contributors).toEqual([{ login: null, name: "Mona", firstTime: false }]);
+	});
+
+	it("leaves out bots by default, and configured patterns", async () => {
+		const commits = [commit("a", "renovate[bot]"), commit("b", "Release Automation")];
+		const responses: Array<[string, unknown]> = [["repos.getCommit", { author: null }]];
+
+		expect((await run(commits, null, responses)).map((c) => c.name)).toEqual(["Release Automation"]);
+		expect(await run(commits, null, responses, ["*[bot]", "Release *"])).toEqual([]);
+	});
+
+	it("flags a contributor with no commits before the previous release", async () => {
+		const contributors = await run([commit("a", "Mona")], "tag-sha", [
+			["repos.getCommit", { author: { login: "octocat" } }],
+			["repos.listCommits", []],
+		]);
+
+		expect(contributors).toEqual([{ login: "octocat", name: "Mona", firstTime: true }]);
+	});
+});
+
+describe("formatContributors", () => {
+	it("lists mentions, marking first-time contributors", () => {
+		expect(
+			formatContributors([
+				{ login: "octocat", name: "Mona", firstTime: true },
+				{ login: null, name: "Hubot", firstTime: false },
+			]),
+		).toBe("- @octocat — first contribution 🎉\n- Hubot");
+	});
+});
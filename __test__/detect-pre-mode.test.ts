@@ -0,0 +1,67 @@
+/**
+ * Tests for Changesets pre-mode detection (`.changeset/pre.json`).
+ */
+
+import { FileSystem } from "@effect/platform";
+import { Effect } from "effect";
+import { describe, expect, it } from "vitest";
+import { detectPreTag, isPrereleaseVersion, readPreMode, withPreReleaseTitle } from "../src/utils/detect-pre-mode.js";
+
+const withPreJson = (content: string) =>
+	FileSystem.layerNoop({
+		readFileString: (path) =>
+			path === ".changeset/pre.json" ? Effect.succeed(content) : Effect.die(`unexpected read: ${path}`),
+	});
+
+describe("readPreMode", () => {
+	it("reads an active pre mode", async () => {
+		const state = await Effect.runPromise(
+			readPreMode.pipe(Effect.provide(withPreJson(JSON.stringify({ mode: "pre", tag: "beta", initialVersions: {} })))),
+		);
+		expect(state).toEqual({ mode: "pre", tag: "beta" });
+	});
+
+	it("returns null when pre.json is absent", async () => {
+		const state = await Effect.runPromise(readPreMode.pipe(Effect.provide(FileSystem.layerNoop({}))));
+		expect(state).toBe(null);
+	});
+
+	it("returns null for malformed JSON or a missing tag", async () => {
+		expect(await Effect.runPromise(readPreMode.pipe(Effect.provide(withPreJson("{not json"))))).toBe(null);
+		expect(await Effect.runPromise(readPreMode.pipe(Effect.provide(withPreJson('{"mode":"pre"}'))))).toBe(null);
+	});
+});
+
+describe("detectPreTag", () => {
+	it("returns the tag while pre mode is active", async () => {
+		const tag = await Effect.runPromise(
+			detectPreTag.pipe(Effect.provide(withPreJson(JSON.stringify({ mode: "pre", tag: "next" })))),
+		);
+		expect(tag).toBe("next");
+	});
+
+	it("returns null once pre mode has been exited", async () => {
+		const tag = await Effect.runPromise(
+			detectPreTag.pipe(Effect.provide(withPreJson(JSON.stringify({ mode: "exit", tag: "next" })))),
+		);
+		expect(tag).toBe(null);
+	});
+});
+
+describe("withPreReleaseTitle", () => {
+	it("marks the title while pre mode is active", () => {
+		expect(withPreReleaseTitle("chore: release", "beta")).toBe("chore: release (beta pre-release)");
+	});
+
+	it("leaves the title unchanged outside pre mode", () => {
+		expect(withPreReleaseTitle("chore: release", null)).toBe("chore: release");
+	});
+});
+
+describe("isPrereleaseVersion", () => {
+	it("detects a prerelease component", () => {
+		expect(isPrereleaseVersion("1.2.0-beta.0")).toBe(true);
+		expect(isPrereleaseVersion("1.2.0")).toBe(false);
+		expect(isPrereleaseVersion("1.2.0+build-5")).toBe(false);
+	});
+});
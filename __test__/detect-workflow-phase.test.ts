@@ -16,6 +16,7 @@ import { Effect, Layer, Logger } from "effect";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import type { PhaseDetectionResult } from "../src/utils/detect-workflow-phase.js";
 import { detectWorkflowPhase } from "../src/utils/detect-workflow-phase.js";
+import type { ReleaseLine } from "../src/utils/release-lines.js";
 
 const RELEASE_BRANCH = "changeset-release/main";
 const TARGET_BRANCH = "main";
@@ -74,19 +75,29 @@ const makeFixtures = (
  * `listPullRequestsAssociatedWithCommit` call (Strategy 1) always fails with a
  * 404, driving execution to Strategy 2 (the rewired `pr.list` call).
  *
- * `GITHUB_EVENT_PATH` is intentionally blank so `readEventPayload` short-circuits
- * before touching the filesystem, avoiding any need for a real FileSystem layer.
+ * `GITHUB_EVENT_PATH` is blank unless `event.payload` is given, so
+ * `readEventPayload` short-circuits before touching the filesystem; a given
+ * payload is served from a no-op FileSystem layer at `/event.json`.
  */
-const runDetect = (f: Fixtures): Promise<PhaseDetectionResult> => {
+const runDetect = (
+	f: Fixtures,
+	event: {
+		name?: string;
+		payload?: unknown;
+		snapshotLabel?: string;
+		ref?: string;
+		lines?: ReadonlyArray<ReleaseLine>;
+	} = {},
+): Promise<PhaseDetectionResult> => {
 	const layer = Layer.mergeAll(
 		ActionEnvironmentTest.layer({
 			GITHUB_SHA: MERGE_COMMIT_SHA,
-			GITHUB_REF: `refs/heads/${TARGET_BRANCH}`,
+			GITHUB_REF: event.ref ?? `refs/heads/${TARGET_BRANCH}`,
 			GITHUB_REPOSITORY: "owner/repo",
 			GITHUB_REPOSITORY_OWNER: "owner",
 			GITHUB_WORKSPACE: "/workspace",
-			GITHUB_EVENT_NAME: "push",
-			GITHUB_EVENT_PATH: "",
+			GITHUB_EVENT_NAME: event.name ?? "push",
+			GITHUB_EVENT_PATH: event.payload !== undefined ? "/event.json" : "",
 			GITHUB_RUN_ID: "1",
 			GITHUB_RUN_NUMBER: "1",
 			GITHUB_ACTOR: "test",
@@ -95,14 +106,18 @@ const runDetect = (f: Fixtures): Promise<PhaseDetectionResult> => {
 		}),
 		GitHubClientTest.empty(),
 		PullRequestTest.layer(f.prState),
-		FileSystem.layerNoop({ readFileString: () => Effect.succeed("{}") }),
+		FileSystem.layerNoop({
+			readFileString: (path) => Effect.succeed(path === "/event.json" ? JSON.stringify(event.payload) : "{}"),
+		}),
 	);
 
 	return Effect.runPromise(
-		detectWorkflowPhase({ releaseBranch: RELEASE_BRANCH, targetBranch: TARGET_BRANCH }).pipe(
-			Effect.provide(layer),
-			Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
-		),
+		detectWorkflowPhase({
+			releaseBranch: RELEASE_BRANCH,
+			targetBranch: TARGET_BRANCH,
+			...(event.snapshotLabel !== undefined && { snapshotLabel: event.snapshotLabel }),
+			...(event.lines !== undefined && { lines: event.lines }),
+		}).pipe(Effect.provide(layer), Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none))),
 	);
 };
 
@@ -177,4 +192,91 @@ describe("detectWorkflowPhase", () => {
 		expect(result.isReleaseCommit).toBe(false);
 		expect(result.mergedReleasePRNumber).toBeUndefined();
 	});
+
+	it("returns phase=snapshot for an open pull request carrying the snapshot label", async () => {
+		const result = await runDetect(makeFixtures(), {
+			name: "pull_request",
+			snapshotLabel: "snapshot",
+			payload: {
+				pull_request: {
+					number: 12,
+					state: "open",
+					merged: false,
+					labels: [{ name: "snapshot" }],
+					head: { ref: "feat/thing" },
+					base: { ref: TARGET_BRANCH },
+				},
+			},
+		});
+
+		expect(result.phase).toBe("snapshot");
+		expect(result.reason).toContain("#12");
+	});
+
+	it("ignores the snapshot label when label detection is disabled", async () => {
+		const result = await runDetect(makeFixtures(), {
+			name: "pull_request",
+			snapshotLabel: "",
+			payload: {
+				pull_request: {
+					number: 12,
+					state: "open",
+					merged: false,
+					labels: [{ name: "snapshot" }],
+					head: { ref: "feat/thing" },
+					base: { ref: TARGET_BRANCH },
+				},
+			},
+		});
+
+		expect(result.phase).not.toBe("snapshot");
+	});
+
+	describe("release lines", () => {
+		const line = (targetBranch: string): ReleaseLine => ({
+			targetBranch,
+			releaseBranch: `changeset-release/${targetBranch}`,
+			distTag: null,
+			makeLatest: null,
+			floatingTags: null,
+		});
+		const lines = [line(TARGET_BRANCH), { ...line("release/1.x"), distTag: "v1-lts" }];
+
+		it("runs validation on a maintenance line's release branch", async () => {
+			const result = await runDetect(makeFixtures(), { ref: "refs/heads/changeset-release/release/1.x", lines });
+
+			expect(result.phase).toBe("validation");
+			expect(result.isReleaseBranch).toBe(true);
+			expect(result.releaseLine?.targetBranch).toBe("release/1.x");
+			expect(result.releaseLine?.distTag).toBe("v1-lts");
+		});
+
+		it("detects a merged release PR into a maintenance branch", async () => {
+			const f = makeFixtures({
+				prs: [
+					{
+						number: 9,
+						head: "changeset-release/release/1.x",
+						base: "release/1.x",
+						state: "closed",
+						mergedAt: "2026-01-15T12:00:00Z",
+						mergeCommitSha: MERGE_COMMIT_SHA,
+					},
+				],
+			});
+
+			const result = await runDetect(f, { ref: "refs/heads/release/1.x", lines });
+
+			expect(result.phase).toBe("publishing");
+			expect(result.mergedReleasePRNumber).toBe(9);
+			expect(result.releaseLine?.targetBranch).toBe("release/1.x");
+		});
+
+		it("reports no line for a branch outside every line", async () => {
+			const result = await runDetect(makeFixtures(), { ref: "refs/heads/feat/thing", lines });
+
+			expect(result.phase).toBe("none");
+			expect(result.releaseLine).toBeUndefined();
+		});
+	});
 });
@@ -4,6 +4,7 @@ import {
 	determineReleaseType,
 	determineTagStrategy,
 	isMonorepoForTagging,
+	releaseTrainTag,
 } from "../src/utils/determine-tag-strategy.js";
 import * as releaseSummaryHelpers from "../src/utils/release-summary-helpers.js";
 
@@ -573,6 +574,88 @@ describe("determine-tag-strategy", () => {
 		});
 	});
 
+	describe("determineTagStrategy with tag naming templates", () => {
+		// Version-only packages (no targets) count as released.
+		const released = (...pkgs: Array<[string, string]>): PackagePublishResult[] =>
+			pkgs.map(([name, version]) => ({ name, version, targets: [] }));
+
+		it("renders the single tag from the single template", () => {
+			const result = determineTagStrategy(released(["root-pkg", "1.2.0"]), { single: "release/{version}" });
+
+			expect(result.strategy).toBe("single");
+			expect(result.tags[0].name).toBe("release/1.2.0");
+		});
+
+		it("applies a lone package's override to the single tag", () => {
+			const result = determineTagStrategy(released(["root-pkg", "1.2.0"]), {
+				single: "v{version}",
+				packages: [{ package: "root-pkg", template: "{name}-{version}" }],
+			});
+
+			expect(result.tags[0].name).toBe("root-pkg-1.2.0");
+		});
+
+		it("renders per-package tags from perPackage, with per-package overrides", () => {
+			vi.mocked(releaseSummaryHelpers.getAllWorkspacePackages).mockReturnValue([
+				{
+					name: "@org/pkg-a",
+					version: "1.0.0",
+					path: "/pkgs/a",
+					private: false,
+					hasPublishConfig: true,
+					targetCount: 1,
+				},
+				{
+					name: "@org/pkg-b",
+					version: "2.0.0",
+					path: "/pkgs/b",
+					private: false,
+					hasPublishConfig: true,
+					targetCount: 1,
+				},
+			]);
+
+			const result = determineTagStrategy(released(["@org/pkg-a", "1.1.0"], ["@org/pkg-b", "2.1.0"]), {
+				perPackage: "{unscopedName}-v{version}",
+				packages: [{ package: "@org/pkg-b", template: "b/{version}" }],
+			});
+
+			expect(result.strategy).toBe("multiple");
+			expect(result.tags.map((t) => t.name)).toEqual(["pkg-a-v1.1.0", "b/2.1.0"]);
+		});
+	});
+
+	describe("releaseTrainTag", () => {
+		const tags = [
+			{ name: "@org/pkg-a@1.1.0", packageName: "@org/pkg-a", version: "1.1.0" },
+			{ name: "@org/pkg-b@2.0.0-rc.1", packageName: "@org/pkg-b", version: "2.0.0-rc.1" },
+		];
+		const now = new Date("2026-10-19T12:00:00Z");
+
+		it("names the train by date and commit and covers every package", () => {
+			const train = releaseTrainTag(tags, undefined, now, "abc1234def");
+
+			expect(train.name).toBe("release-2026-10-19-abc1234");
+			expect(train.packageName).toBe("@org/pkg-a, @org/pkg-b");
+			// A prerelease package makes the whole train a prerelease.
+			expect(train.version).toBe("2.0.0-rc.1");
+		});
+
+		it("names two trains released on the same day apart", () => {
+			const morning = releaseTrainTag(tags, undefined, new Date("2026-10-19T08:00:00Z"), "abc1234def");
+			const evening = releaseTrainTag(tags, undefined, new Date("2026-10-19T20:00:00Z"), "fed4321cba");
+
+			expect(morning.name).toBe("release-2026-10-19-abc1234");
+			expect(evening.name).toBe("release-2026-10-19-fed4321");
+		});
+
+		it("uses the configured train template", () => {
+			expect(releaseTrainTag(tags, { train: "train/{date}-{sha}" }, now, "abc1234def").name).toBe(
+				"train/2026-10-19-abc1234",
+			);
+		});
+	});
+
 	describe("determineReleaseType", () => {
 		it("returns major for major bump", () => {
 			const publishResults: PackagePublishResult[] = [
@@ -0,0 +1,28 @@
+/**
+ * Unit tests for config glob patterns (`utils/glob`).
+ */
+
+import { describe, expect, it } from "vitest";
+import { globToRegExp } from "../src/utils/glob.js";
+
+describe("globToRegExp", () => {
+	it("keeps `*` within one path segment", () => {
+		expect(globToRegExp("bin/*.zip").test("bin/app.zip")).toBe(true);
+		expect(globToRegExp("bin/*.zip").test("bin/linux/app.zip")).toBe(false);
+		expect(globToRegExp("@scope/*").test("@scope/core")).toBe(true);
+	});
+
+	it("lets `**/` match zero or more directories", () => {
+		const pattern = globToRegExp("**/*.zip");
+		expect(pattern.test("app.zip")).toBe(true);
+		expect(pattern.test("bin/app.zip")).toBe(true);
+		expect(pattern.test("bin/linux/app.zip")).toBe(true);
+		expect(globToRegExp("dist/**/*.zip").test("dist/app.zip")).toBe(true);
+		expect(globToRegExp("**.zip").test("bin/linux/app.zip")).toBe(true);
+	});
+
+	it("treats other characters literally", () => {
+		expect(globToRegExp("app.zip").test("appXzip")).toBe(false);
+		expect(globToRegExp("(a)+b").test("(a)+b")).toBe(true);
+	});
+});
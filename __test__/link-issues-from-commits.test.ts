@@ -41,7 +41,12 @@ import {
 } from "@savvy-web/github-action-effects/testing";
 import { Effect, Layer, Logger } from "effect";
 import { describe, expect, it } from "vitest";
-import { getLatestTagSha, getLinkedIssuesFromCommits } from "../src/utils/link-issues-from-commits.js";
+import {
+	getLatestTagSha,
+	getLatestTagShaFor,
+	getPreviousTag,
+	getLinkedIssuesFromCommits,
+} from "../src/utils/link-issues-from-commits.js";
 
 // ---------------------------------------------------------------------------
 // Shared constants
@@ -222,6 +227,45 @@ describe("getLatestTagSha", () => {
 	});
 });
 
+describe("getLatestTagShaFor", () => {
+	it("parses tags through the configured naming template", async () => {
+		const state = GitTagTest.empty().state;
+		state.tags.set("core-v1.10.0", "sha-1-10");
+		state.tags.set("core-v1.9.0", "sha-1-9");
+		const sha = await Effect.runPromise(
+			getLatestTagShaFor({ perPackage: "{unscopedName}-v{version}" }).pipe(
+				Effect.provide(GitTagTest.layer(state)),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		);
+		expect(sha).toBe("sha-1-10");
+	});
+});
+
+describe("getPreviousTag", () => {
+	const previousTag = (tags: ReadonlyArray<string>, tagName: string, version: string) => {
+		const state = GitTagTest.empty().state;
+		for (const tag of tags) state.tags.set(tag, `sha-${tag}`);
+		return Effect.runPromise(
+			getPreviousTag(tagName, version).pipe(
+				Effect.provide(GitTagTest.layer(state)),
+				Effect.provide(Logger.replace(Logger.defaultLogger, Logger.none)),
+			),
+		);
+	};
+
+	it("returns the highest earlier tag in the same tag line", async () => {
+		const tags = ["@scope/a@1.9.0", "@scope/a@1.10.0", "@scope/a@2.1.0", "@scope/b@1.11.0", "v1.12.0"];
+
+		expect(await previousTag(tags, "@scope/a@2.0.0", "2.0.0")).toEqual({ tag: "@scope/a@1.10.0", version: "1.10.0" });
+	});
+
+	it("returns null for a first release or a tag without its version", async () => {
+		expect(await previousTag(["@scope/b@1.0.0"], "@scope/a@1.0.0", "1.0.0")).toBeNull();
+		expect(await previousTag(["v1.0.0"], "release-2026-10-19", "1.1.0")).toBeNull();
+	});
+});
+
 describe("getLinkedIssuesFromCommits", () => {
 	describe("latest-tag selection", () => {
 		it("uses the semver-latest tag's SHA as the compareCommits base", async () => {
@@ -19,7 +19,9 @@ import { Effect } from "effect";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import type { LoadReleaseConfigResult, LoadSBOMConfigResult } from "../src/utils/load-release-config.js";
 import {
+	checkReleaseNotesTemplate,
 	loadReleaseConfig as loadReleaseConfigEffect,
+	loadReleaseNotesTemplate,
 	loadSBOMConfig as loadSBOMConfigEffect,
 } from "../src/utils/load-release-config.js";
 
@@ -125,6 +127,61 @@ describe("loadReleaseConfig - happy path", () => {
 		expect(result.config?.sbom?.supplier?.contact).toEqual({ email: "x@example" });
 	});
 
+	it("decodes a budgets section alongside sbom", () => {
+		writeLocal(
+			"silk-release.json",
+			JSON.stringify({
+				budgets: [
+					{ package: "@savvy-web/core", maxPackedBytes: 51200, maxGrowthPercent: 12.5 },
+					{ package: "@savvy-web/*", maxFileCount: 40 },
+				],
+			}),
+		);
+
+		const result = loadReleaseConfig(tmpRoot);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.config?.sbom).toBeUndefined();
+		expect(result.config?.budgets).toEqual([
+			{ package: "@savvy-web/core", maxPackedBytes: 51200, maxGrowthPercent: 12.5 },
+			{ package: "@savvy-web/*", maxFileCount: 40 },
+		]);
+	});
+
+	it("decodes a tags section with per-package overrides", () => {
+		writeLocal(
+			"silk-release.json",
+			JSON.stringify({
+				tags: {
+					single: "v{version}",
+					perPackage: "{unscopedName}-v{version}",
+					packages: [{ package: "@savvy-web/core", template: "core/{version}" }],
+				},
+			}),
+		);
+
+		const result = loadReleaseConfig(tmpRoot);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.config?.tags?.perPackage).toBe("{unscopedName}-v{version}");
+		expect(result.config?.tags?.packages).toEqual([{ package: "@savvy-web/core", template: "core/{version}" }]);
+	});
+
+	it("decodes a licensePolicy section", () => {
+		writeLocal(
+			"silk-release.json",
+			JSON.stringify({ licensePolicy: { allow: ["MIT", "ISC"], deny: ["AGPL-3.0-only"], unknown: "error" } }),
+		);
+
+		const result = loadReleaseConfig(tmpRoot);
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.config?.licensePolicy).toEqual({ allow: ["MIT", "ISC"], deny: ["AGPL-3.0-only"], unknown: "error" });
+	});
+
 	it("returns config: undefined and source: 'none' when no source supplies one", () => {
 		const result = loadReleaseConfig(tmpRoot);
 
@@ -172,6 +229,33 @@ describe("loadReleaseConfig - structural failures", () => {
 		expect(result.error).toMatch(/sbom\.supplier\.name/);
 	});
 
+	it("rejects an unknown licensePolicy severity", () => {
+		writeLocal("silk-release.json", JSON.stringify({ licensePolicy: { copyleft: "block" } }));
+
+		const result = loadReleaseConfig(tmpRoot);
+
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.error).toMatch(/licensePolicy\.copyleft/);
+	});
+
+	it("rejects version tag templates missing their placeholders", () => {
+		const cases: ReadonlyArray<[unknown, RegExp]> = [
+			[{ single: "latest" }, /tags\.single: must contain `\{version\}`/],
+			[{ perPackage: "v{version}" }, /tags\.perPackage: must contain `\{version\}` and one of `\{name\}`/],
+			[{ packages: [{ package: "@savvy-web/core", template: "core" }] }, /tags\.packages\.0\.template: must contain/],
+		];
+		for (const [tags, message] of cases) {
+			writeLocal("silk-release.json", JSON.stringify({ tags }));
+
+			const result = loadReleaseConfig(tmpRoot);
+
+			expect(result.ok).toBe(false);
+			if (result.ok) continue;
+			expect(result.error).toMatch(message);
+		}
+	});
+
 	it("rejects a fractional startYear (Schema.Int)", () => {
 		writeLocal("silk-release.json", JSON.stringify({ sbom: { copyright: { startYear: 2024.5 } } }));
 
@@ -286,3 +370,52 @@ describe("loadSBOMConfig", () => {
 		expect(result.source.source).toBe("local");
 	});
 });
+
+describe("loadReleaseNotesTemplate", () => {
+	const run = (rootDir: string): string | null =>
+		Effect.runSync(loadReleaseNotesTemplate(rootDir).pipe(Effect.withConfigProvider(ActionsConfigProvider)));
+
+	it("reads the configured template relative to the repository root", () => {
+		writeLocal("silk-release.json", JSON.stringify({ releaseNotes: { template: ".github/release-notes.md" } }));
+		writeLocal("release-notes.md", "# {{tag}}\n");
+
+		expect(run(tmpRoot)).toBe("# {{tag}}\n");
+	});
+
+	it("returns null when no template is configured", () => {
+		writeLocal("silk-release.json", JSON.stringify({ releaseNotes: {} }));
+
+		expect(run(tmpRoot)).toBeNull();
+	});
+
+	it("returns null when the template file does not exist", () => {
+		writeLocal("silk-release.json", JSON.stringify({ releaseNotes: { template: ".github/missing.md" } }));
+
+		expect(run(tmpRoot)).toBeNull();
+	});
+
+	it("returns null when the template path is a directory", () => {
+		writeLocal("silk-release.json", JSON.stringify({ releaseNotes: { template: ".github" } }));
+
+		expect(run(tmpRoot)).toBeNull();
+	});
+});
+
+describe("checkReleaseNotesTemplate", () => {
+	const check = (templatePath: string): string | null =>
+		Effect.runSync(checkReleaseNotesTemplate(templatePath, tmpRoot));
+
+	it("accepts a template that renders", () => {
+		writeLocal("release-notes.md", "# {{tag}}\n{{#each packages}}- {{name}}\n{{/each}}");
+
+		expect(check(".github/release-notes.md")).toBeNull();
+	});
+
+	it("describes a template that is missing, unreadable, or does not render", () => {
+		writeLocal("release-notes.md", "{{#each packages}}- {{name}}\n");
+
+		expect(check(".github/missing.md")).toBe(".github/missing.md not found");
+		expect(check(".github")).toMatch(/^\.github cannot be read: /);
+		expect(check(".github/release-notes.md")).toMatch(/^\.github\/release-notes\.md does not render: /);
+	});
+});
@@ -70,6 +70,22 @@ describe("toBranchManagementOutput", () => {
 		expect(output.status).toBe("partial");
 		expect(output.dryRun).toBe(true);
 	});
+
+	it("reports pre mode off when no pre tag is given", () => {
+		const output = toBranchManagementOutput({
+			releaseBranchName: "changeset-release/main",
+			existed: true,
+			created: false,
+			updated: true,
+			hasConflicts: false,
+			releasePr: null,
+			changesets: [{ name: "@savvy-web/foo", bumpType: "minor" }],
+			dryRun: false,
+		});
+
+		expect(output.preMode).toBe(false);
+		expect(output.preTag).toBe(null);
+	});
 });
 
 describe("toValidationOutput", () => {
@@ -170,6 +186,7 @@ describe("toValidationOutput", () => {
 					fileCount: 5,
 					sbom: { componentCount: 3, ntiaCompliant: true, missingNtiaFields: [] },
 					targets: [{ registry: "https://registry.npmjs.org/", status: "ready", access: "public", provenance: false }],
+					tarballDiff: null,
 				},
 			],
 			releaseNotes: { status: "found", content: "### Minor Changes\n\n- something" },
@@ -430,6 +447,7 @@ describe("toPublishingOutput", () => {
 			name: "@savvy-web/foo@1.2.0",
 			sha: "abc123",
 			packageName: "@savvy-web/foo",
+			floatingTags: [],
 		});
 		expect(output.dryRun).toBe(false);
 		expect(output.publishing.releases[0]).toEqual({
@@ -471,6 +489,33 @@ describe("toPublishingOutput", () => {
 		expect(output.hasFailures).toBe(false);
 	});
 
+	it("projects targets carried over from a resumed run as skipped", () => {
+		const pkg: PackagePublishResult = {
+			name: "@savvy-web/foo",
+			version: "1.2.0",
+			targets: [target({ success: true, status: "skipped", skipReason: "resumed" })],
+		};
+		const output = toPublishingOutput({
+			publishResult: {
+				success: true,
+				packages: [pkg],
+				totalPackages: 1,
+				successfulPackages: 1,
+				totalTargets: 1,
+				successfulTargets: 1,
+			},
+			tags: [],
+			releases: [],
+			tagShas: {},
+			dryRun: false,
+		});
+
+		expect(output.publishing.packages[0]?.status).toBe("skipped");
+		expect(output.publishing.packages[0]?.skipReason).toBe("resumed");
+		expect(output.publishing.packages[0]?.targets[0]?.skipReason).toBe("resumed");
+		expect(output.hasFailures).toBe(false);
+	});
+
 	it("treats a content-mismatch (different) target as failed, not skipped", () => {
 		const pkg: PackagePublishResult = {
 			name: "@savvy-web/foo",
@@ -525,7 +570,12 @@ describe("toPublishingOutput", () => {
 
 		expect(output.publishing.packages[0]?.status).toBe("published");
 		expect(output.publishing.packages[0]?.targets).toEqual([]);
-		expect(output.publishing.tags[0]).toEqual({ name: "@savvy-web/foo@1.2.0", sha: "", packageName: "@savvy-web/foo" });
+		expect(output.publishing.tags[0]).toEqual({
+			name: "@savvy-web/foo@1.2.0",
+			sha: "",
+			packageName: "@savvy-web/foo",
+			floatingTags: [],
+		});
 	});
 
 	it("falls back to the 'jsr' string when a target registry is null", () => {
@@ -565,6 +615,109 @@ describe("toPublishingOutput", () => {
 		expect(output.publishing.packages[0]?.targets[0]?.registry).toBe("jsr");
 	});
 
+	it("projects per-target dist-tag changes, defaulting error to null", () => {
+		const pkg: PackagePublishResult = {
+			name: "@savvy-web/foo",
+			version: "1.2.0",
+			targets: [
+				target({
+					success: true,
+					status: "published",
+					distTags: [
+						{ tag: "next", source: "publish", status: "applied" },
+						{ tag: "latest", source: "promote", status: "failed", error: "E403" },
+					],
+				}),
+				target({ success: false, status: "failed", error: "boom" }),
+			],
+		};
+		const output = toPublishingOutput({
+			publishResult: {
+				success: false,
+				packages: [pkg],
+				totalPackages: 1,
+				successfulPackages: 0,
+				totalTargets: 2,
+				successfulTargets: 1,
+			},
+			tags: [],
+			releases: [],
+			tagShas: {},
+			dryRun: false,
+		});
+
+		expect(output.publishing.packages[0]?.targets[0]?.distTags).toEqual([
+			{ tag: "next", source: "publish", status: "applied", error: null },
+			{ tag: "latest", source: "promote", status: "failed", error: "E403" },
+		]);
+		expect(output.publishing.packages[0]?.targets[1]?.distTags).toEqual([]);
+	});
+
+	it("projects the post-publish verification, null when none ran", () => {
+		const pkg: PackagePublishResult = {
+			name: "@savvy-web/foo",
+			version: "1.2.0",
+			targets: [
+				target({
+					success: true,
+					status: "published",
+					verification: { status: "verified", latencyMs: 4213, attempts: 3, remoteDigest: "sha512-AAAA" },
+				}),
+				target({ success: true, status: "published" }),
+			],
+		};
+		const output = toPublishingOutput({
+			publishResult: {
+				success: true,
+				packages: [pkg],
+				totalPackages: 1,
+				successfulPackages: 1,
+				totalTargets: 2,
+				successfulTargets: 2,
+			},
+			tags: [],
+			releases: [],
+			tagShas: {},
+			dryRun: false,
+		});
+
+		expect(output.publishing.packages[0]?.targets[0]?.verification).toEqual({
+			status: "verified",
+			latencyMs: 4213,
+			attempts: 3,
+		});
+		expect(output.publishing.packages[0]?.targets[1]?.verification).toBe(null);
+	});
+
+	it("reports floating tags on the exact-version tag they follow", () => {
+		const output = toPublishingOutput({
+			publishResult: {
+				success: true,
+				packages: [],
+				totalPackages: 1,
+				successfulPackages: 1,
+				totalTargets: 0,
+				successfulTargets: 0,
+			},
+			tags: [
+				{ name: "@savvy-web/foo@1.2.0", packageName: "@savvy-web/foo", version: "1.2.0" },
+				{ name: "@savvy-web/bar@2.0.0-rc.0", packageName: "@savvy-web/bar", version: "2.0.0-rc.0" },
+			],
+			releases: [],
+			tagShas: {},
+			floatingTags: [
+				{ name: "@savvy-web/foo@v1", tag: "@savvy-web/foo@1.2.0", previousSha: "old" },
+				{ name: "@savvy-web/foo@v1.2", tag: "@savvy-web/foo@1.2.0", previousSha: null },
+			],
+			dryRun: false,
+		});
+
+		expect(output.publishing.tags.map((t) => t.floatingTags)).toEqual([
+			["@savvy-web/foo@v1", "@savvy-web/foo@v1.2"],
+			[],
+		]);
+	});
+
 	it("reports a no-op when nothing was released", () => {
 		const output = toPublishingOutput({
 			publishResult: {
@@ -584,4 +737,25 @@ describe("toPublishingOutput", () => {
 		expect(output.noop).toBe(true);
 		expect(output.status).toBe("no-op");
 	});
+
+	it("reports the active Changesets pre tag", () => {
+		const output = toPublishingOutput({
+			publishResult: {
+				success: true,
+				packages: [],
+				totalPackages: 0,
+				successfulPackages: 0,
+				totalTargets: 0,
+				successfulTargets: 0,
+			},
+			tags: [],
+			releases: [],
+			tagShas: {},
+			dryRun: false,
+			preTag: "beta",
+		});
+
+		expect(output.preMode).toBe(true);
+		expect(output.preTag).toBe("beta");
+	});
 });
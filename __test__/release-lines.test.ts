@@ -0,0 +1,82 @@
+/**
+ * Unit tests for release line resolution (`utils/release-lines`).
+ */
+
+import { Config, ConfigProvider, Effect } from "effect";
+import { describe, expect, it } from "vitest";
+import { resolveReleaseLines, selectReleaseLine, withReleaseLine } from "../src/utils/release-lines.js";
+
+const PRIMARY = { releaseBranch: "changeset-release/main", targetBranch: "main" };
+
+describe("resolveReleaseLines", () => {
+	it("puts the primary line first and derives maintenance release branches", () => {
+		const lines = resolveReleaseLines(PRIMARY, [
+			{ target: "release/1.x", distTag: "v1-lts", makeLatest: "false" },
+			{ target: "release/2.x", releaseBranch: "release-pr/2.x" },
+		]);
+
+		expect(lines).toEqual([
+			{ ...PRIMARY, distTag: null, makeLatest: null, floatingTags: null },
+			{
+				targetBranch: "release/1.x",
+				releaseBranch: "changeset-release/release/1.x",
+				distTag: "v1-lts",
+				makeLatest: "false",
+				floatingTags: null,
+			},
+			{
+				targetBranch: "release/2.x",
+				releaseBranch: "release-pr/2.x",
+				distTag: null,
+				makeLatest: null,
+				floatingTags: null,
+			},
+		]);
+	});
+
+	it("merges an entry for the primary target into the primary line", () => {
+		const lines = resolveReleaseLines(PRIMARY, [{ target: "main", floatingTags: true }]);
+
+		expect(lines).toEqual([{ ...PRIMARY, distTag: null, makeLatest: null, floatingTags: true }]);
+	});
+});
+
+describe("selectReleaseLine", () => {
+	const lines = resolveReleaseLines(PRIMARY, [{ target: "release/1.x" }]);
+
+	it("matches a push to a line's target or release branch", () => {
+		expect(selectReleaseLine(lines, "refs/heads/release/1.x", undefined)?.targetBranch).toBe("release/1.x");
+		expect(selectReleaseLine(lines, "refs/heads/changeset-release/release/1.x", undefined)?.targetBranch).toBe(
+			"release/1.x",
+		);
+		expect(selectReleaseLine(lines, "refs/heads/main", undefined)?.targetBranch).toBe("main");
+	});
+
+	it("matches a pull request by its base branch", () => {
+		expect(selectReleaseLine(lines, "refs/pull/4/merge", "release/1.x")?.targetBranch).toBe("release/1.x");
+		expect(selectReleaseLine(lines, "refs/pull/4/merge", "develop")).toBeUndefined();
+	});
+});
+
+describe("withReleaseLine", () => {
+	it("layers the line's settings over the ambient inputs", async () => {
+		const line = resolveReleaseLines(PRIMARY, [{ target: "release/1.x", distTag: "v1-lts" }])[1];
+		if (line === undefined) throw new Error("expected a maintenance line");
+		const ambient = ConfigProvider.fromMap(
+			new Map([
+				["target-branch", "main"],
+				["dry-run", "true"],
+			]),
+		);
+
+		const read = Effect.all([
+			Config.string("target-branch"),
+			Config.string("release-branch"),
+			Config.string("dist-tag"),
+			Config.boolean("dry-run"),
+		]);
+		const result = await Effect.runPromise(withReleaseLine(line, read).pipe(Effect.withConfigProvider(ambient)));
+
+		expect(result).toEqual(["release/1.x", "changeset-release/release/1.x", "v1-lts", true]);
+	});
+});
@@ -41,6 +41,8 @@ describe("ReleaseOutput schema", () => {
 		succeeded: true,
 		hasFailures: false,
 		dryRun: false,
+		preMode: false,
+		preTag: null,
 		branchManagement: {
 			releaseBranch: {
 				name: "changeset-release/main",
@@ -63,6 +65,8 @@ describe("ReleaseOutput schema", () => {
 		succeeded: true,
 		hasFailures: false,
 		dryRun: false,
+		preMode: false,
+		preTag: null,
 		publishing: {
 			packages: [
 				{
@@ -80,13 +84,15 @@ describe("ReleaseOutput schema", () => {
 							error: null,
 							attestationRecovered: null,
 							sbomAttestationRecovered: null,
+							distTags: [],
+							verification: null,
 						},
 					],
 					attestations: { provenanceUrl: null, sbomUrl: null, githubAttestationUrl: null },
 					tarballDigest: "sha256:abc",
 				},
 			],
-			tags: [{ name: "@savvy-web/foo@1.2.0", sha: "abc123", packageName: "@savvy-web/foo" }],
+			tags: [{ name: "@savvy-web/foo@1.2.0", sha: "abc123", packageName: "@savvy-web/foo", floatingTags: [] }],
 			releases: [
 				{ tag: "@savvy-web/foo@1.2.0", url: "https://example.com/r/1", id: 999, packageName: "@savvy-web/foo" },
 			],
@@ -102,6 +108,8 @@ describe("ReleaseOutput schema", () => {
 		succeeded: true,
 		hasFailures: false,
 		dryRun: false,
+		preMode: false,
+		preTag: null,
 		validation: {
 			buildValidation: { passed: true, packageCount: 1 },
 			checks: [{ name: "Build Validation", status: "pass", outcome: "Build passed", url: null }],
@@ -135,6 +143,7 @@ describe("ReleaseOutput schema", () => {
 										provenance: false,
 									},
 								],
+								tarballDiff: null,
 							},
 						],
 						releaseNotes: { status: "found", content: "### Minor Changes\n\n- something" },
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for Handlebars-style templates (`utils/render-template`).
+ */
+
+import { Either } from "effect";
+import { describe, expect, it } from "vitest";
+import type { TemplateContext } from "../src/utils/render-template.js";
+import { renderTemplate } from "../src/utils/render-template.js";
+
+const render = (template: string, context: TemplateContext): string =>
+	Either.getOrThrowWith(renderTemplate(template, context), (error) => new Error(error));
+
+describe("renderTemplate", () => {
+	it("fills placeholders, including nested names", () => {
+		expect(
+			render("{{ name }}@{{version}} ({{repo.owner}})", { name: "pkg", version: "1.0.0", repo: { owner: "o" } }),
+		).toBe("pkg@1.0.0 (o)");
+	});
+
+	it("joins arrays and renders missing values empty", () => {
+		expect(render("[{{links}}][{{missing}}]", { links: ["a", "b"] })).toBe("[a, b][]");
+	});
+
+	it("repeats each blocks, resolving names on the item before the enclosing scope", () => {
+		const context = { tag: "v2", packages: [{ name: "a" }, { name: "b" }], labels: ["x", "y"] };
+
+		expect(render("{{#each packages}}{{name}}:{{tag}} {{/each}}", context)).toBe("a:v2 b:v2 ");
+		expect(render("{{#each labels}}<{{this}}>{{/each}}", context)).toBe("<x><y>");
+	});
+
+	it("renders if blocks on truthy values, with an else branch", () => {
+		const template = "{{#if issues}}{{#each issues}}#{{number}} {{/each}}{{else}}none{{/if}}";
+
+		expect(render(template, { issues: [{ number: 1 }, { number: 2 }] })).toBe("#1 #2 ");
+		expect(render(template, { issues: [] })).toBe("none");
+		expect(render("{{#if note}}yes{{/if}}", { note: "" })).toBe("");
+	});
+
+	it("rejects unbalanced blocks and malformed placeholders", () => {
+		expect(renderTemplate("{{#each packages}}{{name}}", {})).toEqual(
+			Either.left("`{{#each packages}}` is never closed"),
+		);
+		expect(Either.isLeft(renderTemplate("{{#if a}}{{/each}}", {}))).toBe(true);
+		expect(Either.isLeft(renderTemplate("{{else}}", {}))).toBe(true);
+		expect(Either.isLeft(renderTemplate("{{name with spaces}}", {}))).toBe(true);
+	});
+});
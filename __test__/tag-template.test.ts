@@ -0,0 +1,89 @@
+/**
+ * Unit tests for tag naming templates (`utils/tag-template`).
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+	extractVersionFromTag,
+	floatingTagNames,
+	lineVersion,
+	renderTagName,
+	renderTrainTagName,
+	resolveTagTemplate,
+} from "../src/utils/tag-template.js";
+
+describe("renderTagName", () => {
+	it("fills the name, unscoped name, and version placeholders", () => {
+		expect(renderTagName("{unscopedName}-v{version}", "@savvy-web/core", "1.2.0")).toBe("core-v1.2.0");
+		expect(renderTagName("{name}@{version}", "@savvy-web/core", "1.2.0")).toBe("@savvy-web/core@1.2.0");
+		expect(renderTagName("{unscopedName}/{version}", "plain", "0.1.0")).toBe("plain/0.1.0");
+	});
+});
+
+describe("resolveTagTemplate", () => {
+	it("falls back to the built-in templates without config", () => {
+		expect(resolveTagTemplate(undefined, "@scope/pkg", "single")).toBe("{version}");
+		expect(resolveTagTemplate(undefined, "@scope/pkg", "multiple")).toBe("{name}@{version}");
+		expect(resolveTagTemplate(undefined, "pkg", "multiple")).toBe("{name}@v{version}");
+	});
+
+	it("prefers a package override over the strategy template", () => {
+		const naming = {
+			single: "v{version}",
+			perPackage: "{unscopedName}-v{version}",
+			packages: [{ package: "@scope/special", template: "special/{version}" }],
+		};
+		expect(resolveTagTemplate(naming, "@scope/special", "multiple")).toBe("special/{version}");
+		expect(resolveTagTemplate(naming, "@scope/other", "multiple")).toBe("{unscopedName}-v{version}");
+		expect(resolveTagTemplate(naming, "@scope/other", "single")).toBe("v{version}");
+	});
+});
+
+describe("extractVersionFromTag", () => {
+	it("reads the version through a configured template", () => {
+		const naming = { perPackage: "{unscopedName}-v{version}", single: "release/{version}" };
+		expect(extractVersionFromTag("core-v1.10.0", naming)).toBe("1.10.0");
+		expect(extractVersionFromTag("release/2.0.0-beta.1", naming)).toBe("2.0.0-beta.1");
+	});
+
+	it("falls back to the built-in formats for tags no template matches", () => {
+		const naming = { perPackage: "{unscopedName}-v{version}" };
+		expect(extractVersionFromTag("@scope/pkg@1.0.0", naming)).toBe("1.0.0");
+		expect(extractVersionFromTag("v3.1.4")).toBe("3.1.4");
+		expect(extractVersionFromTag("3.1.4")).toBe("3.1.4");
+	});
+});
+
+describe("floatingTagNames", () => {
+	it("replaces the version with its major and major.minor", () => {
+		expect(floatingTagNames("v2.3.1", "2.3.1")).toEqual(["v2", "v2.3"]);
+		expect(floatingTagNames("2.3.1", "2.3.1")).toEqual(["v2", "v2.3"]);
+		expect(floatingTagNames("@scope/pkg@2.3.1", "2.3.1")).toEqual(["@scope/pkg@v2", "@scope/pkg@v2.3"]);
+		expect(floatingTagNames("core-v2.3.1", "2.3.1")).toEqual(["core-v2", "core-v2.3"]);
+	});
+
+	it("returns nothing when the tag does not contain the version", () => {
+		expect(floatingTagNames("release", "2.3.1")).toEqual([]);
+	});
+});
+
+describe("renderTrainTagName", () => {
+	it("fills the UTC date and the short commit SHA", () => {
+		const now = new Date("2026-10-19T23:30:00Z");
+		expect(renderTrainTagName("release-{date}", now, "abc1234def")).toBe("release-2026-10-19");
+		expect(renderTrainTagName("train/{date}-{sha}", now, "abc1234def")).toBe("train/2026-10-19-abc1234");
+	});
+});
+
+describe("lineVersion", () => {
+	it("reads the version of a tag in the same line", () => {
+		expect(lineVersion("v1.4.2", "v2.0.0", "2.0.0")).toBe("1.4.2");
+		expect(lineVersion("@scope/pkg@1.4.2", "@scope/pkg@2.0.0", "2.0.0")).toBe("1.4.2");
+	});
+
+	it("returns null for a tag in a different line", () => {
+		expect(lineVersion("@scope/other@3.0.0", "@scope/pkg@2.0.0", "2.0.0")).toBeNull();
+		expect(lineVersion("@scope/pkg@1.4.2", "2.0.0", "2.0.0")).toBeNull();
+		expect(lineVersion("v1.4.2", "release-2026-10-19", "2.0.0")).toBeNull();
+	});
+});
@@ -4,9 +4,11 @@
  * @remarks
  * Exercises the paths rewired onto the `PullRequest` and `GitHubIssue` library
  * services: PR discovery (open/closed), creation, title/body updates, reopen,
- * and linked-issue harvesting. The still-raw `client.rest` calls (`git.getRef`)
- * are satisfied through `GitHubClientTest` recorded responses; issue details
- * are seeded via `GitHubIssueTest`.
+ * linked-issue harvesting, and contributor acknowledgements. The still-raw
+ * `client.rest` calls (`git.getRef`, `repos.getCommit`) are satisfied through
+ * `GitHubClientTest` recorded responses; issue details are seeded via
+ * `GitHubIssueTest`, and the commits since the last release via
+ * `GitHubCommitTest`.
  */
 
 import { FileSystem } from "@effect/platform";
@@ -16,6 +18,7 @@ import type {
 	CheckRunTestState,
 	GitCommitTestState,
 	GitHubClientTestState,
+	GitHubCommitTestState,
 	GitHubIssueTestState,
 	PullRequestTestState,
 } from "@savvy-web/github-action-effects/testing";
@@ -27,7 +30,9 @@ import {
 	CommandRunnerTest,
 	GitCommitTest,
 	GitHubClientTest,
+	GitHubCommitTest,
 	GitHubIssueTest,
+	GitTagTest,
 	PullRequestTest,
 } from "@savvy-web/github-action-effects/testing";
 import { ConfigProvider, Effect, Layer, Logger } from "effect";
@@ -46,6 +51,7 @@ interface Fixtures {
 	prState: PullRequestTestState;
 	issueState: GitHubIssueTestState;
 	clientState: GitHubClientTestState;
+	githubCommitState: GitHubCommitTestState;
 }
 
 const makeFixtures = (
@@ -62,6 +68,8 @@ const makeFixtures = (
 		linkedIssues?: Array<[number, Array<{ number: number; title: string }>]>;
 		issueDetails?: Array<{ number: number; title: string; state: string; htmlUrl?: string; nodeId?: string }>;
 		restResponses?: Array<[string, unknown]>;
+		/** Commits on the target branch; with no tags, all of them are since the last release. */
+		branchCommits?: Array<{ sha: string; message: string; author: string }>;
 	} = {},
 ): Fixtures => {
 	const prState = PullRequestTest.empty();
@@ -110,6 +118,9 @@ const makeFixtures = (
 		repo: { owner: "owner", repo: "repo" },
 	};
 
+	const githubCommitState = GitHubCommitTest.empty();
+	githubCommitState.commitLists.set(TARGET_BRANCH, params.branchCommits ?? []);
+
 	return {
 		outputsState: ActionOutputsTest.empty(),
 		stateState: ActionStateTest.empty(),
@@ -118,6 +129,7 @@ const makeFixtures = (
 		prState,
 		issueState: issue.state,
 		clientState,
+		githubCommitState,
 	};
 };
 
@@ -158,7 +170,9 @@ const runStage = (
 		),
 		GitCommitTest.layer(f.commitState),
 		GitHubClientTest.layer(f.clientState),
+		GitHubCommitTest.layer(f.githubCommitState),
 		GitHubIssueTest.layer(f.issueState),
+		GitTagTest.empty().layer,
 		PullRequestTest.layer(f.prState),
 		FileSystem.layerNoop({
 			readDirectory: () => Effect.succeed([...changesetFiles]),
@@ -255,4 +269,22 @@ describe("updateReleaseBranch", () => {
 
 		expect(result.linkedIssues.map((i: LinkedIssue) => i.number)).toContain(55);
 	});
+
+	it("credits the commit authors in a Contributors section, leaving out bots", async () => {
+		const f = makeFixtures({
+			restResponses: [...refResponse, ["repos.getCommit", { author: { login: "octocat" } }]],
+			branchCommits: [
+				{ sha: "c1", message: "feat: add thing", author: "Mona" },
+				{ sha: "c2", message: "chore(deps): bump", author: "dependabot[bot]" },
+				{ sha: "c3", message: "fix: thing", author: "Mona" },
+			],
+		});
+
+		await runStage(f, noVersionChange);
+
+		const body = f.prState.prs.find((pr) => pr.head === RELEASE_BRANCH)?.body ?? "";
+		expect(body).toContain("## Contributors");
+		expect(body.match(/@octocat/g)).toHaveLength(1);
+		expect(body).not.toContain("dependabot");
+	});
 });
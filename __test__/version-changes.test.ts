@@ -0,0 +1,34 @@
+/**
+ * Unit tests for release compare links (`utils/version-changes`).
+ */
+
+import { describe, expect, it } from "vitest";
+import { compareUrl, formatVersionChanges } from "../src/utils/version-changes.js";
+
+const REPO_URL = "https://github.com/owner/repo";
+
+describe("compareUrl", () => {
+	it("encodes scoped tag names", () => {
+		expect(compareUrl(REPO_URL, "@scope/pkg@1.0.0", "@scope/pkg@1.1.0")).toBe(
+			"https://github.com/owner/repo/compare/%40scope%2Fpkg%401.0.0...%40scope%2Fpkg%401.1.0",
+		);
+	});
+});
+
+describe("formatVersionChanges", () => {
+	it("links each bump from its previous tag to the head ref, and marks first releases", () => {
+		const list = formatVersionChanges(
+			[
+				{ name: "a", version: "1.1.0", tag: "a@v1.1.0", previousTag: "a@v1.0.0", previousVersion: "1.0.0" },
+				{ name: "b", version: "0.1.0", tag: "b@v0.1.0", previousTag: null, previousVersion: null },
+			],
+			REPO_URL,
+			"changeset-release/main",
+		);
+
+		expect(list.split("\n")).toEqual([
+			"- `a`: 1.0.0 → 1.1.0 ([full changelog](https://github.com/owner/repo/compare/a%40v1.0.0...changeset-release%2Fmain))",
+			"- `b`: 0.1.0 (first release)",
+		]);
+	});
+});
@@ -35,6 +35,7 @@ import {
 	GitHubCommitLive,
 	GitHubContentLive,
 	GitHubGraphQLLive,
+	GitHubIssue,
 	GitHubIssueLive,
 	GitHubReleaseLive,
 	GitHubToken,
@@ -49,16 +50,37 @@ import {
 	Step,
 } from "@savvy-web/github-action-effects";
 import { Config, Effect, Layer, Option } from "effect";
+import { summarizeApiDiffs } from "./release/api-diff.js";
+import { summarizeBumpConsistency } from "./release/bump-consistency.js";
 import { ReleaseLive } from "./release/layers.js";
+import type { LicenseVerdict } from "./release/license-policy.js";
+import { summarizeLicenseCompliance } from "./release/license-policy.js";
+import type { PublishManifest } from "./release/manifest.js";
+import {
+	completedRelease,
+	manifestFromPublish,
+	manifestReleases,
+	readPublishManifest,
+	withReleases,
+	writePublishManifest,
+} from "./release/manifest.js";
+import { summarizePackageLint } from "./release/package-lint.js";
 import { detectReleases, runBuildAndSbom, runPublishTargets } from "./release/publish.js";
-import { runReleases } from "./release/releases.js";
+import { createDraftReleases, runReleases } from "./release/releases.js";
 import {
+	buildLicenseComplianceSummary,
 	buildPublishValidationSummary,
+	buildRegistryAuthSummary,
 	buildReleaseNotesPreviewSummary,
 	buildSbomPreviewSummary,
+	buildSnapshotComment,
 	buildValidationComment,
 } from "./release/report.js";
+import { summarizeSmokeTests } from "./release/smoke-test.js";
+import { versionSnapshot } from "./release/snapshot.js";
+import { summarizeTarballDiffs } from "./release/tarball-diff.js";
 import type {
+	FloatingTagInfo,
 	PublishPackagesResult,
 	ReleaseInfo,
 	ValidationFinding,
@@ -69,19 +91,30 @@ import { toBranchManagementOutput, toPublishingOutput, toValidationOutput } from
 import type { ValidationOutput } from "./schema/release-output.js";
 import { ReleaseOutput } from "./schema/release-output.js";
 import { GithubPackagesTokenState, STATE_KEYS } from "./state.js";
+import type { AuthSetupResult } from "./types/publish-config.js";
 import type { ResolvedSBOMMetadata } from "./types/sbom-config.js";
 import { checkReleaseBranch } from "./utils/check-release-branch.js";
 import { cleanupValidationChecks } from "./utils/cleanup-validation-checks.js";
 import { closeLinkedIssues } from "./utils/close-linked-issues.js";
+import { resolveContributors } from "./utils/contributors.js";
 import { createReleaseBranch } from "./utils/create-release-branch.js";
 import { createValidationCheck } from "./utils/create-validation-check.js";
 import { deriveCheckConclusion } from "./utils/derive-check-conclusion.js";
+import { detectPreTag } from "./utils/detect-pre-mode.js";
 import type { WorkflowPhase } from "./utils/detect-workflow-phase.js";
 import { detectWorkflowPhase } from "./utils/detect-workflow-phase.js";
 import type { TagInfo } from "./utils/determine-tag-strategy.js";
-import { determineTagStrategy } from "./utils/determine-tag-strategy.js";
-import { linkIssuesFromCommits } from "./utils/link-issues-from-commits.js";
+import { determineTagStrategy, releaseTrainTag } from "./utils/determine-tag-strategy.js";
+import { getCommitsSinceLatestTag, linkIssuesFromCommits } from "./utils/link-issues-from-commits.js";
 import type { ConfigSource } from "./utils/load-release-config.js";
+import {
+	loadExcludedContributors,
+	loadReleaseAssets,
+	loadReleaseNotesTemplate,
+	loadTagNaming,
+	loadTargetBranches,
+} from "./utils/load-release-config.js";
+import { resolveReleaseLines, withReleaseLine } from "./utils/release-lines.js";
 import { updateReleaseBranch } from "./utils/update-release-branch.js";
 import { updateStickyComment } from "./utils/update-sticky-comment.js";
 import { validateBuilds } from "./utils/validate-builds.js";
@@ -167,6 +200,9 @@ const emitReleaseOutput = (
 
 const runBranchManagement = Effect.gen(function* () {
 	const packageManager = yield* detectPackageManager;
+	// Read before the version command runs — `changeset version` deletes
+	// `.changeset/pre.json` when graduating out of pre mode.
+	const preTag = yield* detectPreTag;
 
 	yield* Step.groupStep(
 		"Phase 1: Release Branch Management",
@@ -211,13 +247,13 @@ const runBranchManagement = Effect.gen(function* () {
 
 			if (branchCheck.exists) {
 				yield* Effect.logInfo("Release branch exists — running update flow");
-				const updateResult = yield* updateReleaseBranch(packageManager);
+				const updateResult = yield* updateReleaseBranch(packageManager, preTag);
 				updated = updateResult.success;
 				hasConflicts = updateResult.hadConflicts;
 				prNumber = updateResult.prNumber ?? prNumber;
 			} else {
 				yield* Effect.logInfo("Release branch does not exist — running create flow");
-				const createResult = yield* createReleaseBranch(packageManager);
+				const createResult = yield* createReleaseBranch(packageManager, preTag);
 				created = createResult.created;
 				prNumber = createResult.prNumber ?? prNumber;
 			}
@@ -240,6 +276,7 @@ const runBranchManagement = Effect.gen(function* () {
 							},
 				changesets,
 				dryRun,
+				preTag,
 			});
 			const outputs = yield* ActionOutputs;
 			yield* emitReleaseOutput(outputs, output, { packageCount: changesets.length, releasePrNumber: prNumber });
@@ -267,6 +304,7 @@ const runValidation = Effect.gen(function* () {
 	// preserves the existing advisory-warning semantics.
 	const strictWarnings = yield* Config.boolean("strict-warnings").pipe(Config.withDefault(false));
 	const packageManager = yield* detectPackageManager;
+	const preTag = yield* detectPreTag;
 	const { repository, sha } = yield* env.github;
 	const [owner, repo] = repository.split("/");
 
@@ -351,6 +389,12 @@ const runValidation = Effect.gen(function* () {
 			// `local` / `variable` / `none`). Surfaced on the SBOM Preview
 			// check-run summary; `null` until `runValidationEffect` reports it.
 			let sbomConfigSource: ConfigSource | null = null;
+			// License verdicts per build, same keys; rendered after the SBOM
+			// Preview summary. Empty without a `licensePolicy`.
+			let licenseReport: ReadonlyMap<string, ReadonlyArray<LicenseVerdict>> = new Map();
+			// Up-front registry auth check, rendered after the Publish Validation
+			// summary; its missing tokens are already findings.
+			let registryAuth: AuthSetupResult | null = null;
 
 			if (buildResult.success) {
 				yield* Effect.logInfo("Validate publishing");
@@ -379,6 +423,8 @@ const runValidation = Effect.gen(function* () {
 					reportFindings = report.findings;
 					resolvedSbomConfig = report.resolvedSbomConfig;
 					sbomConfigSource = report.sbomConfigSource;
+					licenseReport = report.licenseReport;
+					registryAuth = report.registryAuth;
 				}
 				yield* Effect.logInfo(
 					publishOk
@@ -430,6 +476,12 @@ const runValidation = Effect.gen(function* () {
 			// semantics. `failure` (errors, or warnings under strict mode) flips
 			// the row to failed.
 			const successFor = (checkName: string): boolean => conclusionFor(checkName) !== "failure";
+			const tarballDiffSummary = summarizeTarballDiffs(validationPackages);
+			const apiDiffSummary = summarizeApiDiffs(validationPackages);
+			const bumpSummary = summarizeBumpConsistency(findings, validationPackages.length);
+			const packageLintSummary = summarizePackageLint(findings, validationPackages);
+			const smokeTestSummary = summarizeSmokeTests(validationPackages);
+			const licenseSummary = summarizeLicenseCompliance(licenseReport);
 
 			const checkResults = [
 				{
@@ -463,6 +515,42 @@ const runValidation = Effect.gen(function* () {
 					checkId: 0,
 					message: sbomSummary,
 				},
+				{
+					name: "Tarball Diff",
+					success: successFor("Tarball Diff"),
+					checkId: 0,
+					message: tarballDiffSummary,
+				},
+				{
+					name: "API Compatibility",
+					success: successFor("API Compatibility"),
+					checkId: 0,
+					message: apiDiffSummary,
+				},
+				{
+					name: "Bump Consistency",
+					success: successFor("Bump Consistency"),
+					checkId: 0,
+					message: bumpSummary,
+				},
+				{
+					name: "Package Lint",
+					success: successFor("Package Lint"),
+					checkId: 0,
+					message: packageLintSummary,
+				},
+				{
+					name: "Install Smoke Test",
+					success: successFor("Install Smoke Test"),
+					checkId: 0,
+					message: smokeTestSummary,
+				},
+				{
+					name: "License Compliance",
+					success: successFor("License Compliance"),
+					checkId: 0,
+					message: licenseSummary,
+				},
 			];
 
 			// Derive the 3-state checks-table icon per row from the findings the
@@ -501,6 +589,7 @@ const runValidation = Effect.gen(function* () {
 					validationPackages,
 					checkRun: null,
 					dryRun,
+					preTag,
 				});
 
 			// Placeholder checks — `Link Issues from Commits` and `Build Validation`
@@ -539,6 +628,42 @@ const runValidation = Effect.gen(function* () {
 					outcome: sbomSummary,
 					url: null,
 				},
+				{
+					name: "Tarball Diff",
+					status: statusFor("Tarball Diff", !buildResult.success),
+					outcome: tarballDiffSummary,
+					url: null,
+				},
+				{
+					name: "API Compatibility",
+					status: statusFor("API Compatibility", !buildResult.success),
+					outcome: apiDiffSummary,
+					url: null,
+				},
+				{
+					name: "Bump Consistency",
+					status: statusFor("Bump Consistency", false),
+					outcome: bumpSummary,
+					url: null,
+				},
+				{
+					name: "Package Lint",
+					status: statusFor("Package Lint", !buildResult.success),
+					outcome: packageLintSummary,
+					url: null,
+				},
+				{
+					name: "Install Smoke Test",
+					status: statusFor("Install Smoke Test", !buildResult.success),
+					outcome: smokeTestSummary,
+					url: null,
+				},
+				{
+					name: "License Compliance",
+					status: statusFor("License Compliance", false),
+					outcome: licenseSummary,
+					url: null,
+				},
 			];
 
 			// Draft projection over the placeholder rows — feeds the per-step
@@ -573,13 +698,19 @@ const runValidation = Effect.gen(function* () {
 					return created.htmlUrl;
 				});
 
-			const publishSummary = buildPublishValidationSummary(summaryDraftOutput.validation);
+			const publishSummary = [
+				buildPublishValidationSummary(summaryDraftOutput.validation),
+				buildRegistryAuthSummary(registryAuth),
+			]
+				.filter((part) => part !== "")
+				.join("\n\n");
 			const releaseNotesSummary = buildReleaseNotesPreviewSummary(summaryDraftOutput.validation);
-			const sbomSummaryMd = buildSbomPreviewSummary(
-				summaryDraftOutput.validation,
-				resolvedSbomConfig,
-				sbomConfigSource,
-			);
+			const sbomSummaryMd = [
+				buildSbomPreviewSummary(summaryDraftOutput.validation, resolvedSbomConfig, sbomConfigSource),
+				buildLicenseComplianceSummary(summaryDraftOutput.validation, licenseReport),
+			]
+				.filter((part) => part !== "")
+				.join("\n\n");
 
 			const publishTitle = dryRun ? "🧪 Publish Validation (Dry Run)" : "📦 Publish Validation";
 			const releaseNotesTitle = dryRun ? "🧪 Release Notes Preview (Dry Run)" : "📋 Release Notes Preview";
@@ -606,6 +737,8 @@ const runValidation = Effect.gen(function* () {
 					if (row.name === "Publish Validation") return { ...row, url: urlFor(row.url, publishCheckUrl) };
 					if (row.name === "Release Notes Preview") return { ...row, url: urlFor(row.url, releaseNotesCheckUrl) };
 					if (row.name === "SBOM Preview") return { ...row, url: urlFor(row.url, sbomCheckUrl) };
+					// License verdicts are rendered on the SBOM Preview check run.
+					if (row.name === "License Compliance") return { ...row, url: urlFor(row.url, sbomCheckUrl) };
 					return row;
 				},
 			);
@@ -738,13 +871,26 @@ const runValidation = Effect.gen(function* () {
 	);
 });
 
+/**
+ * The committer date of `sha`, or now when git cannot tell.
+ *
+ * @internal
+ */
+const commitDate = (sha: string): Effect.Effect<Date, never, CommandRunner> =>
+	Effect.gen(function* () {
+		const runner = yield* CommandRunner;
+		const shown = yield* Effect.either(runner.execCapture("git", ["show", "-s", "--format=%cI", sha]));
+		const date = shown._tag === "Right" ? new Date(shown.right.stdout.trim()) : new Date(Number.NaN);
+		return Number.isNaN(date.getTime()) ? new Date() : date;
+	});
+
 /**
  * Phase 3 publishing orchestrator. Delegates to the Effect-based
  * {@link detectReleases}, {@link runBuildAndSbom}, and {@link runPublishTargets}
  * programs from `src/release/publish.ts` and the {@link runReleases} program
  * from `src/release/releases.ts`.
  */
-const runPublishing = (mergedReleasePRNumber: number | undefined) =>
+const runPublishing = (mergedReleasePRNumber: number | undefined, preTag: string | null) =>
 	Step.groupStep(
 		"Phase 3: Publishing",
 		Effect.gen(function* () {
@@ -761,11 +907,16 @@ const runPublishing = (mergedReleasePRNumber: number | undefined) =>
 				tags: ReadonlyArray<TagInfo>,
 				releases: ReadonlyArray<ReleaseInfo>,
 				tagShas: Record<string, string>,
+				floatingTags: ReadonlyArray<FloatingTagInfo> = [],
 			) =>
-				emitReleaseOutput(outputs, toPublishingOutput({ publishResult, tags, releases, tagShas, dryRun }), {
-					packageCount: publishResult.totalPackages,
-					releasePrNumber: mergedReleasePRNumber !== undefined ? mergedReleasePRNumber : null,
-				});
+				emitReleaseOutput(
+					outputs,
+					toPublishingOutput({ publishResult, tags, releases, tagShas, floatingTags, dryRun, preTag }),
+					{
+						packageCount: publishResult.totalPackages,
+						releasePrNumber: mergedReleasePRNumber !== undefined ? mergedReleasePRNumber : null,
+					},
+				);
 
 			// ── Prelude (detail) ───────────────────────────────────────────────────
 			yield* Effect.logDebug(`Detected package manager: ${packageManager}`);
@@ -777,12 +928,27 @@ const runPublishing = (mergedReleasePRNumber: number | undefined) =>
 			}
 			yield* Effect.either(runner.exec("git", ["fetch", "origin", `${targetBranch}:${targetBranch}`]));
 
-			const args = { packageManager, targetBranch, dryRun, mergedReleasePRNumber };
+			// ── Resume: read back the previous attempt's publish manifest ─────────
+			const resume = yield* Config.boolean("resume").pipe(Config.withDefault(false));
+			const releaseCommit = process.env.GITHUB_SHA ?? "";
+			const resumeFrom = resume && releaseCommit !== "" ? yield* readPublishManifest(releaseCommit) : null;
+			if (resume) {
+				yield* Effect.logInfo(
+					resumeFrom !== null
+						? `Resuming from the publish manifest of ${releaseCommit} (${resumeFrom.packages.length} package(s))`
+						: "No publish manifest to resume from — starting from scratch",
+				);
+			}
+			const recordManifest = (manifest: PublishManifest) =>
+				dryRun || releaseCommit === "" ? Effect.void : writePublishManifest(manifest);
+
+			const args = { packageManager, targetBranch, dryRun, mergedReleasePRNumber, preTag, resumeFrom };
 
 			// ── Step 1: Detect released packages ───────────────────────────────────
 			// `detectReleases` wraps itself in Step.withStep, which emits its own
-			// success line on completion. No extra info line here.
-			const detected = yield* detectReleases(args);
+			// success line on completion. No extra info line here. A resumed run
+			// publishes exactly the manifest's packages instead.
+			const detected = resumeFrom !== null ? manifestReleases(resumeFrom) : yield* detectReleases(args);
 
 			if (detected.length === 0) {
 				const empty: PublishPackagesResult = {
@@ -803,22 +969,37 @@ const runPublishing = (mergedReleasePRNumber: number | undefined) =>
 			// a `Step.withStep` envelope, so the step's `Step.success` line lands
 			// inside the group instead of leaving it empty (which produced the
 			// gap-only `Tag strategy` block in the runner UI before).
+			const releaseTrain = yield* Config.boolean("release-train").pipe(Config.withDefault(false));
 			const tagStrategy = yield* Step.groupStep(
 				"Tag strategy",
 				Effect.gen(function* () {
 					// `DetectedRelease` carries no `targets`, and `determineTagStrategy`
 					// only reads `name`/`version` — so the empty `targets` array is safe.
-					// Tag strategy (Step 2) runs on the full detected set before any
-					// publishing, making every detected package a tag candidate; that is
-					// correct because a publish failure (Step 4) aborts releases (Step 5)
-					// before a single tag is ever created.
+					// Every detected package is a tag candidate here, before anything
+					// is published. The invariant Step 5 keeps: a package with a failed
+					// target gets no git tag and no published release. Without
+					// `draft-releases` a publish failure stops Phase 3 before Step 5;
+					// with it, Step 5 still runs and leaves those releases as drafts.
+					const naming = yield* loadTagNaming();
 					const strategy = determineTagStrategy(
 						detected.map((d) => ({ name: d.name, version: d.version, targets: [] })),
+						naming,
 					);
 					yield* Effect.logDebug(`tag strategy: ${strategy.strategy}, ${strategy.tags.length} tag(s)`);
 					const strategyLabel = strategy.strategy === "multiple" ? "per-package tags" : "single shared tag";
-					yield* Step.success(`${strategy.tags.length} tag(s), ${strategyLabel}`);
-					return strategy;
+					// A release train only applies to per-package tags; a single
+					// shared tag already has one release. Its `{date}` is the release
+					// commit's, so a resume on a later day renders the same tag.
+					const train =
+						releaseTrain && strategy.strategy === "multiple" && strategy.tags.length > 0
+							? releaseTrainTag(strategy.tags, naming, yield* commitDate(releaseCommit), releaseCommit)
+							: null;
+					yield* Step.success(
+						train !== null
+							? `${strategy.tags.length} tag(s), ${strategyLabel}, released as ${train.name}`
+							: `${strategy.tags.length} tag(s), ${strategyLabel}`,
+					);
+					return { ...strategy, train };
 				}),
 			);
 
@@ -847,9 +1028,30 @@ const runPublishing = (mergedReleasePRNumber: number | undefined) =>
 				return;
 			}
 
+			// ── Step 3b: Draft releases ────────────────────────────────────────────
+			// With `draft-releases`, every tag gets a draft release before anything
+			// is published. Step 5 publishes each draft once all of its packages
+			// succeeded and leaves the rest as drafts listing the failed targets —
+			// so a failed publish still reaches Step 5 instead of aborting.
+			const draftReleases = yield* Config.boolean("draft-releases").pipe(Config.withDefault(false));
+			// The tags that get a GitHub release: the train's alone, when there is one.
+			const releaseTags = tagStrategy.train !== null ? [tagStrategy.train] : tagStrategy.tags;
+			const drafts = draftReleases
+				? yield* createDraftReleases(
+						releaseTags.filter((t) => completedRelease(resumeFrom, t.name) === null),
+						dryRun,
+					)
+				: undefined;
+
 			// ── Step 4: Publish to registries ──────────────────────────────────────
 			const publishResult = yield* runPublishTargets(detected, args, buildSbom.sbomPaths);
-			if (!publishResult.success) {
+			const manifest = manifestFromPublish(releaseCommit, detected, publishResult, resumeFrom);
+			yield* recordManifest(manifest);
+			if (!publishResult.success && drafts !== undefined) {
+				yield* Effect.logError(
+					`❌ Published ${publishResult.successfulTargets}/${publishResult.totalTargets} target(s) — finalizing draft releases`,
+				);
+			} else if (!publishResult.success) {
 				yield* Effect.logError(
 					`❌ Published ${publishResult.successfulTargets}/${publishResult.totalTargets} target(s) — aborting before releases`,
 				);
@@ -857,21 +1059,57 @@ const runPublishing = (mergedReleasePRNumber: number | undefined) =>
 				yield* Effect.logInfo("Release publishing: ❌ failed at Publish");
 				yield* outputs.setFailed("Publishing failed");
 				return;
+			} else {
+				yield* Effect.logInfo(
+					`✅ Published ${publishResult.successfulTargets}/${publishResult.totalTargets} target(s)`,
+				);
 			}
-			yield* Effect.logInfo(`✅ Published ${publishResult.successfulTargets}/${publishResult.totalTargets} target(s)`);
 
 			// ── Step 5: Create releases ────────────────────────────────────────────
 			// `runReleases` wraps itself in Step.withStep.
+			const floatingTags = yield* Config.boolean("floating-tags").pipe(Config.withDefault(false));
+			const makeLatest = yield* Config.literal("auto", "true", "false")("make-latest").pipe(Config.withDefault("auto"));
+			const releaseAssets = yield* loadReleaseAssets();
+			// A notes template can list the issues the merged release PR closes.
+			const notesTemplate = yield* loadReleaseNotesTemplate();
+			const ghIssues = yield* GitHubIssue;
+			const notesIssues =
+				notesTemplate !== null && mergedReleasePRNumber !== undefined
+					? yield* ghIssues.getLinkedIssues(mergedReleasePRNumber).pipe(
+							Effect.catchAll((e) =>
+								Effect.gen(function* () {
+									yield* Effect.logWarning(`Failed to query linked issues for the release notes: ${e.reason}`);
+									return [] as Array<{ number: number; title: string }>;
+								}),
+							),
+						)
+					: [];
+			// The release notes credit the authors of every commit since the previous release.
+			const { commits, latestTagSha } = yield* getCommitsSinceLatestTag(targetBranch);
+			const contributors = yield* resolveContributors(commits, latestTagSha, yield* loadExcludedContributors());
 			const releasesResult = yield* runReleases({
 				tags: tagStrategy.tags,
 				publishResult,
 				packageManager,
 				dryRun,
+				preTag,
+				resumeFrom,
+				floatingTags,
+				drafts,
+				train: tagStrategy.train,
+				makeLatest,
+				releaseAssets,
+				releaseNotes: { template: notesTemplate, issues: notesIssues, contributors },
 			}).pipe(
 				Effect.catchAll((e) =>
 					Effect.gen(function* () {
 						yield* Effect.logWarning(`runReleases failed: ${String(e)}`);
-						return { success: false, releases: [] as ReleaseInfo[], errors: [String(e)] };
+						return {
+							success: false,
+							releases: [] as ReleaseInfo[],
+							errors: [String(e)],
+							floatingTags: [] as FloatingTagInfo[],
+						};
 					}),
 				),
 			);
@@ -880,6 +1118,36 @@ const runPublishing = (mergedReleasePRNumber: number | undefined) =>
 					? `✅ Created ${releasesResult.releases.length} release(s)`
 					: `❌ Created ${releasesResult.releases.length} release(s) — ${releasesResult.errors.length} error(s)`,
 			);
+			// Every tag created, per-package and train alike.
+			const createdTags = tagStrategy.train !== null ? [...tagStrategy.tags, tagStrategy.train] : tagStrategy.tags;
+			yield* recordManifest(withReleases(manifest, createdTags, releasesResult.releases));
+
+			const resolveTagShas = (tags: ReadonlyArray<TagInfo>) =>
+				Effect.gen(function* () {
+					const shas: Record<string, string> = {};
+					for (const tag of tags) {
+						const rev = yield* runner
+							.execCapture("git", ["rev-parse", tag.name])
+							.pipe(Effect.catchAll(() => Effect.succeed({ stdout: "", stderr: "", exitCode: 1 })));
+						shas[tag.name] = rev.stdout.trim();
+					}
+					return shas;
+				});
+
+			if (!publishResult.success) {
+				// Only the tags whose draft was published exist.
+				const releasedTags = releaseTags.filter((t) => releasesResult.releases.some((r) => r.tag === t.name));
+				yield* emitPublishing(
+					publishResult,
+					releasedTags,
+					releasesResult.releases,
+					yield* resolveTagShas(releasedTags),
+					releasesResult.floatingTags,
+				);
+				yield* Effect.logInfo("Release publishing: ❌ failed at Publish — unfinished releases left as drafts");
+				yield* outputs.setFailed("Publishing failed");
+				return;
+			}
 
 			// ── Follow-on: close linked issues ─────────────────────────────────────
 			if (mergedReleasePRNumber !== undefined) {
@@ -900,14 +1168,8 @@ const runPublishing = (mergedReleasePRNumber: number | undefined) =>
 			}
 
 			// ── Emit outputs + final summary ───────────────────────────────────────
-			const tagShas: Record<string, string> = {};
-			for (const tag of tagStrategy.tags) {
-				const rev = yield* runner
-					.execCapture("git", ["rev-parse", tag.name])
-					.pipe(Effect.catchAll(() => Effect.succeed({ stdout: "", stderr: "", exitCode: 1 })));
-				tagShas[tag.name] = rev.stdout.trim();
-			}
-			yield* emitPublishing(publishResult, tagStrategy.tags, releasesResult.releases, tagShas);
+			const tagShas = yield* resolveTagShas(createdTags);
+			yield* emitPublishing(publishResult, createdTags, releasesResult.releases, tagShas, releasesResult.floatingTags);
 
 			yield* Effect.logInfo(
 				`Release publishing: ✅ ${publishResult.successfulPackages} package(s), ${releasesResult.releases.length} release(s)`,
@@ -960,6 +1222,116 @@ const runCloseIssues = Effect.gen(function* () {
 	);
 });
 
+/**
+ * Snapshot (canary) orchestrator for a labelled pull request. Re-versions the
+ * PR checkout with {@link versionSnapshot}, then reuses the Phase-3
+ * {@link runBuildAndSbom} and {@link runPublishTargets} programs to publish the
+ * snapshot versions under the `snapshot-tag` dist-tag. Install commands land
+ * in a sticky PR comment; nothing is committed, tagged, or released.
+ */
+const runSnapshot = Step.groupStep(
+	"Snapshot Publishing",
+	Effect.gen(function* () {
+		const logger = yield* ActionLogger;
+		const outputs = yield* ActionOutputs;
+
+		const targetBranch = yield* Config.string("target-branch").pipe(Config.withDefault("main"));
+		const dryRun = yield* Config.boolean("dry-run").pipe(Config.withDefault(false));
+		const snapshotTag = yield* Config.string("snapshot-tag").pipe(Config.withDefault("snapshot"));
+		const packageManager = yield* detectPackageManager;
+
+		const prNumber = yield* readEventPullRequestNumber;
+		if (Option.isNone(prNumber)) {
+			yield* Effect.logWarning("No pull_request number in event payload; skipping snapshot phase");
+			return;
+		}
+		// A snapshot must never become the default install.
+		if (snapshotTag === "" || snapshotTag === "latest") {
+			yield* outputs.setFailed(`snapshot-tag must be a non-latest dist-tag; got "${snapshotTag}"`);
+			return;
+		}
+
+		const postComment = (publishResult: PublishPackagesResult) =>
+			logger.group(
+				"Update PR comment",
+				updateStickyComment(
+					prNumber.value,
+					buildSnapshotComment(publishResult, { snapshotTag, packageManager, dryRun }),
+					"snapshot-release",
+				).pipe(
+					Effect.catchAll((e) =>
+						Effect.gen(function* () {
+							yield* Effect.logWarning(`Failed to update sticky comment: ${String(e)}`);
+							return { commentId: 0 };
+						}),
+					),
+				),
+			);
+
+		// ── Step 1: Snapshot version ───────────────────────────────────────────
+		const versioned = yield* Effect.either(versionSnapshot(packageManager, snapshotTag));
+		if (versioned._tag === "Left") {
+			yield* Effect.logError(`❌ Snapshot version — ${versioned.left.message}`);
+			yield* outputs.setFailed("Snapshot versioning failed");
+			return;
+		}
+		const detected = versioned.right;
+
+		const empty: PublishPackagesResult = {
+			success: true,
+			packages: [],
+			totalPackages: 0,
+			successfulPackages: 0,
+			totalTargets: 0,
+			successfulTargets: 0,
+		};
+		if (detected.length === 0) {
+			yield* postComment(empty);
+			yield* Effect.logInfo("Snapshot publishing: ✅ no pending changesets");
+			return;
+		}
+
+		// Snapshot versions are prereleases, so the publish flow's prerelease
+		// dist-tag routing sends them to `snapshotTag` instead of `latest`.
+		const args = { packageManager, targetBranch, dryRun, mergedReleasePRNumber: undefined, preTag: snapshotTag };
+
+		// ── Step 2: Build & SBOM (fail-fast gate) ──────────────────────────────
+		const buildSbom = yield* runBuildAndSbom(detected, args);
+		if (!buildSbom.ok) {
+			yield* postComment({
+				...empty,
+				success: false,
+				totalPackages: detected.length,
+				...(buildSbom.buildError !== undefined ? { buildError: buildSbom.buildError } : {}),
+			});
+			yield* Effect.logInfo("Snapshot publishing: ❌ aborted at Build & SBOM — nothing published");
+			yield* outputs.setFailed("Snapshot aborted at Build & SBOM");
+			return;
+		}
+
+		if (dryRun) {
+			yield* Effect.logInfo(
+				`[DRY RUN] Would publish ${detected.length} snapshot package(s) under "${snapshotTag}": ${detected.map((d) => `${d.name}@${d.version}`).join(", ")}`,
+			);
+			return;
+		}
+
+		// ── Step 3: Publish to registries ──────────────────────────────────────
+		const publishResult = yield* runPublishTargets(detected, args, buildSbom.sbomPaths);
+		yield* postComment(publishResult);
+		if (!publishResult.success) {
+			yield* Effect.logInfo(
+				`Snapshot publishing: ❌ ${publishResult.successfulTargets}/${publishResult.totalTargets} target(s) published`,
+			);
+			yield* outputs.setFailed("Snapshot publishing failed");
+			return;
+		}
+		yield* Effect.logInfo(
+			`Snapshot publishing: ✅ ${publishResult.successfulTargets}/${publishResult.totalTargets} target(s) published`,
+		);
+	}),
+);
+
 // ---------------------------------------------------------------------------
 // Main program
 // ---------------------------------------------------------------------------
@@ -996,32 +1368,45 @@ export const main = Effect.gen(function* () {
 	const targetBranch = yield* Config.string("target-branch").pipe(Config.withDefault("main"));
 	const explicitInput = yield* Config.string("phase").pipe(Config.withDefault(""));
 	const explicitPhase = explicitInput !== "" ? (explicitInput as WorkflowPhase) : undefined;
+	const snapshotLabel = yield* Config.string("snapshot-label").pipe(Config.withDefault("snapshot"));
+
+	const lines = resolveReleaseLines({ releaseBranch, targetBranch }, yield* loadTargetBranches());
 
 	const phaseResult = yield* detectWorkflowPhase({
 		releaseBranch,
 		targetBranch,
+		snapshotLabel,
+		lines,
 		...(explicitPhase !== undefined && { explicitPhase }),
 	});
 
 	yield* Effect.logInfo(`Phase: ${phaseResult.phase} — ${phaseResult.reason}`);
 
-	switch (phaseResult.phase) {
-		case "branch-management":
-			yield* runBranchManagement;
-			return;
-		case "validation":
-			yield* runValidation;
-			return;
-		case "publishing":
-			yield* runPublishing(phaseResult.mergedReleasePRNumber);
-			return;
-		case "close-issues":
-			yield* runCloseIssues;
-			return;
-		default:
-			yield* Effect.logInfo(`No-op phase: ${phaseResult.reason}`);
-			return;
-	}
+	// The phase runs with its release line's branches, dist-tag, and
+	// tag / latest settings in place of the inputs.
+	const dispatch = Effect.gen(function* () {
+		switch (phaseResult.phase) {
+			case "branch-management":
+				yield* runBranchManagement;
+				return;
+			case "validation":
+				yield* runValidation;
+				return;
+			case "publishing":
+				yield* runPublishing(phaseResult.mergedReleasePRNumber, phaseResult.preTag);
+				return;
+			case "close-issues":
+				yield* runCloseIssues;
+				return;
+			case "snapshot":
+				yield* runSnapshot;
+				return;
+			default:
+				yield* Effect.logInfo(`No-op phase: ${phaseResult.reason}`);
+				return;
+		}
+	});
+	yield* phaseResult.releaseLine !== undefined ? withReleaseLine(phaseResult.releaseLine, dispatch) : dispatch;
 });
 
 // ---------------------------------------------------------------------------
@@ -1071,6 +1456,7 @@ export const MainLive = Layer.mergeAll(
 	GitHubCommitLive.pipe(Layer.provide(githubClient)),
 	GitHubContentLive.pipe(Layer.provide(githubClient)),
 	CommandRunnerLive,
+	FetchHttpClient.layer,
 	NodeFileSystem.layer,
 	ChangesetAnalyzerLive.pipe(Layer.provide(NodeFileSystem.layer)),
 	releaseLive,
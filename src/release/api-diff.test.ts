@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the API compatibility check (`release/api-diff`).
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ApiDeclaration } from "./api-diff.js";
+import { apiDiffFindings, apiModelFileName, diffApiModels, parseApiModel, summarizeApiDiffs } from "./api-diff.js";
+
+const model = (members: ReadonlyArray<Record<string, unknown>>): string =>
+	JSON.stringify({
+		metadata: { toolPackage: "@microsoft/api-extractor" },
+		kind: "Package",
+		canonicalReference: "@test/pkg!",
+		members: [{ kind: "EntryPoint", canonicalReference: "@test/pkg!", members }],
+	});
+
+const fn = (name: string, text: string, releaseTag = "Public") => ({
+	kind: "Function",
+	canonicalReference: `@test/pkg!${name}:function(1)`,
+	excerptTokens: [{ kind: "Content", text }],
+	releaseTag,
+});
+
+const declarations = (entries: Record<string, string | [string, boolean]>): ReadonlyMap<string, ApiDeclaration> =>
+	new Map(
+		Object.entries(entries).map(([reference, value]) => [
+			reference,
+			typeof value === "string" ? { signature: value, internal: false } : { signature: value[0], internal: value[1] },
+		]),
+	);
+
+describe("apiModelFileName", () => {
+	it("names the model after the unscoped package", () => {
+		expect(apiModelFileName("@savvy-web/core")).toBe("core.api.json");
+		expect(apiModelFileName("core")).toBe("core.api.json");
+	});
+});
+
+describe("parseApiModel", () => {
+	it("reads declarations and nested members with collapsed signatures", () => {
+		const parsed = parseApiModel(
+			model([
+				fn("parse", "export declare function parse(\n\tinput: string\n): Config;"),
+				{
+					kind: "Interface",
+					canonicalReference: "@test/pkg!Config:interface",
+					excerptTokens: [{ text: "export interface Config " }],
+					releaseTag: "Public",
+					members: [
+						{
+							kind: "PropertySignature",
+							canonicalReference: "@test/pkg!Config#debug:member",
+							excerptTokens: [{ text: "debug?: " }, { text: "boolean" }, { text: ";" }],
+							releaseTag: "Internal",
+						},
+					],
+				},
+			]),
+		);
+
+		expect([...(parsed ?? [])]).toEqual([
+			[
+				"@test/pkg!parse:function(1)",
+				{ signature: "export declare function parse( input: string ): Config;", internal: false },
+			],
+			["@test/pkg!Config:interface", { signature: "export interface Config", internal: false }],
+			["@test/pkg!Config#debug:member", { signature: "debug?: boolean;", internal: true }],
+		]);
+	});
+
+	it("returns null for anything but an API model", () => {
+		expect(parseApiModel("not json")).toBe(null);
+		expect(parseApiModel("null")).toBe(null);
+		expect(parseApiModel(JSON.stringify({ kind: "Package" }))).toBe(null);
+	});
+});
+
+describe("diffApiModels", () => {
+	it("classifies removed, changed, and added declarations, breaking ones first", () => {
+		const diff = diffApiModels(
+			"1.0.0",
+			declarations({ a: "a(): void", b: "b(): void", c: "c(): void", _x: ["_x(): void", true] }),
+			declarations({ a: "a(): void", c: "c(n: number): void", d: "d(): void", _x: ["_x(n: number): void", true] }),
+		);
+
+		expect(diff.changes).toEqual([
+			{ kind: "breaking", change: "removed", reference: "b" },
+			{ kind: "possibly-breaking", change: "changed", reference: "c" },
+			{ kind: "additive", change: "added", reference: "d" },
+			{ kind: "internal", change: "changed", reference: "_x" },
+		]);
+	});
+
+	it("treats a signature that only gains optional or rest parameters as additive", () => {
+		const diff = diffApiModels(
+			"1.0.0",
+			declarations({
+				parse: "export declare function parse(input: string): Result;",
+				format: "export declare function format(value: Map<string, number>): string;",
+				run: "export declare function run(): void;",
+				widen: "export declare function widen(): string;",
+			}),
+			declarations({
+				parse: "export declare function parse(input: string, options?: { strict: boolean; }): Result;",
+				format: "export declare function format(value: Map<string, number>, ...rest: unknown[]): string;",
+				run: "export declare function run(callback: () => void): void;",
+				widen: "export declare function widen(): string | number;",
+			}),
+		);
+
+		expect(diff.changes.map((c) => [c.reference, c.kind])).toEqual([
+			["run", "possibly-breaking"],
+			["widen", "possibly-breaking"],
+			["format", "additive"],
+			["parse", "additive"],
+		]);
+	});
+
+	it("treats demoting a declaration to @internal as breaking and promoting it as additive", () => {
+		const diff = diffApiModels(
+			"1.0.0",
+			declarations({ a: "a(): void", b: ["b(): void", true] }),
+			declarations({ a: ["a(): void", true], b: "b(): void" }),
+		);
+
+		expect(diff.changes.map((c) => [c.reference, c.kind])).toEqual([
+			["a", "breaking"],
+			["b", "additive"],
+		]);
+	});
+});
+
+describe("apiDiffFindings", () => {
+	const diff = diffApiModels(
+		"1.2.0",
+		declarations({ a: "a(): void", b: "b(): void", c: "c(): void" }),
+		declarations({ b: "b(): string", c: ["c(): void", true] }),
+	);
+
+	it("raises an error for removed or demoted declarations on a minor or patch bump", () => {
+		const findings = apiDiffFindings("@test/pkg", "1.3.0", "dist/npm", diff);
+
+		expect(findings).toHaveLength(2);
+		expect(findings[0]).toMatchObject({
+			severity: "error",
+			check: "API Compatibility",
+			scope: { package: "@test/pkg", directory: "dist/npm" },
+		});
+		expect(findings[0]?.message).toContain(
+			"2 breaking API change(s) since 1.2.0 on a minor bump — removed a; made c @internal",
+		);
+		expect(apiDiffFindings("@test/pkg", "1.2.1", "dist/npm", diff)).toHaveLength(2);
+	});
+
+	it("only warns about a changed signature", () => {
+		const changed = diffApiModels("1.2.0", declarations({ b: "b(): void" }), declarations({ b: "b(): string" }));
+		const findings = apiDiffFindings("@test/pkg", "1.3.0", "dist/npm", changed);
+
+		expect(findings.map((f) => [f.severity, f.message])).toEqual([
+			[
+				"warning",
+				"1 public signature(s) changed since 1.2.0 on a minor bump — b. Check that existing callers still compile, or declare a major bump.",
+			],
+		]);
+	});
+
+	it("accepts breaking changes on a major bump, a 0.x minor bump, or a prerelease", () => {
+		expect(apiDiffFindings("@test/pkg", "2.0.0", "dist/npm", diff)).toEqual([]);
+		expect(apiDiffFindings("@test/pkg", "0.3.0", "dist/npm", { ...diff, previousVersion: "0.2.0" })).toEqual([]);
+		expect(apiDiffFindings("@test/pkg", "1.3.0-beta.0", "dist/npm", diff)).toEqual([]);
+	});
+});
+
+describe("summarizeApiDiffs", () => {
+	it("reports when nothing was compared", () => {
+		expect(summarizeApiDiffs([])).toBe("No previous API model to compare");
+	});
+});
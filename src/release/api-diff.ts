@@ -0,0 +1,344 @@
+/**
+ * API compatibility check against the previously published version.
+ *
+ * Builds that ship an API Extractor model (`<unscopedName>.api.json`, the
+ * same file the Phase-3 release notes surface in their API column) are
+ * diffed declaration by declaration against the model of the base version:
+ * taken from its published tarball, or else from the base version's release
+ * tag. Each change is classified as breaking, possibly breaking, additive,
+ * or internal. Under a `minor` or `patch` bump (see `inferBumpType`), a
+ * breaking change — a removed or demoted public declaration — is an
+ * `API Compatibility` error, since the changesets under-declare the release.
+ *
+ * Signatures are compared as API Extractor renders them. A changed public
+ * signature that only gains optional or rest parameters is additive; any
+ * other change — a widened type, a re-rendered signature — cannot be told
+ * apart from a breaking one by its text, so it is possibly breaking and only
+ * a warning. As with the tarball diff, a missing model, an unreachable
+ * registry, or unparseable output yields no diff rather than a failure.
+ *
+ * @module release/api-diff
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import { CommandRunner } from "@savvy-web/github-action-effects";
+import { Effect } from "effect";
+import { inferBumpType } from "./publish.js";
+import type { ApiChange, ApiDiff, ValidationFinding, ValidationPackageResult } from "./types.js";
+
+/** The check name findings from this module are filed under. */
+export const API_CHECK = "API Compatibility";
+
+/** Most declarations quoted in one finding message. */
+const MAX_LISTED = 5;
+
+/**
+ * One declaration of an API Extractor model.
+ *
+ * @internal
+ */
+export interface ApiDeclaration {
+	/** The declaration text, whitespace-collapsed. */
+	readonly signature: string;
+	/** Whether the declaration is `@internal`. */
+	readonly internal: boolean;
+}
+
+/** A node of the `.api.json` tree, as far as this module reads it. */
+interface ApiItemJson {
+	readonly kind?: unknown;
+	readonly canonicalReference?: unknown;
+	readonly excerptTokens?: ReadonlyArray<{ readonly text?: unknown }>;
+	readonly releaseTag?: unknown;
+	readonly members?: ReadonlyArray<ApiItemJson>;
+}
+
+/** The model file API Extractor writes for `packageName`. */
+export const apiModelFileName = (packageName: string): string => `${packageName.replace(/^@[^/]+\//, "")}.api.json`;
+
+/**
+ * Parse an API Extractor `.api.json` model into its declarations, keyed by
+ * canonical reference.
+ *
+ * @remarks
+ * Every declaration below the entry points is included — class and interface
+ * members are keyed separately from their parent, so adding a member is its
+ * own change.
+ *
+ * @returns The declarations, or `null` when `json` is not an API model.
+ *
+ * @internal
+ */
+export const parseApiModel = (json: string): ReadonlyMap<string, ApiDeclaration> | null => {
+	let root: ApiItemJson;
+	try {
+		root = JSON.parse(json) as ApiItemJson;
+	} catch {
+		return null;
+	}
+	if (root === null || typeof root !== "object" || root.kind !== "Package" || !Array.isArray(root.members)) {
+		return null;
+	}
+
+	const declarations = new Map<string, ApiDeclaration>();
+	const visit = (item: ApiItemJson): void => {
+		if (typeof item.canonicalReference === "string" && item.kind !== "EntryPoint") {
+			const signature = (item.excerptTokens ?? [])
+				.map((token) => (typeof token.text === "string" ? token.text : ""))
+				.join("")
+				.replace(/\s+/g, " ")
+				.trim();
+			declarations.set(item.canonicalReference, { signature, internal: item.releaseTag === "Internal" });
+		}
+		for (const member of item.members ?? []) visit(member);
+	};
+	for (const entryPoint of root.members) visit(entryPoint);
+	return declarations;
+};
+
+const KIND_ORDER: Record<ApiChange["kind"], number> = {
+	breaking: 0,
+	"possibly-breaking": 1,
+	additive: 2,
+	internal: 3,
+};
+
+/**
+ * Split the first parenthesized parameter list of `signature` into the text
+ * before it, its top-level parameters, and the text after it.
+ */
+const splitParameters = (
+	signature: string,
+): { readonly head: string; readonly parameters: ReadonlyArray<string>; readonly tail: string } | null => {
+	const open = signature.indexOf("(");
+	if (open === -1) return null;
+	const parameters: string[] = [];
+	let depth = 0;
+	let start = open + 1;
+	for (let i = open; i < signature.length; i++) {
+		const char = signature[i];
+		if (char === "(" || char === "<" || char === "{" || char === "[") depth++;
+		else if (char === ")" || char === ">" || char === "}" || char === "]") {
+			// The `>` of an arrow (`=>`) closes nothing.
+			if (char === ">" && signature[i - 1] === "=") continue;
+			depth--;
+			if (depth === 0) {
+				const last = signature.slice(start, i).trim();
+				if (last !== "") parameters.push(last);
+				return { head: signature.slice(0, open), parameters, tail: signature.slice(i + 1) };
+			}
+		} else if (char === "," && depth === 1) {
+			parameters.push(signature.slice(start, i).trim());
+			start = i + 1;
+		}
+	}
+	return null;
+};
+
+/**
+ * Whether `after` is `before` with only optional or rest parameters
+ * appended — a change no existing caller can notice.
+ */
+const onlyAddsOptionalParameters = (before: string, after: string): boolean => {
+	const previous = splitParameters(before);
+	const next = splitParameters(after);
+	if (previous === null || next === null) return false;
+	if (previous.head !== next.head || previous.tail !== next.tail) return false;
+	if (next.parameters.length <= previous.parameters.length) return false;
+	return (
+		previous.parameters.every((p, i) => p === next.parameters[i]) &&
+		next.parameters.slice(previous.parameters.length).every((p) => /^(?:\.\.\.)?[\w$]+\?\s*:|^\.\.\./.test(p))
+	);
+};
+
+/**
+ * Diff two parsed API models.
+ *
+ * @param previousVersion - The version `previous` was published as.
+ *
+ * @public
+ */
+export const diffApiModels = (
+	previousVersion: string,
+	previous: ReadonlyMap<string, ApiDeclaration>,
+	next: ReadonlyMap<string, ApiDeclaration>,
+): ApiDiff => {
+	const changes: ApiChange[] = [];
+	for (const [reference, before] of previous) {
+		const after = next.get(reference);
+		if (after === undefined) {
+			changes.push({ kind: before.internal ? "internal" : "breaking", change: "removed", reference });
+		} else if (after.signature !== before.signature || after.internal !== before.internal) {
+			const kind = before.internal
+				? after.internal
+					? "internal"
+					: "additive"
+				: after.internal
+					? "breaking"
+					: onlyAddsOptionalParameters(before.signature, after.signature)
+						? "additive"
+						: "possibly-breaking";
+			changes.push({ kind, change: "changed", reference });
+		}
+	}
+	for (const [reference, after] of next) {
+		if (!previous.has(reference)) {
+			changes.push({ kind: after.internal ? "internal" : "additive", change: "added", reference });
+		}
+	}
+	changes.sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.reference.localeCompare(b.reference));
+	return { previousVersion, changes };
+};
+
+/**
+ * Whether a bump from `from` to `to` may carry breaking changes: a major
+ * bump, or a minor bump in `0.x`. Prereleases, whose bump `inferBumpType`
+ * cannot tell, are given the benefit of the doubt.
+ */
+const allowsBreaking = (from: string, to: string): boolean => {
+	const bump = inferBumpType(from, to);
+	return bump === "major" || bump === "unknown" || (bump === "minor" && from.startsWith("0."));
+};
+
+const listed = (items: ReadonlyArray<string>): string =>
+	items.length > MAX_LISTED
+		? `${items.slice(0, MAX_LISTED).join(", ")} and ${items.length - MAX_LISTED} more`
+		: items.join(", ");
+
+/**
+ * Findings for a build's API diff on a bump that does not allow breaking
+ * changes: an error for removed or demoted public declarations, and a
+ * warning for changed public signatures that may break callers. A major bump
+ * records the diff without findings.
+ *
+ * @public
+ */
+export const apiDiffFindings = (
+	packageName: string,
+	version: string,
+	directory: string,
+	diff: ApiDiff,
+): ReadonlyArray<ValidationFinding> => {
+	if (allowsBreaking(diff.previousVersion, version)) return [];
+	const bump = inferBumpType(diff.previousVersion, version);
+	const scope = { package: packageName, directory };
+	const findings: ValidationFinding[] = [];
+
+	const breaking = diff.changes.filter((c) => c.kind === "breaking");
+	if (breaking.length > 0) {
+		const removed = breaking.filter((c) => c.change === "removed").map((c) => c.reference);
+		const demoted = breaking.filter((c) => c.change === "changed").map((c) => c.reference);
+		const parts = [
+			...(removed.length > 0 ? [`removed ${listed(removed)}`] : []),
+			...(demoted.length > 0 ? [`made ${listed(demoted)} @internal`] : []),
+		];
+		findings.push({
+			severity: "error",
+			check: API_CHECK,
+			scope,
+			message: `${breaking.length} breaking API change(s) since ${diff.previousVersion} on a ${bump} bump — ${parts.join("; ")}. Declare a major bump in the changeset, or restore the API.`,
+		});
+	}
+
+	const changed = diff.changes.filter((c) => c.kind === "possibly-breaking").map((c) => c.reference);
+	if (changed.length > 0) {
+		findings.push({
+			severity: "warning",
+			check: API_CHECK,
+			scope,
+			message: `${changed.length} public signature(s) changed since ${diff.previousVersion} on a ${bump} bump — ${listed(changed)}. Check that existing callers still compile, or declare a major bump.`,
+		});
+	}
+	return findings;
+};
+
+/**
+ * Diff the API model in `absoluteDirectory` against that of
+ * `packageName@previousVersion`.
+ *
+ * @remarks
+ * The previous model is read from the version's tarball on `registry`
+ * (`npm pack` into a temporary directory, then `tar -xzO`), falling back to
+ * the same path at `previousTag` (`git show`) for packages that do not ship
+ * their model.
+ *
+ * @returns The diff, or `null` when the build has no model or no previous
+ *   model is available.
+ *
+ * @public
+ */
+export const computeApiDiff = (
+	packageName: string,
+	previousVersion: string,
+	absoluteDirectory: string,
+	registry: string,
+	previousTag: string | null,
+): Effect.Effect<ApiDiff | null, never, CommandRunner> =>
+	Effect.gen(function* () {
+		const modelFile = apiModelFileName(packageName);
+		const modelPath = join(absoluteDirectory, modelFile);
+		if (!existsSync(modelPath)) return null;
+		const next = parseApiModel(readFileSync(modelPath, "utf8"));
+		if (next === null) {
+			yield* Effect.logDebug(`[api-diff] ${modelPath} is not an API Extractor model; skipping diff`);
+			return null;
+		}
+
+		const runner = yield* CommandRunner;
+		const capture = (cmd: string, args: ReadonlyArray<string>) =>
+			runner.execCapture(cmd, [...args]).pipe(
+				Effect.map((r) => r.stdout),
+				Effect.catchAll((e) =>
+					Effect.logDebug(`[api-diff] ${cmd} ${args.join(" ")} failed: ${e.stderr ?? e.message}`).pipe(Effect.as(null)),
+				),
+			);
+
+		const spec = `${packageName}@${previousVersion}`;
+		const packDir = mkdtempSync(join(tmpdir(), "api-diff-"));
+		const fromTarball = yield* Effect.gen(function* () {
+			const packOut = yield* capture("npm", [
+				"pack",
+				spec,
+				"--json",
+				"--pack-destination",
+				packDir,
+				"--registry",
+				registry,
+			]);
+			let filename: unknown;
+			try {
+				filename = packOut !== null ? (JSON.parse(packOut) as Array<{ filename?: unknown }>)[0]?.filename : undefined;
+			} catch {
+				filename = undefined;
+			}
+			if (typeof filename !== "string") return null;
+			return yield* capture("tar", ["-xzOf", join(packDir, filename), `package/${modelFile}`]);
+		}).pipe(Effect.ensuring(Effect.sync(() => rmSync(packDir, { recursive: true, force: true }))));
+
+		const previousJson =
+			fromTarball ??
+			(previousTag !== null
+				? yield* capture("git", ["show", `${previousTag}:${relative(process.cwd(), modelPath)}`])
+				: null);
+		const previous = previousJson !== null ? parseApiModel(previousJson) : null;
+		if (previous === null) {
+			yield* Effect.logDebug(`[api-diff] ${spec}: no previous API model; skipping diff`);
+			return null;
+		}
+		return diffApiModels(previousVersion, previous, next);
+	});
+
+/**
+ * One-line outcome for the `API Compatibility` checks-table row.
+ *
+ * @public
+ */
+export const summarizeApiDiffs = (packages: ReadonlyArray<ValidationPackageResult>): string => {
+	const diffs = packages.flatMap((p) => p.builds.flatMap((b) => (b.apiDiff ? [b.apiDiff] : [])));
+	if (diffs.length === 0) return "No previous API model to compare";
+	const count = (kind: ApiChange["kind"]) =>
+		diffs.reduce((n, d) => n + d.changes.filter((c) => c.kind === kind).length, 0);
+	return `${diffs.length} API model(s) compared · ${count("breaking")} breaking, ${count("possibly-breaking")} possibly breaking, ${count("additive")} additive, ${count("internal")} internal change(s)`;
+};
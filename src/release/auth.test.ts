@@ -0,0 +1,98 @@
+/**
+ * Unit tests for registry authentication resolution (`release/auth`).
+ */
+
+import { describe, expect, it } from "vitest";
+import type { AuthSources } from "./auth.js";
+import { parseCustomRegistries, registryTokenEnv, resolveCredential } from "./auth.js";
+
+const sources = (overrides: Partial<AuthSources> = {}): AuthSources => ({
+	npmToken: null,
+	ghPkgsToken: null,
+	customRegistries: [],
+	env: {},
+	...overrides,
+});
+
+describe("parseCustomRegistries", () => {
+	it("parses token, basic, and bare registry lines", () => {
+		const entries = parseCustomRegistries(
+			[
+				"https://registry.example.com/_authToken=npm_abc123",
+				"",
+				"# a comment",
+				"https://basic.example.com/_auth=dXNlcjpwYXNz",
+				"https://bare.example.com   # falls back to the GitHub token",
+			].join("\n"),
+		);
+		expect(entries).toEqual([
+			{ registry: "https://registry.example.com/", authToken: "npm_abc123", auth: null },
+			{ registry: "https://basic.example.com/", authToken: null, auth: "dXNlcjpwYXNz" },
+			{ registry: "https://bare.example.com/", authToken: null, auth: null },
+		]);
+	});
+
+	it("returns nothing for an empty input", () => {
+		expect(parseCustomRegistries("")).toEqual([]);
+	});
+});
+
+describe("registryTokenEnv", () => {
+	it("derives an env var name from the registry URL", () => {
+		expect(registryTokenEnv("https://registry.example.com/")).toBe("REGISTRY_EXAMPLE_COM_TOKEN");
+		expect(registryTokenEnv("https://npm.corp.io/repo/npm/")).toBe("NPM_CORP_IO_REPO_NPM_TOKEN");
+	});
+});
+
+describe("resolveCredential", () => {
+	const CUSTOM = "https://registry.example.com/";
+
+	it("prefers the target's tokenEnv, and reports it missing when unset", () => {
+		const env = { DEPLOY_TOKEN: "t0k", REGISTRY_EXAMPLE_COM_TOKEN: "derived" };
+		expect(resolveCredential(CUSTOM, "DEPLOY_TOKEN", sources({ env }))).toEqual({
+			kind: "token",
+			token: "t0k",
+			source: "tokenEnv",
+		});
+		expect(resolveCredential(CUSTOM, "UNSET_TOKEN", sources({ env }))).toEqual({
+			kind: "missing",
+			tokenEnv: "UNSET_TOKEN",
+		});
+	});
+
+	it("uses a custom-registries entry, matching with or without a trailing slash", () => {
+		const customRegistries = parseCustomRegistries(
+			"https://registry.example.com/_authToken=abc\nhttps://bare.example.com/",
+		);
+		expect(resolveCredential("https://registry.example.com", null, sources({ customRegistries }))).toEqual({
+			kind: "token",
+			token: "abc",
+			source: "custom-registries",
+		});
+		expect(
+			resolveCredential("https://bare.example.com/", null, sources({ customRegistries, ghPkgsToken: "ghs_x" })),
+		).toEqual({ kind: "token", token: "ghs_x", source: "github-token" });
+	});
+
+	it("falls back to OIDC for npm and JSR without a token", () => {
+		expect(resolveCredential("https://registry.npmjs.org/", null, sources())).toEqual({ kind: "oidc" });
+		expect(resolveCredential("https://jsr.io/", null, sources())).toEqual({ kind: "oidc" });
+		expect(resolveCredential("https://registry.npmjs.org/", null, sources({ npmToken: "npm_x" }))).toEqual({
+			kind: "token",
+			token: "npm_x",
+			source: "npm-token",
+		});
+	});
+
+	it("reads a custom registry's derived env var", () => {
+		expect(resolveCredential(CUSTOM, null, sources({ env: { REGISTRY_EXAMPLE_COM_TOKEN: "d" } }))).toEqual({
+			kind: "token",
+			token: "d",
+			source: "registry-env",
+		});
+		expect(resolveCredential(CUSTOM, null, sources())).toEqual({
+			kind: "missing",
+			tokenEnv: "REGISTRY_EXAMPLE_COM_TOKEN",
+		});
+	});
+});
@@ -0,0 +1,293 @@
+/**
+ * Registry authentication resolution.
+ *
+ * Maps every resolved publish target to the credential it will publish with,
+ * drawn (in order) from the target's `tokenEnv`, the `custom-registries`
+ * input, the `npm-token` input or GitHub Packages token, or OIDC. Phase 2
+ * resolves every target up front with {@link checkRegistryAuth} — missing
+ * tokens and unreachable custom registries surface as validation findings on
+ * the release PR instead of failing the merge-time publish. Phase 2's
+ * dry-run and Phase 3's publish set up auth through the same
+ * {@link resolveCredential} / {@link applyCredential} pair.
+ *
+ * @module release/auth
+ */
+
+import type { PackagePublishError } from "@savvy-web/github-action-effects";
+import {
+	CommandRunner,
+	PackagePublish,
+	isGitHubPackagesRegistry,
+	isJsrRegistry,
+	isNpmRegistry,
+} from "@savvy-web/github-action-effects";
+import { Effect } from "effect";
+import type { AuthSetupResult } from "../types/publish-config.js";
+import type { ValidationFinding } from "./types.js";
+
+/**
+ * One line of the `custom-registries` input.
+ *
+ * @public
+ */
+export interface CustomRegistryEntry {
+	/** Registry URL, normalised to end in `/`. */
+	readonly registry: string;
+	/** `_authToken=` credential, or `null`. */
+	readonly authToken: string | null;
+	/** `_auth=` base64 basic credential, or `null`. */
+	readonly auth: string | null;
+}
+
+/**
+ * Where a token credential came from.
+ *
+ * @public
+ */
+export type CredentialSource = "tokenEnv" | "custom-registries" | "npm-token" | "github-token" | "registry-env";
+
+/**
+ * The credential a target publishes with.
+ *
+ * @remarks
+ * `oidc` covers npm and JSR trusted publishing — no token is configured and
+ * the registry exchanges the workflow's OIDC token at publish time.
+ * `missing` names the env var that would have supplied the token.
+ *
+ * @public
+ */
+export type RegistryCredential =
+	| { readonly kind: "token"; readonly token: string; readonly source: CredentialSource }
+	| { readonly kind: "basic"; readonly auth: string }
+	| { readonly kind: "oidc" }
+	| { readonly kind: "missing"; readonly tokenEnv: string };
+
+/**
+ * Everything {@link resolveCredential} draws on, resolved once per phase.
+ *
+ * @public
+ */
+export interface AuthSources {
+	readonly npmToken: string | null;
+	readonly ghPkgsToken: string | null;
+	readonly customRegistries: ReadonlyArray<CustomRegistryEntry>;
+	/** Environment the `tokenEnv` / derived env var names are read from. */
+	readonly env: Readonly<Record<string, string | undefined>>;
+}
+
+/** Registry URL with exactly one trailing slash, for matching. */
+const normalizeRegistry = (registry: string): string => `${registry.trim().replace(/\/+$/, "")}/`;
+
+/**
+ * Parse the `custom-registries` input: one registry per line, optionally
+ * suffixed with `_authToken=<token>` or `_auth=<base64>`. Blank lines and
+ * `#` comments are skipped.
+ *
+ * @public
+ */
+export const parseCustomRegistries = (input: string): ReadonlyArray<CustomRegistryEntry> => {
+	const entries: CustomRegistryEntry[] = [];
+	for (const rawLine of input.split("\n")) {
+		const line = rawLine.replace(/\s+#.*$/, "").trim();
+		if (line === "" || line.startsWith("#")) continue;
+		const match = /^(.*?)\/?_(authToken|auth)=(.*)$/.exec(line);
+		if (match === null) {
+			entries.push({ registry: normalizeRegistry(line), authToken: null, auth: null });
+			continue;
+		}
+		const [, registry = "", key, value = ""] = match;
+		entries.push({
+			registry: normalizeRegistry(registry),
+			authToken: key === "authToken" ? value : null,
+			auth: key === "auth" ? value : null,
+		});
+	}
+	return entries;
+};
+
+/**
+ * The env var a custom registry's token is read from when the target
+ * declares no `tokenEnv` — e.g. `https://registry.example.com/` →
+ * `REGISTRY_EXAMPLE_COM_TOKEN`.
+ *
+ * @public
+ */
+export const registryTokenEnv = (registry: string): string =>
+	registry
+		.replace(/^https?:\/\//, "")
+		.replace(/[^a-zA-Z0-9]/g, "_")
+		.toUpperCase()
+		.replace(/_+/g, "_")
+		.replace(/^_|_$/g, "")
+		.concat("_TOKEN");
+
+/**
+ * Resolve the credential `registry` publishes with.
+ *
+ * Resolution:
+ *  - the target's `tokenEnv`, when declared — `missing` if the var is unset
+ *  - a `custom-registries` entry for the registry — a line without a
+ *    credential falls back to the GitHub Packages token
+ *  - npm public registry  → the `npm-token` input, else OIDC
+ *  - GitHub Packages      → the GitHub Packages token
+ *  - JSR                  → OIDC
+ *  - other registries     → the env var derived by {@link registryTokenEnv}
+ *
+ * @param registry - The target registry URL.
+ * @param tokenEnv - The target's declared `tokenEnv`, or `null`.
+ *
+ * @public
+ */
+export const resolveCredential = (
+	registry: string,
+	tokenEnv: string | null,
+	sources: AuthSources,
+): RegistryCredential => {
+	if (tokenEnv !== null) {
+		const token = sources.env[tokenEnv];
+		return token ? { kind: "token", token, source: "tokenEnv" } : { kind: "missing", tokenEnv };
+	}
+
+	const custom = sources.customRegistries.find((e) => e.registry === normalizeRegistry(registry));
+	if (custom !== undefined) {
+		if (custom.authToken) return { kind: "token", token: custom.authToken, source: "custom-registries" };
+		if (custom.auth) return { kind: "basic", auth: custom.auth };
+		return sources.ghPkgsToken !== null
+			? { kind: "token", token: sources.ghPkgsToken, source: "github-token" }
+			: { kind: "missing", tokenEnv: "github-token" };
+	}
+
+	if (isJsrRegistry(registry)) return { kind: "oidc" };
+	if (isNpmRegistry(registry)) {
+		return sources.npmToken !== null
+			? { kind: "token", token: sources.npmToken, source: "npm-token" }
+			: { kind: "oidc" };
+	}
+	if (isGitHubPackagesRegistry(registry)) {
+		return sources.ghPkgsToken !== null
+			? { kind: "token", token: sources.ghPkgsToken, source: "github-token" }
+			: { kind: "missing", tokenEnv: "github-token" };
+	}
+
+	const derived = registryTokenEnv(registry);
+	const token = sources.env[derived];
+	return token ? { kind: "token", token, source: "registry-env" } : { kind: "missing", tokenEnv: derived };
+};
+
+/**
+ * Write `credential` to `~/.npmrc` for `registry`.
+ *
+ * A token goes through `PackagePublish.setupAuth`; a basic credential is set
+ * with `npm config set //<host>/:_auth`. OIDC and missing credentials write
+ * nothing. Failures are logged, not raised — the dry-run or publish that
+ * follows reports the auth error in context.
+ *
+ * @public
+ */
+export const applyCredential = (
+	registry: string,
+	credential: RegistryCredential,
+): Effect.Effect<void, never, PackagePublish | CommandRunner> =>
+	Effect.gen(function* () {
+		if (credential.kind === "token") {
+			const publish = yield* PackagePublish;
+			yield* publish
+				.setupAuth(registry, credential.token)
+				.pipe(
+					Effect.catchAll((e: PackagePublishError) =>
+						Effect.logWarning(`setupAuth failed for ${registry}: ${e.message}`),
+					),
+				);
+		} else if (credential.kind === "basic") {
+			const runner = yield* CommandRunner;
+			const key = `${normalizeRegistry(registry).replace(/^https?:/, "")}:_auth`;
+			yield* runner
+				.exec("npm", ["config", "set", `${key}=${credential.auth}`, "--location=user"])
+				.pipe(Effect.catchAll((e) => Effect.logWarning(`setting _auth failed for ${registry}: ${e.message}`)));
+		}
+	});
+
+/**
+ * A target to resolve auth for in {@link checkRegistryAuth}.
+ *
+ * @public
+ */
+export interface AuthTarget {
+	readonly packageName: string;
+	/** Build directory, as reported on findings. */
+	readonly directory: string;
+	readonly registry: string;
+	readonly tokenEnv: string | null;
+}
+
+/**
+ * Resolve auth for every target up front and probe each custom registry
+ * with `npm ping`.
+ *
+ * @remarks
+ * npm, GitHub Packages, and JSR are not pinged — their reachability is not
+ * in the repository's hands. A missing token is an `error` finding (the
+ * publish would fail); an unreachable registry is a `warning`, since the
+ * outage may clear before merge.
+ *
+ * @returns The auth report and its `Publish Validation` findings.
+ *
+ * @public
+ */
+export const checkRegistryAuth = (
+	targets: ReadonlyArray<AuthTarget>,
+	sources: AuthSources,
+): Effect.Effect<
+	{ readonly result: AuthSetupResult; readonly findings: ReadonlyArray<ValidationFinding> },
+	never,
+	CommandRunner
+> =>
+	Effect.gen(function* () {
+		const runner = yield* CommandRunner;
+		const result: AuthSetupResult = {
+			success: true,
+			configuredRegistries: [],
+			missingTokens: [],
+			unreachableRegistries: [],
+		};
+		const findings: ValidationFinding[] = [];
+		const pinged = new Set<string>();
+
+		for (const target of targets) {
+			const credential = resolveCredential(target.registry, target.tokenEnv, sources);
+			if (credential.kind === "missing") {
+				if (!result.missingTokens.some((m) => m.registry === target.registry && m.tokenEnv === credential.tokenEnv)) {
+					result.missingTokens.push({ registry: target.registry, tokenEnv: credential.tokenEnv });
+				}
+				findings.push({
+					severity: "error",
+					check: "Publish Validation",
+					scope: { package: target.packageName, directory: target.directory },
+					message: `no credential for ${target.registry}: \`${credential.tokenEnv}\` is not set`,
+				});
+			} else if (!result.configuredRegistries.includes(target.registry)) {
+				result.configuredRegistries.push(target.registry);
+			}
+
+			const isCustom =
+				!isNpmRegistry(target.registry) &&
+				!isGitHubPackagesRegistry(target.registry) &&
+				!isJsrRegistry(target.registry);
+			if (!isCustom || pinged.has(target.registry)) continue;
+			pinged.add(target.registry);
+			const ping = yield* Effect.either(runner.execCapture("npm", ["ping", "--registry", target.registry]));
+			if (ping._tag === "Left") {
+				const error = (ping.left.stderr ?? ping.left.message).trim() || "npm ping failed";
+				result.unreachableRegistries.push({ registry: target.registry, error });
+				findings.push({
+					severity: "warning",
+					check: "Publish Validation",
+					scope: null,
+					message: `registry ${target.registry} is unreachable: ${error}`,
+				});
+			}
+		}
+
+		result.success = result.missingTokens.length === 0 && result.unreachableRegistries.length === 0;
+		return { result, findings };
+	});
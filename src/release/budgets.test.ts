@@ -0,0 +1,97 @@
+/**
+ * Unit tests for bundle size budgets (`release/budgets`).
+ */
+
+import { describe, expect, it } from "vitest";
+import type { SizeBudget } from "../schema/silk-release-config.js";
+import { checkBudget, resolveBudget } from "./budgets.js";
+import type { PackageBuildResult, TarballDiff } from "./types.js";
+
+const build = (overrides: Partial<PackageBuildResult> = {}): PackageBuildResult => ({
+	directory: "dist/npm",
+	packedBytes: 10_000,
+	unpackedBytes: 40_000,
+	fileCount: 12,
+	sbom: null,
+	targets: [],
+	tarballDiff: null,
+	...overrides,
+});
+
+const diff = (packedBytesDelta: number | null, unpackedBytesDelta: number | null): TarballDiff => ({
+	previousVersion: "1.0.0",
+	added: [],
+	removed: [],
+	changed: [],
+	packedBytesDelta,
+	unpackedBytesDelta,
+	manifestChanges: [],
+});
+
+describe("resolveBudget", () => {
+	const budgets: ReadonlyArray<SizeBudget> = [
+		{ package: "@test/core", maxPackedBytes: 1 },
+		{ package: "@test/*", maxPackedBytes: 2 },
+		{ package: "**", maxPackedBytes: 3 },
+	];
+
+	it("takes the first budget whose pattern matches", () => {
+		expect(resolveBudget(budgets, "@test/core")?.maxPackedBytes).toBe(1);
+		expect(resolveBudget(budgets, "@test/utils")?.maxPackedBytes).toBe(2);
+		expect(resolveBudget(budgets, "@other/utils")?.maxPackedBytes).toBe(3);
+	});
+
+	it("does not let `*` cross a scope separator", () => {
+		expect(resolveBudget([{ package: "*" }], "@test/core")).toBe(null);
+		expect(resolveBudget([{ package: "*" }], "plain")).toEqual({ package: "*" });
+	});
+
+	it("returns null for an unbudgeted package", () => {
+		expect(resolveBudget([], "@test/core")).toBe(null);
+	});
+});
+
+describe("checkBudget", () => {
+	it("returns no findings for a build in budget", () => {
+		const budget: SizeBudget = { package: "@test/core", maxPackedBytes: 10_000, maxFileCount: 12 };
+		expect(checkBudget("@test/core", build(), budget)).toEqual([]);
+	});
+
+	it("reports each exceeded limit as a Publish Validation error", () => {
+		const budget: SizeBudget = {
+			package: "@test/*",
+			maxPackedBytes: 5_000,
+			maxUnpackedBytes: 20_000,
+			maxFileCount: 10,
+		};
+		const findings = checkBudget("@test/core", build(), budget);
+		expect(findings.map((f) => [f.severity, f.check])).toEqual([
+			["error", "Publish Validation"],
+			["error", "Publish Validation"],
+			["error", "Publish Validation"],
+		]);
+		expect(findings[0]?.message).toContain("packed size");
+		expect(findings[2]?.message).toBe("file count 12 exceeds the budget of 10 (`@test/*`)");
+		expect(findings[0]?.scope).toEqual({ package: "@test/core", directory: "dist/npm" });
+	});
+
+	it("skips limits the dry-run did not report", () => {
+		const budget: SizeBudget = { package: "@test/core", maxPackedBytes: 1, maxFileCount: 1 };
+		expect(checkBudget("@test/core", build({ packedBytes: null, fileCount: null }), budget)).toEqual([]);
+	});
+
+	it("warns when growth over the previous version exceeds the budget", () => {
+		const budget: SizeBudget = { package: "@test/core", maxGrowthPercent: 10 };
+		// 10 000 packed, up 2 000 from 8 000 → 25%; unpacked up 1 000 from 39 000 → ~2.6%.
+		const findings = checkBudget("@test/core", build({ tarballDiff: diff(2_000, 1_000) }), budget);
+		expect(findings).toHaveLength(1);
+		expect(findings[0]?.severity).toBe("warning");
+		expect(findings[0]?.message).toBe("packed size grew 25.0% since 1.0.0, over the 10% budget (`@test/core`)");
+	});
+
+	it("does not check growth without a tarball diff", () => {
+		const budget: SizeBudget = { package: "@test/core", maxGrowthPercent: 0 };
+		expect(checkBudget("@test/core", build(), budget)).toEqual([]);
+		expect(checkBudget("@test/core", build({ tarballDiff: diff(null, null) }), budget)).toEqual([]);
+	});
+});
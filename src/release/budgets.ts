@@ -0,0 +1,87 @@
+/**
+ * Bundle size budgets.
+ *
+ * Checks each build's publish dry-run stats against the `budgets` section of
+ * the Silk release config: hard `max*` limits produce `error` findings, and
+ * growth over the previously published version beyond `maxGrowthPercent`
+ * produces a `warning`. Findings are filed under `Publish Validation`, so
+ * they flow through `deriveCheckConclusion` like every other publish
+ * finding — `strict-warnings` escalates a size regression to a failure.
+ *
+ * @module release/budgets
+ */
+
+import type { SizeBudget } from "../schema/silk-release-config.js";
+import { globToRegExp } from "../utils/glob.js";
+import { humanizeSize } from "./report.js";
+import type { PackageBuildResult, ValidationFinding } from "./types.js";
+
+/** The check budget findings are filed under. */
+const BUDGET_CHECK = "Publish Validation";
+
+/**
+ * The budget that applies to `packageName`: the first whose `package`
+ * pattern matches, or `null` when the package is unbudgeted.
+ *
+ * @public
+ */
+export const resolveBudget = (budgets: ReadonlyArray<SizeBudget>, packageName: string): SizeBudget | null =>
+	budgets.find((b) => b.package === packageName || globToRegExp(b.package).test(packageName)) ?? null;
+
+/** Growth of `current` over `current - delta`, in percent; `null` without a positive baseline. */
+const growthPercent = (current: number | null, delta: number | null): number | null => {
+	if (current === null || delta === null) return null;
+	const previous = current - delta;
+	return previous > 0 ? (delta / previous) * 100 : null;
+};
+
+/**
+ * Check one build's dry-run stats against `budget`.
+ *
+ * @remarks
+ * A stat the dry-run did not report is not checked. Growth is measured
+ * against the build's tarball diff, so it is only checked when the previous
+ * version's tarball could be listed.
+ *
+ * @returns The findings, in limit order; empty when the build is in budget.
+ *
+ * @public
+ */
+export const checkBudget = (
+	packageName: string,
+	build: PackageBuildResult,
+	budget: SizeBudget,
+): ReadonlyArray<ValidationFinding> => {
+	const scope = { package: packageName, directory: build.directory };
+	const findings: ValidationFinding[] = [];
+	const over = (actual: number | null, limit: number | undefined, label: string, format: (n: number) => string) => {
+		if (actual === null || limit === undefined || actual <= limit) return;
+		findings.push({
+			severity: "error",
+			check: BUDGET_CHECK,
+			scope,
+			message: `${label} ${format(actual)} exceeds the budget of ${format(limit)} (\`${budget.package}\`)`,
+		});
+	};
+	over(build.packedBytes, budget.maxPackedBytes, "packed size", humanizeSize);
+	over(build.unpackedBytes, budget.maxUnpackedBytes, "unpacked size", humanizeSize);
+	over(build.fileCount, budget.maxFileCount, "file count", String);
+
+	const diff = build.tarballDiff ?? null;
+	if (budget.maxGrowthPercent !== undefined && diff !== null) {
+		const limit = budget.maxGrowthPercent;
+		const grew = (current: number | null, delta: number | null, label: string) => {
+			const pct = growthPercent(current, delta);
+			if (pct === null || pct <= limit) return;
+			findings.push({
+				severity: "warning",
+				check: BUDGET_CHECK,
+				scope,
+				message: `${label} grew ${pct.toFixed(1)}% since ${diff.previousVersion}, over the ${limit}% budget (\`${budget.package}\`)`,
+			});
+		};
+		grew(build.packedBytes, diff.packedBytesDelta, "packed size");
+		grew(build.unpackedBytes, diff.unpackedBytesDelta, "unpacked size");
+	}
+	return findings;
+};
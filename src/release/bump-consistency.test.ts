@@ -0,0 +1,148 @@
+/**
+ * Unit tests for the bump consistency check (`release/bump-consistency`).
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ExpectedBump } from "./bump-consistency.js";
+import { bumpConsistencyFindings, expectedBumps, summarizeBumpConsistency } from "./bump-consistency.js";
+
+const bumps = (expected: ReadonlyMap<string, ExpectedBump>) =>
+	Object.fromEntries([...expected].map(([name, { bump }]) => [name, bump]));
+
+describe("expectedBumps", () => {
+	it("takes the highest bump declared for each package", () => {
+		const expected = expectedBumps(
+			[
+				[{ name: "a", bump: "patch" }],
+				[
+					{ name: "a", bump: "minor" },
+					{ name: "b", bump: "patch" },
+				],
+			],
+			null,
+			new Map(),
+		);
+
+		expect(bumps(expected)).toEqual({ a: "minor", b: "patch" });
+		expect(expected.get("a")?.reason).toBe("declared by a changeset");
+	});
+
+	it("raises every fixed group member, and bumped linked members, to the group's highest bump", () => {
+		const expected = expectedBumps(
+			[[{ name: "a", bump: "major" }], [{ name: "c", bump: "patch" }], [{ name: "d", bump: "minor" }]],
+			{ fixed: [["a", "b"]], linked: [["c", "d", "e"]] },
+			new Map(),
+		);
+
+		expect(bumps(expected)).toEqual({ a: "major", b: "major", c: "minor", d: "minor" });
+		expect(expected.get("b")?.reason).toBe("fixed group with a");
+		expect(expected.get("c")?.reason).toBe("linked group with d");
+	});
+
+	it("patch-bumps dependents, transitively, per updateInternalDependencies", () => {
+		const dependencies = new Map<string, ReadonlyArray<string>>([
+			["core", []],
+			["cli", ["core"]],
+			["app", ["cli"]],
+		]);
+		const changesets = [[{ name: "core", bump: "patch" as const }]];
+
+		expect(bumps(expectedBumps(changesets, null, dependencies))).toEqual({ core: "patch", cli: "patch", app: "patch" });
+		expect(bumps(expectedBumps(changesets, { updateInternalDependencies: "minor" }, dependencies))).toEqual({
+			core: "patch",
+		});
+	});
+
+	it("carries a dependent's patch bump into its fixed group", () => {
+		const expected = expectedBumps(
+			[[{ name: "core", bump: "minor" }]],
+			{ fixed: [["cli", "plugin"]] },
+			new Map<string, ReadonlyArray<string>>([
+				["core", []],
+				["cli", ["core"]],
+				["plugin", []],
+			]),
+		);
+
+		expect(bumps(expected)).toEqual({ core: "minor", cli: "patch", plugin: "patch" });
+	});
+});
+
+describe("bumpConsistencyFindings", () => {
+	const expected = new Map<string, ExpectedBump>([
+		["a", { bump: "major", reason: "declared by a changeset" }],
+		["b", { bump: "patch", reason: "depends on a" }],
+		["c", { bump: "minor", reason: "declared by a changeset" }],
+	]);
+	const workspace = new Set(["a", "b", "c", "d"]);
+
+	it("raises an error for a bump smaller than the changesets declare", () => {
+		const findings = bumpConsistencyFindings(
+			expected,
+			[
+				{ name: "a", version: "1.0.1", baseVersion: "1.0.0" },
+				{ name: "b", version: "2.0.1", baseVersion: "2.0.0" },
+				{ name: "c", version: "0.4.0", baseVersion: "0.3.2" },
+			],
+			workspace,
+		);
+
+		expect(findings).toEqual([
+			{
+				severity: "error",
+				check: "Bump Consistency",
+				scope: { package: "a", directory: null },
+				message:
+					"1.0.0 → 1.0.1 is a patch bump, but major is expected (declared by a changeset). Check the fixed and linked groups in .changeset/config.json.",
+			},
+		]);
+	});
+
+	it("warns about unexplained and unapplied bumps", () => {
+		const findings = bumpConsistencyFindings(
+			expected,
+			[
+				{ name: "a", version: "2.0.0", baseVersion: "1.4.0" },
+				{ name: "b", version: "2.1.0", baseVersion: "2.0.0" },
+				{ name: "d", version: "1.0.1", baseVersion: "1.0.0" },
+			],
+			workspace,
+		);
+
+		expect(findings.map((f) => [f.severity, f.scope?.package, f.message])).toEqual([
+			["warning", "b", "2.0.0 → 2.1.0 is a minor bump, but the changesets only account for patch (depends on a)."],
+			["warning", "d", "1.0.0 → 1.0.1 is a patch bump, but no changeset, group, or dependency accounts for it."],
+			["warning", "c", "A minor bump is expected (declared by a changeset), but the version is unchanged."],
+		]);
+	});
+
+	it("skips new packages, prereleases, and changesets for packages outside the workspace", () => {
+		const findings = bumpConsistencyFindings(
+			new Map<string, ExpectedBump>([...expected, ["gone", { bump: "patch", reason: "declared by a changeset" }]]),
+			[
+				{ name: "a", version: "2.0.0-beta.0", baseVersion: "1.4.0" },
+				{ name: "b", version: "0.1.0", baseVersion: null },
+				{ name: "c", version: "1.1.0", baseVersion: "1.0.0" },
+			],
+			workspace,
+		);
+
+		expect(findings).toEqual([]);
+	});
+});
+
+describe("summarizeBumpConsistency", () => {
+	it("counts mismatches and warnings", () => {
+		const findings = bumpConsistencyFindings(
+			new Map<string, ExpectedBump>([["a", { bump: "major", reason: "declared by a changeset" }]]),
+			[
+				{ name: "a", version: "1.1.0", baseVersion: "1.0.0" },
+				{ name: "d", version: "1.0.1", baseVersion: "1.0.0" },
+			],
+			new Set(["a", "d"]),
+		);
+
+		expect(summarizeBumpConsistency(findings, 2)).toBe("1 mismatched bump(s), 1 warning(s)");
+		expect(summarizeBumpConsistency([], 2)).toBe("2 package bump(s) match their changesets");
+	});
+});
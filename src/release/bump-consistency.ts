@@ -0,0 +1,238 @@
+/**
+ * Version bumps checked against the changesets that declare them.
+ *
+ * The target branch still carries the `.changeset/*.md` files Phase 1
+ * consumed on the release branch, so the bump each package should have
+ * received can be recomputed the way `changeset version` computes it: the
+ * highest bump any changeset declares for the package, raised to the highest
+ * bump of its `fixed` and `linked` groups, plus a patch bump for dependents
+ * of a bumped package (per `updateInternalDependencies`). That expectation is
+ * compared with the bump the release branch actually carries (see
+ * `inferBumpType`).
+ *
+ * A smaller bump than expected — a `major` changeset released as a patch
+ * because of a misconfigured group, say — is a `Bump Consistency` error. A
+ * larger bump than the changesets explain, or a declared bump that was never
+ * applied, is a warning.
+ *
+ * @module release/bump-consistency
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { ChangesetBump } from "../utils/count-changesets.js";
+import type { ChangesetConfig } from "../utils/release-summary-helpers.js";
+import { inferBumpType } from "./publish.js";
+import type { ValidationFinding } from "./types.js";
+
+/** The check name findings from this module are filed under. */
+export const BUMP_CHECK = "Bump Consistency";
+
+type Bump = ChangesetBump["bump"];
+
+const RANK: Record<Bump, number> = { patch: 1, minor: 2, major: 3 };
+
+/**
+ * The bump a package is expected to receive, and why.
+ *
+ * @public
+ */
+export interface ExpectedBump {
+	readonly bump: Bump;
+	/** Where the bump comes from, e.g. `declared by a changeset` or `fixed group with b`. */
+	readonly reason: string;
+}
+
+/**
+ * A released package as the check sees it.
+ *
+ * @public
+ */
+export interface BumpedPackage {
+	readonly name: string;
+	readonly version: string;
+	/** The version on the target branch; `null` for a new package. */
+	readonly baseVersion: string | null;
+}
+
+/**
+ * Read the internal dependency names of the package at `packagePath`:
+ * `dependencies`, `optionalDependencies`, and `peerDependencies`, which are
+ * the ranges `changeset version` updates. A missing or unreadable
+ * `package.json` has none.
+ *
+ * @internal
+ */
+export const readDependencyNames = (packagePath: string): ReadonlyArray<string> => {
+	const manifestPath = join(packagePath, "package.json");
+	if (!existsSync(manifestPath)) return [];
+	try {
+		const manifest = JSON.parse(readFileSync(manifestPath, "utf8")) as Record<string, unknown>;
+		return ["dependencies", "optionalDependencies", "peerDependencies"].flatMap((field) => {
+			const deps = manifest[field];
+			return deps !== null && typeof deps === "object" ? Object.keys(deps) : [];
+		});
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Compute the bump each package should receive from the changesets on the
+ * target branch.
+ *
+ * @remarks
+ * Mirrors `changeset version`: members of a `fixed` group all take the
+ * group's highest bump; members of a `linked` group that are bumped anyway
+ * take the highest bump among them; a package depending on a bumped package
+ * receives at least a patch bump — for any bump when
+ * `updateInternalDependencies` is `patch` (the default), for a minor or major
+ * one when it is `minor`. The rules are applied until nothing changes, since
+ * each can trigger the others.
+ *
+ * @param dependencies - Each workspace package's internal dependency names.
+ *
+ * @public
+ */
+export const expectedBumps = (
+	changesets: ReadonlyArray<ReadonlyArray<ChangesetBump>>,
+	config: ChangesetConfig | null,
+	dependencies: ReadonlyMap<string, ReadonlyArray<string>>,
+): ReadonlyMap<string, ExpectedBump> => {
+	const expected = new Map<string, ExpectedBump>();
+	const raise = (name: string, bump: Bump, reason: string): boolean => {
+		const current = expected.get(name);
+		if (current !== undefined && RANK[current.bump] >= RANK[bump]) return false;
+		expected.set(name, { bump, reason });
+		return true;
+	};
+
+	for (const changeset of changesets) {
+		for (const { name, bump } of changeset) raise(name, bump, "declared by a changeset");
+	}
+
+	const threshold = RANK[config?.updateInternalDependencies ?? "patch"];
+	let changed = true;
+	while (changed) {
+		changed = false;
+		for (const group of config?.fixed ?? []) {
+			const top = highest(group, expected);
+			if (top === null) continue;
+			for (const name of group) {
+				if (name !== top.name) changed = raise(name, top.bump, `fixed group with ${top.name}`) || changed;
+			}
+		}
+		for (const group of config?.linked ?? []) {
+			const top = highest(group, expected);
+			if (top === null) continue;
+			for (const name of group) {
+				if (name !== top.name && expected.has(name)) {
+					changed = raise(name, top.bump, `linked group with ${top.name}`) || changed;
+				}
+			}
+		}
+		for (const [name, deps] of dependencies) {
+			if (expected.has(name)) continue;
+			const dependency = deps.find((dep) => {
+				const bump = expected.get(dep)?.bump;
+				return bump !== undefined && RANK[bump] >= threshold;
+			});
+			if (dependency !== undefined) changed = raise(name, "patch", `depends on ${dependency}`) || changed;
+		}
+	}
+	return expected;
+};
+
+/** The group member with the highest expected bump, if any is bumped. */
+const highest = (
+	group: ReadonlyArray<string>,
+	expected: ReadonlyMap<string, ExpectedBump>,
+): { readonly name: string; readonly bump: Bump } | null => {
+	let top: { name: string; bump: Bump } | null = null;
+	for (const name of group) {
+		const bump = expected.get(name)?.bump;
+		if (bump !== undefined && (top === null || RANK[bump] > RANK[top.bump])) top = { name, bump };
+	}
+	return top;
+};
+
+/**
+ * Findings for released bumps that disagree with the expected ones.
+ *
+ * @remarks
+ * New packages and prereleases, whose bump `inferBumpType` cannot tell, are
+ * not compared. A package the changesets name but that is not among
+ * `released` is only reported when it is a workspace package (`workspace`),
+ * so changesets for removed packages stay quiet.
+ *
+ * @param workspace - Names of all workspace packages.
+ *
+ * @public
+ */
+export const bumpConsistencyFindings = (
+	expected: ReadonlyMap<string, ExpectedBump>,
+	released: ReadonlyArray<BumpedPackage>,
+	workspace: ReadonlySet<string>,
+): ReadonlyArray<ValidationFinding> => {
+	const findings: ValidationFinding[] = [];
+	const finding = (severity: ValidationFinding["severity"], name: string, message: string): ValidationFinding => ({
+		severity,
+		check: BUMP_CHECK,
+		scope: { package: name, directory: null },
+		message,
+	});
+
+	for (const pkg of released) {
+		if (pkg.baseVersion === null) continue;
+		const actual = inferBumpType(pkg.baseVersion, pkg.version);
+		if (actual === "unknown") continue;
+		const want = expected.get(pkg.name);
+		const range = `${pkg.baseVersion} → ${pkg.version}`;
+		if (want === undefined) {
+			findings.push(
+				finding(
+					"warning",
+					pkg.name,
+					`${range} is a ${actual} bump, but no changeset, group, or dependency accounts for it.`,
+				),
+			);
+		} else if (RANK[actual] < RANK[want.bump]) {
+			findings.push(
+				finding(
+					"error",
+					pkg.name,
+					`${range} is a ${actual} bump, but ${want.bump} is expected (${want.reason}). Check the fixed and linked groups in .changeset/config.json.`,
+				),
+			);
+		} else if (RANK[actual] > RANK[want.bump]) {
+			findings.push(
+				finding(
+					"warning",
+					pkg.name,
+					`${range} is a ${actual} bump, but the changesets only account for ${want.bump} (${want.reason}).`,
+				),
+			);
+		}
+	}
+
+	const releasedNames = new Set(released.map((pkg) => pkg.name));
+	for (const [name, want] of expected) {
+		if (releasedNames.has(name) || !workspace.has(name)) continue;
+		findings.push(
+			finding("warning", name, `A ${want.bump} bump is expected (${want.reason}), but the version is unchanged.`),
+		);
+	}
+	return findings;
+};
+
+/**
+ * One-line outcome for the `Bump Consistency` checks-table row.
+ *
+ * @public
+ */
+export const summarizeBumpConsistency = (findings: ReadonlyArray<ValidationFinding>, packageCount: number): string => {
+	const own = findings.filter((f) => f.check === BUMP_CHECK);
+	if (own.length === 0) return `${packageCount} package bump(s) match their changesets`;
+	const errors = own.filter((f) => f.severity === "error").length;
+	return `${errors} mismatched bump(s), ${own.length - errors} warning(s)`;
+};
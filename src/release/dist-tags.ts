@@ -0,0 +1,124 @@
+/**
+ * Post-publish dist-tag promotion.
+ *
+ * A package whose targets publish under a staging tag (e.g. `next`) can have
+ * a second tag (e.g. `latest`) moved onto the new version once every one of
+ * its targets succeeded. Promotion runs `npm dist-tag add` against each npm
+ * target's own registry; JSR has no dist-tags and is left alone.
+ *
+ * @module release/dist-tags
+ */
+
+import type { CommandRunnerError } from "@savvy-web/github-action-effects";
+import { CommandRunner, Step } from "@savvy-web/github-action-effects";
+import { Effect } from "effect";
+import { isPrereleaseVersion } from "../utils/detect-pre-mode.js";
+import type { DistTagChange, TargetPublishResult } from "./types.js";
+
+/**
+ * Point `tag` at `packageName@version` on `registry` via `npm dist-tag add`.
+ *
+ * @remarks
+ * Runs the bare `npm` CLI, which every runner image ships. Auth comes from
+ * the `~/.npmrc` entry `PackagePublish.setupAuth` wrote for the registry
+ * during publish; npm's OIDC trusted publishing does not cover dist-tag
+ * changes, so npmjs.org promotion needs the `npm-token` input.
+ *
+ * @returns Fails with the CLI's stderr (or the runner's message) when the
+ *   command exits non-zero.
+ *
+ * @internal
+ */
+export const addDistTag = (
+	packageName: string,
+	version: string,
+	tag: string,
+	registry: string,
+): Effect.Effect<void, string, CommandRunner> =>
+	Effect.gen(function* () {
+		const runner = yield* CommandRunner;
+		const args = ["dist-tag", "add", `${packageName}@${version}`, tag, "--registry", registry];
+		yield* Effect.logDebug(`[dist-tag] npm ${args.join(" ")}`);
+		yield* runner.execCapture("npm", args).pipe(Effect.mapError((e: CommandRunnerError) => e.stderr ?? e.message));
+	});
+
+/**
+ * Move `promoteTag` onto a freshly-published version across the package's
+ * npm targets.
+ *
+ * @remarks
+ * Promotion is all-or-nothing per package: it only runs when every target
+ * succeeded (`published` or recovery-`skipped`), so a half-published
+ * release never becomes `latest`. Prerelease versions are never promoted —
+ * they belong to their pre or snapshot tag. Targets already published under
+ * `promoteTag` need no change and are left untouched.
+ *
+ * A failed promotion is recorded on the target's `distTags` with
+ * `status: "failed"` but does not fail the target: the version is on the
+ * registry either way, and the tag can be moved by hand.
+ *
+ * @param packageName - The package name.
+ * @param version - The version that was just published.
+ * @param results - The package's per-target publish results.
+ * @param promoteTag - The dist-tag to promote onto the version.
+ * @returns `results` with each promotion appended to the target's `distTags`.
+ *
+ * @public
+ */
+export const promoteDistTags = (
+	packageName: string,
+	version: string,
+	results: ReadonlyArray<TargetPublishResult>,
+	promoteTag: string,
+): Effect.Effect<ReadonlyArray<TargetPublishResult>, never, CommandRunner> =>
+	Effect.gen(function* () {
+		if (isPrereleaseVersion(version)) {
+			yield* Effect.logDebug(`[dist-tag] ${packageName}@${version} is a prerelease; not promoting to ${promoteTag}`);
+			return results;
+		}
+		if (results.length === 0 || !results.every((r) => r.success)) {
+			yield* Effect.logInfo(
+				`⏭ ${packageName}@${version} — not every target succeeded; skipping "${promoteTag}" promotion`,
+			);
+			return results;
+		}
+
+		const candidates = results.filter(
+			(r) => r.target.protocol === "npm" && r.target.registry !== null && r.target.tag !== promoteTag,
+		);
+		if (candidates.length === 0) return results;
+
+		return yield* Step.withStep(
+			`Promote · ${packageName}@${version} → ${promoteTag}`,
+			Effect.gen(function* () {
+				let failed = 0;
+				const promoted: TargetPublishResult[] = [];
+				for (const r of results) {
+					if (!candidates.includes(r) || r.target.registry === null) {
+						promoted.push(r);
+						continue;
+					}
+					const outcome = yield* Effect.either(addDistTag(packageName, version, promoteTag, r.target.registry));
+					const change: DistTagChange =
+						outcome._tag === "Right"
+							? { tag: promoteTag, source: "promote", status: "applied" }
+							: { tag: promoteTag, source: "promote", status: "failed", error: outcome.left };
+					if (outcome._tag === "Left") {
+						failed += 1;
+						yield* Effect.logWarning(
+							`[dist-tag] ${r.target.registry}: promoting ${packageName}@${version} to ${promoteTag} failed — ${outcome.left}`,
+						);
+					}
+					promoted.push({ ...r, distTags: [...(r.distTags ?? []), change] });
+				}
+
+				const summary = `${candidates.length - failed} promoted, ${failed} failed`;
+				if (failed > 0) {
+					yield* Step.failure(summary);
+				} else {
+					yield* Step.success(summary);
+				}
+				return promoted;
+			}),
+		);
+	});
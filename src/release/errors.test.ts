@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { PublishError, ReleasesError, ValidationError } from "./errors.js";
+import { PublishError, ReleasesError, SnapshotError, ValidationError } from "./errors.js";
 
 describe("release errors", () => {
 	it("ValidationError carries a reason discriminator", () => {
@@ -19,4 +19,10 @@ describe("release errors", () => {
 		expect(e._tag).toBe("ReleasesError");
 		expect(e.reason).toBe("tag");
 	});
+
+	it("SnapshotError carries a reason discriminator", () => {
+		const e = new SnapshotError({ reason: "version", message: "version failed" });
+		expect(e._tag).toBe("SnapshotError");
+		expect(e.reason).toBe("version");
+	});
 });
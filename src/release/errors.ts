@@ -20,3 +20,10 @@ export class ReleasesError extends Data.TaggedError("ReleasesError")<{
 	readonly message: string;
 	readonly cause?: unknown;
 }> {}
+
+/** Error from the pull-request snapshot (canary) phase. */
+export class SnapshotError extends Data.TaggedError("SnapshotError")<{
+	readonly reason: "version" | "detect";
+	readonly message: string;
+	readonly cause?: unknown;
+}> {}
@@ -0,0 +1,266 @@
+/**
+ * JSR publish helpers for the Phase-3 orchestrator.
+ *
+ * JSR does not consume npm tarballs — it publishes a source tree described by
+ * a `jsr.json` (or `deno.json`) config. These helpers prepare that config from
+ * the built `package.json`, probe the JSR API for an existing version, and
+ * drive the `jsr publish` CLI, which authenticates via GitHub Actions OIDC.
+ *
+ * @module release/jsr
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { HttpClient } from "@effect/platform";
+import type { CommandRunnerError } from "@savvy-web/github-action-effects";
+import { CommandRunner } from "@savvy-web/github-action-effects";
+import { Effect } from "effect";
+import { parse as parseJsonc } from "jsonc-parser";
+
+/** Config files the JSR CLI reads, in its own lookup order. */
+const JSR_CONFIG_FILE_NAMES = ["jsr.json", "jsr.jsonc", "deno.json", "deno.jsonc"] as const;
+
+/** Base URL of the JSR registry and its package-metadata API. */
+const JSR_BASE_URL = "https://jsr.io";
+
+/**
+ * Outcome of {@link prepareJsrConfig}.
+ *
+ * @internal
+ */
+export type JsrConfigResult =
+	| {
+			readonly ok: true;
+			/** Absolute path of the config the CLI will read. */
+			readonly configPath: string;
+			/** `true` when the config was generated from the built `package.json`. */
+			readonly generated: boolean;
+	  }
+	| { readonly ok: false; readonly error: string };
+
+/** Minimal shape of a `jsr.json` / `deno.json` the orchestrator inspects. */
+interface JsrConfig {
+	readonly name?: string;
+	readonly version?: string;
+	readonly exports?: string | Readonly<Record<string, string>>;
+}
+
+/** Minimal built-`package.json` shape the generator maps from. */
+interface BuiltPackageJson {
+	readonly name?: string;
+	readonly version?: string;
+	readonly main?: string;
+	readonly module?: string;
+	readonly exports?: unknown;
+}
+
+/**
+ * Resolve one `package.json` export condition to a single file path.
+ *
+ * Condition objects are walked `import` → `default` → `require`, recursing
+ * into nested condition maps; the first string wins.
+ */
+const pickExportPath = (value: unknown): string | undefined => {
+	if (typeof value === "string") return value;
+	if (value === null || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const conditions = value as Record<string, unknown>;
+	for (const key of ["import", "default", "require"]) {
+		const picked = pickExportPath(conditions[key]);
+		if (picked !== undefined) return picked;
+	}
+	return undefined;
+};
+
+/**
+ * Map a built `package.json` `exports` field (or its `module`/`main` fallback)
+ * onto the JSR `exports` shape — a subpath → file map.
+ *
+ * @returns The JSR exports map, or `null` when the package has no entry point.
+ */
+export const toJsrExports = (pkg: BuiltPackageJson): Readonly<Record<string, string>> | null => {
+	const exports: Record<string, string> = {};
+	const raw = pkg.exports;
+	if (typeof raw === "string") {
+		exports["."] = raw;
+	} else if (raw !== null && typeof raw === "object" && !Array.isArray(raw)) {
+		const entries = Object.entries(raw as Record<string, unknown>);
+		// A condition map at the top level (`{ "import": "./index.js" }`) is the
+		// root export; a subpath map has every key starting with `.`.
+		const isSubpathMap = entries.length > 0 && entries.every(([key]) => key.startsWith("."));
+		if (isSubpathMap) {
+			for (const [subpath, value] of entries) {
+				// JSR has no equivalent of `./package.json` or wildcard subpaths.
+				if (subpath === "./package.json" || subpath.includes("*")) continue;
+				const picked = pickExportPath(value);
+				if (picked !== undefined) exports[subpath] = picked;
+			}
+		} else {
+			const picked = pickExportPath(raw);
+			if (picked !== undefined) exports["."] = picked;
+		}
+	}
+	if (Object.keys(exports).length === 0) {
+		const entry = pkg.module ?? pkg.main;
+		if (entry === undefined) return null;
+		exports["."] = entry.startsWith(".") ? entry : `./${entry}`;
+	}
+	return exports;
+};
+
+/**
+ * Ensure a build directory carries a JSR config that matches the release.
+ *
+ * @remarks
+ * An existing `jsr.json` / `deno.json` (or their `.jsonc` forms) is validated:
+ * its `name` and `version` must equal the package being released, so a stale
+ * config can never publish the wrong version. When no config exists, a
+ * `jsr.json` is generated from the built `package.json` (name, version, and
+ * `exports` mapped via {@link toJsrExports}).
+ *
+ * @param directory - Absolute path to the build directory.
+ * @param packageName - The released package name; JSR requires it scoped.
+ * @param version - The released version.
+ * @returns The config path, or an error describing why the directory cannot
+ *   be published to JSR.
+ *
+ * @internal
+ */
+export const prepareJsrConfig = (directory: string, packageName: string, version: string): JsrConfigResult => {
+	if (!/^@[^/]+\/[^/]+$/.test(packageName)) {
+		return { ok: false, error: `JSR requires a scoped package name (@scope/name); got "${packageName}"` };
+	}
+
+	const existing = JSR_CONFIG_FILE_NAMES.map((file) => join(directory, file)).find((path) => existsSync(path));
+	if (existing !== undefined) {
+		let config: JsrConfig;
+		try {
+			config = parseJsonc(readFileSync(existing, "utf-8")) as JsrConfig;
+		} catch (e) {
+			return { ok: false, error: `failed to read ${existing}: ${e instanceof Error ? e.message : String(e)}` };
+		}
+		if (config === null || typeof config !== "object") {
+			return { ok: false, error: `${existing} is not a JSON object` };
+		}
+		if (config.name !== packageName) {
+			return { ok: false, error: `${existing} name "${config.name ?? ""}" does not match "${packageName}"` };
+		}
+		if (config.version !== version) {
+			return { ok: false, error: `${existing} version "${config.version ?? ""}" does not match "${version}"` };
+		}
+		if (config.exports === undefined) {
+			return { ok: false, error: `${existing} declares no exports` };
+		}
+		return { ok: true, configPath: existing, generated: false };
+	}
+
+	const pkgJsonPath = join(directory, "package.json");
+	let pkg: BuiltPackageJson;
+	try {
+		pkg = JSON.parse(readFileSync(pkgJsonPath, "utf-8")) as BuiltPackageJson;
+	} catch (e) {
+		return { ok: false, error: `failed to read ${pkgJsonPath}: ${e instanceof Error ? e.message : String(e)}` };
+	}
+
+	const exports = toJsrExports(pkg);
+	if (exports === null) {
+		return { ok: false, error: `${pkgJsonPath} has no exports, module, or main entry to publish to JSR` };
+	}
+
+	const configPath = join(directory, "jsr.json");
+	const generated: JsrConfig = { name: packageName, version, exports };
+	try {
+		writeFileSync(configPath, `${JSON.stringify(generated, null, "\t")}\n`);
+	} catch (e) {
+		return { ok: false, error: `failed to write ${configPath}: ${e instanceof Error ? e.message : String(e)}` };
+	}
+	return { ok: true, configPath, generated: true };
+};
+
+/**
+ * Web URL of a published JSR package version.
+ *
+ * @internal
+ */
+export const jsrPackageUrl = (packageName: string, version: string): string =>
+	`${JSR_BASE_URL}/${packageName}@${version}`;
+
+/**
+ * Probe the JSR API for an already-published version.
+ *
+ * @remarks
+ * Reads `https://jsr.io/@scope/name/meta.json`; a `404` means the package has
+ * never been published (first release). JSR does not expose a tarball digest
+ * comparable to the local build, so a hit can only report "present", never
+ * "identical".
+ *
+ * @returns `true` when the version exists on JSR. Fails with a message when the
+ *   API is unreachable or returns an unexpected status.
+ *
+ * @internal
+ */
+export const isJsrVersionPublished = (
+	packageName: string,
+	version: string,
+): Effect.Effect<boolean, string, HttpClient.HttpClient> =>
+	Effect.gen(function* () {
+		const client = yield* HttpClient.HttpClient;
+		const url = `${JSR_BASE_URL}/${packageName}/meta.json`;
+		const response = yield* client.get(url, { headers: { accept: "application/json" } });
+		if (response.status === 404) return false;
+		if (response.status < 200 || response.status >= 300) {
+			return yield* Effect.fail(`GET ${url} returned HTTP ${response.status}`);
+		}
+		const meta = (yield* response.json) as { versions?: Record<string, unknown> };
+		return meta.versions !== undefined && Object.hasOwn(meta.versions, version);
+	}).pipe(Effect.mapError((e) => (typeof e === "string" ? e : e.message)));
+
+/**
+ * Build the `jsr publish` invocation for the repo's package manager — the
+ * JSR CLI is fetched on demand rather than installed as a dependency.
+ */
+const jsrPublishCommand = (
+	packageManager: "npm" | "pnpm" | "yarn" | "bun",
+	configPath: string,
+): { readonly command: string; readonly args: ReadonlyArray<string> } => {
+	// `--allow-dirty`: the build leaves the worktree dirty (dist output, a
+	// generated jsr.json), which is expected in CI.
+	const cliArgs = ["jsr", "publish", "--allow-dirty", "--config", configPath];
+	switch (packageManager) {
+		case "pnpm":
+			return { command: "pnpm", args: ["dlx", ...cliArgs] };
+		case "yarn":
+			return { command: "yarn", args: ["dlx", ...cliArgs] };
+		case "bun":
+			return { command: "bun", args: ["x", ...cliArgs] };
+		case "npm":
+			return { command: "npx", args: ["--yes", ...cliArgs] };
+	}
+};
+
+/**
+ * Publish a build directory to JSR via the `jsr publish` CLI.
+ *
+ * @remarks
+ * No token is passed: inside GitHub Actions the CLI exchanges the workflow's
+ * OIDC token (`id-token: write`) for publish rights, and JSR records
+ * provenance for the publish itself.
+ *
+ * @returns The CLI's captured stdout. Fails with the CLI's stderr (or the
+ *   runner's message) when the publish exits non-zero.
+ *
+ * @internal
+ */
+export const publishToJsr = (
+	directory: string,
+	configPath: string,
+	packageManager: "npm" | "pnpm" | "yarn" | "bun",
+): Effect.Effect<string, string, CommandRunner> =>
+	Effect.gen(function* () {
+		const runner = yield* CommandRunner;
+		const { command, args } = jsrPublishCommand(packageManager, configPath);
+		yield* Effect.logDebug(`[publish] jsr: ${command} ${args.join(" ")} (cwd=${directory})`);
+		const output = yield* runner
+			.execCapture(command, [...args], { cwd: directory })
+			.pipe(Effect.mapError((e: CommandRunnerError) => e.stderr ?? e.message));
+		return output.stdout;
+	});
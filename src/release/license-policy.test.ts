@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the SBOM license policy (`release/license-policy`).
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { EnhancedCycloneDXComponent } from "../types/sbom-config.js";
+import type { LicenseVerdict } from "./license-policy.js";
+import {
+	checkLicenses,
+	evaluateLicense,
+	licenseFindings,
+	readInstalledLicense,
+	summarizeLicenseCompliance,
+} from "./license-policy.js";
+
+describe("evaluateLicense", () => {
+	it("errors on denied licenses and on licenses missing from an allow-list", () => {
+		expect(evaluateLicense({ deny: ["GPL-3.0-only"] }, "gpl-3.0-only")).toEqual({
+			status: "error",
+			reason: "gpl-3.0-only is denied",
+		});
+		expect(evaluateLicense({ allow: ["MIT"] }, "ISC")).toEqual({
+			status: "error",
+			reason: "ISC is not on the allow-list",
+		});
+		expect(evaluateLicense({ allow: ["MIT"] }, "MIT")).toEqual({ status: "pass", reason: null });
+	});
+
+	it("reports copyleft and unknown licenses per the policy, warning by default", () => {
+		expect(evaluateLicense({}, "LGPL-2.1-or-later").status).toBe("warning");
+		expect(evaluateLicense({ copyleft: "error" }, "MPL-2.0").status).toBe("error");
+		expect(evaluateLicense({ copyleft: "allow" }, "GPL-2.0-only").status).toBe("pass");
+		expect(evaluateLicense({}, null)).toEqual({ status: "warning", reason: "no recognizable license declared" });
+		expect(evaluateLicense({ unknown: "error" }, "SEE LICENSE IN LICENSE.md").status).toBe("error");
+		expect(evaluateLicense({ unknown: "allow" }, "UNLICENSED").status).toBe("pass");
+	});
+
+	it("passes an expression with its best OR alternative and its worst AND term", () => {
+		const policy = { deny: ["GPL-3.0-only"] };
+
+		expect(evaluateLicense(policy, "(MIT OR GPL-3.0-only)").status).toBe("pass");
+		expect(evaluateLicense(policy, "MIT AND GPL-3.0-only").status).toBe("error");
+		expect(evaluateLicense({ allow: ["Apache-2.0"] }, "Apache-2.0 WITH LLVM-exception").status).toBe("pass");
+	});
+
+	it("binds AND tighter than OR and honors parentheses", () => {
+		const policy = { deny: ["GPL-3.0-only"] };
+
+		expect(evaluateLicense(policy, "(MIT OR Apache-2.0) AND GPL-3.0-only")).toEqual({
+			status: "error",
+			reason: "GPL-3.0-only is denied",
+		});
+		expect(evaluateLicense(policy, "MIT OR Apache-2.0 AND GPL-3.0-only").status).toBe("pass");
+		expect(evaluateLicense(policy, "MIT AND (Apache-2.0 OR GPL-3.0-only)").status).toBe("pass");
+		expect(evaluateLicense(policy, "(GPL-3.0-only OR (MIT AND GPL-3.0-only))").status).toBe("error");
+		expect(evaluateLicense({ allow: ["Apache License 2.0"] }, "Apache License 2.0").status).toBe("pass");
+	});
+
+	it("judges a malformed expression as an unknown license", () => {
+		expect(evaluateLicense({}, "(MIT OR ISC")).toEqual({
+			status: "warning",
+			reason: '"(MIT OR ISC" is not a valid SPDX expression',
+		});
+		expect(evaluateLicense({ unknown: "error" }, "MIT AND").status).toBe("error");
+		expect(evaluateLicense({ unknown: "allow" }, "OR MIT").status).toBe("pass");
+	});
+
+	it("leaves copyleft licenses to the allow-list when one is set", () => {
+		expect(evaluateLicense({ allow: ["GPL-3.0-only"], copyleft: "error" }, "GPL-3.0-only").status).toBe("pass");
+		expect(evaluateLicense({ allow: ["MIT"], copyleft: "allow" }, "GPL-3.0-only").status).toBe("error");
+	});
+});
+
+describe("checkLicenses", () => {
+	let root: string;
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), "license-policy-test-"));
+		const installed = join(root, "node_modules", "@scope", "legacy");
+		mkdirSync(installed, { recursive: true });
+		writeFileSync(
+			join(installed, "package.json"),
+			JSON.stringify({ licenses: [{ type: "MIT" }, { type: "BSD-2-Clause" }] }),
+		);
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	it("reads a license from the installed package.json when the BOM has none", () => {
+		expect(readInstalledLicense("@scope/legacy", [join(root, "missing"), root])).toBe("MIT OR BSD-2-Clause");
+		expect(readInstalledLicense("absent", [root])).toBe(null);
+	});
+
+	it("judges every component, named by its purl, worst first", () => {
+		const components = [
+			{ type: "library", name: "effect", version: "3.0.0", licenses: [{ license: { id: "MIT" } }] },
+			{ type: "library", name: "legacy", version: "1.0.0", purl: "pkg:npm/%40scope/legacy@1.0.0" },
+			{ type: "library", name: "gpl-lib", version: "2.0.0", licenses: [{ expression: "GPL-3.0-only" }] },
+		] as unknown as ReadonlyArray<EnhancedCycloneDXComponent>;
+
+		const verdicts = checkLicenses({ allow: ["MIT", "Apache-2.0"] }, components, [root]);
+
+		expect(verdicts.map((v) => [v.name, v.license, v.status])).toEqual([
+			["gpl-lib", "GPL-3.0-only", "error"],
+			["@scope/legacy", "MIT OR BSD-2-Clause", "pass"],
+			["effect", "MIT", "pass"],
+		]);
+	});
+});
+
+describe("licenseFindings / summarizeLicenseCompliance", () => {
+	const verdicts: ReadonlyArray<LicenseVerdict> = [
+		{ name: "gpl-lib", version: "2.0.0", license: "GPL-3.0-only", status: "error", reason: "GPL-3.0-only is denied" },
+		{ name: "mystery", version: null, license: null, status: "warning", reason: "no recognizable license declared" },
+		{ name: "effect", version: "3.0.0", license: "MIT", status: "pass", reason: null },
+	];
+
+	it("files one finding per component that did not pass", () => {
+		expect(licenseFindings("@test/pkg", "dist/npm", verdicts)).toEqual([
+			{
+				severity: "error",
+				check: "License Compliance",
+				scope: { package: "@test/pkg", directory: "dist/npm" },
+				message: "gpl-lib@2.0.0: GPL-3.0-only is denied",
+			},
+			{
+				severity: "warning",
+				check: "License Compliance",
+				scope: { package: "@test/pkg", directory: "dist/npm" },
+				message: "mystery: no recognizable license declared",
+			},
+		]);
+	});
+
+	it("counts components, violations, and warnings across builds", () => {
+		expect(summarizeLicenseCompliance(new Map([["@test/pkg:dist/npm", verdicts]]))).toBe(
+			"3 component(s) checked · 1 violation(s), 1 warning(s)",
+		);
+		expect(summarizeLicenseCompliance(new Map())).toBe("No license policy configured");
+	});
+});
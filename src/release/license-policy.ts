@@ -0,0 +1,278 @@
+/**
+ * License compliance of each build's runtime dependencies.
+ *
+ * The components of every build's SBOM are checked against the
+ * `licensePolicy` section of the Silk release config: a denied license, or
+ * one missing from a configured allow-list, is a `License Compliance` error;
+ * copyleft and unknown licenses are reported as the policy's `copyleft` and
+ * `unknown` settings say (a warning by default). The `copyleft` setting only
+ * applies without an allow-list — with one, the list alone decides. Without
+ * a `licensePolicy` section the check does not run.
+ *
+ * A component's license comes from its SBOM entry when the BOM carries one,
+ * and otherwise from the installed package's `package.json` (`license`, or
+ * the legacy `licenses` array).
+ *
+ * @module release/license-policy
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { LicensePolicy } from "../schema/silk-release-config.js";
+import type { EnhancedCycloneDXComponent } from "../types/sbom-config.js";
+import type { ValidationFinding } from "./types.js";
+
+/** The check name findings from this module are filed under. */
+export const LICENSE_CHECK = "License Compliance";
+
+/** SPDX identifiers of the copyleft families the `copyleft` setting covers. */
+const COPYLEFT = /^(?:A?GPL|LGPL|MPL|EPL|EUPL|CDDL|OSL|CC-BY-SA)-/i;
+
+/** Declared licenses that name no SPDX license. */
+const UNKNOWN = /^(?:UNLICENSED|UNKNOWN|NOASSERTION|SEE LICEN[CS]E IN\b)/i;
+
+type Status = "pass" | "warning" | "error";
+
+const RANK: Record<Status, number> = { pass: 0, warning: 1, error: 2 };
+
+/**
+ * One dependency's license, as judged by the policy.
+ *
+ * @public
+ */
+export interface LicenseVerdict {
+	readonly name: string;
+	readonly version: string | null;
+	/** The SPDX expression or license name, or `null` when none is declared. */
+	readonly license: string | null;
+	readonly status: Status;
+	/** Why the license did not pass; `null` when it did. */
+	readonly reason: string | null;
+}
+
+const severityOf = (setting: "allow" | "warn" | "error" | undefined): Status =>
+	setting === "allow" ? "pass" : setting === "error" ? "error" : "warning";
+
+/** A parsed SPDX license expression. */
+type LicenseExpression =
+	| { readonly kind: "license"; readonly id: string }
+	| { readonly kind: "and" | "or"; readonly left: LicenseExpression; readonly right: LicenseExpression };
+
+/**
+ * Parse an SPDX license expression by recursive descent: `OR` binds looser
+ * than `AND`, and parentheses group. A run of plain words is read as one
+ * license, so a legacy name like `Apache License 2.0` survives; `+` and a
+ * `WITH` exception are dropped, as they do not change the license judged.
+ *
+ * @returns The expression tree, or `null` when the expression is malformed.
+ */
+const parseLicenseExpression = (expression: string): LicenseExpression | null => {
+	const tokens = expression.match(/[()]|[^\s()]+/g) ?? [];
+	let position = 0;
+	const keyword = (word: string) => tokens[position]?.toUpperCase() === word;
+	const isWord = (token: string | undefined) =>
+		token !== undefined && token !== "(" && token !== ")" && !/^(?:AND|OR|WITH)$/i.test(token);
+	const words = (): string | null => {
+		const start = position;
+		while (isWord(tokens[position])) position++;
+		return position > start ? tokens.slice(start, position).join(" ") : null;
+	};
+
+	const atom = (): LicenseExpression | null => {
+		if (tokens[position] === "(") {
+			position++;
+			const inner = or();
+			if (inner === null || tokens[position] !== ")") return null;
+			position++;
+			return inner;
+		}
+		const id = words();
+		if (id === null) return null;
+		if (keyword("WITH")) {
+			position++;
+			if (words() === null) return null;
+		}
+		return { kind: "license", id: id.replace(/\+$/, "") };
+	};
+	const binary = (kind: "and" | "or", operand: () => LicenseExpression | null) => (): LicenseExpression | null => {
+		let left = operand();
+		while (left !== null && keyword(kind.toUpperCase())) {
+			position++;
+			const right = operand();
+			left = right === null ? null : { kind, left, right };
+		}
+		return left;
+	};
+	const and = binary("and", atom);
+	const or = binary("or", and);
+
+	const tree = or();
+	return tree !== null && position === tokens.length ? tree : null;
+};
+
+/**
+ * Judge an SPDX license expression against `policy`.
+ *
+ * @remarks
+ * The expression passes with its best `OR` alternative, and an alternative
+ * is as bad as its worst `AND`ed license; `AND` binds tighter than `OR`,
+ * parentheses group, and a `WITH` exception does not change the license it
+ * qualifies. A malformed expression is judged as an unknown license.
+ * Identifiers are compared case-insensitively. The `copyleft` setting only
+ * applies when the policy has no allow-list.
+ *
+ * @param license - The expression, or `null` when none is declared.
+ *
+ * @public
+ */
+export const evaluateLicense = (
+	policy: LicensePolicy,
+	license: string | null,
+): { readonly status: Status; readonly reason: string | null } => {
+	const unknown = (reason: string) => {
+		const status = severityOf(policy.unknown);
+		return { status, reason: status === "pass" ? null : reason };
+	};
+	if (license === null || license.trim() === "" || UNKNOWN.test(license.trim())) {
+		return unknown("no recognizable license declared");
+	}
+	const expression = parseLicenseExpression(license);
+	if (expression === null) return unknown(`"${license}" is not a valid SPDX expression`);
+
+	const lower = (ids: ReadonlyArray<string> | undefined) => new Set((ids ?? []).map((id) => id.toLowerCase()));
+	const allow = policy.allow !== undefined ? lower(policy.allow) : null;
+	const deny = lower(policy.deny);
+	const judge = (id: string): { status: Status; reason: string | null } => {
+		const key = id.toLowerCase();
+		if (deny.has(key)) return { status: "error", reason: `${id} is denied` };
+		if (allow !== null && !allow.has(key)) return { status: "error", reason: `${id} is not on the allow-list` };
+		if (allow === null && COPYLEFT.test(id)) {
+			const status = severityOf(policy.copyleft);
+			return { status, reason: status === "pass" ? null : `${id} is a copyleft license` };
+		}
+		return { status: "pass", reason: null };
+	};
+
+	const evaluate = (node: LicenseExpression): { status: Status; reason: string | null } => {
+		if (node.kind === "license") return judge(node.id);
+		const left = evaluate(node.left);
+		const right = evaluate(node.right);
+		// An `AND` is as bad as its worse side; an `OR` as good as its better.
+		if (node.kind === "and") return RANK[right.status] > RANK[left.status] ? right : left;
+		return RANK[right.status] < RANK[left.status] ? right : left;
+	};
+	return evaluate(expression);
+};
+
+/**
+ * The license an SBOM component declares: its `expression`, or its
+ * licenses' ids (or names) joined with `AND`.
+ */
+const bomLicense = (component: EnhancedCycloneDXComponent): string | null => {
+	const entries = component.licenses ?? [];
+	const expression = entries.find((l) => l.expression !== undefined)?.expression;
+	if (expression !== undefined) return expression;
+	const ids = entries.flatMap((l) => {
+		const id = l.license?.id ?? l.license?.name;
+		return id !== undefined ? [id] : [];
+	});
+	return ids.length > 0 ? ids.join(" AND ") : null;
+};
+
+/**
+ * The npm package name of an SBOM component: from its purl, which carries
+ * the scope, else its name.
+ */
+const componentPackageName = (component: EnhancedCycloneDXComponent): string => {
+	const match = component.purl?.match(/^pkg:npm\/(.+)@[^@/]+$/);
+	return match?.[1] !== undefined ? decodeURIComponent(match[1]) : component.name;
+};
+
+/**
+ * The license `name` declares in its installed `package.json`, looked up in
+ * the `node_modules` of each of `directories` in turn.
+ *
+ * @internal
+ */
+export const readInstalledLicense = (name: string, directories: ReadonlyArray<string>): string | null => {
+	for (const directory of directories) {
+		const manifestPath = join(directory, "node_modules", name, "package.json");
+		if (!existsSync(manifestPath)) continue;
+		try {
+			const manifest = JSON.parse(readFileSync(manifestPath, "utf-8")) as {
+				license?: unknown;
+				licenses?: ReadonlyArray<{ type?: unknown }>;
+			};
+			if (typeof manifest.license === "string") return manifest.license;
+			const legacy = [
+				manifest.license as { type?: unknown } | undefined,
+				...(Array.isArray(manifest.licenses) ? manifest.licenses : []),
+			].flatMap((l) => (l !== null && typeof l === "object" && typeof l.type === "string" ? [l.type] : []));
+			return legacy.length > 0 ? legacy.join(" OR ") : null;
+		} catch {
+			return null;
+		}
+	}
+	return null;
+};
+
+/**
+ * Judge every component of a build's SBOM against `policy`.
+ *
+ * @param directories - Where to look for installed packages whose SBOM entry
+ *   carries no license: the build directory, the package, and the workspace
+ *   root.
+ * @returns The verdicts, worst first.
+ *
+ * @public
+ */
+export const checkLicenses = (
+	policy: LicensePolicy,
+	components: ReadonlyArray<EnhancedCycloneDXComponent>,
+	directories: ReadonlyArray<string>,
+): ReadonlyArray<LicenseVerdict> =>
+	components
+		.map((component) => {
+			const name = componentPackageName(component);
+			const license = bomLicense(component) ?? readInstalledLicense(name, directories);
+			return { name, version: component.version ?? null, license, ...evaluateLicense(policy, license) };
+		})
+		.sort((a, b) => RANK[b.status] - RANK[a.status] || a.name.localeCompare(b.name));
+
+/**
+ * One finding per component whose license did not pass.
+ *
+ * @public
+ */
+export const licenseFindings = (
+	packageName: string,
+	directory: string,
+	verdicts: ReadonlyArray<LicenseVerdict>,
+): ReadonlyArray<ValidationFinding> =>
+	verdicts.flatMap((v) =>
+		v.status === "pass"
+			? []
+			: [
+					{
+						severity: v.status,
+						check: LICENSE_CHECK,
+						scope: { package: packageName, directory },
+						message: `${v.name}${v.version !== null ? `@${v.version}` : ""}: ${v.reason}`,
+					},
+				],
+	);
+
+/**
+ * One-line outcome for the `License Compliance` checks-table row.
+ *
+ * @param report - Verdicts per build, as `runValidation` reports them; empty
+ *   when no policy is configured.
+ *
+ * @public
+ */
+export const summarizeLicenseCompliance = (report: ReadonlyMap<string, ReadonlyArray<LicenseVerdict>>): string => {
+	const verdicts = [...report.values()].flat();
+	if (report.size === 0) return "No license policy configured";
+	const count = (status: Status) => verdicts.filter((v) => v.status === status).length;
+	return `${verdicts.length} component(s) checked · ${count("error")} violation(s), ${count("warning")} warning(s)`;
+};
@@ -0,0 +1,227 @@
+/**
+ * Unit tests for the publish manifest (`release/manifest`).
+ *
+ * The git-notes storage is exercised through a fake `CommandRunner` that
+ * answers `git notes show` from an in-memory note and can reject pushes.
+ */
+
+import { CommandRunner, CommandRunnerError } from "@savvy-web/github-action-effects";
+import { Effect, Layer } from "effect";
+import { describe, expect, it } from "vitest";
+import type { PublishManifest } from "./manifest.js";
+import {
+	completedRelease,
+	completedTargets,
+	manifestFromPublish,
+	manifestReleases,
+	manifestTargetKey,
+	readPublishManifest,
+	withReleases,
+	writePublishManifest,
+} from "./manifest.js";
+import type { PublishPackagesResult, TargetPublishResult } from "./types.js";
+
+const COMMIT = "abc123";
+
+const target = (registry: string, directory: string, over: Partial<TargetPublishResult>): TargetPublishResult => ({
+	target: { protocol: "npm", registry, directory, access: "public", provenance: false, tag: "latest", tokenEnv: null },
+	success: true,
+	...over,
+});
+
+const publishResult: PublishPackagesResult = {
+	success: false,
+	packages: [
+		{
+			name: "@test/a",
+			version: "1.1.0",
+			targets: [
+				target("https://registry.npmjs.org/", `${process.cwd()}/packages/a/dist/npm`, {
+					status: "published",
+					tarballDigest: "sha256:aaa",
+				}),
+				target("https://npm.pkg.github.com/", `${process.cwd()}/packages/a/dist/npm`, {
+					success: false,
+					status: "failed",
+					error: "E503",
+				}),
+			],
+		},
+	],
+	totalPackages: 1,
+	successfulPackages: 0,
+	totalTargets: 2,
+	successfulTargets: 1,
+};
+
+const manifest = manifestFromPublish(
+	COMMIT,
+	[{ name: "@test/a", version: "1.1.0", path: `${process.cwd()}/packages/a` }],
+	publishResult,
+	null,
+);
+
+/**
+ * A `CommandRunner` holding one git note in memory, recording every call.
+ * The first `rejectedPushes` pushes fail with `pushError`.
+ */
+const makeNotesRunner = (
+	note: string | null,
+	rejectedPushes = 0,
+	pushError = " ! [rejected]        refs/notes/silk-release -> refs/notes/silk-release (fetch first)",
+) => {
+	const calls: Array<ReadonlyArray<string>> = [];
+	const layer = Layer.succeed(CommandRunner, {
+		exec: (_command: string, args?: ReadonlyArray<string>) => {
+			calls.push(args ?? []);
+			return Effect.succeed(0);
+		},
+		execCapture: (command: string, args?: ReadonlyArray<string>) => {
+			calls.push(args ?? []);
+			if (args?.[0] === "push" && rejectedPushes > 0) {
+				rejectedPushes--;
+				return Effect.fail(
+					new CommandRunnerError({
+						command,
+						args: args ?? [],
+						exitCode: 1,
+						stderr: pushError,
+						reason: "Command exited with code 1",
+					}),
+				);
+			}
+			if (args?.includes("show") && note === null) {
+				return Effect.fail(
+					new CommandRunnerError({
+						command,
+						args: args ?? [],
+						exitCode: 1,
+						stderr: "error: no note found",
+						reason: "Command exited with code 1",
+					}),
+				);
+			}
+			return Effect.succeed({ stdout: args?.includes("show") ? (note ?? "") : "", stderr: "", exitCode: 0 });
+		},
+		execJson: () => Effect.succeed(undefined as never),
+		execLines: () => Effect.succeed([] as ReadonlyArray<string>),
+	});
+	return { calls, layer };
+};
+
+describe("manifestFromPublish", () => {
+	it("records each target's outcome with workspace-relative paths", () => {
+		expect(manifest.packages).toEqual([
+			{
+				name: "@test/a",
+				version: "1.1.0",
+				path: "packages/a",
+				targets: [
+					{
+						registry: "https://registry.npmjs.org/",
+						directory: "packages/a/dist/npm",
+						status: "published",
+						digest: "sha256:aaa",
+						error: null,
+					},
+					{
+						registry: "https://npm.pkg.github.com/",
+						directory: "packages/a/dist/npm",
+						status: "failed",
+						digest: null,
+						error: "E503",
+					},
+				],
+			},
+		]);
+		expect(manifestReleases(manifest)).toEqual([
+			{ name: "@test/a", version: "1.1.0", path: `${process.cwd()}/packages/a` },
+		]);
+	});
+});
+
+describe("completedTargets", () => {
+	it("returns only the completed targets of the matching version", () => {
+		const completed = completedTargets(manifest, "@test/a", "1.1.0");
+		expect([...completed.keys()]).toEqual([
+			manifestTargetKey("https://registry.npmjs.org/", `${process.cwd()}/packages/a/dist/npm`),
+		]);
+		expect(completedTargets(manifest, "@test/a", "1.2.0").size).toBe(0);
+		expect(completedTargets(null, "@test/a", "1.1.0").size).toBe(0);
+	});
+});
+
+describe("withReleases / completedRelease", () => {
+	it("marks tags with a release created and the rest failed", () => {
+		const updated = withReleases(
+			manifest,
+			[
+				{ name: "@test/a@1.1.0", packageName: "@test/a", version: "1.1.0" },
+				{ name: "@test/b@2.0.0", packageName: "@test/b", version: "2.0.0" },
+			],
+			[{ tag: "@test/a@1.1.0", url: "https://example.com/r/1", id: 1, assets: [] }],
+		);
+		expect(completedRelease(updated, "@test/a@1.1.0")).toEqual({
+			tag: "@test/a@1.1.0",
+			url: "https://example.com/r/1",
+			id: 1,
+			assets: [],
+		});
+		expect(completedRelease(updated, "@test/b@2.0.0")).toBe(null);
+	});
+});
+
+describe("readPublishManifest", () => {
+	it("reads the note on the release commit", async () => {
+		const runner = makeNotesRunner(JSON.stringify(manifest));
+		const read = await Effect.runPromise(readPublishManifest(COMMIT).pipe(Effect.provide(runner.layer)));
+		expect(read).toEqual(manifest);
+	});
+
+	it("returns null without a note, for a malformed note, or for another commit", async () => {
+		const other: PublishManifest = { ...manifest, commit: "def456" };
+		for (const note of [null, "{not json", JSON.stringify(other)]) {
+			const runner = makeNotesRunner(note);
+			const read = await Effect.runPromise(readPublishManifest(COMMIT).pipe(Effect.provide(runner.layer)));
+			expect(read).toBe(null);
+		}
+	});
+});
+
+describe("writePublishManifest", () => {
+	it("fetches origin's notes, adds the note, and pushes without force", async () => {
+		const runner = makeNotesRunner(null);
+		await Effect.runPromise(writePublishManifest(manifest).pipe(Effect.provide(runner.layer)));
+		expect(runner.calls).toHaveLength(3);
+		expect(runner.calls[0]).toEqual(["fetch", "origin", "+refs/notes/silk-release:refs/notes/silk-release"]);
+		expect(runner.calls[1]).toEqual(expect.arrayContaining(["notes", "--ref=silk-release", "add", "--force", COMMIT]));
+		expect(runner.calls[2]).toEqual(["push", "origin", "refs/notes/silk-release"]);
+	});
+
+	it("merges notes pushed meanwhile and retries a rejected push", async () => {
+		const runner = makeNotesRunner(null, 1);
+		await Effect.runPromise(writePublishManifest(manifest).pipe(Effect.provide(runner.layer)));
+		expect(runner.calls.slice(2)).toEqual([
+			["push", "origin", "refs/notes/silk-release"],
+			["fetch", "origin", "+refs/notes/silk-release:refs/notes/silk-release-remote"],
+			expect.arrayContaining([
+				"notes",
+				"--ref=silk-release",
+				"merge",
+				"--strategy=ours",
+				"refs/notes/silk-release-remote",
+			]),
+			["push", "origin", "refs/notes/silk-release"],
+		]);
+	});
+
+	it("gives up without failing after repeated rejections or another push error", async () => {
+		const rejected = makeNotesRunner(null, 5);
+		await Effect.runPromise(writePublishManifest(manifest).pipe(Effect.provide(rejected.layer)));
+		expect(rejected.calls.filter((args) => args[0] === "push")).toHaveLength(3);
+
+		const denied = makeNotesRunner(null, 1, "remote: Permission denied");
+		await Effect.runPromise(writePublishManifest(manifest).pipe(Effect.provide(denied.layer)));
+		expect(denied.calls.filter((args) => args[0] === "push")).toHaveLength(1);
+	});
+});
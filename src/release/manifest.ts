@@ -0,0 +1,306 @@
+/**
+ * Persisted publish manifest for resumable Phase-3 runs.
+ *
+ * @remarks
+ * After publishing, and again after creating releases, Phase 3 records what
+ * it did — every package, each target's outcome and tarball digest, and each
+ * tag's release — as JSON in a git note on the release commit
+ * (`refs/notes/silk-release`), pushed to `origin`. A re-run with the `resume`
+ * input reads the note back: it publishes the manifest's packages instead of
+ * re-detecting them, skips the targets and releases already completed, and
+ * retries only what failed.
+ *
+ * The notes ref holds the manifest of every release commit, across release
+ * lines, so a write builds on `origin`'s notes and never force-pushes.
+ *
+ * The manifest is an optimisation over the per-target integrity recovery,
+ * never a prerequisite: a missing, unreadable, or malformed note means
+ * "start from scratch", and failing to write one only logs a warning.
+ *
+ * @module release/manifest
+ */
+
+import { isAbsolute, join, relative } from "node:path";
+import type { CommandRunnerError } from "@savvy-web/github-action-effects";
+import { CommandRunner } from "@savvy-web/github-action-effects";
+import { Effect, Either, Schema } from "effect";
+
+import type { DetectedRelease } from "./publish.js";
+import type { PublishPackagesResult, ReleaseInfo, TagInfo, TargetPublishResult } from "./types.js";
+
+/** The notes ref (under `refs/notes/`) the manifest is stored in. */
+const NOTES_REF = "silk-release";
+
+/** Local ref `origin`'s notes are fetched into when a push is rejected. */
+const REMOTE_NOTES_REF = `refs/notes/${NOTES_REF}-remote`;
+
+/** Pushes of the notes ref to try before giving up on concurrent writers. */
+const PUSH_ATTEMPTS = 3;
+
+/** Push output for a notes ref that moved on `origin` since it was fetched. */
+const REJECTED_PUSH = /\[rejected\]|non-fast-forward|fetch first/;
+
+/** Refspec fetching `origin`'s notes ref into the local ref `into`. */
+const notesRefspec = (into: string): string => `+refs/notes/${NOTES_REF}:${into}`;
+
+/** Committer identity for the notes commit — notes are plain git commits. */
+const NOTES_IDENTITY = [
+	"-c",
+	"user.name=github-actions[bot]",
+	"-c",
+	"user.email=github-actions[bot]@users.noreply.github.com",
+];
+
+// ══════════════════════════════════════════════════════════════════════════════
+// Schema
+// ══════════════════════════════════════════════════════════════════════════════
+
+const ManifestTarget = Schema.Struct({
+	/** Registry URL; `null` for the legacy failure placeholder. */
+	registry: Schema.NullOr(Schema.String),
+	/** Build directory, relative to the workspace root. */
+	directory: Schema.String,
+	status: Schema.Literal("published", "skipped", "failed"),
+	/** `sha256:<hex>` of the published tarball, when one was packed. */
+	digest: Schema.NullOr(Schema.String),
+	error: Schema.NullOr(Schema.String),
+});
+
+const ManifestPackage = Schema.Struct({
+	name: Schema.String,
+	version: Schema.String,
+	/** Package directory, relative to the workspace root. */
+	path: Schema.String,
+	targets: Schema.Array(ManifestTarget),
+});
+
+const ManifestRelease = Schema.Struct({
+	tag: Schema.String,
+	status: Schema.Literal("created", "failed"),
+	url: Schema.NullOr(Schema.String),
+	id: Schema.NullOr(Schema.Number),
+});
+
+/**
+ * The publish manifest stored in the release commit's git note.
+ *
+ * @public
+ */
+export const PublishManifest = Schema.Struct({
+	manifestVersion: Schema.Literal(1),
+	/** The release commit the manifest describes. */
+	commit: Schema.String,
+	/** ISO-8601 time of the last write. */
+	updatedAt: Schema.String,
+	packages: Schema.Array(ManifestPackage),
+	releases: Schema.Array(ManifestRelease),
+});
+export type PublishManifest = Schema.Schema.Type<typeof PublishManifest>;
+
+const decodeManifest = Schema.decodeUnknownEither(Schema.parseJson(PublishManifest));
+
+// ══════════════════════════════════════════════════════════════════════════════
+// Storage
+// ══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Read the publish manifest for `commit` from `origin`'s notes ref.
+ *
+ * @returns The manifest, or `null` when no note exists, git fails, or the
+ *   note does not decode (including a note written for another commit).
+ *
+ * @public
+ */
+export const readPublishManifest = (commit: string): Effect.Effect<PublishManifest | null, never, CommandRunner> =>
+	Effect.gen(function* () {
+		const runner = yield* CommandRunner;
+		yield* Effect.either(runner.exec("git", ["fetch", "origin", notesRefspec(`refs/notes/${NOTES_REF}`)]));
+
+		const shown = yield* Effect.either(runner.execCapture("git", ["notes", `--ref=${NOTES_REF}`, "show", commit]));
+		if (shown._tag === "Left") {
+			yield* Effect.logDebug(`[manifest] no publish manifest for ${commit}`);
+			return null;
+		}
+
+		const decoded = decodeManifest(shown.right.stdout);
+		if (Either.isLeft(decoded)) {
+			yield* Effect.logWarning(`[manifest] ignoring malformed publish manifest for ${commit}`);
+			return null;
+		}
+		if (decoded.right.commit !== commit) return null;
+		return decoded.right;
+	});
+
+/**
+ * Write `manifest` as the git note on its commit and push the notes ref.
+ *
+ * @remarks
+ * Starts from `origin`'s notes ref (checkouts do not fetch notes) and
+ * overwrites only this commit's note. The push is a fast-forward: when
+ * another run pushed notes in the meantime, theirs are merged in — keeping
+ * this note on a conflict — and the push is retried. Never fails — a failed
+ * write only logs a warning, since the publish it describes already happened.
+ *
+ * @public
+ */
+export const writePublishManifest = (manifest: PublishManifest): Effect.Effect<void, never, CommandRunner> =>
+	Effect.gen(function* () {
+		const runner = yield* CommandRunner;
+		const json = JSON.stringify(manifest);
+		const written = yield* Effect.either(
+			Effect.gen(function* () {
+				// Fails when origin has no notes yet — then there is nothing to keep.
+				yield* Effect.either(runner.execCapture("git", ["fetch", "origin", notesRefspec(`refs/notes/${NOTES_REF}`)]));
+				yield* runner.execCapture("git", [
+					...NOTES_IDENTITY,
+					"notes",
+					`--ref=${NOTES_REF}`,
+					"add",
+					"--force",
+					"--message",
+					json,
+					manifest.commit,
+				]);
+				for (let attempt = 1; ; attempt++) {
+					const pushed = yield* Effect.either(runner.execCapture("git", ["push", "origin", `refs/notes/${NOTES_REF}`]));
+					if (pushed._tag === "Right") return;
+					if (attempt === PUSH_ATTEMPTS || !REJECTED_PUSH.test(pushed.left.stderr ?? "")) {
+						return yield* Effect.fail(pushed.left);
+					}
+					yield* runner.execCapture("git", ["fetch", "origin", notesRefspec(REMOTE_NOTES_REF)]);
+					yield* runner.execCapture("git", [
+						...NOTES_IDENTITY,
+						"notes",
+						`--ref=${NOTES_REF}`,
+						"merge",
+						"--strategy=ours",
+						REMOTE_NOTES_REF,
+					]);
+				}
+			}),
+		);
+		if (written._tag === "Left") {
+			const e: CommandRunnerError = written.left;
+			yield* Effect.logWarning(`[manifest] failed to write publish manifest: ${e.stderr ?? e.message}`);
+			return;
+		}
+		yield* Effect.logDebug(`[manifest] wrote publish manifest for ${manifest.commit}`);
+	});
+
+// ══════════════════════════════════════════════════════════════════════════════
+// Building and reading back
+// ══════════════════════════════════════════════════════════════════════════════
+
+const toWorkspaceRelative = (path: string): string => (isAbsolute(path) ? relative(process.cwd(), path) : path);
+
+/**
+ * Key identifying a target across runs: its registry plus its build
+ * directory relative to the workspace root.
+ *
+ * @public
+ */
+export const manifestTargetKey = (registry: string | null, directory: string): string =>
+	`${registry ?? ""}\u0000${toWorkspaceRelative(directory)}`;
+
+const toManifestTarget = (t: TargetPublishResult): PublishManifest["packages"][number]["targets"][number] => ({
+	registry: t.target.registry,
+	directory: toWorkspaceRelative(t.target.directory),
+	status: t.status ?? (t.success ? "published" : "failed"),
+	digest: t.tarballDigest ?? null,
+	error: t.success ? null : (t.error ?? null),
+});
+
+/**
+ * Build the manifest for a publish run.
+ *
+ * @param commit - The release commit.
+ * @param detected - The packages the run set out to publish.
+ * @param publishResult - The run's publish result.
+ * @param previous - The manifest the run resumed from, whose releases are
+ *   carried over.
+ *
+ * @public
+ */
+export const manifestFromPublish = (
+	commit: string,
+	detected: ReadonlyArray<DetectedRelease>,
+	publishResult: PublishPackagesResult,
+	previous: PublishManifest | null,
+): PublishManifest => ({
+	manifestVersion: 1,
+	commit,
+	updatedAt: new Date().toISOString(),
+	packages: detected.map((rel) => ({
+		name: rel.name,
+		version: rel.version,
+		path: toWorkspaceRelative(rel.path),
+		targets: (publishResult.packages.find((p) => p.name === rel.name)?.targets ?? []).map(toManifestTarget),
+	})),
+	releases: previous?.releases ?? [],
+});
+
+/**
+ * Record the outcome of the release step: every tag with a release is
+ * `created`; every other tag is `failed` and will be retried on resume.
+ *
+ * @public
+ */
+export const withReleases = (
+	manifest: PublishManifest,
+	tags: ReadonlyArray<TagInfo>,
+	releases: ReadonlyArray<ReleaseInfo>,
+): PublishManifest => ({
+	...manifest,
+	updatedAt: new Date().toISOString(),
+	releases: tags.map((tag) => {
+		const release = releases.find((r) => r.tag === tag.name);
+		return release !== undefined
+			? { tag: tag.name, status: "created" as const, url: release.url, id: release.id }
+			: { tag: tag.name, status: "failed" as const, url: null, id: null };
+	}),
+});
+
+/**
+ * The packages a manifest covers, as the detection result a resumed run
+ * publishes — so the retry works on exactly the original release set.
+ *
+ * @public
+ */
+export const manifestReleases = (manifest: PublishManifest): ReadonlyArray<DetectedRelease> =>
+	manifest.packages.map((p) => ({
+		name: p.name,
+		version: p.version,
+		path: isAbsolute(p.path) ? p.path : join(process.cwd(), p.path),
+	}));
+
+/**
+ * The targets of `name@version` a previous run completed (`published` or
+ * `skipped`), keyed by {@link manifestTargetKey}, with their digests.
+ *
+ * @public
+ */
+export const completedTargets = (
+	manifest: PublishManifest | null,
+	name: string,
+	version: string,
+): ReadonlyMap<string, { readonly digest: string | null }> => {
+	const completed = new Map<string, { readonly digest: string | null }>();
+	const pkg = manifest?.packages.find((p) => p.name === name && p.version === version);
+	for (const t of pkg?.targets ?? []) {
+		if (t.status === "failed") continue;
+		completed.set(manifestTargetKey(t.registry, t.directory), { digest: t.digest });
+	}
+	return completed;
+};
+
+/**
+ * The release a previous run created for `tag`, or `null` when it still
+ * needs creating.
+ *
+ * @public
+ */
+export const completedRelease = (manifest: PublishManifest | null, tag: string): ReleaseInfo | null => {
+	const entry = manifest?.releases.find((r) => r.tag === tag && r.status === "created");
+	if (entry === undefined || entry.url === null || entry.id === null) return null;
+	return { tag: entry.tag, url: entry.url, id: entry.id, assets: [] };
+};
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the built package.json lint (`release/package-lint`).
+ */
+
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { importedPackage, lintBuiltPackage, summarizePackageLint } from "./package-lint.js";
+
+describe("importedPackage", () => {
+	it("names the package of bare specifiers only", () => {
+		expect(importedPackage("effect")).toBe("effect");
+		expect(importedPackage("effect/Schema")).toBe("effect");
+		expect(importedPackage("@scope/pkg/sub")).toBe("@scope/pkg");
+		expect(importedPackage("./local.js")).toBe(null);
+		expect(importedPackage("node:fs")).toBe(null);
+		expect(importedPackage("fs/promises")).toBe(null);
+	});
+});
+
+describe("lintBuiltPackage", () => {
+	let source: string;
+	let dist: string;
+
+	const write = (path: string, content: string): void => {
+		mkdirSync(join(dist, path, ".."), { recursive: true });
+		writeFileSync(join(dist, path), content);
+	};
+	const lint = () => lintBuiltPackage("@test/pkg", "dist/npm", dist, source);
+
+	beforeEach(() => {
+		source = mkdtempSync(join(tmpdir(), "package-lint-test-"));
+		dist = join(source, "dist", "npm");
+		mkdirSync(dist, { recursive: true });
+		writeFileSync(join(source, "package.json"), JSON.stringify({ devDependencies: { vitest: "^3.0.0" } }));
+	});
+
+	afterEach(() => {
+		rmSync(source, { recursive: true, force: true });
+	});
+
+	it("accepts a manifest whose entry points, bins, and dependencies are publishable", () => {
+		write("index.js", 'import { Effect } from "effect";\nimport "./cli.js";\n');
+		write("index.d.ts", 'import type { Mock } from "vitest";\n');
+		write("cli.js", "#!/usr/bin/env node\n");
+		chmodSync(join(dist, "cli.js"), 0o755);
+		write(
+			"package.json",
+			JSON.stringify({
+				name: "@test/pkg",
+				main: "./index.js",
+				types: "./index.d.ts",
+				exports: { ".": { types: "./index.d.ts", import: "./index.js" }, "./features/*": "./features/*.js" },
+				bin: { pkg: "./cli.js" },
+				dependencies: { effect: "^3.0.0" },
+			}),
+		);
+		mkdirSync(join(dist, "features"));
+
+		expect(lint()).toEqual([]);
+	});
+
+	it("reports missing entry points, broken bins, protocol leaks, and devDependency imports", () => {
+		write("index.js", 'const { vi } = require("vitest");\n');
+		write("cli.js", "console.log('hi');\n");
+		write(
+			"package.json",
+			JSON.stringify({
+				name: "@test/pkg",
+				module: "./index.mjs",
+				exports: { ".": { types: "./index.d.ts", default: "index.js" } },
+				bin: "./cli.js",
+				dependencies: { "@test/core": "workspace:*" },
+				peerDependencies: { effect: "catalog:" },
+			}),
+		);
+		chmodSync(join(dist, "cli.js"), 0o644);
+
+		const findings = lint();
+
+		expect(findings.every((f) => f.check === "Package Lint")).toBe(true);
+		expect(findings.every((f) => f.scope?.package === "@test/pkg" && f.scope.directory === "dist/npm")).toBe(true);
+		expect(findings.map((f) => [f.severity, f.message])).toEqual([
+			["error", 'exports target "./index.d.ts" does not exist'],
+			["error", 'exports target "index.js" must start with "./"'],
+			["error", 'module "./index.mjs" does not exist'],
+			["error", 'bin "./cli.js" has no shebang line (e.g. "#!/usr/bin/env node")'],
+			["warning", 'bin "./cli.js" is not executable'],
+			["error", 'dependencies.@test/core still uses the "workspace:*" protocol'],
+			["error", 'peerDependencies.effect still uses the "catalog:" protocol'],
+			["warning", 'index.js appears to import "vitest", which is only a devDependency'],
+		]);
+	});
+
+	it("reports a bin path that is a directory instead of reading it", () => {
+		mkdirSync(join(dist, "bin"));
+		write("package.json", JSON.stringify({ name: "@test/pkg", bin: "./bin" }));
+
+		expect(lint().map((f) => [f.severity, f.message])).toEqual([["error", 'bin "./bin" is not a file']]);
+	});
+
+	it("leaves a build without a package.json to the dry-run", () => {
+		expect(lint()).toEqual([]);
+	});
+});
+
+describe("summarizePackageLint", () => {
+	it("counts findings across builds", () => {
+		const packages = [
+			{ name: "a", version: "1.0.0", baseVersion: null, changesetCount: null, builds: [{}, {}], releaseNotes: null },
+		] as unknown as Parameters<typeof summarizePackageLint>[1];
+		const finding = { check: "Package Lint", scope: null, message: "" } as const;
+
+		expect(summarizePackageLint([], packages)).toBe("2 build(s) lint-clean");
+		expect(
+			summarizePackageLint(
+				[
+					{ ...finding, severity: "error" },
+					{ ...finding, severity: "warning" },
+				],
+				packages,
+			),
+		).toBe("1 error(s), 1 warning(s) across 2 build(s)");
+		expect(summarizePackageLint([], [])).toBe("No builds to lint");
+	});
+});
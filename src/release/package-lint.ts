@@ -0,0 +1,226 @@
+/**
+ * Publish-readiness lint over each build directory's `package.json`.
+ *
+ * A dry-run publish succeeds for a package whose entry points are missing or
+ * whose dependencies still carry workspace protocols; consumers find out at
+ * install or import time. This module checks the manifest that ships against
+ * the files beside it:
+ *
+ * - every `exports` target, `main`, `module`, and `types` / `typings` path
+ *   exists;
+ * - every `bin` file exists and starts with a shebang (a missing executable
+ *   bit is only a warning — npm sets it on install);
+ * - no dependency range uses the `workspace:` or `catalog:` protocol;
+ * - no shipped JavaScript imports a package that is only a devDependency.
+ *   Imports are found by pattern, not parsed, so a specifier in a comment or
+ *   string also matches; these findings are warnings for that reason.
+ *
+ * Problems are `Package Lint` findings scoped to the build directory. A build
+ * without a `package.json` is left to the dry-run, which fails for it anyway.
+ *
+ * @module release/package-lint
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { builtinModules } from "node:module";
+import { dirname, join, relative } from "node:path";
+import type { ValidationFinding, ValidationPackageResult } from "./types.js";
+
+/** The check name findings from this module are filed under. */
+export const PACKAGE_LINT_CHECK = "Package Lint";
+
+/** Dependency fields whose ranges are installed by consumers. */
+const DEPENDENCY_FIELDS = ["dependencies", "peerDependencies", "optionalDependencies", "devDependencies"] as const;
+
+/** Files scanned for imports. Declaration files are type-only and skipped. */
+const SCRIPT_FILE = /\.(?:c|m)?js$/;
+
+/**
+ * `import … from "x"`, `import "x"`, `export … from "x"`, `import("x")`, and
+ * `require("x")`. A heuristic: it also matches inside comments and strings.
+ */
+const SPECIFIER = /(?:\bfrom\s*|\bimport\s*\(\s*|\brequire\s*\(\s*|\bimport\s+)["']([^"']+)["']/g;
+
+type Manifest = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	value !== null && typeof value === "object" && !Array.isArray(value);
+
+const readManifest = (path: string): Manifest | null => {
+	if (!existsSync(path)) return null;
+	try {
+		const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+		return isRecord(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+};
+
+/** Every string leaf of an `exports` map: the targets, whatever their conditions. */
+const exportTargets = (value: unknown): ReadonlyArray<string> => {
+	if (typeof value === "string") return [value];
+	if (Array.isArray(value)) return value.flatMap(exportTargets);
+	if (isRecord(value)) return Object.values(value).flatMap(exportTargets);
+	return [];
+};
+
+/**
+ * The package a bare import specifier names, or `null` for a relative,
+ * absolute, URL, or Node built-in specifier.
+ *
+ * @internal
+ */
+export const importedPackage = (specifier: string): string | null => {
+	if (/^[./]|^[a-z]+:/.test(specifier)) return null;
+	const [first, second] = specifier.split("/");
+	if (first === undefined || first === "" || builtinModules.includes(first)) return null;
+	return first.startsWith("@") && second !== undefined ? `${first}/${second}` : first;
+};
+
+/** The directory a `*` pattern target expands within, e.g. `./dist/` for `./dist/*.js`. */
+const patternBase = (target: string): string => {
+	const prefix = target.slice(0, target.indexOf("*"));
+	return prefix.endsWith("/") ? prefix : dirname(prefix);
+};
+
+/** Script files under `directory`, skipping `node_modules` and dot-directories. */
+const scriptFiles = (directory: string): ReadonlyArray<string> => {
+	const files: string[] = [];
+	const walk = (dir: string): void => {
+		for (const entry of readdirSync(dir, { withFileTypes: true })) {
+			if (entry.isDirectory()) {
+				if (entry.name !== "node_modules" && !entry.name.startsWith(".")) walk(join(dir, entry.name));
+			} else if (SCRIPT_FILE.test(entry.name)) {
+				files.push(join(dir, entry.name));
+			}
+		}
+	};
+	walk(directory);
+	return files;
+};
+
+/**
+ * Lint one build directory's `package.json`.
+ *
+ * @param directory - The build directory as reported in findings.
+ * @param absoluteDirectory - The build directory on disk.
+ * @param sourcePath - The workspace package's directory; its
+ *   `devDependencies` count as dev-only too, since builds often drop them
+ *   from the shipped manifest.
+ *
+ * @public
+ */
+export const lintBuiltPackage = (
+	packageName: string,
+	directory: string,
+	absoluteDirectory: string,
+	sourcePath: string,
+): ReadonlyArray<ValidationFinding> => {
+	const manifest = readManifest(join(absoluteDirectory, "package.json"));
+	if (manifest === null) return [];
+
+	const findings: ValidationFinding[] = [];
+	const report = (severity: ValidationFinding["severity"], message: string): void => {
+		findings.push({ severity, check: PACKAGE_LINT_CHECK, scope: { package: packageName, directory }, message });
+	};
+	const exists = (target: string): boolean => existsSync(join(absoluteDirectory, target));
+
+	// ── Entry points ─────────────────────────────────────────────────────────
+	for (const target of new Set(exportTargets(manifest.exports))) {
+		if (!target.startsWith("./")) {
+			report("error", `exports target "${target}" must start with "./"`);
+		} else if (!exists(target.includes("*") ? patternBase(target) : target)) {
+			report("error", `exports target "${target}" does not exist`);
+		}
+	}
+	for (const field of ["main", "module", "types", "typings"]) {
+		const target = manifest[field];
+		if (typeof target === "string" && !exists(target)) {
+			report("error", `${field} "${target}" does not exist`);
+		}
+	}
+
+	// ── Executables ──────────────────────────────────────────────────────────
+	const bins =
+		typeof manifest.bin === "string"
+			? [manifest.bin]
+			: isRecord(manifest.bin)
+				? Object.values(manifest.bin).filter((bin): bin is string => typeof bin === "string")
+				: [];
+	for (const bin of new Set(bins)) {
+		const path = join(absoluteDirectory, bin);
+		if (!existsSync(path)) {
+			report("error", `bin "${bin}" does not exist`);
+			continue;
+		}
+		if (!statSync(path).isFile()) {
+			report("error", `bin "${bin}" is not a file`);
+			continue;
+		}
+		if (!readFileSync(path, "utf-8").startsWith("#!")) {
+			report("error", `bin "${bin}" has no shebang line (e.g. "#!/usr/bin/env node")`);
+		}
+		if ((statSync(path).mode & 0o111) === 0) {
+			report("warning", `bin "${bin}" is not executable`);
+		}
+	}
+
+	// ── Dependency protocols ─────────────────────────────────────────────────
+	for (const field of DEPENDENCY_FIELDS) {
+		const deps = manifest[field];
+		if (!isRecord(deps)) continue;
+		for (const [name, range] of Object.entries(deps)) {
+			if (typeof range === "string" && /^(?:workspace|catalog):/.test(range)) {
+				report("error", `${field}.${name} still uses the "${range}" protocol`);
+			}
+		}
+	}
+
+	// ── devDependency-only imports ───────────────────────────────────────────
+	const keys = (value: unknown): ReadonlyArray<string> => (isRecord(value) ? Object.keys(value) : []);
+	const runtime = new Set([
+		packageName,
+		...keys(manifest.dependencies),
+		...keys(manifest.peerDependencies),
+		...keys(manifest.optionalDependencies),
+	]);
+	const devOnly = new Set(
+		[
+			...keys(manifest.devDependencies),
+			...keys(readManifest(join(sourcePath, "package.json"))?.devDependencies),
+		].filter((name) => !runtime.has(name)),
+	);
+	if (devOnly.size > 0) {
+		const importers = new Map<string, string>();
+		for (const file of scriptFiles(absoluteDirectory)) {
+			for (const [, specifier] of readFileSync(file, "utf-8").matchAll(SPECIFIER)) {
+				const imported = specifier !== undefined ? importedPackage(specifier) : null;
+				if (imported !== null && devOnly.has(imported) && !importers.has(imported)) {
+					importers.set(imported, relative(absoluteDirectory, file));
+				}
+			}
+		}
+		for (const [name, file] of importers) {
+			report("warning", `${file} appears to import "${name}", which is only a devDependency`);
+		}
+	}
+
+	return findings;
+};
+
+/**
+ * One-line outcome for the `Package Lint` checks-table row.
+ *
+ * @public
+ */
+export const summarizePackageLint = (
+	findings: ReadonlyArray<ValidationFinding>,
+	packages: ReadonlyArray<ValidationPackageResult>,
+): string => {
+	const builds = packages.reduce((n, p) => n + p.builds.length, 0);
+	const own = findings.filter((f) => f.check === PACKAGE_LINT_CHECK);
+	if (builds === 0) return "No builds to lint";
+	if (own.length === 0) return `${builds} build(s) lint-clean`;
+	const errors = own.filter((f) => f.severity === "error").length;
+	return `${errors} error(s), ${own.length - errors} warning(s) across ${builds} build(s)`;
+};
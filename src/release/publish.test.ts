@@ -12,10 +12,12 @@
  * attestation tooling is exercised.
  */
 
-import { mkdirSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import { HttpClient, HttpClientResponse } from "@effect/platform";
 import { NodeFileSystem } from "@effect/platform-node";
+import { CommandRunner } from "@savvy-web/github-action-effects";
 import type {
 	GitHubCommit,
 	GitHubCommitTestState,
@@ -38,7 +40,7 @@ import {
 	SigstoreSignerTest,
 } from "@savvy-web/github-action-effects/testing";
 import { ConfigProvider, Effect, Layer } from "effect";
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import {
 	PublishTarget,
 	PublishabilityDetector,
@@ -47,8 +49,9 @@ import {
 	WorkspacePackage,
 } from "workspaces-effect";
 
+import type { PublishManifest } from "./manifest.js";
 import type { BuildSbomResult, DetectedRelease, PublishInputArgs } from "./publish.js";
-import { detectReleases, runBuildAndSbom, runPublishTargets } from "./publish.js";
+import { detectReleases, levelPublishOrder, runBuildAndSbom, runPublishTargets } from "./publish.js";
 import type { PublishPackagesResult } from "./types.js";
 
 // ─── Test helpers ─────────────────────────────────────────────────────────────
@@ -214,6 +217,46 @@ const actionStateLayer = ActionStateTest.layer(ActionStateTest.empty());
 // Empty ConfigProvider — `npm-token` is absent, Config.option returns None (OIDC path).
 const configProviderLayer = Layer.setConfigProvider(ConfigProvider.fromMap(new Map<string, string>()));
 
+/**
+ * Build an `HttpClient` layer answering JSR `meta.json` probes. Packages in
+ * `jsrVersions` report the listed versions; every other URL returns `404`
+ * (never published).
+ */
+const makeJsrHttpLayer = (jsrVersions: ReadonlyMap<string, ReadonlyArray<string>> = new Map()) =>
+	Layer.succeed(
+		HttpClient.HttpClient,
+		HttpClient.make((request) => {
+			const match = /^https:\/\/jsr\.io\/(@[^/]+\/[^/]+)\/meta\.json$/.exec(request.url);
+			const versions = match?.[1] !== undefined ? jsrVersions.get(match[1]) : undefined;
+			const response =
+				versions === undefined
+					? new Response("not found", { status: 404 })
+					: new Response(JSON.stringify({ versions: Object.fromEntries(versions.map((v) => [v, {}])) }), {
+							status: 200,
+						});
+			return Effect.succeed(HttpClientResponse.fromWeb(request, response));
+		}),
+	);
+
+/**
+ * Build a `CommandRunner` layer that records every `execCapture` call (the JSR
+ * CLI invocation) and succeeds with empty output.
+ */
+const makeRecordingRunnerLayer = () => {
+	const calls: Array<{ command: string; args: ReadonlyArray<string> }> = [];
+	const layer = Layer.succeed(CommandRunner, {
+		exec: () => Effect.succeed(0),
+		execCapture: (command: string, args?: ReadonlyArray<string>) =>
+			Effect.sync(() => {
+				calls.push({ command, args: args ?? [] });
+				return { stdout: "Published @test/jsr-pkg@1.0.0", stderr: "", exitCode: 0 };
+			}),
+		execJson: () => Effect.succeed(undefined as never),
+		execLines: () => Effect.succeed([] as ReadonlyArray<string>),
+	});
+	return { calls, layer };
+};
+
 // ─── detectReleases ─────────────────────────────────────────────────────────
 
 /**
@@ -646,11 +689,15 @@ describe("runPublishTargets", () => {
 		npmLayer: Layer.Layer<import("@savvy-web/github-action-effects").NpmRegistry>,
 		wsPkg: WorkspacePackage,
 		targets: PublishTarget[],
+		runnerLayer: Layer.Layer<CommandRunner> = makeRecordingRunnerLayer().layer,
+		httpLayer: Layer.Layer<HttpClient.HttpClient> = makeJsrHttpLayer(),
 	) =>
 		Layer.mergeAll(
 			loggerLayer,
 			actionStateLayer,
 			configProviderLayer,
+			runnerLayer,
+			httpLayer,
 			pubLayer,
 			npmLayer,
 			sbomLayer,
@@ -699,6 +746,179 @@ describe("runPublishTargets", () => {
 		});
 	});
 
+	describe("Changesets pre mode", () => {
+		it("publishes a prerelease version under the pre tag", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const wsPkg = makeWsPkg(PACK_NAME, "1.0.0-beta.0", `/tmp/test/${PACK_NAME}`);
+			const target = makeNpmTarget(PACK_NAME, `/tmp/test/${PACK_NAME}`);
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, "1.0.0-beta.0", wsPkg.path)];
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, { ...args, preTag: "beta" }).pipe(
+					Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [target])),
+				),
+			);
+
+			expect(pubState.publishTarballCalls[0]?.options.tag).toBe("beta");
+			expect(result.packages[0]?.targets[0]?.target.tag).toBe("beta");
+		});
+
+		it("keeps a stable version on latest", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const target = makeNpmTarget(PACK_NAME, `/tmp/test/${PACK_NAME}`);
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, { ...args, preTag: "beta" }).pipe(
+					Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [target])),
+				),
+			);
+
+			expect(pubState.publishTarballCalls[0]?.options.tag).toBe("latest");
+			expect(result.packages[0]?.targets[0]?.target.tag).toBe("latest");
+		});
+	});
+
+	describe("per-target dist-tags", () => {
+		const makeTaggedTarget = (registry: string, tag: string): PublishTarget =>
+			new PublishTarget({
+				name: PACK_NAME,
+				registry,
+				directory: `/tmp/test/${PACK_NAME}`,
+				access: "public",
+				provenance: false,
+				tag,
+			});
+
+		const promoteLatest = Effect.withConfigProvider(ConfigProvider.fromMap(new Map([["promote-dist-tag", "latest"]])));
+
+		it("publishes each target under its own tag and records it", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const target = makeTaggedTarget("https://registry.npmjs.org/", "next");
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [target]))),
+			);
+
+			expect(pubState.publishTarballCalls[0]?.options.tag).toBe("next");
+			expect(result.packages[0]?.targets[0]?.distTags).toEqual([{ tag: "next", source: "publish", status: "applied" }]);
+		});
+
+		it("promotes the configured tag once every target succeeded", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+			const runner = makeRecordingRunnerLayer();
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const targets = [
+				makeTaggedTarget("https://registry.npmjs.org/", "next"),
+				makeTaggedTarget("https://npm.pkg.github.com/", "latest"),
+			];
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(
+					promoteLatest,
+					Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, targets, runner.layer)),
+				),
+			);
+
+			// Only the `next` target needs promoting — the other already published to `latest`.
+			expect(runner.calls).toEqual([
+				{
+					command: "npm",
+					args: [
+						"dist-tag",
+						"add",
+						`${PACK_NAME}@${PACK_VERSION}`,
+						"latest",
+						"--registry",
+						"https://registry.npmjs.org/",
+					],
+				},
+			]);
+			expect(result.packages[0]?.targets[0]?.distTags).toEqual([
+				{ tag: "next", source: "publish", status: "applied" },
+				{ tag: "latest", source: "promote", status: "applied" },
+			]);
+			expect(result.packages[0]?.targets[1]?.distTags).toEqual([
+				{ tag: "latest", source: "publish", status: "applied" },
+			]);
+		});
+
+		it("does not promote when a target failed", async () => {
+			// Registry already has the version with different bytes — a fatal mismatch.
+			const npmLayer = NpmRegistryTest.layer({
+				packages: new Map([
+					[
+						PACK_NAME,
+						{
+							versions: [PACK_VERSION],
+							latest: PACK_VERSION,
+							distTags: { latest: PACK_VERSION },
+							integrity: "sha512-BBBB",
+						},
+					],
+				]),
+			});
+			const { layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+			const runner = makeRecordingRunnerLayer();
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const target = makeTaggedTarget("https://registry.npmjs.org/", "next");
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(
+					promoteLatest,
+					Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [target], runner.layer)),
+				),
+			);
+
+			expect(result.packages[0]?.targets[0]?.status).toBe("failed");
+			expect(runner.calls).toEqual([]);
+		});
+
+		it("publishes a release line under its dist-tag and never promotes it", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+			const runner = makeRecordingRunnerLayer();
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const target = makeTaggedTarget("https://registry.npmjs.org/", "latest");
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(
+					Effect.withConfigProvider(
+						ConfigProvider.fromMap(
+							new Map([
+								["promote-dist-tag", "latest"],
+								["dist-tag", "v1-lts"],
+							]),
+						),
+					),
+					Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [target], runner.layer)),
+				),
+			);
+
+			expect(pubState.publishTarballCalls[0]?.options.tag).toBe("v1-lts");
+			expect(runner.calls).toEqual([]);
+			expect(result.packages[0]?.targets[0]?.distTags).toEqual([
+				{ tag: "v1-lts", source: "publish", status: "applied" },
+			]);
+		});
+	});
+
 	describe("skipped-identical recovery", () => {
 		it("records skipReason: 'already-published-identical' and never publishes when the registry has matching integrity", async () => {
 			// Arrange — the registry already has v1.0.0 with the same integrity
@@ -1300,35 +1520,132 @@ describe("runPublishTargets", () => {
 		});
 	});
 
-	describe("JSR target skipping", () => {
-		it("skips JSR targets with a warning and does not call npm publish/pack for them", async () => {
-			// Arrange: a package with a JSR-only target (no npm target)
-			const jsrTarget = new PublishTarget({
+	describe("JSR publishing", () => {
+		/** Write a built JSR-bound package directory and return its path. */
+		const makeJsrBuildDir = (files: Record<string, unknown>): string => {
+			const dir = join(tmpdir(), `silk-jsr-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+			mkdirSync(dir, { recursive: true });
+			for (const [file, content] of Object.entries(files)) {
+				writeFileSync(join(dir, file), JSON.stringify(content));
+			}
+			return dir;
+		};
+
+		const makeJsrTarget = (directory: string): PublishTarget =>
+			new PublishTarget({
 				name: "@test/jsr-pkg",
 				registry: "https://jsr.io/",
-				directory: "/tmp/test/jsr-pkg",
+				directory,
 				access: "public",
 				provenance: false,
 			});
 
-			const wsPkg = makeWsPkg("@test/jsr-pkg", "1.0.0", "/tmp/test/jsr-pkg");
+		it("generates jsr.json, publishes via the JSR CLI, and never packs for npm", async () => {
+			// Arrange: a JSR-only target whose build has no jsr.json, and a JSR API
+			// that has never seen the package (404).
+			const dir = makeJsrBuildDir({
+				"package.json": { name: "@test/jsr-pkg", version: "1.0.0", exports: { ".": { import: "./index.js" } } },
+			});
+			const wsPkg = makeWsPkg("@test/jsr-pkg", "1.0.0", dir);
 			const detected: DetectedRelease[] = [makeDetected("@test/jsr-pkg", "1.0.0", wsPkg.path)];
-			const npmLayer = NpmRegistryTest.empty();
 			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+			const runner = makeRecordingRunnerLayer();
 
 			// Act
 			const result: PublishPackagesResult = await Effect.runPromise(
-				runPublishTargets(detected, args).pipe(Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [jsrTarget]))),
+				runPublishTargets(detected, args).pipe(
+					Effect.provide(makeBaseLayers(pubLayer, NpmRegistryTest.empty(), wsPkg, [makeJsrTarget(dir)], runner.layer)),
+				),
 			);
 
-			// Assert — JSR target was skipped → no pack call, no publish call.
-			expect(result.packages).toHaveLength(1);
-			expect(result.packages[0]?.name).toBe("@test/jsr-pkg");
+			// Assert — generated config mirrors the built package.json.
+			expect(JSON.parse(readFileSync(join(dir, "jsr.json"), "utf-8"))).toEqual({
+				name: "@test/jsr-pkg",
+				version: "1.0.0",
+				exports: { ".": "./index.js" },
+			});
+			// The JSR CLI ran through the repo's package manager; npm was untouched.
+			expect(runner.calls).toHaveLength(1);
+			expect(runner.calls[0]?.command).toBe("pnpm");
+			expect(runner.calls[0]?.args).toEqual(
+				expect.arrayContaining(["dlx", "jsr", "publish", "--config", join(dir, "jsr.json")]),
+			);
 			expect(pubState.packCalls).toHaveLength(0);
 			expect(pubState.publishTarballCalls).toHaveLength(0);
-			expect(pubState.publishCalls).toHaveLength(0);
+
+			const targetResult = result.packages[0]?.targets[0];
+			expect(targetResult?.status).toBe("published");
+			expect(targetResult?.target.protocol).toBe("jsr");
+			expect(targetResult?.registryUrl).toBe("https://jsr.io/@test/jsr-pkg@1.0.0");
 			expect(result.success).toBe(true);
 		});
+
+		it("skips the publish when the JSR API already lists the version", async () => {
+			const dir = makeJsrBuildDir({
+				"package.json": { name: "@test/jsr-pkg", version: "1.0.0", exports: "./index.js" },
+			});
+			const wsPkg = makeWsPkg("@test/jsr-pkg", "1.0.0", dir);
+			const detected: DetectedRelease[] = [makeDetected("@test/jsr-pkg", "1.0.0", wsPkg.path)];
+			const { layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+			const runner = makeRecordingRunnerLayer();
+			const http = makeJsrHttpLayer(new Map([["@test/jsr-pkg", ["0.9.0", "1.0.0"]]]));
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(
+					Effect.provide(
+						makeBaseLayers(pubLayer, NpmRegistryTest.empty(), wsPkg, [makeJsrTarget(dir)], runner.layer, http),
+					),
+				),
+			);
+
+			// JSR exposes no digest to compare, so the skip reason is "unknown".
+			expect(runner.calls).toHaveLength(0);
+			const targetResult = result.packages[0]?.targets[0];
+			expect(targetResult?.status).toBe("skipped");
+			expect(targetResult?.success).toBe(true);
+			expect(targetResult?.alreadyPublishedReason).toBe("unknown");
+			expect(targetResult?.registryUrl).toBe("https://jsr.io/@test/jsr-pkg@1.0.0");
+		});
+
+		it("fails the target without publishing when an existing jsr.json carries a stale version", async () => {
+			const dir = makeJsrBuildDir({
+				"package.json": { name: "@test/jsr-pkg", version: "1.0.0", exports: "./index.js" },
+				"jsr.json": { name: "@test/jsr-pkg", version: "0.9.0", exports: "./index.js" },
+			});
+			const wsPkg = makeWsPkg("@test/jsr-pkg", "1.0.0", dir);
+			const detected: DetectedRelease[] = [makeDetected("@test/jsr-pkg", "1.0.0", wsPkg.path)];
+			const { layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+			const runner = makeRecordingRunnerLayer();
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(
+					Effect.provide(makeBaseLayers(pubLayer, NpmRegistryTest.empty(), wsPkg, [makeJsrTarget(dir)], runner.layer)),
+				),
+			);
+
+			expect(runner.calls).toHaveLength(0);
+			const targetResult = result.packages[0]?.targets[0];
+			expect(targetResult?.status).toBe("failed");
+			expect(targetResult?.error).toMatch(/version "0\.9\.0" does not match "1\.0\.0"/);
+			expect(result.success).toBe(false);
+		});
+
+		it("rejects an unscoped package name before writing any config", async () => {
+			const dir = makeJsrBuildDir({ "package.json": { name: "jsr-pkg", version: "1.0.0", main: "index.js" } });
+			const wsPkg = makeWsPkg("jsr-pkg", "1.0.0", dir);
+			const detected: DetectedRelease[] = [makeDetected("jsr-pkg", "1.0.0", wsPkg.path)];
+			const { layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(
+					Effect.provide(makeBaseLayers(pubLayer, NpmRegistryTest.empty(), wsPkg, [makeJsrTarget(dir)])),
+				),
+			);
+
+			expect(existsSync(join(dir, "jsr.json"))).toBe(false);
+			expect(result.packages[0]?.targets[0]?.status).toBe("failed");
+			expect(result.packages[0]?.targets[0]?.error).toMatch(/scoped package name/);
+		});
 	});
 
 	describe("batch error resilience", () => {
@@ -1384,6 +1701,8 @@ describe("runPublishTargets", () => {
 				loggerLayer,
 				actionStateLayer,
 				configProviderLayer,
+				makeRecordingRunnerLayer().layer,
+				makeJsrHttpLayer(),
 				failingPubLayer,
 				npmLayer,
 				sbomLayer,
@@ -1416,4 +1735,283 @@ describe("runPublishTargets", () => {
 			expect(failPkg?.targets[0]?.status).toBe("failed");
 		});
 	});
+
+	describe("resume from a publish manifest", () => {
+		it("carries over completed targets and publishes only the rest", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const npmTarget = makeNpmTarget(PACK_NAME, `/tmp/test/${PACK_NAME}`);
+			const ghTarget = new PublishTarget({
+				name: PACK_NAME,
+				registry: "https://npm.pkg.github.com/",
+				directory: `/tmp/test/${PACK_NAME}`,
+				access: "public",
+				provenance: false,
+			});
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+			const resumeFrom: PublishManifest = {
+				manifestVersion: 1,
+				commit: "abc123",
+				updatedAt: "2026-01-01T00:00:00.000Z",
+				packages: [
+					{
+						name: PACK_NAME,
+						version: PACK_VERSION,
+						path: wsPkg.path,
+						targets: [
+							{
+								registry: npmTarget.registry,
+								directory: npmTarget.directory,
+								status: "published",
+								digest: `sha256:${makePackResult().sha256Hex}`,
+								error: null,
+							},
+							{
+								registry: ghTarget.registry,
+								directory: ghTarget.directory,
+								status: "failed",
+								digest: null,
+								error: "E503",
+							},
+						],
+					},
+				],
+				releases: [],
+			};
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, { ...args, resumeFrom }).pipe(
+					Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [npmTarget, ghTarget])),
+				),
+			);
+
+			expect(result.success).toBe(true);
+			expect(pubState.publishTarballCalls.map((c) => c.options.registry)).toEqual(["https://npm.pkg.github.com/"]);
+			// The build is re-packed to confirm it is unchanged; the fresh
+			// tarball is carried over for the release assets.
+			expect(result.packages[0]?.targets[0]).toMatchObject({
+				status: "skipped",
+				skipReason: "resumed",
+				tarballDigest: `sha256:${makePackResult().sha256Hex}`,
+				tarballPath: makePackResult().tarballPath,
+			});
+			expect(result.packages[0]?.targets[1]?.status).toBe("published");
+		});
+
+		it("publishes a completed target again when its build no longer matches the recorded digest", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const npmTarget = makeNpmTarget(PACK_NAME, `/tmp/test/${PACK_NAME}`);
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+			const resumeFrom: PublishManifest = {
+				manifestVersion: 1,
+				commit: "abc123",
+				updatedAt: "2026-01-01T00:00:00.000Z",
+				packages: [
+					{
+						name: PACK_NAME,
+						version: PACK_VERSION,
+						path: wsPkg.path,
+						targets: [
+							{
+								registry: npmTarget.registry,
+								directory: npmTarget.directory,
+								status: "published",
+								digest: "sha256:stale",
+								error: null,
+							},
+						],
+					},
+				],
+				releases: [],
+			};
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, { ...args, resumeFrom }).pipe(
+					Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [npmTarget])),
+				),
+			);
+
+			expect(pubState.publishTarballCalls).toHaveLength(1);
+			expect(result.packages[0]?.targets[0]?.skipReason).not.toBe("resumed");
+		});
+	});
+
+	describe("post-publish verification", () => {
+		it("keeps a published target the registry does not serve before the timeout, marked unverified", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const target = makeNpmTarget(PACK_NAME, `/tmp/test/${PACK_NAME}`);
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+			const verifyNow = Effect.withConfigProvider(
+				ConfigProvider.fromMap(
+					new Map([
+						["verify-publish", "true"],
+						["verify-publish-timeout", "0"],
+					]),
+				),
+			);
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(
+					verifyNow,
+					Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [target])),
+				),
+			);
+
+			expect(pubState.publishTarballCalls).toHaveLength(1);
+			// The version is live and immutable — a late registry is a warning,
+			// not a failure that would hold back the release.
+			expect(result.success).toBe(true);
+			const targetResult = result.packages[0]?.targets[0];
+			expect(targetResult?.status).toBe("published");
+			expect(targetResult?.success).toBe(true);
+			expect(targetResult?.verification).toMatchObject({ status: "timeout", attempts: 1 });
+		});
+
+		it("does not verify when verify-publish is off", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const wsPkg = makeWsPkg(PACK_NAME, PACK_VERSION, `/tmp/test/${PACK_NAME}`);
+			const target = makeNpmTarget(PACK_NAME, `/tmp/test/${PACK_NAME}`);
+			const detected: DetectedRelease[] = [makeDetected(PACK_NAME, PACK_VERSION, wsPkg.path)];
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(Effect.provide(makeBaseLayers(pubLayer, npmLayer, wsPkg, [target]))),
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.packages[0]?.targets[0]?.verification).toBeUndefined();
+		});
+	});
+
+	describe("levelled concurrent publishing", () => {
+		it("publishes a level concurrently and keeps the topological result order", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { state: pubState, layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const pkgA = makeWsPkg("@test/a", "1.0.0", "/tmp/test/a");
+			const pkgB = makeWsPkg("@test/b", "1.0.0", "/tmp/test/b");
+			const detected: DetectedRelease[] = [
+				makeDetected("@test/a", "1.0.0", pkgA.path),
+				makeDetected("@test/b", "1.0.0", pkgB.path),
+			];
+
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				actionStateLayer,
+				Layer.setConfigProvider(ConfigProvider.fromMap(new Map([["publish-concurrency", "4"]]))),
+				makeRecordingRunnerLayer().layer,
+				makeJsrHttpLayer(),
+				pubLayer,
+				npmLayer,
+				sbomLayer,
+				AttestTest.empty(),
+				oidcTokenIssuerLayer,
+				sigstoreSignerLayer,
+				GitHubClientTest.empty(),
+				makeWorkspaceDiscoveryLayer([pkgA, pkgB]),
+				makePublishabilityLayer(
+					new Map([
+						["@test/a", [makeNpmTarget("@test/a", "/tmp/test/a")]],
+						["@test/b", [makeNpmTarget("@test/b", "/tmp/test/b")]],
+					]),
+				),
+				makeTopologicalSorterLayer(["@test/a", "@test/b"]),
+			);
+
+			const result: PublishPackagesResult = await Effect.runPromise(
+				runPublishTargets(detected, args).pipe(Effect.provide(layers)),
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.packages.map((p) => p.name)).toEqual(["@test/a", "@test/b"]);
+			expect(pubState.publishTarballCalls).toHaveLength(2);
+		});
+
+		it("replays each package's Step output in one piece, and restores stdout", async () => {
+			const npmLayer = NpmRegistryTest.empty();
+			const { layer: pubLayer } = PackagePublishTest.layer({ packResult: makePackResult() });
+
+			const pkgA = makeWsPkg("@test/a", "1.0.0", "/tmp/test/a");
+			const pkgB = makeWsPkg("@test/b", "1.0.0", "/tmp/test/b");
+			const detected: DetectedRelease[] = [
+				makeDetected("@test/a", "1.0.0", pkgA.path),
+				makeDetected("@test/b", "1.0.0", pkgB.path),
+			];
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				actionStateLayer,
+				Layer.setConfigProvider(ConfigProvider.fromMap(new Map([["publish-concurrency", "4"]]))),
+				makeRecordingRunnerLayer().layer,
+				makeJsrHttpLayer(),
+				pubLayer,
+				npmLayer,
+				sbomLayer,
+				AttestTest.empty(),
+				oidcTokenIssuerLayer,
+				sigstoreSignerLayer,
+				GitHubClientTest.empty(),
+				makeWorkspaceDiscoveryLayer([pkgA, pkgB]),
+				makePublishabilityLayer(
+					new Map([
+						["@test/a", [makeNpmTarget("@test/a", "/tmp/test/a")]],
+						["@test/b", [makeNpmTarget("@test/b", "/tmp/test/b")]],
+					]),
+				),
+				makeTopologicalSorterLayer(["@test/a", "@test/b"]),
+			);
+
+			const chunks: string[] = [];
+			const spy = vi.spyOn(process.stdout, "write").mockImplementation((chunk: string | Uint8Array) => {
+				chunks.push(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf-8"));
+				return true;
+			});
+			try {
+				await Effect.runPromise(runPublishTargets(detected, args).pipe(Effect.provide(layers)));
+				// The capture hook is gone once the level settles.
+				expect(process.stdout.write).toBe(spy);
+			} finally {
+				spy.mockRestore();
+			}
+
+			// Output naming a package's directory comes from its own publish only;
+			// none of @test/b's precedes the end of @test/a's.
+			const lines = chunks.join("").split("\n");
+			const linesOf = (dir: string) => lines.flatMap((l, i) => (l.includes(dir) ? [i] : []));
+			expect(Math.max(-1, ...linesOf("/tmp/test/a"))).toBeLessThan(Math.min(lines.length, ...linesOf("/tmp/test/b")));
+		});
+	});
+});
+
+describe("levelPublishOrder", () => {
+	it("groups released packages by dependency level, keeping the sorted order", () => {
+		expect(
+			levelPublishOrder(
+				["core", "utils", "app", "cli"],
+				[
+					["utils", "core", "unreleased"],
+					["cli", "app"],
+				],
+			),
+		).toEqual([
+			["core", "utils"],
+			["app", "cli"],
+		]);
+	});
+
+	it("drops levels without a released package", () => {
+		expect(levelPublishOrder(["core", "app"], [["core"], ["middle"], ["app"]])).toEqual([["core"], ["app"]]);
+	});
+
+	it("falls back to one package per level when a package is missing from the levelling", () => {
+		expect(levelPublishOrder(["core", "app"], [["core"]])).toEqual([["core"], ["app"]]);
+	});
 });
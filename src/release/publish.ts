@@ -34,14 +34,25 @@ import {
 	Step,
 	isJsrRegistry,
 } from "@savvy-web/github-action-effects";
-import { Config, Effect, Option } from "effect";
+import type { LogLevel } from "effect";
+import { Cause, Config, Effect, Exit, Fiber, FiberRef, HashMap, HashSet, Logger, Option } from "effect";
 import { PublishabilityDetector, TopologicalSorter, WorkspaceDiscovery, WorkspacePackage } from "workspaces-effect";
 
 import { GithubPackagesTokenState, STATE_KEYS } from "../state.js";
+import { isPrereleaseVersion } from "../utils/detect-pre-mode.js";
 import { buildProvenancePredicate } from "./attest-helpers.js";
+import type { AuthSources } from "./auth.js";
+import { applyCredential, parseCustomRegistries, resolveCredential } from "./auth.js";
+import { promoteDistTags } from "./dist-tags.js";
+import { isJsrVersionPublished, jsrPackageUrl, prepareJsrConfig, publishToJsr } from "./jsr.js";
+import type { PublishManifest } from "./manifest.js";
+import { completedTargets, manifestTargetKey } from "./manifest.js";
+import { readTargetTokenEnvs, targetTokenEnvKey } from "./publishability.js";
 import { humanizeSize } from "./report.js";
-import { isTargetPrivate, pickToken } from "./resolve-targets.js";
+import { isTargetPrivate } from "./resolve-targets.js";
 import type { PackagePublishResult, PublishPackagesResult, TargetPublishResult } from "./types.js";
+import type { VerifyOptions } from "./verify.js";
+import { defaultVerifyOptions, verifyPublished } from "./verify.js";
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -69,6 +80,18 @@ export interface PublishInputArgs {
 	readonly targetBranch: string;
 	readonly dryRun: boolean;
 	readonly mergedReleasePRNumber: number | undefined;
+	/**
+	 * Dist-tag for prerelease versions instead of `latest`: the active
+	 * Changesets pre tag (`.changeset/pre.json`) in Phase 3, or the snapshot
+	 * tag in the snapshot phase. `null`/absent publishes everything to
+	 * `latest`.
+	 */
+	readonly preTag?: string | null | undefined;
+	/**
+	 * Manifest of a previous attempt at this release (`resume` input). Targets
+	 * it records as completed are skipped with `skipReason: "resumed"`.
+	 */
+	readonly resumeFrom?: PublishManifest | null | undefined;
 }
 
 // ─── Internal types ───────────────────────────────────────────────────────────
@@ -90,6 +113,19 @@ interface TargetSpec {
 	readonly directory: string;
 	readonly access: "public" | "restricted";
 	readonly provenance: boolean;
+	/** Dist-tag declared on the target (`publishConfig.tag` or the target's own `tag`). */
+	readonly tag?: string | undefined;
+	/** Env var declared as the target's `tokenEnv`, if any. */
+	readonly tokenEnv?: string | null | undefined;
+}
+
+/** The parts of a `PackagePublish.pack` result a resumed target carries over. */
+interface PackageTarball {
+	readonly tarballPath: string;
+	readonly sha256Hex: string;
+	readonly packedSize: number;
+	readonly unpackedSize?: number | undefined;
+	readonly fileCount: number;
 }
 
 // ─── Internal helpers ─────────────────────────────────────────────────────────
@@ -284,16 +320,28 @@ const detectFromCommit = (): Effect.Effect<ReadonlyArray<DetectedRelease>, never
 // ─── Per-target publish ───────────────────────────────────────────────────────
 
 /** Build the legacy `ResolvedTarget` shape we carry on every `TargetPublishResult`. */
-const toLegacyTarget = (target: TargetSpec, protocol: "npm" | "jsr" = "npm") => ({
+const toLegacyTarget = (target: TargetSpec, protocol: "npm" | "jsr" = "npm", tag = "latest") => ({
 	protocol,
 	registry: target.registry,
 	directory: target.directory,
 	access: target.access,
 	provenance: target.provenance,
-	tag: "latest" as const,
-	tokenEnv: null,
+	tag,
+	tokenEnv: target.tokenEnv ?? null,
 });
 
+/**
+ * Resolve the npm dist-tag a version publishes under: the Changesets pre tag
+ * for a prerelease version while pre mode is active, else the target's own
+ * tag, else `latest`.
+ *
+ * @remarks
+ * A stable version published during pre mode (a package that left the
+ * prerelease train) still goes to its target tag, matching `changeset publish`.
+ */
+const resolveDistTag = (version: string, preTag: string | null, targetTag: string | undefined): string =>
+	preTag !== null && isPrereleaseVersion(version) ? preTag : (targetTag ?? "latest");
+
 /** Outcome of running attestations for a freshly-published target. */
 interface AttestationsOutcome {
 	readonly attestationUrl: string | undefined;
@@ -512,6 +560,96 @@ const runAttestationsForBuild = (
 		} satisfies AttestationsOutcome;
 	});
 
+/**
+ * Publish one build directory to a JSR target.
+ *
+ * @remarks
+ * 1. **Config.** {@link prepareJsrConfig} validates an existing `jsr.json` /
+ *    `deno.json` against the release, or generates `jsr.json` from the built
+ *    `package.json`. A mismatch fails the target before anything is uploaded.
+ * 2. **Probe.** The JSR API reports whether the version already exists. JSR
+ *    exposes no digest comparable to the local build, so a hit records
+ *    `status: "skipped"` with `alreadyPublishedReason: "unknown"` rather
+ *    than the npm flow's identical-content recovery.
+ * 3. **Publish.** `jsr publish` runs in the build directory; inside GitHub
+ *    Actions it authenticates via OIDC, so no token is resolved.
+ */
+const publishJsrTarget = (
+	packageName: string,
+	version: string,
+	directory: string,
+	target: TargetSpec,
+	packageManager: "npm" | "pnpm" | "yarn" | "bun",
+) =>
+	Step.withStep(
+		`publish ${packageName} ${directory} → jsr`,
+		Effect.gen(function* () {
+			const registryUrl = jsrPackageUrl(packageName, version);
+
+			const config = prepareJsrConfig(directory, packageName, version);
+			if (!config.ok) {
+				yield* Effect.logError(`[publish] jsr: ${packageName}@${version} config invalid — ${config.error}`);
+				yield* Step.failure(`config-invalid`);
+				return {
+					target: toLegacyTarget(target, "jsr"),
+					success: false,
+					status: "failed",
+					error: config.error,
+				} satisfies TargetPublishResult;
+			}
+			yield* Effect.logDebug(
+				`[publish] jsr: ${config.generated ? "generated" : "validated"} ${config.configPath} for ${packageName}@${version}`,
+			);
+
+			const probe = yield* Effect.either(isJsrVersionPublished(packageName, version));
+			if (probe._tag === "Left") {
+				yield* Effect.logError(`[publish] jsr: probe for ${packageName}@${version} failed — ${probe.left}`);
+				yield* Step.failure(`probe-failed`);
+				return {
+					target: toLegacyTarget(target, "jsr"),
+					success: false,
+					status: "failed",
+					error: probe.left,
+				} satisfies TargetPublishResult;
+			}
+
+			if (probe.right) {
+				yield* Effect.logDebug(`[publish] jsr: ${packageName}@${version} already on JSR; skipping`);
+				yield* Step.success(`skipped (already on JSR)`);
+				return {
+					target: toLegacyTarget(target, "jsr"),
+					success: true,
+					status: "skipped",
+					alreadyPublished: true,
+					alreadyPublishedReason: "unknown",
+					registryUrl,
+				} satisfies TargetPublishResult;
+			}
+
+			const publishOutcome = yield* Effect.either(publishToJsr(directory, config.configPath, packageManager));
+			if (publishOutcome._tag === "Left") {
+				yield* Effect.logError(`[publish] jsr: publish failed for ${packageName}@${version} — ${publishOutcome.left}`);
+				yield* Step.failure(`publish-failed`);
+				return {
+					target: toLegacyTarget(target, "jsr"),
+					success: false,
+					status: "failed",
+					error: publishOutcome.left,
+				} satisfies TargetPublishResult;
+			}
+
+			yield* Effect.logDebug(publishOutcome.right);
+			yield* Step.success(`published`);
+			return {
+				target: toLegacyTarget(target, "jsr"),
+				success: true,
+				status: "published",
+				registryUrl,
+				stdout: publishOutcome.right,
+			} satisfies TargetPublishResult;
+		}),
+	);
+
 /**
  * Publish a single package to every target in one build-directory group —
  * the self-recovering, pack-once flow.
@@ -540,18 +678,25 @@ const runAttestationsForBuild = (
  *     per-target attestation (N provenance + N SBOM for N targets sharing
  *     a directory) down to a single pair.
  *
- * JSR targets are skipped with a warning — they require a separate publish
- * path that is outside this orchestrator's scope.
+ * JSR targets bypass the pack stage: each one publishes the build directory
+ * itself via {@link publishJsrTarget} (config prepare → JSR API probe →
+ * `jsr publish` over OIDC) and never receives the npm tarball's attestation
+ * URLs.
+ *
+ * `authLock` serialises the `~/.npmrc` writes of packages publishing
+ * concurrently, so one package's credential write never clobbers another's.
  */
 const publishDirectoryGroup = (
 	packageName: string,
 	version: string,
 	directory: string,
 	targetsInGroup: ReadonlyArray<TargetSpec>,
-	npmToken: string | null,
-	ghPkgsToken: string | null,
+	auth: AuthSources,
+	authLock: Effect.Semaphore,
 	packageManager: "npm" | "pnpm" | "yarn" | "bun",
 	sbomPath: string | null,
+	preTag: string | null,
+	verify: VerifyOptions | null,
 ) =>
 	Step.withStep(
 		`Publish · ${packageName}`,
@@ -559,8 +704,8 @@ const publishDirectoryGroup = (
 			const publishSvc = yield* PackagePublish;
 			const registrySvc = yield* NpmRegistry;
 
-			// JSR targets are not handled here — split them off so the npm flow
-			// is uncluttered. Each JSR target records a skipped result.
+			// JSR targets take their own publish path — split them off so the npm
+			// pack-once flow is uncluttered.
 			const jsrTargets: TargetSpec[] = [];
 			const npmTargets: TargetSpec[] = [];
 			for (const t of targetsInGroup) {
@@ -568,22 +713,32 @@ const publishDirectoryGroup = (
 				(isJsr ? jsrTargets : npmTargets).push(t);
 			}
 
+			const jsrResults: TargetPublishResult[] = [];
 			const results: TargetPublishResult[] = [];
 
+			// JSR publishes the build directory's source tree, not the npm tarball,
+			// so it runs before (and independently of) the pack stage. JSR records
+			// its own provenance; the per-build GitHub attestation below covers the
+			// npm tarball only.
 			for (const t of jsrTargets) {
-				yield* Effect.logWarning(
-					`runPublishTargets: skipping JSR target for ${packageName}@${version} — JSR publishing is not yet supported in this orchestrator`,
+				const jsrResult = yield* publishJsrTarget(packageName, version, directory, t, packageManager);
+				jsrResults.push(
+					sbomPath !== null && (jsrResult.status === "published" || jsrResult.status === "skipped")
+						? { ...jsrResult, sbomPath }
+						: jsrResult,
 				);
-				results.push({
-					target: toLegacyTarget(t, "jsr"),
-					success: true,
-					status: "skipped",
-				});
 			}
 
+			const jsrFailedCount = jsrResults.filter((r) => r.status === "failed").length;
+
 			if (npmTargets.length === 0) {
-				yield* Step.success(`0 published, 0 skipped-identical, 0 mismatch (JSR-only)`);
-				return results;
+				const jsrSummary = `${jsrResults.length - jsrFailedCount} JSR ok, ${jsrFailedCount} JSR failed (JSR-only)`;
+				if (jsrFailedCount > 0) {
+					yield* Step.failure(jsrSummary);
+				} else {
+					yield* Step.success(jsrSummary);
+				}
+				return jsrResults;
 			}
 
 			// ── Pack stage — once per directory ───────────────────────────────────
@@ -616,14 +771,14 @@ const publishDirectoryGroup = (
 				// publish attempts are made.
 				for (const t of npmTargets) {
 					results.push({
-						target: toLegacyTarget(t),
+						target: toLegacyTarget(t, "npm", resolveDistTag(version, preTag, t.tag)),
 						success: false,
 						status: "failed",
 						error: packResultEither.error,
 					});
 				}
 				yield* Step.failure(`pack failed — ${npmTargets.length} target(s) marked failed`);
-				return results;
+				return [...jsrResults, ...results];
 			}
 
 			const packResult = packResultEither.result;
@@ -644,27 +799,23 @@ const publishDirectoryGroup = (
 				const perTargetResult = yield* Step.withStep(
 					`publish ${packageName} ${directory} → ${t.registry}`,
 					Effect.gen(function* () {
-						yield* Effect.logDebug(`[publish] ${packageName} ${directory} → ${t.registry}`);
+						const distTag = resolveDistTag(version, preTag, t.tag);
+						yield* Effect.logDebug(`[publish] ${packageName} ${directory} → ${t.registry} (tag ${distTag})`);
 
 						// Set up registry auth BEFORE the integrity probe — `npm view`
 						// against GitHub Packages requires authentication even for reads,
 						// so an anonymous probe returns 401/404 and the orchestrator can
 						// not distinguish "version absent" from "auth required." setupAuth
 						// writes the token to `~/.npmrc`; the probe inherits it. For
-						// registries that allow anonymous reads (npmjs.org) the token is
-						// `null` and setupAuth is skipped — the probe goes anonymous, as
-						// today. The same `.npmrc` entry is then reused by the publish
+						// registries that allow anonymous reads (npmjs.org) the credential
+						// is usually OIDC and nothing is written — the probe goes
+						// anonymous, as today. The same `.npmrc` entry is then reused by the publish
 						// step below, so we don't pay for the setup twice.
-						const token = pickToken(t.registry, npmToken, ghPkgsToken);
-						if (token !== null) {
-							yield* publishSvc
-								.setupAuth(t.registry, token)
-								.pipe(
-									Effect.catchAll((e: PackagePublishError) =>
-										Effect.logWarning(`setupAuth failed for ${t.registry}: ${e.message}`),
-									),
-								);
+						const credential = resolveCredential(t.registry, t.tokenEnv ?? null, auth);
+						if (credential.kind === "missing") {
+							yield* Effect.logWarning(`no credential for ${t.registry}: \`${credential.tokenEnv}\` is not set`);
 						}
+						yield* authLock.withPermits(1)(applyCredential(t.registry, credential));
 
 						const probe = yield* registrySvc
 							.getPublishedIntegrity(packResult.name, packResult.version, { registry: t.registry })
@@ -683,7 +834,7 @@ const publishDirectoryGroup = (
 							return {
 								outcome: "failed" as const,
 								result: {
-									target: toLegacyTarget(t),
+									target: toLegacyTarget(t, "npm", distTag),
 									success: false,
 									status: "failed",
 									error: probe.error,
@@ -707,6 +858,7 @@ const publishDirectoryGroup = (
 									registry: t.registry,
 									access: t.access,
 									provenance: t.provenance,
+									tag: distTag,
 									packageManager,
 								})
 								.pipe(
@@ -722,7 +874,7 @@ const publishDirectoryGroup = (
 								return {
 									outcome: "failed" as const,
 									result: {
-										target: toLegacyTarget(t),
+										target: toLegacyTarget(t, "npm", distTag),
 										success: false,
 										status: "failed",
 										error: publishOutcome.error,
@@ -735,13 +887,38 @@ const publishDirectoryGroup = (
 								};
 							}
 
-							yield* Step.success(`published`);
+							// Optional visibility check — the upload succeeding does not
+							// mean the registry serves the version yet.
+							const verification =
+								verify !== null
+									? yield* verifyPublished(packResult.name, packResult.version, t.registry, packResult.digest, verify)
+									: undefined;
+							// The registry accepted the version, which is now immutable: a
+							// failed check cannot be fixed by publishing again, so it is a
+							// warning on a published target, never a failure that would
+							// hold back its tag and release.
+							if (verification !== undefined && verification.status !== "verified") {
+								const warning =
+									verification.status === "timeout"
+										? `published but not visible on ${t.registry} after ${verification.latencyMs}ms (${verification.attempts} probe(s))`
+										: `published but ${t.registry} serves integrity ${verification.remoteDigest} ≠ local ${packResult.digest}`;
+								yield* Effect.logWarning(`[publish] ${packResult.name}@${packResult.version}: ${warning}`);
+							}
+							yield* Step.success(
+								verification === undefined
+									? `published`
+									: verification.status === "verified"
+										? `published · verified in ${verification.latencyMs}ms`
+										: `published · unverified (${verification.status})`,
+							);
 							return {
 								outcome: "published" as const,
 								result: {
-									target: toLegacyTarget(t),
+									target: toLegacyTarget(t, "npm", distTag),
 									success: true,
 									status: "published",
+									distTags: [{ tag: distTag, source: "publish", status: "applied" }],
+									...(verification !== undefined ? { verification } : {}),
 									tarballPath: packResult.tarballPath,
 									tarballDigest: `sha256:${packResult.sha256Hex}`,
 									packedSize: packResult.packedSize,
@@ -761,7 +938,7 @@ const publishDirectoryGroup = (
 							return {
 								outcome: "skipped-identical" as const,
 								result: {
-									target: toLegacyTarget(t),
+									target: toLegacyTarget(t, "npm", distTag),
 									success: true,
 									status: "skipped",
 									skipReason: "already-published-identical",
@@ -787,7 +964,7 @@ const publishDirectoryGroup = (
 						return {
 							outcome: "mismatch" as const,
 							result: {
-								target: toLegacyTarget(t),
+								target: toLegacyTarget(t, "npm", distTag),
 								success: false,
 								status: "failed",
 								error: `integrity mismatch — local ${packResult.digest} ≠ remote ${remoteDigest}`,
@@ -885,16 +1062,147 @@ const publishDirectoryGroup = (
 			// Render the group's tally honestly: when any target failed to
 			// publish or hit a fatal integrity mismatch, the group did not fully
 			// succeed, so emit the ❌ block rather than a misleading ✅.
-			const groupSummary = `${publishedCount} published, ${skippedIdenticalCount} skipped-identical, ${mismatchCount} mismatch, ${failedCount} failed`;
-			if (mismatchCount > 0 || failedCount > 0) {
+			const jsrSuffix =
+				jsrResults.length > 0 ? `, ${jsrResults.length - jsrFailedCount} JSR ok, ${jsrFailedCount} JSR failed` : "";
+			const groupSummary = `${publishedCount} published, ${skippedIdenticalCount} skipped-identical, ${mismatchCount} mismatch, ${failedCount} failed${jsrSuffix}`;
+			if (mismatchCount > 0 || failedCount > 0 || jsrFailedCount > 0) {
 				yield* Step.failure(groupSummary);
 			} else {
 				yield* Step.success(groupSummary);
 			}
-			return enrichedResults;
+			return [...jsrResults, ...enrichedResults];
 		}),
 	);
 
+// ─── Levelled publishing ──────────────────────────────────────────────────────
+
+/**
+ * Split the topologically-sorted publish order into dependency levels.
+ *
+ * @remarks
+ * `levels` is the sorter's workspace-wide levelling (level 0 depends on
+ * nothing in the workspace; level N only on packages in lower levels). Each
+ * released package is placed at its level, keeping the `sortedNames` order
+ * within a level; levels with no released package are dropped. If any
+ * released package is missing from `levels`, the levelling cannot be trusted
+ * and every package gets a level of its own — the sequential order.
+ *
+ * @param sortedNames - The released package names in topological order.
+ * @param levels - The sorter's dependency levels.
+ * @returns The publish levels, in order.
+ *
+ * @public
+ */
+export function levelPublishOrder(
+	sortedNames: ReadonlyArray<string>,
+	levels: ReadonlyArray<ReadonlyArray<string>>,
+): ReadonlyArray<ReadonlyArray<string>> {
+	const depth = new Map<string, number>();
+	for (const [i, level] of levels.entries()) {
+		for (const name of level) depth.set(name, i);
+	}
+	if (sortedNames.some((name) => !depth.has(name))) {
+		return sortedNames.map((name) => [name]);
+	}
+	const byDepth = new Map<number, string[]>();
+	for (const name of sortedNames) {
+		const d = depth.get(name) ?? 0;
+		const arr = byDepth.get(d);
+		if (arr === undefined) byDepth.set(d, [name]);
+		else arr.push(name);
+	}
+	return [...byDepth.entries()].sort(([a], [b]) => a - b).map(([, names]) => names);
+}
+
+/**
+ * Output captured by {@link captureLogs}: an Effect log entry, or text a
+ * `Step` envelope wrote to stdout directly (its workflow commands and step
+ * lines bypass the Effect loggers).
+ */
+type BufferedLog =
+	| {
+			readonly kind: "log";
+			readonly level: LogLevel.LogLevel;
+			readonly message: unknown;
+			readonly annotations: HashMap.HashMap<string, unknown>;
+	  }
+	| { readonly kind: "stdout"; readonly text: string };
+
+/**
+ * The buffer of the {@link captureLogs} call the running fiber belongs to,
+ * or `null` outside one. Read by the stdout hook of {@link withStdoutCapture}
+ * to attribute each write to the package whose fiber made it.
+ */
+const currentOutputBuffer = FiberRef.unsafeMake<BufferedLog[] | null>(null);
+
+/**
+ * Run an effect with its output captured instead of emitted. The exit is
+ * returned alongside the output so a failing effect's output is not lost.
+ *
+ * @remarks
+ * Effect logs are always captured; stdout writes only while a
+ * {@link withStdoutCapture} hook is installed around the caller.
+ */
+const captureLogs = <A, E, R>(
+	self: Effect.Effect<A, E, R>,
+): Effect.Effect<{ readonly exit: Exit.Exit<A, E>; readonly logs: ReadonlyArray<BufferedLog> }, never, R> =>
+	Effect.suspend(() => {
+		const logs: BufferedLog[] = [];
+		const buffer = Logger.make(({ logLevel, message, annotations }) => {
+			logs.push({ kind: "log", level: logLevel, message, annotations });
+		});
+		return Effect.exit(self).pipe(
+			Effect.locally(FiberRef.currentLoggers, HashSet.make(buffer)),
+			Effect.locally(currentOutputBuffer, logs),
+			Effect.map((exit) => ({ exit, logs })),
+		);
+	});
+
+/**
+ * Run an effect with `process.stdout` writes from fibers inside a
+ * {@link captureLogs} call diverted into that call's buffer. Writes from any
+ * other fiber pass through untouched. The original `write` is restored when
+ * the effect ends, however it ends.
+ */
+const withStdoutCapture = <A, E, R>(self: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+	Effect.acquireUseRelease(
+		Effect.sync(() => {
+			const original = process.stdout.write;
+			const hook = (chunk: string | Uint8Array, ...rest: unknown[]): boolean => {
+				const fiber = Fiber.getCurrentFiber();
+				const buffer = Option.isSome(fiber) ? fiber.value.getFiberRef(currentOutputBuffer) : null;
+				if (buffer === null) return Reflect.apply(original, process.stdout, [chunk, ...rest]) as boolean;
+				buffer.push({ kind: "stdout", text: typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf-8") });
+				// Honour a write callback, as the real stream would once flushed.
+				const callback = rest.find((arg): arg is () => void => typeof arg === "function");
+				callback?.();
+				return true;
+			};
+			process.stdout.write = hook as typeof process.stdout.write;
+			return original;
+		}),
+		() => self,
+		(original) =>
+			Effect.sync(() => {
+				process.stdout.write = original;
+			}),
+	);
+
+/** Re-emit output captured by {@link captureLogs}, in the order it was produced. */
+const replayLogs = (logs: ReadonlyArray<BufferedLog>): Effect.Effect<void> =>
+	Effect.forEach(
+		logs,
+		(entry) =>
+			entry.kind === "stdout"
+				? Effect.sync(() => {
+						process.stdout.write(entry.text);
+					})
+				: Effect.logWithLevel(entry.level, ...(Array.isArray(entry.message) ? entry.message : [entry.message])).pipe(
+						Effect.annotateLogs(Object.fromEntries(HashMap.toEntries(entry.annotations))),
+					),
+		{ discard: true },
+	);
+
 // ─── detectReleases ────────────────────────────────────────────────────────────
 
 /**
@@ -1112,6 +1420,12 @@ export const runBuildAndSbom = (detected: ReadonlyArray<DetectedRelease>, args:
  * and detection that `runPublish` previously did internally are now Steps 3
  * and 1, performed by {@link runBuildAndSbom} and {@link detectReleases}.
  *
+ * With the `publish-concurrency` input above 1, packages at the same
+ * dependency level ({@link levelPublishOrder}) publish concurrently, up to
+ * that limit; each package's log and Step output is buffered and emitted as
+ * one group once its level completes, and credential writes to `~/.npmrc`
+ * are serialised.
+ *
  * @public
  */
 export const runPublishTargets = (
@@ -1144,6 +1458,32 @@ export const runPublishTargets = (
 		const ghPkgsToken: string | null =
 			Option.isSome(ghPkgsTokenOpt) && ghPkgsTokenOpt.value.token !== "" ? ghPkgsTokenOpt.value.token : null;
 
+		const customRegistries = parseCustomRegistries(
+			yield* Config.string("custom-registries").pipe(Config.withDefault("")),
+		);
+		const auth: AuthSources = { npmToken, ghPkgsToken, customRegistries, env: process.env };
+
+		// A maintenance line's dist-tag replaces each target's own tag for
+		// stable versions, so its releases never take `latest`. Empty keeps the
+		// targets' tags.
+		const lineTagInput = yield* Config.string("dist-tag").pipe(Config.withDefault(""));
+		const lineTag: string | null = lineTagInput.trim() !== "" ? lineTagInput.trim() : null;
+
+		// Dist-tag moved onto each fully-published stable version afterwards
+		// (e.g. targets publish to `next`, then `latest` follows). Empty disables.
+		// A line's dist-tag is final: promoting past it would hand `latest` to
+		// a backport.
+		const promoteTagInput = yield* Config.string("promote-dist-tag").pipe(Config.withDefault(""));
+		const promoteTag: string | null = lineTag === null && promoteTagInput.trim() !== "" ? promoteTagInput.trim() : null;
+		if (lineTag !== null && promoteTagInput.trim() !== "") {
+			yield* Effect.logInfo(`Release line publishes under "${lineTag}" — not promoting to "${promoteTagInput.trim()}"`);
+		}
+
+		// Poll each freshly-published npm target until the registry serves it.
+		const verifyEnabled = yield* Config.boolean("verify-publish").pipe(Config.withDefault(false));
+		const verifyTimeout = yield* Config.integer("verify-publish-timeout").pipe(Config.withDefault(300));
+		const verify: VerifyOptions | null = verifyEnabled ? defaultVerifyOptions(Math.max(0, verifyTimeout)) : null;
+
 		if (detected.length === 0) {
 			return {
 				success: true,
@@ -1167,6 +1507,8 @@ export const runPublishTargets = (
 				directory: string;
 				access: "public" | "restricted";
 				provenance: boolean;
+				tag?: string | undefined;
+				tokenEnv: string | null;
 			}>;
 		}
 		const targetsByPackage = new Map<string, PkgEntry>();
@@ -1195,20 +1537,12 @@ export const runPublishTargets = (
 							directory: string;
 							access: "public" | "restricted";
 							provenance: boolean;
+							tag?: string | undefined;
 						}>;
 					}),
 				),
 			);
 
-			const jsrTargets = publishTargets.filter((t) => isJsrRegistry(t.registry));
-			const npmTargets = publishTargets.filter((t) => !isJsrRegistry(t.registry));
-
-			for (const t of jsrTargets) {
-				yield* Effect.logWarning(
-					`runPublishTargets: skipping JSR target ${t.registry} for ${rel.name} — JSR publishing is not yet supported`,
-				);
-			}
-
 			// Resolve each target's directory to an absolute path, then drop any
 			// whose built `package.json` is `private` — the build pipeline keeps
 			// `private: true` on dev-only outputs as the "never publish" signal.
@@ -1217,9 +1551,13 @@ export const runPublishTargets = (
 				directory: string;
 				access: "public" | "restricted";
 				provenance: boolean;
+				tag?: string | undefined;
+				tokenEnv: string | null;
 			}> = [];
+			const tokenEnvs = readTargetTokenEnvs(wsPkg.path);
 			let privateSkipped = 0;
-			for (const t of npmTargets) {
+			for (const t of publishTargets) {
+				const tokenEnv = tokenEnvs.get(targetTokenEnvKey(t.registry, t.directory)) ?? null;
 				const directory = isAbsolute(t.directory) ? t.directory : join(wsPkg.path, t.directory);
 				if (isTargetPrivate(directory)) {
 					privateSkipped++;
@@ -1233,6 +1571,8 @@ export const runPublishTargets = (
 					directory,
 					access: t.access,
 					provenance: t.provenance ?? false,
+					tag: lineTag ?? t.tag,
+					tokenEnv,
 				});
 			}
 
@@ -1240,7 +1580,6 @@ export const runPublishTargets = (
 
 			yield* Effect.logDebug(
 				`runPublishTargets: ${rel.name}@${rel.version}: ${resolvedTargets.length} target(s)` +
-					(jsrTargets.length > 0 ? ` (${jsrTargets.length} JSR skipped)` : "") +
 					(privateSkipped > 0 ? ` (${privateSkipped} private skipped)` : ""),
 			);
 		}
@@ -1268,7 +1607,27 @@ export const runPublishTargets = (
 			`runPublishTargets: publishing ${sortedNames.length} package(s), ${totalTargets} total target(s)`,
 		);
 
-		const accumulateResult = yield* ErrorAccumulator.forEachAccumulate(sortedNames, (name) =>
+		// Packages at the same topological depth have no dependency on each
+		// other, so each level may publish concurrently; levels run in order so
+		// a dependent never publishes before its dependencies.
+		const concurrency = Math.max(1, yield* Config.integer("publish-concurrency").pipe(Config.withDefault(1)));
+		const authLock = yield* Effect.makeSemaphore(1);
+		const levels =
+			concurrency === 1
+				? [sortedNames]
+				: yield* sorter.levels().pipe(
+						Effect.map((all) => levelPublishOrder(sortedNames, all)),
+						Effect.catchAll((e: unknown) =>
+							Effect.gen(function* () {
+								yield* Effect.logWarning(`Topological levelling failed, publishing sequentially: ${String(e)}`);
+								return sortedNames.map((name) => [name]);
+							}),
+						),
+					);
+
+		// `grouped` wraps each build directory in its own log group; concurrent
+		// publishes run ungrouped under a log buffer instead (see below).
+		const publishPackage = (name: string, grouped: boolean) =>
 			Effect.gen(function* () {
 				const pkgEntry = targetsByPackage.get(name);
 				if (pkgEntry === undefined) {
@@ -1277,6 +1636,7 @@ export const runPublishTargets = (
 				}
 
 				const { version, targets } = pkgEntry;
+				const publishSvc = yield* PackagePublish;
 				yield* Effect.logDebug(`runPublishTargets: publishing ${name}@${version}`);
 
 				if (targets.length === 0) {
@@ -1284,41 +1644,145 @@ export const runPublishTargets = (
 					return { name, version, targets: [] } satisfies PackagePublishResult;
 				}
 
+				// Targets a previous attempt completed are carried over on resume —
+				// no probe, publish, or attestation. An npm target's build directory
+				// is re-packed first (once per directory): when the fresh digest no
+				// longer matches the recorded one, the build changed since, and the
+				// target goes through the normal flow again, whose integrity probe
+				// reports the mismatch. A carried-over target keeps the fresh
+				// tarball and the package's SBOM, so its release still gets both
+				// assets.
+				const completed = completedTargets(args.resumeFrom ?? null, name, version);
+				const targetResults: TargetPublishResult[] = [];
+				const pending: TargetSpec[] = [];
+				const sbomPathForPackage = sbomPaths.get(name) ?? null;
+				const repacked = new Map<string, PackageTarball | null>();
+				for (const t of targets) {
+					const done = completed.get(manifestTargetKey(t.registry, t.directory));
+					if (done === undefined) {
+						pending.push(t);
+						continue;
+					}
+					const label = `${name} · ${basename(t.directory)} → ${t.registry}`;
+					const assets = sbomPathForPackage !== null ? { sbomPath: sbomPathForPackage } : {};
+					if (isJsrRegistry(t.registry)) {
+						yield* Effect.logInfo(`⏭ ${label} — completed by a previous run`);
+						targetResults.push({
+							target: toLegacyTarget(t, "jsr"),
+							success: true,
+							status: "skipped",
+							skipReason: "resumed",
+							...assets,
+						});
+						continue;
+					}
+
+					let tarball = repacked.get(t.directory);
+					if (tarball === undefined) {
+						tarball = yield* publishSvc
+							.pack(t.directory)
+							.pipe(
+								Effect.catchAll((e: PackagePublishError) =>
+									Effect.logWarning(`[publish] ${name}: re-pack of ${t.directory} failed — ${e.message}`).pipe(
+										Effect.as(null),
+									),
+								),
+							);
+						repacked.set(t.directory, tarball);
+					}
+					const digest = tarball !== null ? `sha256:${tarball.sha256Hex}` : null;
+					if (tarball === null || digest !== done.digest) {
+						yield* Effect.logWarning(
+							`${label} — the build no longer matches the tarball a previous run published (${done.digest ?? "no digest"}); publishing again`,
+						);
+						pending.push(t);
+						continue;
+					}
+					yield* Effect.logInfo(`⏭ ${label} — completed by a previous run`);
+					targetResults.push({
+						target: toLegacyTarget(t, "npm", resolveDistTag(version, args.preTag ?? null, t.tag)),
+						success: true,
+						status: "skipped",
+						skipReason: "resumed",
+						tarballPath: tarball.tarballPath,
+						tarballDigest: digest,
+						packedSize: tarball.packedSize,
+						unpackedSize: tarball.unpackedSize,
+						fileCount: tarball.fileCount,
+						...assets,
+					});
+				}
+
 				// Group targets by build directory so each unique directory packs
 				// once and the resulting tarball is reused across every target
 				// sharing it (pack-once / publish-tarball flow).
 				const groups = new Map<string, TargetSpec[]>();
-				for (const t of targets) {
+				for (const t of pending) {
 					const arr = groups.get(t.directory);
 					if (arr === undefined) groups.set(t.directory, [t]);
 					else arr.push(t);
 				}
 
-				const targetResults: TargetPublishResult[] = [];
-
-				const sbomPathForPackage = sbomPaths.get(name) ?? null;
-
 				for (const [directory, groupTargets] of groups) {
 					const distDir = basename(directory);
-					const groupResults = yield* logger.group(
-						`Publish · ${name} · ${distDir}`,
-						publishDirectoryGroup(
-							name,
-							version,
-							directory,
-							groupTargets,
-							npmToken,
-							ghPkgsToken,
-							normalizePackageManager(args.packageManager),
-							sbomPathForPackage,
-						),
+					const publishGroup = publishDirectoryGroup(
+						name,
+						version,
+						directory,
+						groupTargets,
+						auth,
+						authLock,
+						normalizePackageManager(args.packageManager),
+						sbomPathForPackage,
+						args.preTag ?? null,
+						verify,
 					);
+					const groupResults = grouped
+						? yield* logger.group(`Publish · ${name} · ${distDir}`, publishGroup)
+						: yield* publishGroup;
 					targetResults.push(...groupResults);
 				}
 
+				if (promoteTag !== null) {
+					const promoted = yield* promoteDistTags(name, version, targetResults, promoteTag);
+					return { name, version, targets: [...promoted] } satisfies PackagePublishResult;
+				}
+
 				return { name, version, targets: targetResults } satisfies PackagePublishResult;
-			}),
-		);
+			});
+
+		const accumulateResult: {
+			successes: Array<PackagePublishResult | null>;
+			failures: Array<{ item: string; error: unknown }>;
+		} = { successes: [], failures: [] };
+
+		for (const level of levels) {
+			if (concurrency === 1 || level.length === 1) {
+				const levelResult = yield* ErrorAccumulator.forEachAccumulate(level, (name) => publishPackage(name, true));
+				accumulateResult.successes.push(...levelResult.successes);
+				accumulateResult.failures.push(...levelResult.failures);
+				continue;
+			}
+
+			// Concurrent level: buffer each package's log and Step output and
+			// replay it as one group per package once the whole level has
+			// settled, so the output of parallel publishes never interleaves.
+			yield* Effect.logDebug(`runPublishTargets: publishing ${level.join(", ")} (concurrency ${concurrency})`);
+			const outcomes = yield* withStdoutCapture(
+				Effect.forEach(level, (name) => captureLogs(publishPackage(name, false)), { concurrency }),
+			);
+			for (const [i, name] of level.entries()) {
+				const { exit, logs } = outcomes[i];
+				yield* logger.group(`Publish · ${name}`, replayLogs(logs));
+				if (Exit.isSuccess(exit)) {
+					accumulateResult.successes.push(exit.value);
+					continue;
+				}
+				const failure = Cause.failureOption(exit.cause);
+				if (Option.isNone(failure)) return yield* exit;
+				accumulateResult.failures.push({ item: name, error: failure.value });
+			}
+		}
 
 		// ── Assemble PublishPackagesResult ─────────────────────────────────────
 		const packages: PackagePublishResult[] = [];
@@ -10,7 +10,12 @@ import { Effect, Layer } from "effect";
 import { beforeEach, describe, expect, it } from "vitest";
 import { PublishConfig, PublishabilityDetector, WorkspacePackage } from "workspaces-effect";
 import { ChangesetConfig } from "./changeset-config.js";
-import { PublishabilityDetectorAdaptiveLive, SilkPublishabilityDetectorLive } from "./publishability.js";
+import {
+	PublishabilityDetectorAdaptiveLive,
+	SilkPublishabilityDetectorLive,
+	readTargetTokenEnvs,
+	targetTokenEnvKey,
+} from "./publishability.js";
 
 const writePkg = (dir: string, content: unknown): void => {
 	writeFileSync(join(dir, "package.json"), JSON.stringify(content), "utf-8");
@@ -303,6 +308,23 @@ describe("SilkPublishabilityDetectorLive — silk rules", () => {
 		expect(targets[0].provenance).toBe(true);
 	});
 
+	it("object target tag overrides publishConfig.tag; string targets inherit it", async () => {
+		writePkg(tmpDir, {
+			name: "x",
+			version: "1.0.0",
+			private: true,
+			publishConfig: {
+				access: "public",
+				tag: "next",
+				targets: ["npm", { protocol: "npm", registry: "https://npm.pkg.github.com/", tag: "canary" }],
+			},
+		});
+		const targets = await runSilk(
+			Effect.flatMap(PublishabilityDetector, (d) => d.detect(makeWsPkg(tmpDir, "x"), tmpDir)),
+		);
+		expect(targets.map((t) => t.tag)).toEqual(["next", "canary"]);
+	});
+
 	it("missing package.json → not publishable", async () => {
 		// no writePkg call — tmpDir exists but no package.json
 		const targets = await runSilk(
@@ -312,6 +334,46 @@ describe("SilkPublishabilityDetectorLive — silk rules", () => {
 	});
 });
 
+describe("readTargetTokenEnvs", () => {
+	it("keys each object target's tokenEnv by its resolved registry and directory", () => {
+		const tmpDir = mkdtempSync(join(tmpdir(), "pub-"));
+		writePkg(tmpDir, {
+			name: "x",
+			private: true,
+			publishConfig: {
+				access: "public",
+				registry: "https://registry.example.com/",
+				targets: [
+					"npm",
+					{ tokenEnv: "EXAMPLE_TOKEN" },
+					{ registry: "https://other.example.com/", tokenEnv: "OTHER_TOKEN" },
+					{ registry: "https://plain.example.com/" },
+				],
+			},
+		});
+		expect([...readTargetTokenEnvs(tmpDir)]).toEqual([
+			[targetTokenEnvKey("https://registry.example.com/", "."), "EXAMPLE_TOKEN"],
+			[targetTokenEnvKey("https://other.example.com/", "."), "OTHER_TOKEN"],
+		]);
+	});
+
+	it("keeps separate tokens for two directories on one registry", () => {
+		const tmpDir = mkdtempSync(join(tmpdir(), "pub-"));
+		writePkg(tmpDir, {
+			name: "x",
+			private: true,
+			publishConfig: {
+				access: "public",
+				directory: "dist/npm",
+				targets: [{ tokenEnv: "NPM_TOKEN" }, { directory: "dist/legacy", tokenEnv: "LEGACY_TOKEN" }],
+			},
+		});
+		const tokenEnvs = readTargetTokenEnvs(tmpDir);
+		expect(tokenEnvs.get(targetTokenEnvKey("https://registry.npmjs.org/", "dist/npm"))).toBe("NPM_TOKEN");
+		expect(tokenEnvs.get(targetTokenEnvKey("https://registry.npmjs.org/", "./dist/legacy"))).toBe("LEGACY_TOKEN");
+	});
+});
+
 // ──────────────────────────────────────────────────────────────────────────────
 // PublishabilityDetectorAdaptiveLive — vanilla mode (reads from WorkspacePackage fields)
 // ──────────────────────────────────────────────────────────────────────────────
@@ -19,7 +19,7 @@
  */
 
 import { existsSync, readFileSync } from "node:fs";
-import { join } from "node:path";
+import { join, normalize } from "node:path";
 import { Effect, Layer } from "effect";
 import type { WorkspacePackage } from "workspaces-effect";
 import { PublishTarget, PublishabilityDetector, PublishabilityDetectorLive } from "workspaces-effect";
@@ -34,6 +34,7 @@ interface RawPublishConfig {
 	readonly access?: "public" | "restricted";
 	readonly registry?: string;
 	readonly directory?: string;
+	readonly tag?: string;
 	readonly targets?: ReadonlyArray<RawTargetSpec>;
 }
 
@@ -45,6 +46,8 @@ type RawTargetSpec =
 			readonly registry?: string;
 			readonly directory?: string;
 			readonly provenance?: boolean;
+			readonly tag?: string;
+			readonly tokenEnv?: string;
 	  };
 
 interface RawPackageJson {
@@ -81,9 +84,9 @@ const resolveTargetAccess = (
  * `https://` / `http://` URL is used verbatim; any other string falls back to
  * the parent `publishConfig.registry` (or the npm default).
  *
- * Note: the `"jsr"` mapping yields a `jsr.io` registry string for
- * classification only — the Effect publish path does not model JSR (it is
- * documented as unreachable in `validation.ts`).
+ * Note: the `"jsr"` mapping yields a `jsr.io` registry string; the Phase-3
+ * orchestrator classifies it with `isJsrRegistry` and routes the target to
+ * the JSR publish path (`release/jsr.ts`).
  */
 const expandShorthand = (target: string, pcRegistry: string | undefined): string => {
 	if (target === "npm") return "https://registry.npmjs.org/";
@@ -93,6 +96,18 @@ const expandShorthand = (target: string, pcRegistry: string | undefined): string
 	return pcRegistry ?? "https://registry.npmjs.org/";
 };
 
+/**
+ * Resolve the dist-tag for a single target spec.
+ *
+ * Like access, string targets inherit the parent `publishConfig.tag`; object
+ * targets may declare their own. `undefined` leaves the choice to the
+ * publish orchestrator (`latest`, or the pre tag for prerelease versions).
+ */
+const resolveTargetTag = (target: RawTargetSpec, parentTag: string | undefined): string | undefined => {
+	if (typeof target === "string") return parentTag;
+	return target.tag ?? parentTag;
+};
+
 const readRawPackageJson = (pkgPath: string): RawPackageJson | null => {
 	try {
 		const file = join(pkgPath, "package.json");
@@ -110,16 +125,21 @@ const readRawPackageJson = (pkgPath: string): RawPackageJson | null => {
  *  - pkg.private === true + publishConfig.targets non-empty → resolve each target;
  *    return one PublishTarget per target that resolves to public/restricted access
  *  - Otherwise → not publishable ([])
+ *
+ * Every resolved target carries `publishConfig.tag` (or the object target's
+ * own `tag`) when one is declared.
  */
 const silkDetect = (pkgName: string, raw: RawPackageJson): ReadonlyArray<PublishTarget> => {
 	if (raw.private !== true) {
 		// Public package — one target with defaults
+		const tag = raw.publishConfig?.tag;
 		return [
 			new PublishTarget({
 				name: pkgName,
 				registry: raw.publishConfig?.registry ?? "https://registry.npmjs.org/",
 				directory: raw.publishConfig?.directory ?? ".",
 				access: raw.publishConfig?.access ?? "public",
+				...(tag !== undefined ? { tag } : {}),
 			}),
 		];
 	}
@@ -139,6 +159,7 @@ const silkDetect = (pkgName: string, raw: RawPackageJson): ReadonlyArray<Publish
 					: (target.registry ?? pc.registry ?? "https://registry.npmjs.org/");
 			const directory = typeof target === "string" ? (pc.directory ?? ".") : (target.directory ?? pc.directory ?? ".");
 			const provenance = typeof target === "string" ? undefined : target.provenance;
+			const tag = resolveTargetTag(target, pc.tag);
 			results.push(
 				new PublishTarget({
 					name: pkgName,
@@ -146,6 +167,7 @@ const silkDetect = (pkgName: string, raw: RawPackageJson): ReadonlyArray<Publish
 					directory,
 					access,
 					...(provenance !== undefined ? { provenance } : {}),
+					...(tag !== undefined ? { tag } : {}),
 				}),
 			);
 		}
@@ -160,6 +182,7 @@ const silkDetect = (pkgName: string, raw: RawPackageJson): ReadonlyArray<Publish
 				registry: pc.registry ?? "https://registry.npmjs.org/",
 				directory: pc.directory ?? ".",
 				access: pc.access,
+				...(pc.tag !== undefined ? { tag: pc.tag } : {}),
 			}),
 		];
 	}
@@ -167,6 +190,40 @@ const silkDetect = (pkgName: string, raw: RawPackageJson): ReadonlyArray<Publish
 	return [];
 };
 
+/**
+ * Key of a target in {@link readTargetTokenEnvs}' result: its registry plus
+ * its build directory as declared in `publishConfig`, so two targets on one
+ * registry with different directories keep their own `tokenEnv`.
+ *
+ * @public
+ */
+export const targetTokenEnvKey = (registry: string, directory: string): string =>
+	`${registry}\u0000${normalize(directory)}`;
+
+/**
+ * Read the `tokenEnv` declared on each object target in a package's
+ * `publishConfig.targets`, keyed by {@link targetTokenEnvKey}.
+ *
+ * `PublishTarget` carries no auth fields, so the auth resolver reads them
+ * back from package.json here. Registries and directories resolve exactly as
+ * in {@link silkDetect}, so a key matches the `registry` and `directory` of
+ * the detected target.
+ *
+ * @param pkgPath - Absolute path to the workspace package.
+ * @returns Target key → env var name; empty when no target declares one.
+ */
+export const readTargetTokenEnvs = (pkgPath: string): ReadonlyMap<string, string> => {
+	const pc = readRawPackageJson(pkgPath)?.publishConfig;
+	const tokenEnvs = new Map<string, string>();
+	for (const target of pc?.targets ?? []) {
+		if (typeof target === "string" || target.tokenEnv === undefined || target.tokenEnv === "") continue;
+		const registry = target.registry ?? pc?.registry ?? "https://registry.npmjs.org/";
+		const key = targetTokenEnvKey(registry, target.directory ?? pc?.directory ?? ".");
+		if (!tokenEnvs.has(key)) tokenEnvs.set(key, target.tokenEnv);
+	}
+	return tokenEnvs;
+};
+
 // ══════════════════════════════════════════════════════════════════════════════
 // SilkPublishabilityDetectorLive
 // ══════════════════════════════════════════════════════════════════════════════
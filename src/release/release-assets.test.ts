@@ -0,0 +1,66 @@
+/**
+ * Unit tests for extra release assets (`release/release-assets`).
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { findReleaseAssets, formatSha256Sums, resolveAssetPatterns, sha256Hex } from "./release-assets.js";
+
+describe("resolveAssetPatterns", () => {
+	it("collects the files of every entry matching the package", () => {
+		const rules = [
+			{ package: "@scope/*", files: ["dist/*.zip"] },
+			{ package: "@scope/cli", files: ["bin/**"] },
+			{ package: "@other/*", files: ["*.tgz"] },
+		];
+
+		expect(resolveAssetPatterns(rules, "@scope/cli")).toEqual(["dist/*.zip", "bin/**"]);
+		expect(resolveAssetPatterns(rules, "@scope/core")).toEqual(["dist/*.zip"]);
+		expect(resolveAssetPatterns(rules, "unscoped")).toEqual([]);
+	});
+});
+
+describe("findReleaseAssets", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "release-assets-test-"));
+		mkdirSync(join(dir, "dist", "bin"), { recursive: true });
+		mkdirSync(join(dir, "node_modules", "dep"), { recursive: true });
+		writeFileSync(join(dir, "dist", "app.zip"), "zip");
+		writeFileSync(join(dir, "dist", "bin", "app-linux"), "bin");
+		writeFileSync(join(dir, "dist", "index.js"), "js");
+		writeFileSync(join(dir, "node_modules", "dep", "dep.zip"), "dep");
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("matches `*` within a path segment and `**` across segments", () => {
+		expect(findReleaseAssets(dir, ["dist/*.zip"])).toEqual([join(dir, "dist", "app.zip")]);
+		expect(findReleaseAssets(dir, ["dist/**"])).toEqual([
+			join(dir, "dist", "app.zip"),
+			join(dir, "dist", "bin", "app-linux"),
+			join(dir, "dist", "index.js"),
+		]);
+	});
+
+	it("never searches node_modules and tolerates a missing directory", () => {
+		expect(findReleaseAssets(dir, ["**.zip"])).toEqual([join(dir, "dist", "app.zip")]);
+		expect(findReleaseAssets(join(dir, "missing"), ["**"])).toEqual([]);
+	});
+});
+
+describe("formatSha256Sums", () => {
+	it("renders sha256sum lines sorted by name", () => {
+		const sums = new Map([
+			["pkg.tgz", sha256Hex("tarball")],
+			["app.zip", sha256Hex("zip")],
+		]);
+
+		expect(formatSha256Sums(sums)).toBe(`${sha256Hex("zip")}  app.zip\n${sha256Hex("tarball")}  pkg.tgz\n`);
+	});
+});
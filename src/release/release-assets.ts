@@ -0,0 +1,100 @@
+/**
+ * Extra release assets.
+ *
+ * Resolves the `releaseAssets` section of the Silk release config to the
+ * build artifacts each package attaches to its GitHub release — compiled
+ * binaries, archives, API reports — and renders the `SHA256SUMS` asset that
+ * lists the checksum of every file on the release. `runReleases` uploads and
+ * attests the files.
+ *
+ * @module release/release-assets
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, readdirSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import type { ReleaseAssets } from "../schema/silk-release-config.js";
+import { globToRegExp } from "../utils/glob.js";
+
+/** Name of the checksum asset attached alongside the release assets. */
+export const SHA256SUMS_ASSET = "SHA256SUMS";
+
+/** Directories never searched for release assets. */
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git"]);
+
+/**
+ * The file patterns that apply to `packageName`: those of every entry whose
+ * `package` pattern matches, in config order.
+ *
+ * @public
+ */
+export const resolveAssetPatterns = (rules: ReadonlyArray<ReleaseAssets>, packageName: string): ReadonlyArray<string> =>
+	rules.filter((r) => r.package === packageName || globToRegExp(r.package).test(packageName)).flatMap((r) => r.files);
+
+/** Every file under `directory`, as `/`-separated paths relative to it. */
+const listFiles = (directory: string): string[] => {
+	const files: string[] = [];
+	const walk = (dir: string) => {
+		for (const entry of readdirSync(dir, { withFileTypes: true })) {
+			if (entry.isDirectory()) {
+				if (!SKIPPED_DIRECTORIES.has(entry.name)) walk(join(dir, entry.name));
+			} else if (entry.isFile()) {
+				files.push(relative(directory, join(dir, entry.name)).split(sep).join("/"));
+			}
+		}
+	};
+	walk(directory);
+	return files;
+};
+
+/**
+ * Find the files under `directory` matching any of `patterns`.
+ *
+ * @remarks
+ * `node_modules` and `.git` are never searched. A missing directory matches
+ * nothing.
+ *
+ * @returns Absolute paths, sorted.
+ *
+ * @public
+ */
+export const findReleaseAssets = (directory: string, patterns: ReadonlyArray<string>): ReadonlyArray<string> => {
+	if (patterns.length === 0) return [];
+	const regexes = patterns.map(globToRegExp);
+	let files: string[];
+	try {
+		files = listFiles(directory);
+	} catch {
+		return [];
+	}
+	return files
+		.filter((f) => regexes.some((re) => re.test(f)))
+		.sort()
+		.map((f) => join(directory, f));
+};
+
+/**
+ * Hex SHA-256 digest of `content`.
+ *
+ * @public
+ */
+export const sha256Hex = (content: Buffer | string): string => createHash("sha256").update(content).digest("hex");
+
+/**
+ * Hex SHA-256 digest of the file at `path`.
+ *
+ * @public
+ */
+export const sha256File = (path: string): string => sha256Hex(readFileSync(path));
+
+/**
+ * Render a `SHA256SUMS` file in the `sha256sum` format (`<hex>  <name>`),
+ * sorted by name so `sha256sum -c SHA256SUMS` output is stable.
+ *
+ * @public
+ */
+export const formatSha256Sums = (entries: ReadonlyMap<string, string>): string =>
+	[...entries]
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+		.map(([name, sha256]) => `${sha256}  ${name}\n`)
+		.join("");
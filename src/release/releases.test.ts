@@ -12,7 +12,7 @@
  * upload state machines executed the correct calls.
  */
 
-import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import {
@@ -27,9 +27,9 @@ import {
 } from "@savvy-web/github-action-effects/testing";
 import { Effect, Layer, LogLevel, Logger } from "effect";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { PackageNotFoundError, WorkspaceDiscovery } from "workspaces-effect";
+import { PackageNotFoundError, WorkspaceDiscovery, WorkspacePackage } from "workspaces-effect";
 import type { ReleasesInputArgs, ReleasesReport } from "./releases.js";
-import { runReleases } from "./releases.js";
+import { createDraftReleases, isHighestInLine, runReleases } from "./releases.js";
 import type { PackagePublishResult, TagInfo } from "./types.js";
 
 // ─── Test helpers ─────────────────────────────────────────────────────────────
@@ -102,14 +102,17 @@ const workspaceDiscoveryLayer = Layer.succeed(WorkspaceDiscovery, {
 /**
  * Build a GitHubClientTest layer for runReleases.
  *
- * runReleases no longer makes raw REST calls — release / storage-record
- * traffic now goes through the `GitHubRelease` and `GitHubArtifactMetadata`
- * services. The only thing read off `GitHubClient` is the `repo` slug
- * (in `runReleases` itself and `createStorageRecord`).
+ * Release / storage-record traffic goes through the `GitHubRelease` and
+ * `GitHubArtifactMetadata` services. Besides the `repo` slug (read in
+ * `runReleases` itself and `createStorageRecord`), the raw REST call every
+ * release makes is `repos.updateRelease`, which publishes its draft and sets
+ * `make_latest` — always answered, on top of `restResponses`.
  */
-const makeGhClientLayer = () => {
+const makeGhClientLayer = (restResponses: Array<[string, unknown]> = []) => {
 	const state: import("@savvy-web/github-action-effects").GitHubClientTestState = {
-		restResponses: new Map(),
+		restResponses: new Map(
+			[["repos.updateRelease", {}] as [string, unknown], ...restResponses].map(([op, data]) => [op, { data }]),
+		),
 		graphqlResponses: new Map<string, unknown>(),
 		paginateResponses: new Map<string, Array<unknown[]>>(),
 		repo: { owner: "test-owner", repo: "test-repo" },
@@ -176,6 +179,41 @@ describe("runReleases", () => {
 		});
 	});
 
+	describe("pre mode", () => {
+		it("marks only prerelease versions as GitHub prereleases, matching their dist-tags", async () => {
+			const { state: releaseState, layer: releaseLayer } = GitHubReleaseTest.empty();
+			const args: ReleasesInputArgs = {
+				tags: [makeTag("v2.3.1", "@test/pkg", "2.3.1"), makeTag("v3.0.0-beta.0", "@test/next", "3.0.0-beta.0")],
+				publishResult: makePublishPackagesResult([
+					makePublishResult("@test/pkg", "2.3.1"),
+					makePublishResult("@test/next", "3.0.0-beta.0"),
+				]),
+				packageManager: "pnpm",
+				dryRun: false,
+				preTag: "beta",
+			};
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				GitTagTest.empty().layer,
+				releaseLayer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				makeGhClientLayer(),
+				GitHubArtifactMetadataTest.empty().layer,
+				workspaceDiscoveryLayer,
+			);
+
+			const result: ReleasesReport = await Effect.runPromise(
+				runReleases(args).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>,
+			);
+
+			expect(result.success).toBe(true);
+			expect(releaseState.releases.get("v2.3.1")?.prerelease).toBe(false);
+			expect(releaseState.releases.get("v3.0.0-beta.0")?.prerelease).toBe(true);
+		});
+	});
+
 	describe("resilient batch: one release failure does not abort the other", () => {
 		it("captures the failing release in errors but still creates the succeeding release", async () => {
 			// Arrange: GitHubRelease.create fails for the first tag (v1.0.0)
@@ -388,11 +426,11 @@ describe("runReleases", () => {
 			expect(result.releases).toHaveLength(1);
 		});
 
-		it("logs a warning with both SHAs when tag.create fails and resolve returns a DIFFERENT SHA", async () => {
+		it("logs a warning with both SHAs and skips the release when resolve returns a DIFFERENT SHA", async () => {
 			// Arrange — GitTag.create fails, GitTag.resolve returns a SHA that
 			// does NOT match the head we tried to point at. The orchestrator
 			// must log a warning naming BOTH SHAs so the divergence is
-			// auditable, then proceed.
+			// auditable, and must not release over the other commit's tag.
 			const { GitTag: GitTagSvc, GitTagError } = await import("@savvy-web/github-action-effects");
 
 			const headSha = "head-sha-aaaa";
@@ -427,7 +465,7 @@ describe("runReleases", () => {
 				resolve: (_tag: string) => Effect.succeed(existingSha),
 			});
 
-			const { layer: releaseLayer } = GitHubReleaseTest.empty();
+			const { state: releaseState, layer: releaseLayer } = GitHubReleaseTest.empty();
 			const attestLayer = AttestTest.empty();
 
 			const tags: TagInfo[] = [makeTag("v8.0.0", "@test/pkg-div", "8.0.0")];
@@ -466,10 +504,12 @@ describe("runReleases", () => {
 				else process.env.GITHUB_SHA = savedSha;
 			}
 
-			// Assert — the run proceeded and the warning logged both SHAs so
-			// a reader can see what diverged. Warnings from inside a Step
+			// Assert — the tag got no release, and the warning logged both SHAs
+			// so a reader can see what diverged. Warnings from inside a Step
 			// envelope reach stdout as `::warning::…` workflow-command lines.
-			expect(result.success).toBe(true);
+			expect(result.success).toBe(false);
+			expect(result.errors[0]).toContain(`already points at ${existingSha}, not ${headSha}`);
+			expect(releaseState.createCalls).toHaveLength(0);
 			const captured = stdoutChunks.join("");
 			const warningLines = captured.split("\n").filter((l) => l.includes("::warning::") && l.includes("v8.0.0"));
 			expect(warningLines.length).toBeGreaterThan(0);
@@ -480,6 +520,452 @@ describe("runReleases", () => {
 		});
 	});
 
+	describe("floating major / major.minor tags", () => {
+		const runWithFloating = async (tagState: ReturnType<typeof GitTagTest.empty>, floatingTags: boolean) => {
+			const savedSha = process.env.GITHUB_SHA;
+			process.env.GITHUB_SHA = "head-sha";
+			const args: ReleasesInputArgs = {
+				tags: [makeTag("v2.3.1", "@test/pkg", "2.3.1"), makeTag("v3.0.0-beta.0", "@test/next", "3.0.0-beta.0")],
+				publishResult: makePublishPackagesResult([
+					makePublishResult("@test/pkg", "2.3.1"),
+					makePublishResult("@test/next", "3.0.0-beta.0"),
+				]),
+				packageManager: "pnpm",
+				dryRun: false,
+				floatingTags,
+			};
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				tagState.layer,
+				GitHubReleaseTest.empty().layer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				makeGhClientLayer([["git.updateRef", {}]]),
+				GitHubArtifactMetadataTest.empty().layer,
+				workspaceDiscoveryLayer,
+			);
+			try {
+				return await Effect.runPromise(runReleases(args).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>);
+			} finally {
+				if (savedSha === undefined) delete process.env.GITHUB_SHA;
+				else process.env.GITHUB_SHA = savedSha;
+			}
+		};
+
+		it("creates and force-moves the floating tags of stable releases only", async () => {
+			const tagState = GitTagTest.empty();
+			tagState.state.tags.set("v2", "old-sha");
+
+			const result = await runWithFloating(tagState, true);
+
+			expect(result.success).toBe(true);
+			expect(result.floatingTags).toEqual([
+				{ name: "v2", tag: "v2.3.1", previousSha: "old-sha" },
+				{ name: "v2.3", tag: "v2.3.1", previousSha: null },
+			]);
+			// The existing `v2` is force-updated through the refs API, never
+			// deleted; only the new `v2.3` is created.
+			expect(tagState.state.tags.get("v2")).toBe("old-sha");
+			expect(tagState.state.tags.get("v2.3")).toBe("head-sha");
+			// The prerelease moves nothing.
+			expect(tagState.state.tags.has("v3")).toBe(false);
+		});
+
+		it("leaves a floating tag alone when a higher version of its line is tagged", async () => {
+			const tagState = GitTagTest.empty();
+			tagState.state.tags.set("v2.4.0", "newer-sha");
+			tagState.state.tags.set("v2.5.0-beta.0", "beta-sha");
+			tagState.state.tags.set("v2", "newer-sha");
+
+			const result = await runWithFloating(tagState, true);
+
+			// 2.4.0 supersedes 2.3.1 in major 2 but not in 2.3; the prerelease
+			// is not compared.
+			expect(result.floatingTags).toEqual([{ name: "v2.3", tag: "v2.3.1", previousSha: null }]);
+			expect(tagState.state.tags.get("v2")).toBe("newer-sha");
+			expect(tagState.state.tags.get("v2.3")).toBe("head-sha");
+		});
+
+		it("leaves floating tags alone when disabled", async () => {
+			const tagState = GitTagTest.empty();
+			tagState.state.tags.set("v2", "old-sha");
+
+			const result = await runWithFloating(tagState, false);
+
+			expect(result.floatingTags).toEqual([]);
+			expect(tagState.state.tags.get("v2")).toBe("old-sha");
+			expect(tagState.state.tags.has("v2.3")).toBe(false);
+		});
+	});
+
+	describe("draft-first releases", () => {
+		const runWithDrafts = async (pkg: PackagePublishResult) => {
+			const releaseLayer = GitHubReleaseTest.empty();
+			const tagLayer = GitTagTest.empty();
+			const tags = [makeTag("v1.0.0", pkg.name, pkg.version)];
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				tagLayer.layer,
+				releaseLayer.layer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				makeGhClientLayer([["repos.updateRelease", {}]]),
+				GitHubArtifactMetadataTest.empty().layer,
+				workspaceDiscoveryLayer,
+			);
+			const result = await Effect.runPromise(
+				Effect.gen(function* () {
+					const drafts = yield* createDraftReleases(tags, false);
+					return yield* runReleases({
+						tags,
+						publishResult: { ...makePublishPackagesResult([pkg]), success: pkg.targets.every((t) => t.success) },
+						packageManager: "pnpm",
+						dryRun: false,
+						drafts,
+					});
+				}).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>,
+			);
+			return { result, releaseState: releaseLayer.state, tagState: tagLayer.state };
+		};
+
+		it("publishes the draft once every target succeeded", async () => {
+			const { result, releaseState, tagState } = await runWithDrafts(makePublishResult("@test/pkg", "1.0.0"));
+
+			expect(result.success).toBe(true);
+			expect(result.releases.map((r) => r.tag)).toEqual(["v1.0.0"]);
+			// Only the draft was created; finalizing reuses it.
+			expect(releaseState.createCalls).toHaveLength(1);
+			expect(tagState.createCalls.map((c) => c.tag)).toEqual(["v1.0.0"]);
+		});
+
+		it("leaves the draft, untagged, with the failed targets listed", async () => {
+			const pkg = makePublishResult("@test/pkg", "1.0.0");
+			const failed: PackagePublishResult = {
+				...pkg,
+				targets: [
+					...pkg.targets,
+					{
+						target: {
+							protocol: "npm" as const,
+							registry: "https://npm.pkg.github.com/",
+							directory: "/tmp/dist/@test/pkg",
+							access: "public" as const,
+							provenance: true,
+							tag: "latest" as const,
+							tokenEnv: null,
+						},
+						success: false,
+						error: "E403 forbidden",
+					},
+				],
+			};
+
+			const { result, releaseState, tagState } = await runWithDrafts(failed);
+
+			expect(result.success).toBe(false);
+			expect(result.releases).toEqual([]);
+			expect(result.errors[0]).toMatch(/v1\.0\.0 left as a draft — 1 target\(s\) failed/);
+			expect(tagState.createCalls).toHaveLength(0);
+			const draft = releaseState.releases.get("v1.0.0");
+			expect(draft?.draft).toBe(true);
+			expect(draft?.body).toContain("E403 forbidden");
+		});
+	});
+
+	describe("failed targets without a draft", () => {
+		it("creates neither a tag nor a release", async () => {
+			const { state: tagState, layer: tagLayer } = GitTagTest.empty();
+			const { state: releaseState, layer: releaseLayer } = GitHubReleaseTest.empty();
+			const pkg = makePublishResult("@test/pkg", "1.0.0");
+			const failed: PackagePublishResult = {
+				...pkg,
+				targets: pkg.targets.map((t) => ({ ...t, success: false, error: "E403 forbidden" })),
+			};
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				tagLayer,
+				releaseLayer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				makeGhClientLayer(),
+				GitHubArtifactMetadataTest.empty().layer,
+				workspaceDiscoveryLayer,
+			);
+
+			const result = await Effect.runPromise(
+				runReleases({
+					tags: [makeTag("v1.0.0", "@test/pkg", "1.0.0")],
+					publishResult: { ...makePublishPackagesResult([failed]), success: false },
+					packageManager: "pnpm",
+					dryRun: false,
+				}).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>,
+			);
+
+			expect(result.success).toBe(false);
+			expect(result.errors[0]).toMatch(/v1\.0\.0 not released — 1 target\(s\) failed/);
+			expect(tagState.createCalls).toHaveLength(0);
+			expect(releaseState.createCalls).toHaveLength(0);
+		});
+	});
+
+	describe("release train", () => {
+		it("tags every package but creates one combined release", async () => {
+			const { state: tagState, layer: tagLayer } = GitTagTest.empty();
+			const { state: releaseState, layer: releaseLayer } = GitHubReleaseTest.empty();
+			const train = makeTag("release-2026-10-19", "@test/pkg-a, @test/pkg-b", "1.1.0");
+
+			const args: ReleasesInputArgs = {
+				tags: [
+					makeTag("@test/pkg-a@1.1.0", "@test/pkg-a", "1.1.0"),
+					makeTag("@test/pkg-b@2.0.1", "@test/pkg-b", "2.0.1"),
+				],
+				publishResult: makePublishPackagesResult([
+					makePublishResult("@test/pkg-a", "1.1.0"),
+					makePublishResult("@test/pkg-b", "2.0.1"),
+				]),
+				packageManager: "pnpm",
+				dryRun: false,
+				train,
+			};
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				tagLayer,
+				releaseLayer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				makeGhClientLayer(),
+				GitHubArtifactMetadataTest.empty().layer,
+				workspaceDiscoveryLayer,
+			);
+
+			const result = await Effect.runPromise(
+				runReleases(args).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>,
+			);
+
+			expect(result.success).toBe(true);
+			expect(result.releases.map((r) => r.tag)).toEqual(["release-2026-10-19"]);
+			expect(tagState.createCalls.map((c) => c.tag)).toEqual([
+				"@test/pkg-a@1.1.0",
+				"@test/pkg-b@2.0.1",
+				"release-2026-10-19",
+			]);
+			expect(releaseState.createCalls.map((c) => c.tag)).toEqual(["release-2026-10-19"]);
+			const body = releaseState.releases.get("release-2026-10-19")?.body ?? "";
+			expect(body).toContain("| @test/pkg-b | 2.0.1 | `@test/pkg-b@2.0.1` |");
+			expect(body).toContain("## @test/pkg-a");
+			expect(body).toContain("## @test/pkg-b");
+		});
+
+		it("never releases a second train into an earlier train's release", async () => {
+			// A date-only template renders the morning train's name again; its
+			// tag already points at the morning's commit.
+			const { GitTag: GitTagSvc, GitTagError } = await import("@savvy-web/github-action-effects");
+			const savedSha = process.env.GITHUB_SHA;
+			process.env.GITHUB_SHA = "evening-sha";
+			const tags = new Map([["release-2026-10-19", "morning-sha"]]);
+			const tagLayer = Layer.succeed(GitTagSvc, {
+				create: (tag: string, sha: string) =>
+					tags.has(tag)
+						? Effect.fail(new GitTagError({ operation: "create", tag, reason: "Reference already exists" }))
+						: Effect.sync(() => {
+								tags.set(tag, sha);
+							}),
+				delete: (_tag: string) => Effect.void,
+				list: () => Effect.succeed([]),
+				resolve: (tag: string) => Effect.succeed(tags.get(tag) ?? ""),
+			});
+			const { state: releaseState, layer: releaseLayer } = GitHubReleaseTest.empty();
+
+			const args: ReleasesInputArgs = {
+				tags: [makeTag("@test/pkg-a@1.2.0", "@test/pkg-a", "1.2.0")],
+				publishResult: makePublishPackagesResult([makePublishResult("@test/pkg-a", "1.2.0")]),
+				packageManager: "pnpm",
+				dryRun: false,
+				train: makeTag("release-2026-10-19", "@test/pkg-a", "1.2.0"),
+			};
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				tagLayer,
+				releaseLayer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				makeGhClientLayer(),
+				GitHubArtifactMetadataTest.empty().layer,
+				workspaceDiscoveryLayer,
+			);
+
+			let result: ReleasesReport;
+			try {
+				result = await Effect.runPromise(
+					runReleases(args).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>,
+				);
+			} finally {
+				if (savedSha === undefined) delete process.env.GITHUB_SHA;
+				else process.env.GITHUB_SHA = savedSha;
+			}
+
+			expect(result.success).toBe(false);
+			expect(result.errors).toEqual([
+				"runReleases: release-2026-10-19 not released — the tag already points at morning-sha, not evening-sha",
+			]);
+			expect(tags.get("@test/pkg-a@1.2.0")).toBe("evening-sha");
+			expect(releaseState.createCalls).toHaveLength(0);
+			expect(releaseState.uploadCalls).toHaveLength(0);
+		});
+	});
+
+	describe("latest release", () => {
+		/** Release `tag` next to a published `v2.0.0`, recording how it is published. */
+		const runNextToV2 = async (tag: TagInfo) => {
+			const { GitHubClient } = await import("@savvy-web/github-action-effects");
+			const published: Array<Record<string, unknown>> = [];
+			// Records the parameters of each `repos.updateRelease`, then answers
+			// from the canned responses.
+			const recordingClient = Layer.effect(
+				GitHubClient,
+				Effect.map(GitHubClient, (inner) => ({
+					...inner,
+					rest: ((operation: string, fn: (octokit: unknown) => Promise<unknown>) => {
+						if (operation === "repos.updateRelease") {
+							void fn({
+								rest: {
+									repos: {
+										updateRelease: (params: Record<string, unknown>) => {
+											published.push(params);
+											return Promise.resolve({ data: {} });
+										},
+									},
+								},
+							});
+						}
+						return inner.rest(operation, fn as never);
+					}) as typeof inner.rest,
+				})),
+			).pipe(Layer.provide(makeGhClientLayer()));
+
+			const releaseLayer = GitHubReleaseTest.empty();
+			releaseLayer.state.releases.set("v2.0.0", {
+				id: 200,
+				tag: "v2.0.0",
+				name: "v2.0.0",
+				body: "",
+				draft: false,
+				prerelease: false,
+				uploadUrl: "",
+			});
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				GitTagTest.empty().layer,
+				releaseLayer.layer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				recordingClient,
+				GitHubArtifactMetadataTest.empty().layer,
+				workspaceDiscoveryLayer,
+			);
+			const result = await Effect.runPromise(
+				runReleases({
+					tags: [tag],
+					publishResult: makePublishPackagesResult([makePublishResult(tag.packageName, tag.version)]),
+					packageManager: "pnpm",
+					dryRun: false,
+				}).pipe(Effect.provide(layers as never)) as Effect.Effect<ReleasesReport>,
+			);
+			return { result, published, created: releaseLayer.state.releases.get(tag.name) };
+		};
+
+		it("publishes a backport's draft with make_latest false in one call", async () => {
+			const { result, published, created } = await runNextToV2(makeTag("v1.4.2", "@test/pkg", "1.4.2"));
+
+			expect(result.success).toBe(true);
+			// Created as a draft, which never holds the "Latest" badge.
+			expect(created?.draft).toBe(true);
+			expect(published).toEqual([
+				expect.objectContaining({ release_id: created?.id, draft: false, make_latest: "false" }),
+			]);
+		});
+
+		it("publishes the highest release in its line with make_latest true", async () => {
+			const { published } = await runNextToV2(makeTag("v2.1.0", "@test/pkg", "2.1.0"));
+
+			expect(published).toEqual([expect.objectContaining({ draft: false, make_latest: "true" })]);
+		});
+	});
+
+	describe("release notes template", () => {
+		const run = (template: string) =>
+			Effect.gen(function* () {
+				const { state: releaseState, layer: releaseLayer } = GitHubReleaseTest.empty();
+				const args: ReleasesInputArgs = {
+					tags: [makeTag("v1.2.0", "@test/pkg", "1.2.0")],
+					publishResult: makePublishPackagesResult([makePublishResult("@test/pkg", "1.2.0")]),
+					packageManager: "pnpm",
+					dryRun: false,
+					releaseNotes: {
+						template,
+						issues: [{ number: 12, title: "Crash on start" }],
+						contributors: [{ login: "octocat", name: "Mona", firstTime: true }],
+					},
+				};
+				const { state: tagState, layer: tagLayer } = GitTagTest.empty();
+				// v1.1.0 is the previous release; v1.3.0 is newer and `pkg@v1.1.5` is another line.
+				tagState.tags.set("v1.0.0", "sha-1-0");
+				tagState.tags.set("v1.1.0", "sha-1-1");
+				tagState.tags.set("v1.3.0", "sha-1-3");
+				tagState.tags.set("pkg@v1.1.5", "sha-other");
+				const layers = Layer.mergeAll(
+					loggerLayer,
+					tagLayer,
+					releaseLayer,
+					AttestTest.empty(),
+					oidcLayer,
+					sigstoreLayer,
+					makeGhClientLayer(),
+					GitHubArtifactMetadataTest.empty().layer,
+					workspaceDiscoveryLayer,
+				);
+				yield* runReleases(args).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>;
+				return releaseState.releases.get("v1.2.0")?.body ?? "";
+			});
+
+		it("renders the configured template", async () => {
+			const template = [
+				"# {{name}} {{version}}",
+				"{{#each packages}}Get it on {{registryLinks}}{{/each}}",
+				"{{#if issues}}Fixes:{{#each issues}} {{link}} {{title}}{{/each}}{{/if}}",
+				"Welcome {{#each newContributors}}{{mention}}{{/each}}",
+				"Since {{previousVersion}}: {{compareUrl}}",
+			].join("\n");
+
+			const body = await Effect.runPromise(run(template));
+
+			const [heading, registries, fixes, welcome, since] = body.split("\n");
+			expect(heading).toBe("# @test/pkg 1.2.0");
+			expect(registries).toMatch(
+				/^Get it on \[[^\]]+\]\(https:\/\/www\.npmjs\.com\/package\/@test\/pkg\/v\/1\.2\.0\)$/,
+			);
+			expect(fixes).toBe("Fixes: [#12](https://github.com/test-owner/test-repo/issues/12) Crash on start");
+			expect(welcome).toBe("Welcome @octocat");
+			expect(since).toBe("Since 1.1.0: https://github.com/test-owner/test-repo/compare/v1.1.0...v1.2.0");
+		});
+
+		it("falls back to the built-in notes when the template does not parse", async () => {
+			const body = await Effect.runPromise(run("{{#each packages}}{{name}}"));
+
+			expect(body).toContain(
+				"**Full changelog** (from 1.1.0): [v1.1.0...v1.2.0](https://github.com/test-owner/test-repo/compare/v1.1.0...v1.2.0)",
+			);
+			expect(body).toContain("### Contributors\n\n- @octocat — first contribution 🎉");
+			expect(body).toContain("### Publish Summary");
+		});
+	});
+
 	describe("dry-run mode", () => {
 		it("does not mutate tag/release state when dryRun: true", async () => {
 			// Arrange
@@ -616,6 +1102,132 @@ describe("runReleases", () => {
 		});
 	});
 
+	describe("extra release assets", () => {
+		let tmpDir: string;
+
+		beforeEach(() => {
+			tmpDir = mkdtempSync(join(tmpdir(), "releases-test-"));
+		});
+
+		afterEach(() => {
+			rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it("uploads files matching releaseAssets and a SHA256SUMS covering every asset", async () => {
+			const tarballPath = join(tmpDir, "pkg.tgz");
+			writeFileSync(tarballPath, Buffer.from("fake tarball"));
+			mkdirSync(join(tmpDir, "bin"));
+			writeFileSync(join(tmpDir, "bin", "cli-linux.zip"), Buffer.from("linux binary"));
+			writeFileSync(join(tmpDir, "bin", "notes.txt"), "not an asset");
+
+			const { state: releaseState, layer: releaseLayer } = GitHubReleaseTest.empty();
+			const discoveryLayer = Layer.succeed(WorkspaceDiscovery, {
+				listPackages: () => Effect.succeed([]),
+				getPackage: (name: string, _cwd?: string) =>
+					Effect.succeed(
+						new WorkspacePackage({
+							name,
+							version: "1.2.0",
+							path: tmpDir,
+							packageJsonPath: join(tmpDir, "package.json"),
+							relativePath: "",
+						}),
+					),
+				importerMap: (_cwd?: string) => Effect.succeed(new Map()),
+			});
+
+			const args: ReleasesInputArgs = {
+				tags: [makeTag("v1.2.0", "@test/cli", "1.2.0")],
+				publishResult: makePublishPackagesResult([makePublishResult("@test/cli", "1.2.0", tarballPath)]),
+				packageManager: "pnpm",
+				dryRun: false,
+				releaseAssets: [{ package: "@test/*", files: ["bin/*.zip"] }],
+			};
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				GitTagTest.empty().layer,
+				releaseLayer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				makeGhClientLayer(),
+				GitHubArtifactMetadataTest.empty().layer,
+				discoveryLayer,
+			);
+
+			const result = await Effect.runPromise(
+				runReleases(args).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>,
+			);
+
+			expect(result.success).toBe(true);
+			expect(releaseState.uploadCalls.map((c) => c.name)).toEqual(["pkg.tgz", "cli-linux.zip", "SHA256SUMS"]);
+			expect(result.releases[0]?.assets.map((a) => a.name)).toEqual(["pkg.tgz", "cli-linux.zip", "SHA256SUMS"]);
+		});
+
+		it("replaces an attached SHA256SUMS whose content changed", async () => {
+			const tarballPath = join(tmpDir, "pkg.tgz");
+			writeFileSync(tarballPath, Buffer.from("fake tarball"));
+			mkdirSync(join(tmpDir, "bin"));
+			writeFileSync(join(tmpDir, "bin", "cli-linux.zip"), Buffer.from("linux binary"));
+			writeFileSync(join(tmpDir, "cli-darwin.zip"), Buffer.from("darwin binary"));
+
+			const { state: releaseState, layer: releaseLayer } = GitHubReleaseTest.empty();
+			// A previous run attached the Linux binary and a SHA256SUMS listing
+			// only it; this run adds the top-level Darwin binary.
+			releaseState.assets.set(1, [
+				{ id: 7, name: "SHA256SUMS", url: "https://github.com/test-owner/test-repo/releases/assets/7", size: 80 },
+			]);
+			const discoveryLayer = Layer.succeed(WorkspaceDiscovery, {
+				listPackages: () => Effect.succeed([]),
+				getPackage: (name: string, _cwd?: string) =>
+					Effect.succeed(
+						new WorkspacePackage({
+							name,
+							version: "1.2.0",
+							path: tmpDir,
+							packageJsonPath: join(tmpDir, "package.json"),
+							relativePath: "",
+						}),
+					),
+				importerMap: (_cwd?: string) => Effect.succeed(new Map()),
+			});
+
+			const args: ReleasesInputArgs = {
+				tags: [makeTag("v1.2.0", "@test/cli", "1.2.0")],
+				publishResult: makePublishPackagesResult([makePublishResult("@test/cli", "1.2.0", tarballPath)]),
+				packageManager: "pnpm",
+				dryRun: false,
+				releaseAssets: [{ package: "@test/*", files: ["**/*.zip"] }],
+			};
+			const layers = Layer.mergeAll(
+				loggerLayer,
+				GitTagTest.empty().layer,
+				releaseLayer,
+				AttestTest.empty(),
+				oidcLayer,
+				sigstoreLayer,
+				makeGhClientLayer([
+					["repos.getReleaseAsset", "stale checksums\n"],
+					["repos.deleteReleaseAsset", {}],
+				]),
+				GitHubArtifactMetadataTest.empty().layer,
+				discoveryLayer,
+			);
+
+			const result = await Effect.runPromise(
+				runReleases(args).pipe(Effect.provide(layers)) as Effect.Effect<ReleasesReport>,
+			);
+
+			expect(result.success).toBe(true);
+			expect(releaseState.uploadCalls.map((c) => c.name)).toEqual([
+				"pkg.tgz",
+				"cli-linux.zip",
+				"cli-darwin.zip",
+				"SHA256SUMS",
+			]);
+		});
+	});
+
 	describe("GitHub Packages storage record", () => {
 		let tmpDir: string;
 
@@ -775,3 +1387,27 @@ describe("runReleases", () => {
 		});
 	});
 });
+
+describe("isHighestInLine", () => {
+	const release = (tag: string, prerelease = false) => ({ tag, draft: false, prerelease });
+
+	it("is false for a backport below an existing release in the same line", async () => {
+		const existing = [release("v2.0.0"), release("v1.4.1")];
+		const result = await Effect.runPromise(isHighestInLine(makeTag("v1.4.2", "pkg", "1.4.2"), existing));
+		expect(result).toBe(false);
+	});
+
+	it("is true for the highest stable version in its line", async () => {
+		const existing = [release("v2.0.0"), release("v3.0.0-beta.1", true), release("@scope/other@9.0.0")];
+		const result = await Effect.runPromise(isHighestInLine(makeTag("v2.1.0", "pkg", "2.1.0"), existing));
+		expect(result).toBe(true);
+	});
+
+	it("compares per-package tags only within the package's line", async () => {
+		const existing = [release("@scope/a@3.0.0"), release("@scope/b@1.0.0")];
+		const a = await Effect.runPromise(isHighestInLine(makeTag("@scope/a@2.5.1", "@scope/a", "2.5.1"), existing));
+		const b = await Effect.runPromise(isHighestInLine(makeTag("@scope/b@1.1.0", "@scope/b", "1.1.0"), existing));
+		expect(a).toBe(false);
+		expect(b).toBe(true);
+	});
+});
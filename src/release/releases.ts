@@ -33,17 +33,44 @@ import {
 	GitHubClient,
 	GitHubRelease,
 	GitTag,
+	SemverResolver,
 	Step,
 	getRegistryDisplayName,
 	isGitHubPackagesRegistry,
 } from "@savvy-web/github-action-effects";
-import { Effect } from "effect";
+import { Effect, Either } from "effect";
 
 import { WorkspaceDiscovery } from "workspaces-effect";
+import type { ReleaseAssets } from "../schema/silk-release-config.js";
+import type { Contributor } from "../utils/contributors.js";
+import { contributorMention, formatContributors } from "../utils/contributors.js";
+import { isPrereleaseVersion } from "../utils/detect-pre-mode.js";
+import { getPreviousTag } from "../utils/link-issues-from-commits.js";
+import type { TemplateContext } from "../utils/render-template.js";
+import { renderTemplate } from "../utils/render-template.js";
+import { floatingTagNames, lineVersion } from "../utils/tag-template.js";
+import { compareUrl } from "../utils/version-changes.js";
 import { buildProvenancePredicate } from "./attest-helpers.js";
 import { ReleasesError } from "./errors.js";
+import type { PublishManifest } from "./manifest.js";
+import { completedRelease } from "./manifest.js";
+import {
+	SHA256SUMS_ASSET,
+	findReleaseAssets,
+	formatSha256Sums,
+	resolveAssetPatterns,
+	sha256File,
+	sha256Hex,
+} from "./release-assets.js";
 import { getPackagePageUrl } from "./report.js";
-import type { AssetInfo, PackagePublishResult, PublishPackagesResult, ReleaseInfo, TagInfo } from "./types.js";
+import type {
+	AssetInfo,
+	FloatingTagInfo,
+	PackagePublishResult,
+	PublishPackagesResult,
+	ReleaseInfo,
+	TagInfo,
+} from "./types.js";
 
 // ─── Public interfaces ────────────────────────────────────────────────────────
 
@@ -61,8 +88,85 @@ export interface ReleasesInputArgs {
 	readonly packageManager: string;
 	/** When true skip all real mutations and return a synthetic report. */
 	readonly dryRun: boolean;
+	/**
+	 * Active Changesets pre tag, or `null`/absent outside pre mode. While set,
+	 * floating tags are not moved and no release is marked latest. Whether a
+	 * release is a GitHub prerelease follows its version alone, like the
+	 * dist-tag it is published under.
+	 */
+	readonly preTag?: string | null | undefined;
+	/**
+	 * Manifest of a previous attempt at this release (`resume` input). Tags
+	 * whose release it records as created are not processed again.
+	 */
+	readonly resumeFrom?: PublishManifest | null | undefined;
+	/**
+	 * When true, create or force-move the floating major and major.minor tags
+	 * of every stable exact-version tag once that tag is in place
+	 * (`floating-tags` input).
+	 */
+	readonly floatingTags?: boolean | undefined;
+	/**
+	 * Draft releases created by {@link createDraftReleases} before publishing,
+	 * keyed by tag name. A tag with a draft finalizes that draft instead of
+	 * creating a release: it is published once every target of its packages
+	 * succeeded, and otherwise left as a draft listing the failed targets.
+	 */
+	readonly drafts?: DraftReleases | undefined;
+	/**
+	 * Release train tag (`release-train` input). When set, the per-package
+	 * `tags` are created as git tags only, and this one tag gets a single
+	 * GitHub release covering every package.
+	 */
+	readonly train?: TagInfo | null | undefined;
+	/**
+	 * Which stable releases become the repository's latest release
+	 * (`make-latest` input). Defaults to `"auto"`: see {@link isHighestInLine}.
+	 */
+	readonly makeLatest?: MakeLatest | undefined;
+	/**
+	 * The `releaseAssets` section of the Silk release config: extra files
+	 * attached to each package's release, with a `SHA256SUMS` asset.
+	 */
+	readonly releaseAssets?: ReadonlyArray<ReleaseAssets> | undefined;
+	/**
+	 * The `releaseNotes.template` from the Silk release config, and the linked
+	 * issues and contributors the notes list. Without a template, releases use
+	 * the built-in notes layout.
+	 */
+	readonly releaseNotes?: ReleaseNotesOptions | undefined;
 }
 
+/**
+ * How release notes are rendered.
+ *
+ * @public
+ */
+export interface ReleaseNotesOptions {
+	/** Source of the release-notes template, or `null` for the built-in layout. */
+	readonly template: string | null;
+	/** Issues closed by the merged release PR. */
+	readonly issues: ReadonlyArray<{ readonly number: number; readonly title: string }>;
+	/** Authors of the commits since the previous release. */
+	readonly contributors: ReadonlyArray<Contributor>;
+}
+
+/**
+ * How `runReleases` sets a release's "Latest" badge: `"auto"` marks it only
+ * when it is the highest version in its tag line, `"true"` always, and
+ * `"false"` never.
+ *
+ * @public
+ */
+export type MakeLatest = "auto" | "true" | "false";
+
+/**
+ * Draft release IDs keyed by tag name.
+ *
+ * @public
+ */
+export type DraftReleases = ReadonlyMap<string, number>;
+
 /**
  * Aggregated result from {@link runReleases}.
  *
@@ -75,6 +179,8 @@ export interface ReleasesReport {
 	readonly releases: ReadonlyArray<ReleaseInfo>;
 	/** Human-readable error strings accumulated over the batch. */
 	readonly errors: ReadonlyArray<string>;
+	/** Floating tags created or moved onto release commits. */
+	readonly floatingTags: ReadonlyArray<FloatingTagInfo>;
 }
 
 // ─── Internal helpers ─────────────────────────────────────────────────────────
@@ -167,13 +273,41 @@ function findApiDocFile(directory: string | undefined, packageName: string): str
  * Uses `WorkspaceDiscovery.getPackage` to resolve each package's filesystem
  * path so CHANGELOG.md can be located.  Falls back to `process.cwd()` if
  * discovery fails (e.g. a deleted monorepo member).
+ *
+ * With `packageTags` (a release train), the notes open with a compact
+ * package / version / tag table. Each changelog section ends with a "Full
+ * changelog" compare link from the package's previous release tag (see
+ * `getPreviousTag`), and the sections are followed by a Contributors list
+ * when `notesOptions` has contributors.
+ *
+ * With a `notesOptions.template`, the notes are that template rendered with
+ * {@link releaseNotesContext}. A template that does not parse is logged and
+ * the built-in layout is used instead.
  */
-const buildReleaseNotes = (packages: PackagePublishResult[]): Effect.Effect<string, never, WorkspaceDiscovery> =>
+const buildReleaseNotes = (
+	tag: TagInfo,
+	packages: PackagePublishResult[],
+	packageTags: ReadonlyMap<string, string> | null,
+	notesOptions: ReleaseNotesOptions,
+	repoUrl: string,
+): Effect.Effect<string, never, GitTag | WorkspaceDiscovery> =>
 	Effect.gen(function* () {
 		const discovery = yield* WorkspaceDiscovery;
 		let notes = "";
 
+		if (packageTags !== null) {
+			notes += "| Package | Version | Tag |\n";
+			notes += "|---------|---------|-----|\n";
+			for (const pkg of packages) {
+				notes += `| ${pkg.name} | ${pkg.version} | \`${packageTags.get(pkg.name) ?? "—"}\` |\n`;
+			}
+			notes += "\n";
+		}
+
 		// Changelog sections
+		const changelogs = new Map<string, string>();
+		const previousTags = new Map<string, { readonly tag: string; readonly version: string } | null>();
+		let sections = "";
 		for (const pkg of packages) {
 			const wsPkg = yield* discovery.getPackage(pkg.name).pipe(Effect.option);
 			const pkgPath = wsPkg._tag === "Some" ? wsPkg.value.path : undefined;
@@ -187,9 +321,26 @@ const buildReleaseNotes = (packages: PackagePublishResult[]): Effect.Effect<stri
 				if (changelog) break;
 			}
 
-			if (packages.length > 1) notes += `## ${pkg.name}\n\n`;
-			notes += changelog ?? `Released version ${pkg.version}`;
-			notes += "\n\n";
+			const pkgTag = packageTags?.get(pkg.name);
+			const previous =
+				pkgTag !== undefined
+					? yield* getPreviousTag(pkgTag, pkg.version)
+					: yield* getPreviousTag(tag.name, tag.version);
+			previousTags.set(pkg.name, previous);
+
+			changelogs.set(pkg.name, changelog ?? `Released version ${pkg.version}`);
+			if (packages.length > 1) sections += `## ${pkg.name}\n\n`;
+			sections += changelog ?? `Released version ${pkg.version}`;
+			sections += "\n\n";
+			if (previous !== null) {
+				const head = pkgTag ?? tag.name;
+				sections += `**Full changelog** (from ${previous.version}): [${previous.tag}...${head}](${compareUrl(repoUrl, previous.tag, head)})\n\n`;
+			}
+		}
+		notes += sections;
+
+		if (notesOptions.contributors.length > 0) {
+			notes += `### Contributors\n\n${formatContributors(notesOptions.contributors)}\n\n`;
 		}
 
 		// Publish summary table
@@ -208,31 +359,139 @@ const buildReleaseNotes = (packages: PackagePublishResult[]): Effect.Effect<stri
 			}
 		}
 
+		let summary = "";
 		if (publishedTargets.length === 0) {
-			notes += "> This is a version-only release. No packages were published to a registry.\n\n";
+			summary += "> This is a version-only release. No packages were published to a registry.\n\n";
+		} else {
+			summary += "---\n\n";
+			summary += "### Publish Summary\n\n";
+			summary += "| Registry | Package | SBOM | API | Provenance |\n";
+			summary += "|----------|---------|------|-----|------------|\n";
+
+			for (const { pkg, target, registryName, packageUrl } of publishedTargets) {
+				const packageCell = packageUrl ? `[${pkg.name}@${pkg.version}](${packageUrl})` : `${pkg.name}@${pkg.version}`;
+				const sbomCell = target.sbomPath ? "📦" : "—";
+				const apiDocExists = findApiDocFile(target.target.directory, pkg.name) !== undefined;
+				const apiCell = apiDocExists ? "📄" : "—";
+				const provenanceCell = provenanceLinks(pkg, target).join(", ") || "—";
+				summary += `| ${registryName} | ${packageCell} | ${sbomCell} | ${apiCell} | ${provenanceCell} |\n`;
+			}
+		}
+		notes += summary;
+
+		if (notesOptions.template === null) return notes;
+		const rendered = renderTemplate(
+			notesOptions.template,
+			releaseNotesContext(tag, packages, packageTags, notesOptions, repoUrl, {
+				changelogs,
+				previousTags,
+				sections: sections.trim(),
+				summary,
+			}),
+		);
+		if (Either.isLeft(rendered)) {
+			yield* Effect.logWarning(`Release notes template did not render (${rendered.left}); using the built-in notes`);
 			return notes;
 		}
+		return rendered.right;
+	});
 
-		notes += "---\n\n";
-		notes += "### Publish Summary\n\n";
-		notes += "| Registry | Package | SBOM | API | Provenance |\n";
-		notes += "|----------|---------|------|-----|------------|\n";
-
-		for (const { pkg, target, registryName, packageUrl } of publishedTargets) {
-			const packageCell = packageUrl ? `[${pkg.name}@${pkg.version}](${packageUrl})` : `${pkg.name}@${pkg.version}`;
-			const sbomCell = target.sbomPath ? "📦" : "—";
-			const apiDocExists = findApiDocFile(target.target.directory, pkg.name) !== undefined;
-			const apiCell = apiDocExists ? "📄" : "—";
-			const provenanceParts: string[] = [];
-			if (target.attestationUrl) provenanceParts.push(`[Sigstore](${target.attestationUrl})`);
-			if (pkg.githubAttestationUrl) provenanceParts.push(`[GitHub](${pkg.githubAttestationUrl})`);
-			if (target.sbomAttestationUrl) provenanceParts.push(`[SBOM](${target.sbomAttestationUrl})`);
-			const provenanceCell = provenanceParts.length > 0 ? provenanceParts.join(", ") : "—";
-			notes += `| ${registryName} | ${packageCell} | ${sbomCell} | ${apiCell} | ${provenanceCell} |\n`;
-		}
+/** Provenance links for one published target: its Sigstore, GitHub, and SBOM attestations. */
+const provenanceLinks = (pkg: PackagePublishResult, target: PackagePublishResult["targets"][number]): string[] => {
+	const links: string[] = [];
+	if (target.attestationUrl) links.push(`[Sigstore](${target.attestationUrl})`);
+	if (pkg.githubAttestationUrl) links.push(`[GitHub](${pkg.githubAttestationUrl})`);
+	if (target.sbomAttestationUrl) links.push(`[SBOM](${target.sbomAttestationUrl})`);
+	return links;
+};
 
-		return notes;
-	});
+/**
+ * The variables a release-notes template is rendered with.
+ *
+ * @remarks
+ * - `tag`, `name`, `version` — the release's tag name, package name (the
+ *   comma-separated names for a shared tag), and version;
+ *   `previousTag`, `previousVersion`, `compareUrl` — the release tag before
+ *   it and the GitHub compare URL between the two, all `null` for a first
+ *   release or a release train.
+ * - `changelog` — every package's changelog section, headed by its name when
+ *   there are several; `summary` — the built-in Publish Summary table.
+ * - `packages` — per package: `name`, `version`, `tag`, `changelog`,
+ *   `previousTag`, `previousVersion`, `compareUrl`, and the markdown link
+ *   lists `registryLinks` and `provenanceLinks`.
+ * - `issues` — per linked issue: `number`, `title`, `url`, and `link`
+ *   (`[#12](…)`).
+ * - `contributors` — per contributor: `login`, `name`, `mention` (`@login`,
+ *   or the name without a GitHub account), and `firstTime`;
+ *   `newContributors` — the first-time ones.
+ *
+ * The Publish Summary's SBOM and API cells are replaced with asset links
+ * once the assets are uploaded, so `summary` gets them too.
+ */
+const releaseNotesContext = (
+	tag: TagInfo,
+	packages: PackagePublishResult[],
+	packageTags: ReadonlyMap<string, string> | null,
+	notesOptions: ReleaseNotesOptions,
+	repoUrl: string,
+	built: {
+		readonly changelogs: ReadonlyMap<string, string>;
+		readonly previousTags: ReadonlyMap<string, { readonly tag: string; readonly version: string } | null>;
+		readonly sections: string;
+		readonly summary: string;
+	},
+): TemplateContext => ({
+	tag: tag.name,
+	name: tag.packageName,
+	version: tag.version,
+	...previousContext(packageTags === null ? built.previousTags.get(packages[0]?.name ?? "") : null, tag.name, repoUrl),
+	changelog: built.sections,
+	summary: built.summary.trim(),
+	packages: packages.map((pkg) => {
+		const published = pkg.targets.filter((t) => t.success);
+		const registryLinks: string[] = [];
+		for (const target of published) {
+			const url = getPackagePageUrl(target.target.registry ?? null, pkg.name, pkg.version);
+			const link = url ? `[${getRegistryDisplayName(target.target.registry ?? undefined)}](${url})` : undefined;
+			if (link !== undefined && !registryLinks.includes(link)) registryLinks.push(link);
+		}
+		const pkgTag = packageTags?.get(pkg.name) ?? tag.name;
+		return {
+			name: pkg.name,
+			version: pkg.version,
+			tag: pkgTag,
+			...previousContext(built.previousTags.get(pkg.name), pkgTag, repoUrl),
+			changelog: built.changelogs.get(pkg.name) ?? "",
+			registryLinks,
+			provenanceLinks: [...new Set(published.flatMap((target) => provenanceLinks(pkg, target)))],
+		};
+	}),
+	issues: notesOptions.issues.map((issue) => ({
+		number: issue.number,
+		title: issue.title,
+		url: `${repoUrl}/issues/${issue.number}`,
+		link: `[#${issue.number}](${repoUrl}/issues/${issue.number})`,
+	})),
+	contributors: notesOptions.contributors.map(contributorContext),
+	newContributors: notesOptions.contributors.filter((c) => c.firstTime).map(contributorContext),
+});
+
+const previousContext = (
+	previous: { readonly tag: string; readonly version: string } | null | undefined,
+	head: string,
+	repoUrl: string,
+): TemplateContext => ({
+	previousTag: previous?.tag ?? null,
+	previousVersion: previous?.version ?? null,
+	compareUrl: previous ? compareUrl(repoUrl, previous.tag, head) : null,
+});
+
+const contributorContext = (contributor: Contributor): TemplateContext => ({
+	login: contributor.login,
+	name: contributor.name,
+	mention: contributorMention(contributor),
+	firstTime: contributor.firstTime,
+});
 
 /**
  * Create the artifact-metadata storage record that links an attestation to a
@@ -285,12 +544,16 @@ const createStorageRecord = (
  * Ports `createReleaseAssetAttestation` from `create-attestation.ts`.
  * Uses the real OIDC token path (no empty predicate).  Non-fatal — on failure
  * returns `undefined` so the batch can continue.
+ *
+ * The subject is the package's purl unless `subjectName` names the file —
+ * as it does for `releaseAssets` files, which are not the package itself.
  */
 const attestAsset = (
 	artifactPath: string,
 	packageName: string,
 	version: string,
 	tarballDigest: string,
+	subjectName?: string,
 ): Effect.Effect<string | undefined, never, Attest | OidcTokenIssuer | GitHubClient | SigstoreSigner> =>
 	Effect.gen(function* () {
 		const attest = yield* Attest;
@@ -303,7 +566,7 @@ const attestAsset = (
 			return undefined;
 		}
 
-		const purlName = `pkg:npm/${packageName}@${version}`;
+		const purlName = subjectName ?? `pkg:npm/${packageName}@${version}`;
 		const sha256 = tarballDigest.replace(/^sha256:/i, "");
 
 		const record = yield* attest
@@ -325,70 +588,390 @@ const attestAsset = (
 		return record.attestationUrl;
 	});
 
-// ─── Per-tag processing ────────────────────────────────────────────────────────
+/**
+ * The floating tags of `tag` that may follow it: `vN` only while `tag` is the
+ * highest stable version of major `N` among the repository's tags, and `vN.M`
+ * only while it is the highest of `N.M`. A patch to an older line therefore
+ * leaves the newer line's floating tags alone.
+ *
+ * @remarks
+ * Lines are compared like {@link isHighestInLine}, over `GitTag.list()`. When
+ * the tags cannot be listed nothing moves, since the order is unknown.
+ */
+const floatingTagsToMove = (tag: TagInfo): Effect.Effect<ReadonlyArray<string>, never, GitTag> =>
+	Effect.gen(function* () {
+		const names = floatingTagNames(tag.name, tag.version);
+		if (names.length === 0) return names;
+
+		const listed = yield* Effect.either((yield* GitTag).list());
+		if (listed._tag === "Left") {
+			yield* Effect.logWarning(
+				`runReleases: cannot list tags to order ${tag.name} (${listed.left.reason}) — leaving its floating tags in place`,
+			);
+			return [];
+		}
+
+		const [major, minor] = tag.version.split(".");
+		const linePrefixes = [`${major}.`, `${major}.${minor}.`];
+		const superseded = [false, false];
+		for (const entry of listed.right) {
+			if (entry.tag === tag.name) continue;
+			const version = lineVersion(entry.tag, tag.name, tag.version);
+			if (version === null || isPrereleaseVersion(version)) continue;
+			const cmp = yield* Effect.either(SemverResolver.compare(version, tag.version));
+			if (cmp._tag !== "Right" || cmp.right !== 1) continue;
+			linePrefixes.forEach((prefix, i) => {
+				if (version.startsWith(prefix)) superseded[i] = true;
+			});
+		}
+
+		const toMove: string[] = [];
+		for (const [i, name] of names.entries()) {
+			if (superseded[i]) {
+				yield* Effect.logInfo(`Floating tag ${name} stays put — a higher version of its line is already tagged`);
+			} else {
+				toMove.push(name);
+			}
+		}
+		return toMove;
+	});
 
 /**
- * Process a single tag: create the git tag, create the GitHub release, upload
- * assets, attest each asset, and write the storage record for GitHub Packages.
+ * Force-update the existing tag ref `name` to `sha` in one call, so the tag
+ * is never missing between a delete and a re-create.
+ */
+const forceUpdateTagRef = (name: string, sha: string): Effect.Effect<void, GitHubClientError, GitHubClient> =>
+	Effect.gen(function* () {
+		const client = yield* GitHubClient;
+		const { owner, repo } = yield* client.repo;
+		yield* client.rest<unknown>("git.updateRef", (octokit) =>
+			(
+				octokit as {
+					rest: {
+						git: {
+							updateRef: (params: {
+								owner: string;
+								repo: string;
+								ref: string;
+								sha: string;
+								force: boolean;
+							}) => Promise<{ data: unknown }>;
+						};
+					};
+				}
+			).rest.git.updateRef({ owner, repo, ref: `tags/${name}`, sha, force: true }),
+		);
+	});
+
+/**
+ * Whether the release asset `assetId` holds exactly `content`. An asset that
+ * cannot be downloaded counts as different, so the caller replaces it.
+ */
+const releaseAssetMatches = (
+	owner: string,
+	repo: string,
+	assetId: number,
+	content: Buffer,
+): Effect.Effect<boolean, never, GitHubClient> =>
+	Effect.gen(function* () {
+		const client = yield* GitHubClient;
+		const data = yield* client.rest<ArrayBuffer | string>("repos.getReleaseAsset", (octokit) =>
+			(
+				octokit as {
+					rest: {
+						repos: {
+							getReleaseAsset: (params: {
+								owner: string;
+								repo: string;
+								asset_id: number;
+								headers: { accept: string };
+							}) => Promise<{ data: ArrayBuffer | string }>;
+						};
+					};
+				}
+			).rest.repos.getReleaseAsset({ owner, repo, asset_id: assetId, headers: { accept: "application/octet-stream" } }),
+		);
+		return (typeof data === "string" ? Buffer.from(data, "utf8") : Buffer.from(data)).equals(content);
+	}).pipe(Effect.orElseSucceed(() => false));
+
+/**
+ * Delete the release asset `assetId`, logging a warning when it cannot be.
  *
- * Returns a tuple `[ReleaseInfo | null, string | null]` — the release info and
- * an error string (mutually exclusive).
+ * @returns Whether the asset is gone.
  */
-const processOneTag = (
-	tag: TagInfo,
-	associatedPackages: PackagePublishResult[],
+const deleteReleaseAsset = (
 	owner: string,
 	repo: string,
+	assetId: number,
+	fileName: string,
+): Effect.Effect<boolean, never, GitHubClient> =>
+	Effect.gen(function* () {
+		const client = yield* GitHubClient;
+		yield* client.rest<unknown>("repos.deleteReleaseAsset", (octokit) =>
+			(
+				octokit as {
+					rest: {
+						repos: {
+							deleteReleaseAsset: (params: {
+								owner: string;
+								repo: string;
+								asset_id: number;
+							}) => Promise<{ data: unknown }>;
+						};
+					};
+				}
+			).rest.repos.deleteReleaseAsset({ owner, repo, asset_id: assetId }),
+		);
+		return true;
+	}).pipe(
+		Effect.catchAll((e: GitHubClientError) =>
+			Effect.gen(function* () {
+				yield* Effect.logWarning(`runReleases: failed to delete stale asset ${fileName}: ${e.message}`);
+				return false;
+			}),
+		),
+	);
+
+/**
+ * Point the floating tags of `tag` at `headSha`, creating each one or
+ * force-moving it from an older release of the same line.
+ *
+ * Non-fatal — a floating tag that cannot be moved is logged as a warning and
+ * left out of the result, so the exact-version release still succeeds. Tags
+ * superseded by a higher version of their line are skipped (see
+ * {@link floatingTagsToMove}).
+ */
+const moveFloatingTags = (
+	tag: TagInfo,
 	headSha: string,
 	dryRun: boolean,
-): Effect.Effect<
-	readonly [ReleaseInfo | null, string | null],
-	never,
-	| GitTag
-	| GitHubRelease
-	| GitHubArtifactMetadata
-	| Attest
-	| OidcTokenIssuer
-	| GitHubClient
-	| SigstoreSigner
-	| WorkspaceDiscovery
-> =>
+): Effect.Effect<FloatingTagInfo[], never, GitHubClient | GitTag> =>
 	Effect.gen(function* () {
-		yield* Effect.logDebug(`runReleases: processing ${tag.name}`);
+		const gitTagSvc = yield* GitTag;
+		const moved: FloatingTagInfo[] = [];
 
-		if (associatedPackages.length === 0) {
-			yield* Effect.logWarning(`runReleases: no packages found for tag ${tag.name}`);
-			return [null, null] as const;
+		for (const name of yield* floatingTagsToMove(tag)) {
+			const existing = yield* gitTagSvc.resolve(name).pipe(Effect.option);
+			const previousSha = existing._tag === "Some" ? existing.value : null;
+
+			if (previousSha === headSha) {
+				yield* Effect.logDebug(`runReleases: floating tag ${name} already at ${headSha}`);
+				moved.push({ name, tag: tag.name, previousSha });
+				continue;
+			}
+			if (dryRun) {
+				yield* Effect.logInfo(`✅ [DRY RUN] would ${previousSha === null ? "create" : "move"} floating tag ${name}`);
+				moved.push({ name, tag: tag.name, previousSha });
+				continue;
+			}
+
+			const result = yield* Effect.either(
+				previousSha === null
+					? gitTagSvc.create(name, headSha).pipe(Effect.mapError((e) => e.reason))
+					: forceUpdateTagRef(name, headSha).pipe(Effect.mapError((e) => e.message)),
+			);
+			if (result._tag === "Left") {
+				yield* Effect.logWarning(`runReleases: failed to move floating tag ${name}: ${result.left}`);
+				continue;
+			}
+			yield* Effect.logInfo(
+				previousSha === null
+					? `Floating tag ${name} created at ${headSha}`
+					: `Floating tag ${name} moved ${previousSha} → ${headSha}`,
+			);
+			moved.push({ name, tag: tag.name, previousSha });
 		}
+		return moved;
+	});
 
-		// ── Dry-run shortcut ─────────────────────────────────────────────────────
-		if (dryRun) {
-			yield* Effect.logInfo(`✅ [DRY RUN] would create tag and release for ${tag.name}`);
-			return [
-				{
-					tag: tag.name,
-					url: `https://github.com/${owner}/${repo}/releases/tag/${tag.name}`,
-					id: 0,
-					assets: [],
-				} satisfies ReleaseInfo,
-				null,
-			] as const;
+/** Body of a draft release while its packages are being published. */
+const DRAFT_PENDING_BODY =
+	"Publishing in progress — this draft is published once every package in it has been published successfully.";
+
+/**
+ * Body of a draft left unpublished because some of its targets failed: a
+ * table of the failed targets above the regular release notes.
+ */
+function draftFailureBody(packages: PackagePublishResult[], notes: string): string {
+	let body = "> [!WARNING]\n";
+	body +=
+		"> Publishing did not complete, so this release was left as a draft. Fix the failures below and re-run with `resume: true`, or publish the draft by hand.\n\n";
+	if (packages.length === 0) {
+		return `${body}No package in this release reached publishing.\n`;
+	}
+	body += "| Package | Registry | Error |\n";
+	body += "|---------|----------|-------|\n";
+	for (const pkg of packages) {
+		for (const target of pkg.targets.filter((t) => !t.success)) {
+			const registryName = getRegistryDisplayName(target.target.registry ?? undefined);
+			const error = (target.error ?? "—").replace(/\|/g, "\\|").replace(/\n/g, " ");
+			body += `| ${pkg.name}@${pkg.version} | ${registryName} | ${error} |\n`;
+		}
+	}
+	return `${body}\n---\n\n${notes}`;
+}
+
+/**
+ * Publish a draft release, deciding in the same call whether it becomes the
+ * repository's latest. `GitHubRelease.updateRelease` can set neither the
+ * draft flag nor `make_latest`, so this goes through the REST client directly.
+ */
+const publishDraft = (
+	owner: string,
+	repo: string,
+	releaseId: number,
+	body: string,
+	latest: boolean,
+): Effect.Effect<void, GitHubClientError, GitHubClient> =>
+	Effect.gen(function* () {
+		const client = yield* GitHubClient;
+		yield* client.rest<unknown>("repos.updateRelease", (octokit) =>
+			(
+				octokit as {
+					rest: {
+						repos: {
+							updateRelease: (params: {
+								owner: string;
+								repo: string;
+								release_id: number;
+								body: string;
+								draft: boolean;
+								make_latest: "true" | "false";
+							}) => Promise<{ data: unknown }>;
+						};
+					};
+				}
+			).rest.repos.updateRelease({
+				owner,
+				repo,
+				release_id: releaseId,
+				body,
+				draft: false,
+				make_latest: latest ? "true" : "false",
+			}),
+		);
+	});
+
+/**
+ * Whether `tag` is the highest version in its tag line.
+ *
+ * @remarks
+ * A tag line is every tag with the same text around the version — `v1.4.2`
+ * and `v2.0.0`, or `@scope/pkg@1.4.2` and `@scope/pkg@2.0.0` (see
+ * `lineVersion`). Drafts and prereleases are not compared, and a tag whose
+ * name does not contain its version (a release train) is always the highest.
+ * A version that fails to parse is ignored.
+ *
+ * @param releases - The repository's existing releases.
+ *
+ * @public
+ */
+export const isHighestInLine = (
+	tag: TagInfo,
+	releases: ReadonlyArray<{ readonly tag: string; readonly draft: boolean; readonly prerelease: boolean }>,
+): Effect.Effect<boolean> =>
+	Effect.gen(function* () {
+		for (const release of releases) {
+			if (release.draft || release.prerelease || release.tag === tag.name) continue;
+			const version = lineVersion(release.tag, tag.name, tag.version);
+			if (version === null) continue;
+			const cmp = yield* Effect.either(SemverResolver.compare(version, tag.version));
+			if (cmp._tag === "Right" && cmp.right === 1) return false;
 		}
+		return true;
+	});
 
-		// ── Step 1: Create git tag ────────────────────────────────────────────────
+/**
+ * Create a draft GitHub release for every tag before publishing starts.
+ *
+ * @remarks
+ * A draft left behind by an earlier attempt at the same tag is reused rather
+ * than duplicated. A tag whose draft cannot be created is left out of the
+ * result and gets a regular release from {@link runReleases} instead. In a
+ * dry-run nothing is created and the result is empty.
+ *
+ * @public
+ */
+export const createDraftReleases = (
+	tags: ReadonlyArray<TagInfo>,
+	dryRun: boolean,
+): Effect.Effect<DraftReleases, never, GitHubRelease> =>
+	Step.withStep(
+		"Create draft releases",
+		Effect.gen(function* () {
+			const drafts = new Map<string, number>();
+			if (dryRun) {
+				yield* Effect.logInfo(`✅ [DRY RUN] would create ${tags.length} draft release(s)`);
+				yield* Step.success(`${tags.length} draft release(s) (dry run)`);
+				return drafts;
+			}
+
+			const releaseSvc = yield* GitHubRelease;
+			const existing = yield* releaseSvc.list().pipe(Effect.orElseSucceed(() => []));
+
+			for (const tag of tags) {
+				const previous = existing.find((r) => r.draft && r.tag === tag.name);
+				if (previous !== undefined) {
+					yield* Effect.logDebug(`runReleases: reusing draft release ${previous.id} for ${tag.name}`);
+					drafts.set(tag.name, previous.id);
+					continue;
+				}
+				const created = yield* Effect.either(
+					releaseSvc.create({
+						tag: tag.name,
+						name: tag.name,
+						body: DRAFT_PENDING_BODY,
+						draft: true,
+						prerelease: isPrereleaseVersion(tag.version),
+					}),
+				);
+				if (created._tag === "Left") {
+					yield* Effect.logWarning(
+						`runReleases: failed to create draft release for ${tag.name}: ${created.left.reason}`,
+					);
+					continue;
+				}
+				drafts.set(tag.name, created.right.id);
+			}
+
+			yield* Step.success(`${drafts.size}/${tags.length} draft release(s) ready`);
+			return drafts;
+		}),
+	);
+
+/**
+ * Create the git tag for `tag` at `headSha`, then move its floating tags when
+ * `floating` is non-null.
+ *
+ * An existing tag already at `headSha` counts as created (idempotent re-run).
+ * Floating tags only follow a tag confirmed at `headSha`, so a diverged tag
+ * never drags them along.
+ *
+ * @returns The commit an existing tag of the same name points at when it is
+ *   not `headSha`, else `null`.
+ */
+const createReleaseTag = (
+	tag: TagInfo,
+	headSha: string,
+	floating: FloatingTagInfo[] | null,
+): Effect.Effect<string | null, never, GitHubClient | GitTag> =>
+	Effect.gen(function* () {
 		const gitTagSvc = yield* GitTag;
+		let divergedAt: string | null = null;
 
-		yield* Step.withStep(
+		const tagAtHead = yield* Step.withStep(
 			`tag ${tag.name}`,
 			gitTagSvc.create(tag.name, headSha).pipe(
 				Effect.tap(() => Step.success(`created at ${headSha}`)),
+				Effect.as(true),
 				Effect.catchAll((createErr: GitTagError) =>
 					// Distinguish the idempotent "tag already exists at the right SHA"
 					// case from a true divergence. Resolve the existing tag's SHA and
 					// compare against the head we tried to point at: equal → info-level
 					// recovery (no GitHub Actions warning annotation), different →
 					// warning that names both SHAs so the divergence is forensically
-					// auditable, resolve-failure → preserve prior best-effort warning.
+					// auditable (the caller then refuses to release over it),
+					// resolve-failure → preserve prior best-effort warning.
 					gitTagSvc.resolve(tag.name).pipe(
 						Effect.flatMap((existingSha) =>
 							existingSha === headSha
@@ -397,12 +980,15 @@ const processOneTag = (
 											`runReleases: tag ${tag.name} already at ${headSha} — idempotent recovery, proceeding`,
 										);
 										yield* Step.success(`already at ${headSha} — idempotent recovery`);
+										return true;
 									})
 								: Effect.gen(function* () {
 										yield* Effect.logWarning(
-											`runReleases: tag ${tag.name} create failed (${createErr.reason}); existing tag points at ${existingSha} but head is ${headSha} — proceeding`,
+											`runReleases: tag ${tag.name} create failed (${createErr.reason}); existing tag points at ${existingSha} but head is ${headSha} — not releasing it`,
 										);
-										yield* Step.success(`diverged — existing ${existingSha} ≠ head ${headSha} (proceeding)`);
+										yield* Step.success(`diverged — existing ${existingSha} ≠ head ${headSha}`);
+										divergedAt = existingSha;
+										return false;
 									}),
 						),
 						Effect.catchAll((resolveErr: GitTagError) =>
@@ -411,6 +997,7 @@ const processOneTag = (
 									`runReleases: tag ${tag.name} create failed (${createErr.reason}) and resolve failed (${resolveErr.reason}) — proceeding`,
 								);
 								yield* Step.success(`create+resolve failed — proceeding`);
+								return false;
 							}),
 						),
 					),
@@ -418,28 +1005,170 @@ const processOneTag = (
 			),
 		);
 
+		if (floating !== null && tagAtHead) {
+			floating.push(...(yield* moveFloatingTags(tag, headSha, false)));
+		} else if (floating !== null) {
+			yield* Effect.logWarning(`runReleases: ${tag.name} is not at ${headSha} — leaving its floating tags in place`);
+		}
+		return divergedAt;
+	});
+
+// ─── Per-tag processing ────────────────────────────────────────────────────────
+
+/**
+ * Process a single tag: create the git tag, create the GitHub release, upload
+ * assets, attest each asset, and write the storage record for GitHub Packages.
+ *
+ * Returns a tuple `[ReleaseInfo | null, string | null]` — the release info and
+ * an error string (mutually exclusive).
+ *
+ * The release is marked `prerelease` when the version carries a prerelease
+ * component. A stable version released while Changesets pre mode is active
+ * (`preMode`) is published under its stable dist-tag, so it is not marked
+ * `prerelease` either; pre mode only keeps its floating tags in place.
+ *
+ * When `floating` is non-null, the floating tags moved for a stable version
+ * are appended to it — only once the exact-version tag is confirmed at
+ * `headSha`, so a diverged tag never drags its floating tags along.
+ *
+ * The release is created as a draft and published once its assets are
+ * attached, in the same call that sets `latest` as its `make_latest` — so a
+ * release never holds the "Latest" badge it should not, even briefly.
+ *
+ * With a `draftId`, the tag's draft release is finalized instead of a release
+ * being created. Assets of the targets that succeeded are attached either
+ * way; the git tag is created and the draft published only when every target
+ * succeeded, otherwise the draft is kept with a body listing the failures and
+ * the tag is reported as an error. Without a draft to keep — its creation
+ * failed — a tag with a failed target gets neither a git tag nor a release.
+ * A tag that already exists at another commit is reported as an error too:
+ * the release under it belongs to that commit and is left untouched.
+ *
+ * `packageTags` is passed for a release train, whose notes list each
+ * package's own tag.
+ *
+ * Files matching `assetRules` are attached and attested as well, followed by
+ * a `SHA256SUMS` asset with the checksum of every asset on the release.
+ *
+ * `notesOptions` carries the release-notes template and the data it is
+ * rendered with.
+ */
+const processOneTag = (
+	tag: TagInfo,
+	associatedPackages: PackagePublishResult[],
+	owner: string,
+	repo: string,
+	headSha: string,
+	dryRun: boolean,
+	preMode: boolean,
+	latest: boolean,
+	floating: FloatingTagInfo[] | null,
+	draftId: number | null,
+	packageTags: ReadonlyMap<string, string> | null,
+	assetRules: ReadonlyArray<ReleaseAssets>,
+	notesOptions: ReleaseNotesOptions,
+): Effect.Effect<
+	readonly [ReleaseInfo | null, string | null],
+	never,
+	| GitTag
+	| GitHubRelease
+	| GitHubArtifactMetadata
+	| Attest
+	| OidcTokenIssuer
+	| GitHubClient
+	| SigstoreSigner
+	| WorkspaceDiscovery
+> =>
+	Effect.gen(function* () {
+		yield* Effect.logDebug(`runReleases: processing ${tag.name}`);
+
+		if (associatedPackages.length === 0) {
+			yield* Effect.logWarning(`runReleases: no packages found for tag ${tag.name}`);
+			if (draftId !== null && !dryRun) {
+				const releaseSvc = yield* GitHubRelease;
+				yield* releaseSvc.updateRelease(draftId, { body: draftFailureBody([], "") });
+				return [null, `runReleases: ${tag.name} left as a draft — no packages were published`] as const;
+			}
+			return [null, null] as const;
+		}
+
+		// A draft is only published once every target of its packages succeeded.
+		const failedTargets = associatedPackages.flatMap((pkg) => pkg.targets.filter((t) => !t.success));
+		const leaveDraft = draftId !== null && failedTargets.length > 0;
+		if (failedTargets.length > 0 && draftId === null) {
+			return [
+				null,
+				`runReleases: ${tag.name} not released — ${failedTargets.length} target(s) failed to publish`,
+			] as const;
+		}
+
+		// Prereleases never move floating tags.
+		const floatingOut = !preMode && !isPrereleaseVersion(tag.version) ? floating : null;
+
+		// ── Dry-run shortcut ─────────────────────────────────────────────────────
+		if (dryRun) {
+			yield* Effect.logInfo(
+				`✅ [DRY RUN] would create tag and release for ${tag.name}${latest ? ", marked as the latest release" : ""}`,
+			);
+			if (floatingOut !== null) floatingOut.push(...(yield* moveFloatingTags(tag, headSha, true)));
+			return [
+				{
+					tag: tag.name,
+					url: `https://github.com/${owner}/${repo}/releases/tag/${tag.name}`,
+					id: 0,
+					assets: [],
+				} satisfies ReleaseInfo,
+				null,
+			] as const;
+		}
+
+		// ── Step 1: Create git tag (and move its floating tags) ───────────────────
+		// A draft left unpublished gets no tag, so no ref points at a half-published version.
+		// A tag already at another commit belongs to another release — its
+		// release is never reused for this one.
+		if (!leaveDraft) {
+			const divergedAt = yield* createReleaseTag(tag, headSha, floatingOut);
+			if (divergedAt !== null) {
+				return [
+					null,
+					`runReleases: ${tag.name} not released — the tag already points at ${divergedAt}, not ${headSha}`,
+				] as const;
+			}
+		}
+
 		// ── Step 2: Build release notes ───────────────────────────────────────────
-		const notes = yield* buildReleaseNotes(associatedPackages);
+		const notes = yield* buildReleaseNotes(
+			tag,
+			associatedPackages,
+			packageTags,
+			notesOptions,
+			`https://github.com/${owner}/${repo}`,
+		);
 
-		// ── Step 3: Create GitHub release ─────────────────────────────────────────
+		// ── Step 3: Create GitHub release (or reuse its draft) ────────────────────
+		// Created as a draft, which never takes the "Latest" badge; Step 5
+		// publishes it with its `make_latest` decided.
 		const releaseSvc = yield* GitHubRelease;
 
-		const releaseData = yield* releaseSvc
-			.create({
-				tag: tag.name,
-				name: tag.name,
-				body: notes.trim(),
-				draft: false,
-				prerelease: tag.version.includes("-"),
-			})
-			.pipe(
-				Effect.catchAll((createErr: GitHubReleaseError) =>
-					// On re-run the release may already exist — fall back to getByTag.
-					createErr.reason?.match(/already_exists|already exists/i)
-						? releaseSvc.getByTag(tag.name)
-						: Effect.fail(createErr),
-				),
-			);
+		const releaseData =
+			draftId !== null
+				? { id: draftId }
+				: yield* releaseSvc
+						.create({
+							tag: tag.name,
+							name: tag.name,
+							body: notes.trim(),
+							draft: true,
+							prerelease: isPrereleaseVersion(tag.version),
+						})
+						.pipe(
+							Effect.catchAll((createErr: GitHubReleaseError) =>
+								// On re-run the release may already exist — fall back to getByTag.
+								createErr.reason?.match(/already_exists|already exists/i)
+									? releaseSvc.getByTag(tag.name)
+									: Effect.fail(createErr),
+							),
+						);
 
 		yield* Effect.logDebug(`runReleases: release object ready — ${releaseData.id}`);
 
@@ -450,18 +1179,25 @@ const processOneTag = (
 		// upload and reuse the existing URL (ports `uploadAssetIdempotent` +
 		// the `existingAssetsByName` pre-fetch from `create-github-releases.ts`).
 		const existingAssetsByName = yield* releaseSvc.listReleaseAssets(releaseData.id).pipe(
-			Effect.map((assets) => new Map(assets.map((a) => [a.name, { url: a.url, size: a.size }] as const))),
+			Effect.map(
+				(assets) =>
+					new Map<string, { id?: number; url: string; size: number }>(
+						assets.map((a) => [a.name, { id: a.id, url: a.url, size: a.size }] as const),
+					),
+			),
 			Effect.catchAll((e) =>
 				Effect.gen(function* () {
 					yield* Effect.logWarning(
 						`runReleases: failed to list existing assets for ${tag.name}: ${e instanceof Error ? e.message : String(e)}`,
 					);
-					return new Map<string, { url: string; size: number }>();
+					return new Map<string, { id?: number; url: string; size: number }>();
 				}),
 			),
 		);
 
 		const assets: AssetInfo[] = [];
+		// Local path of every attached asset, for the SHA256SUMS asset.
+		const localAssetPaths = new Map<string, string>();
 		const releaseInfo: ReleaseInfo = {
 			tag: tag.name,
 			url: `https://github.com/${owner}/${repo}/releases/tag/${tag.name}`,
@@ -555,6 +1291,7 @@ const processOneTag = (
 					attestationUrl,
 					registry: targetResult.target.registry ?? undefined,
 				});
+				localAssetPaths.set(fileName, artifactPath);
 
 				// Storage record for GitHub Packages
 				if (isGitHubPackagesRegistry(targetResult.target.registry ?? undefined)) {
@@ -574,6 +1311,7 @@ const processOneTag = (
 					if (sbomExisting) {
 						yield* Effect.logDebug(`runReleases: SBOM ${sbomFileName} already attached — reusing`);
 						sbomAssetUrls.set(pkg.name, sbomExisting.url);
+						localAssetPaths.set(sbomFileName, targetResult.sbomPath);
 					} else {
 						const sbomContent = readFileSync(targetResult.sbomPath);
 						yield* Effect.logDebug(`runReleases: uploading SBOM ${sbomFileName}`);
@@ -598,6 +1336,7 @@ const processOneTag = (
 								downloadUrl: sbomAsset.url,
 								size: sbomAsset.size,
 							});
+							localAssetPaths.set(sbomFileName, targetResult.sbomPath);
 						}
 					}
 				}
@@ -613,6 +1352,7 @@ const processOneTag = (
 					if (apiExisting) {
 						yield* Effect.logDebug(`runReleases: API doc ${apiDocFileName} already attached — reusing`);
 						apiDocAssetUrls.set(pkg.name, apiExisting.url);
+						localAssetPaths.set(apiDocFileName, apiDocPath);
 					} else {
 						const apiDocContent = readFileSync(apiDocPath);
 						yield* Effect.logDebug(`runReleases: uploading API doc ${apiDocFileName}`);
@@ -637,6 +1377,7 @@ const processOneTag = (
 								downloadUrl: apiDocAsset.url,
 								size: apiDocAsset.size,
 							});
+							localAssetPaths.set(apiDocFileName, apiDocPath);
 						}
 					}
 				}
@@ -669,19 +1410,113 @@ const processOneTag = (
 			}
 		}
 
-		// ── Step 5: Refresh release body with real asset links ────────────────────
-		if (releaseInfo.assets.length > 0) {
-			yield* releaseSvc
-				.updateRelease(releaseData.id, { body: releaseNotes.trim() })
-				.pipe(
-					Effect.catchAll((e) =>
-						Effect.logWarning(
-							`runReleases: failed to update release body for ${tag.name}: ${e instanceof Error ? e.message : String(e)}`,
+		// ── Step 4b: Extra release assets and SHA256SUMS ─────────────────────────
+		if (assetRules.length > 0) {
+			const discovery = yield* WorkspaceDiscovery;
+
+			// Upload `content` as `fileName` unless a previous run already attached
+			// it. With `replaceChanged`, an attached copy whose content differs is
+			// deleted and uploaded again.
+			const attachFile = (fileName: string, content: Buffer, contentType: string, replaceChanged = false) =>
+				Effect.gen(function* () {
+					const existing = existingAssetsByName.get(fileName);
+					if (existing) {
+						if (
+							!replaceChanged ||
+							existing.id === undefined ||
+							(yield* releaseAssetMatches(owner, repo, existing.id, content))
+						) {
+							yield* Effect.logDebug(`runReleases: asset ${fileName} already attached — reusing`);
+							return existing;
+						}
+						if (!(yield* deleteReleaseAsset(owner, repo, existing.id, fileName))) return null;
+						yield* Effect.logInfo(`runReleases: ${fileName} changed since it was attached — replacing it`);
+					}
+					const asset = yield* releaseSvc.uploadAsset(releaseData.id, fileName, content, contentType).pipe(
+						Effect.catchAll((e: GitHubReleaseError) =>
+							Effect.gen(function* () {
+								yield* Effect.logWarning(`runReleases: upload failed for ${fileName}: ${e.reason}`);
+								return null;
+							}),
 						),
-					),
-				);
-			yield* Effect.logDebug(`runReleases: updated release body with asset links for ${tag.name}`);
+					);
+					if (asset === null) return null;
+					existingAssetsByName.set(fileName, { id: asset.id, url: asset.url, size: asset.size });
+					return { url: asset.url, size: asset.size };
+				});
+
+			let extraCount = 0;
+			for (const pkg of associatedPackages) {
+				if (!pkg.targets.some((t) => t.success)) continue;
+				const patterns = resolveAssetPatterns(assetRules, pkg.name);
+				if (patterns.length === 0) continue;
+
+				const wsPkg = yield* discovery.getPackage(pkg.name).pipe(Effect.option);
+				if (wsPkg._tag === "None") {
+					yield* Effect.logWarning(`runReleases: cannot locate ${pkg.name} — skipping its release assets`);
+					continue;
+				}
+				const files = findReleaseAssets(wsPkg.value.path, patterns);
+				if (files.length === 0) {
+					yield* Effect.logWarning(`runReleases: no release assets for ${pkg.name} match ${patterns.join(", ")}`);
+					continue;
+				}
+
+				for (const file of files) {
+					// Files of different packages in one release may share a name.
+					const fileName =
+						associatedPackages.length > 1 ? `${getUnscopedName(pkg.name)}-${basename(file)}` : basename(file);
+					const attached = yield* attachFile(fileName, readFileSync(file), "application/octet-stream");
+					if (attached === null) continue;
+					const attestationUrl = yield* attestAsset(
+						file,
+						pkg.name,
+						pkg.version,
+						`sha256:${sha256File(file)}`,
+						fileName,
+					);
+					assets.push({ name: fileName, downloadUrl: attached.url, size: attached.size, attestationUrl });
+					localAssetPaths.set(fileName, file);
+					extraCount++;
+				}
+			}
+
+			// Checksums of every asset on the release, not only the extra files.
+			if (extraCount > 0) {
+				const checksums = new Map([...localAssetPaths].map(([name, path]) => [name, sha256File(path)] as const));
+				const sums = Buffer.from(formatSha256Sums(checksums), "utf8");
+				// Unlike the files it lists, SHA256SUMS changes when a re-run adds
+				// an asset, so a stale copy is replaced.
+				const attached = yield* attachFile(SHA256SUMS_ASSET, sums, "text/plain", true);
+				if (attached !== null) {
+					const attestationUrl = yield* attestAsset(
+						SHA256SUMS_ASSET,
+						tag.packageName,
+						tag.version,
+						`sha256:${sha256Hex(sums)}`,
+						SHA256SUMS_ASSET,
+					);
+					assets.push({ name: SHA256SUMS_ASSET, downloadUrl: attached.url, size: attached.size, attestationUrl });
+				}
+				yield* Effect.logInfo(`Attached ${extraCount} release asset(s) and ${SHA256SUMS_ASSET} to ${tag.name}`);
+			}
+		}
+
+		// ── Step 5: Publish with real asset links and the latest decision ─────────
+		if (leaveDraft) {
+			yield* releaseSvc.updateRelease(releaseData.id, {
+				body: draftFailureBody(associatedPackages, releaseNotes.trim()),
+			});
+			yield* Step.success(`left as draft — ${failedTargets.length} target(s) failed`);
+			return [
+				null,
+				`runReleases: ${tag.name} left as a draft — ${failedTargets.length} target(s) failed to publish`,
+			] as const;
 		}
+		yield* publishDraft(owner, repo, releaseData.id, releaseNotes.trim(), latest);
+		yield* Effect.logDebug(
+			`runReleases: published release ${releaseData.id} for ${tag.name}${latest ? " as the latest release" : ""}`,
+		);
 
 		const releaseAssetCount = releaseInfo.assets.length;
 		yield* Step.success(
@@ -711,6 +1546,19 @@ const processOneTag = (
  * Per-tag failures are accumulated into the returned `errors` array — one
  * failure does not abort the rest of the batch.
  *
+ * With `floatingTags` set, each stable tag's floating major and major.minor
+ * tags (`v2`, `v2.3`) are created or force-moved after the tag itself, and
+ * reported in `floatingTags`. Prereleases and releases resumed from a
+ * manifest leave floating tags alone.
+ *
+ * With a `train` tag, every per-package tag whose package published is
+ * created as a git tag only, and the train tag gets the one GitHub release —
+ * each package's changelog section, assets, and a table of the package tags.
+ *
+ * A stable release is marked as the repository's latest only when it is the
+ * highest version in its tag line, so a backport to an older major leaves
+ * the "Latest" badge where it is; `makeLatest` overrides the decision.
+ *
  * The effect never fails (all errors are captured into `ReleasesReport`).
  * Providing the Effect is the caller's responsibility (use
  * `GitTagLive`, `GitHubReleaseLive`, `GitHubArtifactMetadataLive`,
@@ -743,6 +1591,7 @@ export const runReleases = (
 					success: true,
 					releases: [],
 					errors: [],
+					floatingTags: [],
 				} satisfies ReleasesReport;
 			}
 
@@ -760,8 +1609,50 @@ export const runReleases = (
 
 			const releases: ReleaseInfo[] = [];
 			const errors: string[] = [];
+			const floating: FloatingTagInfo[] | null = args.floatingTags === true ? [] : null;
+			const preMode = (args.preTag ?? null) !== null;
+
+			// A release train still tags every package that published — tooling
+			// keys on the per-package tags — but releases them all under one tag.
+			const train = args.train ?? null;
+			if (train !== null) {
+				yield* logger.group(
+					"Release train · package tags",
+					Effect.gen(function* () {
+						for (const tag of args.tags) {
+							const published = args.publishResult.packages.find((pkg) => pkg.name === tag.packageName);
+							if (published === undefined || published.targets.some((t) => !t.success)) {
+								yield* Effect.logWarning(`runReleases: ${tag.packageName} did not publish — not tagging ${tag.name}`);
+								continue;
+							}
+							const floatingOut = !preMode && !isPrereleaseVersion(tag.version) ? floating : null;
+							if (args.dryRun) {
+								yield* Effect.logInfo(`✅ [DRY RUN] would create tag ${tag.name}`);
+								if (floatingOut !== null) floatingOut.push(...(yield* moveFloatingTags(tag, headSha, true)));
+								continue;
+							}
+							yield* createReleaseTag(tag, headSha, floatingOut);
+						}
+					}),
+				);
+			}
+			const releaseTags = train !== null ? [train] : args.tags;
+			const packageTags = train !== null ? new Map(args.tags.map((t) => [t.packageName, t.name])) : null;
+
+			// Existing releases decide which new releases take the "Latest" badge.
+			const makeLatest = args.makeLatest ?? "auto";
+			const releaseSvc = yield* GitHubRelease;
+			const existingReleases =
+				makeLatest === "auto" ? yield* releaseSvc.list().pipe(Effect.orElseSucceed(() => [])) : [];
+
+			for (const tag of releaseTags) {
+				const resumed = completedRelease(args.resumeFrom ?? null, tag.name);
+				if (resumed !== null) {
+					yield* Effect.logInfo(`⏭ Release · ${tag.name} — created by a previous run`);
+					releases.push(resumed);
+					continue;
+				}
 
-			for (const tag of args.tags) {
 				// Find packages associated with this tag (mirrors the original logic)
 				const associatedPackages = args.publishResult.packages.filter((pkg) => {
 					if (tag.packageName.includes(", ")) {
@@ -770,9 +1661,31 @@ export const runReleases = (
 					return pkg.name === tag.packageName;
 				});
 
+				// Decided before the release goes public, which it does with it.
+				// Prereleases never take the "Latest" badge.
+				const latest =
+					!preMode &&
+					!isPrereleaseVersion(tag.version) &&
+					(makeLatest === "auto" ? yield* isHighestInLine(tag, existingReleases) : makeLatest === "true");
+
+				const draftId = args.drafts?.get(tag.name) ?? null;
 				const [releaseInfo, error] = yield* logger.group(
-					`Release · ${tag.packageName}@${tag.version}`,
-					processOneTag(tag, associatedPackages, owner, repo, headSha, args.dryRun),
+					train !== null ? `Release train · ${tag.name}` : `Release · ${tag.packageName}@${tag.version}`,
+					processOneTag(
+						tag,
+						associatedPackages,
+						owner,
+						repo,
+						headSha,
+						args.dryRun,
+						preMode,
+						latest,
+						train !== null ? null : floating,
+						draftId,
+						packageTags,
+						args.releaseAssets ?? [],
+						args.releaseNotes ?? { template: null, issues: [], contributors: [] },
+					),
 				);
 
 				if (error !== null) {
@@ -795,6 +1708,7 @@ export const runReleases = (
 				success: errors.length === 0,
 				releases,
 				errors,
+				floatingTags: floating ?? [],
 			} satisfies ReleasesReport;
 		}),
 	).pipe(
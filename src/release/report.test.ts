@@ -4,13 +4,18 @@ import type { ResolvedSBOMMetadata } from "../types/sbom-config.js";
 import {
 	buildChecksTable,
 	buildFindingsTable,
+	buildLicenseComplianceSummary,
 	buildPublishSummary,
 	buildPublishValidationSummary,
+	buildRegistryAuthSummary,
 	buildReleaseNotesPreviewSummary,
 	buildSbomPreviewSummary,
+	buildSnapshotComment,
 	buildValidationComment,
 	getPackagePageUrl,
+	snapshotInstallCommand,
 } from "./report.js";
+import type { PublishPackagesResult } from "./types.js";
 
 // ─── Type aliases for the build-centric ValidationOutput sub-structs ──────────
 
@@ -55,6 +60,7 @@ function build(overrides?: Partial<ValidationBuild>): ValidationBuild {
 		fileCount: 5,
 		sbom: { componentCount: 3, ntiaCompliant: true, missingNtiaFields: [] },
 		targets: [npmTarget()],
+		tarballDiff: null,
 		...overrides,
 	};
 }
@@ -210,6 +216,23 @@ describe("buildPublishSummary", () => {
 		expect(markdown).not.toContain("SBOM:");
 	});
 
+	it("renders the tarball diff against the previous version on the headline", () => {
+		const diffed = build({
+			tarballDiff: {
+				previousVersion: "5.0.12",
+				added: ["spring.js"],
+				removed: ["legacy.js", "old.d.ts"],
+				changed: [],
+				packedBytesDelta: null,
+				unpackedBytesDelta: null,
+				manifestChanges: [],
+			},
+		});
+		const markdown = buildPublishSummary(publishOf([pkg({ builds: [diffed] })]));
+		expect(markdown).toContain("Δ 5.0.12: +1 / −2 files");
+		expect(buildPublishSummary(publishOf([pkg()]))).not.toContain("Δ ");
+	});
+
 	it("renders '—' for a build whose sizes were not reported", () => {
 		const noSizes = build({ packedBytes: null, unpackedBytes: null, fileCount: null });
 		const markdown = buildPublishSummary(publishOf([pkg({ builds: [noSizes] })]));
@@ -962,3 +985,129 @@ describe("buildSbomPreviewSummary", () => {
 		);
 	});
 });
+
+describe("buildLicenseComplianceSummary", () => {
+	it("renders a verdict table per build the policy ran on", () => {
+		const md = buildLicenseComplianceSummary(
+			validationOf({ publish: publishOf([pkg()]) }),
+			new Map([
+				[
+					"@savvy-web/linked-1:dist/npm",
+					[
+						{
+							name: "gpl-lib",
+							version: "2.0.0",
+							license: "GPL-3.0-only",
+							status: "warning",
+							reason: "GPL-3.0-only is a copyleft license",
+						},
+						{ name: "effect", version: "3.0.0", license: "MIT", status: "pass", reason: null },
+					],
+				],
+			]),
+		);
+		expect(md).toContain("## License Compliance");
+		expect(md).toContain("**@savvy-web/linked-1** · `dist/npm`");
+		expect(md).toContain("⚠️ GPL-3.0-only is a copyleft license");
+		expect(md).toContain("✅ allowed");
+		// Worst verdicts come first, as `checkLicenses` sorted them.
+		expect(md.indexOf("gpl-lib")).toBeLessThan(md.indexOf("effect"));
+	});
+
+	it("renders nothing when no license policy ran", () => {
+		expect(buildLicenseComplianceSummary(validationOf({ publish: publishOf([pkg()]) }), new Map())).toBe("");
+	});
+});
+
+describe("buildRegistryAuthSummary", () => {
+	it("renders one row per resolved, missing, and unreachable registry", () => {
+		const md = buildRegistryAuthSummary({
+			success: false,
+			configuredRegistries: ["https://registry.npmjs.org/"],
+			missingTokens: [{ registry: "https://npm.pkg.github.com/", tokenEnv: "GITHUB_PACKAGES_TOKEN" }],
+			unreachableRegistries: [{ registry: "https://registry.example.com/", error: "ECONNREFUSED" }],
+		});
+		expect(md).toContain("## Registry auth");
+		expect(md).toContain("https://registry.npmjs.org/");
+		expect(md).toContain("`GITHUB_PACKAGES_TOKEN` is not set");
+		expect(md).toContain("unreachable: ECONNREFUSED");
+	});
+
+	it("renders nothing without a report or registries", () => {
+		expect(buildRegistryAuthSummary(null)).toBe("");
+		expect(
+			buildRegistryAuthSummary({
+				success: true,
+				configuredRegistries: [],
+				missingTokens: [],
+				unreachableRegistries: [],
+			}),
+		).toBe("");
+	});
+});
+
+describe("snapshotInstallCommand", () => {
+	it("uses npm install for npm and <pm> add otherwise", () => {
+		expect(snapshotInstallCommand("npm", "@org/a", "0.0.0-snapshot-1")).toBe("npm install @org/a@0.0.0-snapshot-1");
+		expect(snapshotInstallCommand("pnpm", "@org/a", "0.0.0-snapshot-1")).toBe("pnpm add @org/a@0.0.0-snapshot-1");
+		expect(snapshotInstallCommand("bun", "@org/a", "0.0.0-snapshot-1")).toBe("bun add @org/a@0.0.0-snapshot-1");
+	});
+});
+
+describe("buildSnapshotComment", () => {
+	const now = new Date("2026-01-01T00:00:00.000Z");
+	const target = {
+		target: {
+			protocol: "npm" as const,
+			registry: "https://registry.npmjs.org/",
+			directory: "/repo/dist/npm",
+			access: "public" as const,
+			provenance: true,
+			tag: "snapshot",
+			tokenEnv: null,
+		},
+		success: true,
+		status: "published" as const,
+	};
+	const result = (packages: PublishPackagesResult["packages"], success = true): PublishPackagesResult => ({
+		success,
+		packages,
+		totalPackages: packages.length,
+		successfulPackages: packages.length,
+		totalTargets: packages.length,
+		successfulTargets: packages.length,
+	});
+
+	it("lists each published package with an install command", () => {
+		const comment = buildSnapshotComment(
+			result([{ name: "@org/a", version: "0.0.0-snapshot-20260101", targets: [target] }]),
+			{ snapshotTag: "snapshot", packageManager: "pnpm", now },
+		);
+		expect(comment).toContain("## 📸 Snapshot Release ✅");
+		expect(comment).toContain("`pnpm add @org/a@0.0.0-snapshot-20260101`");
+		expect(comment).toContain("<sub>Updated at 2026-01-01T00:00:00.000Z</sub>");
+	});
+
+	it("omits the install command for a package with a failed target", () => {
+		const comment = buildSnapshotComment(
+			result(
+				[
+					{
+						name: "@org/a",
+						version: "0.0.0-snapshot-20260101",
+						targets: [{ ...target, success: false, status: "failed" as const }],
+					},
+				],
+				false,
+			),
+			{ snapshotTag: "snapshot", packageManager: "npm", now },
+		);
+		expect(comment).toContain("## 📸 Snapshot Release ❌");
+		expect(comment).not.toContain("npm install");
+	});
+
+	it("explains an empty run", () => {
+		const comment = buildSnapshotComment(result([]), { snapshotTag: "snapshot", packageManager: "npm", now });
+		expect(comment).toContain("No pending changesets");
+	});
+});
@@ -6,8 +6,11 @@ import {
 	isNpmRegistry,
 } from "@savvy-web/github-action-effects";
 import type { ValidationOutput } from "../schema/release-output.js";
+import type { AuthSetupResult } from "../types/publish-config.js";
 import type { ResolvedSBOMMetadata } from "../types/sbom-config.js";
 import type { ConfigSource } from "../utils/load-release-config.js";
+import type { LicenseVerdict } from "./license-policy.js";
+import type { PublishPackagesResult } from "./types.js";
 
 /**
  * The `validation` payload of a {@link ValidationOutput} — the single
@@ -247,6 +250,15 @@ function renderBuildHeadline(build: ValidationBuild): string {
 		parts.push(`SBOM: ${build.sbom.componentCount} components · NTIA ${ntia}`);
 	}
 
+	if (build.tarballDiff !== null) {
+		const diff = build.tarballDiff;
+		const delta =
+			diff.packedBytesDelta === null
+				? ""
+				: ` (${diff.packedBytesDelta < 0 ? "−" : "+"}${humanizeSize(Math.abs(diff.packedBytesDelta))})`;
+		parts.push(`Δ ${diff.previousVersion}: +${diff.added.length} / −${diff.removed.length} files${delta}`);
+	}
+
 	return parts.join(" · ");
 }
 
@@ -532,6 +544,99 @@ export function buildValidationComment(validation: ValidationPayload, options?:
 	return parts.join("\n\n");
 }
 
+/**
+ * Display options for {@link buildSnapshotComment}.
+ *
+ * @public
+ */
+export interface SnapshotCommentOptions {
+	/** The snapshot dist-tag the versions were published under. */
+	readonly snapshotTag: string;
+	/** Package manager the install commands are written for. */
+	readonly packageManager: "npm" | "pnpm" | "yarn" | "bun";
+	/** Whether this is a dry-run. */
+	readonly dryRun?: boolean | undefined;
+	/** Timestamp for the footer; defaults to the current time. Inject a fixed
+	 * value to keep the function deterministic (e.g. in tests). */
+	readonly now?: Date | undefined;
+}
+
+/**
+ * Build the install command for an exact package version.
+ *
+ * @param packageManager - Package manager the command is written for.
+ * @param packageName - Package name.
+ * @param version - Exact version to install.
+ * @returns The install command, e.g. `pnpm add @org/a@0.0.0-snapshot-20260101`.
+ *
+ * @public
+ */
+export function snapshotInstallCommand(
+	packageManager: SnapshotCommentOptions["packageManager"],
+	packageName: string,
+	version: string,
+): string {
+	const spec = `${packageName}@${version}`;
+	return packageManager === "npm" ? `npm install ${spec}` : `${packageManager} add ${spec}`;
+}
+
+/**
+ * Assemble the snapshot-phase sticky-comment body from the snapshot publish
+ * result.
+ *
+ * @remarks
+ * Pure function — no I/O. Lists every snapshot-versioned package with its
+ * exact version and an install command; the exact version is used rather
+ * than the dist-tag because the tag moves with every push to the PR. A
+ * package with any failed target is marked `❌` and gets no install command.
+ * An empty, unsuccessful result (the build failed before any publish) renders
+ * a single failure line.
+ * The hidden sticky-comment marker is added by `updateStickyComment`, not
+ * here.
+ *
+ * @param publishResult - The snapshot run's publish result.
+ * @param options - Snapshot tag, package manager, and display options.
+ * @returns The full markdown comment body.
+ *
+ * @public
+ */
+export function buildSnapshotComment(publishResult: PublishPackagesResult, options: SnapshotCommentOptions): string {
+	const dryRun = options.dryRun ?? false;
+	const headerIcon = publishResult.success ? "✅" : "❌";
+
+	const parts: string[] = [];
+	parts.push(`## \u{1F4F8} Snapshot Release ${headerIcon}`);
+
+	if (dryRun) {
+		parts.push("> \u{1F9EA} **DRY RUN MODE** - No actual publishing will occur");
+	}
+
+	if (publishResult.packages.length === 0) {
+		parts.push(
+			publishResult.success
+				? "_No pending changesets — nothing was snapshot-versioned or published._"
+				: "⚠️ **Snapshot build failed** — nothing was published. Check the workflow run for details.",
+		);
+	} else {
+		parts.push(
+			`Published under the ${GithubMarkdown.code(options.snapshotTag)} dist-tag. Snapshot versions are rebuilt on every push to this PR.`,
+		);
+		const tableRows: ReadonlyArray<ReadonlyArray<string>> = publishResult.packages.map((pkg) => {
+			const ok = pkg.targets.every((t) => t.success);
+			const install = ok
+				? GithubMarkdown.code(snapshotInstallCommand(options.packageManager, pkg.name, pkg.version))
+				: "—";
+			return [ok ? "✅" : "❌", GithubMarkdown.code(pkg.name), GithubMarkdown.code(pkg.version), install];
+		});
+		parts.push(GithubMarkdown.table([" ", "Package", "Version", "Install"], tableRows));
+	}
+
+	const now = options.now ?? new Date();
+	parts.push(`---\n\n<sub>Updated at ${now.toISOString()}</sub>`);
+
+	return parts.join("\n\n");
+}
+
 /**
  * Get bump type icon for display in release reports.
  *
@@ -597,6 +702,30 @@ export function buildPublishValidationSummary(validation: ValidationPayload): st
 	return sections.join("\n\n");
 }
 
+/**
+ * Build the registry-auth section rendered after the Publish Validation
+ * check-run summary.
+ *
+ * @remarks
+ * Pure function — no I/O. One row per registry the up-front auth check
+ * covered: a resolved credential, the env var a missing token was expected
+ * in, or why a custom registry did not answer `npm ping`.
+ *
+ * @returns Markdown, or an empty string when the check did not run.
+ *
+ * @public
+ */
+export function buildRegistryAuthSummary(registryAuth: AuthSetupResult | null): string {
+	if (registryAuth === null) return "";
+	const rows: string[][] = [
+		...registryAuth.configuredRegistries.map((registry) => ["✅", registry, "credential resolved"]),
+		...registryAuth.missingTokens.map((m) => ["❌", m.registry, `${GithubMarkdown.code(m.tokenEnv)} is not set`]),
+		...registryAuth.unreachableRegistries.map((u) => ["⚠️", u.registry, `unreachable: ${u.error}`]),
+	];
+	if (rows.length === 0) return "";
+	return `## Registry auth\n\n${GithubMarkdown.table([" ", "Registry", "Credential"], rows)}`;
+}
+
 /**
  * Render the per-package release-notes section that follows the summary
  * table. The shape mirrors what the old GitHub-Actions-summary writer
@@ -810,3 +939,48 @@ export function buildSbomPreviewSummary(
 
 	return sections.join("\n\n");
 }
+
+/**
+ * Build the License Compliance section rendered after the SBOM Preview
+ * check-run summary.
+ *
+ * @remarks
+ * Pure function — no I/O. One table per build the license policy ran on,
+ * listing every BOM component with its license and verdict, worst first. The
+ * map is keyed by `${pkg.name}:${build.directory}`, like the resolved
+ * `sbom-config` map.
+ *
+ * @returns Markdown, or an empty string when no license policy is configured.
+ *
+ * @public
+ */
+export function buildLicenseComplianceSummary(
+	validation: ValidationPayload,
+	licenseReport: ReadonlyMap<string, ReadonlyArray<LicenseVerdict>>,
+): string {
+	if (licenseReport.size === 0) return "";
+	const icons: Record<LicenseVerdict["status"], string> = { pass: "✅", warning: "⚠️", error: "❌" };
+
+	const sections: string[] = ["## License Compliance"];
+	for (const pkg of validation.publish.packages) {
+		for (const buildEntry of pkg.builds) {
+			const verdicts = licenseReport.get(`${pkg.name}:${buildEntry.directory}`);
+			if (verdicts === undefined) continue;
+			sections.push(`**${pkg.name}** · ${GithubMarkdown.code(buildEntry.directory)}`);
+			sections.push(
+				verdicts.length === 0
+					? "_No runtime dependencies._"
+					: GithubMarkdown.table(
+							["Component", "Version", "License", "Status"],
+							verdicts.map((v) => [
+								v.name,
+								v.version ?? "—",
+								v.license ?? "—",
+								`${icons[v.status]} ${v.reason ?? "allowed"}`,
+							]),
+						),
+			);
+		}
+	}
+	return sections.join("\n\n");
+}
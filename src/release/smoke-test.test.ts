@@ -0,0 +1,205 @@
+/**
+ * Unit tests for the installability smoke test (`release/smoke-test`).
+ *
+ * `runSmokeTest` runs against a CommandRunner seeded with responses keyed by
+ * `"command args..."`; unregistered commands exit 0 with empty output.
+ */
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CommandResponse } from "@savvy-web/github-action-effects/testing";
+import { CommandRunner, CommandRunnerTest } from "@savvy-web/github-action-effects/testing";
+import { Effect, Layer } from "effect";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runSmokeTest, smokeEntries, summarizeSmokeTests, supervisedArgs } from "./smoke-test.js";
+import type { ValidationPackageResult } from "./types.js";
+
+describe("smokeEntries", () => {
+	it("loads each subpath by its import and require conditions", () => {
+		const entries = smokeEntries({
+			name: "@test/pkg",
+			type: "module",
+			exports: {
+				".": { types: "./index.d.ts", import: "./index.js", require: "./index.cjs" },
+				"./cli": { node: "./cli.js" },
+				"./legacy": "./legacy.cjs",
+				"./features/*": "./features/*.js",
+				"./package.json": "./package.json",
+			},
+		});
+
+		expect(entries).toEqual([
+			{ specifier: "@test/pkg", loader: "import" },
+			{ specifier: "@test/pkg", loader: "require" },
+			{ specifier: "@test/pkg/cli", loader: "import" },
+			{ specifier: "@test/pkg/legacy", loader: "require" },
+		]);
+	});
+
+	it("reads a bare conditions object or string as the root entry", () => {
+		expect(smokeEntries({ name: "pkg", exports: { import: "./index.mjs", default: "./index.js" } })).toEqual([
+			{ specifier: "pkg", loader: "import" },
+			{ specifier: "pkg", loader: "require" },
+		]);
+		expect(smokeEntries({ name: "pkg", type: "module", exports: "./index.js" })).toEqual([
+			{ specifier: "pkg", loader: "import" },
+		]);
+	});
+
+	it("falls back to main without exports, and skips type-only targets", () => {
+		expect(smokeEntries({ name: "pkg", main: "./index.js" })).toEqual([{ specifier: "pkg", loader: "require" }]);
+		expect(smokeEntries({ name: "pkg", exports: { "./types": { types: "./types.d.ts" } } })).toEqual([]);
+		expect(smokeEntries({ exports: "./index.js" })).toEqual([]);
+	});
+});
+
+describe("summarizeSmokeTests", () => {
+	const pkg = (builds: ValidationPackageResult["builds"]) =>
+		({
+			name: "a",
+			version: "1.0.0",
+			baseVersion: null,
+			changesetCount: null,
+			builds,
+			releaseNotes: null,
+		}) as unknown as ValidationPackageResult;
+
+	it("totals loads, bins, and failures across installed builds", () => {
+		const build = (smokeTest: ValidationPackageResult["builds"][number]["smokeTest"]) =>
+			({ smokeTest }) as unknown as ValidationPackageResult["builds"][number];
+
+		expect(
+			summarizeSmokeTests([
+				pkg([build({ entries: 2, bins: 1, failures: 0 }), build(null)]),
+				pkg([build({ entries: 3, bins: 0, failures: 1 })]),
+			]),
+		).toBe("2 build(s) installed · 5 load(s), 1 bin(s), 1 failure(s)");
+		expect(summarizeSmokeTests([pkg([build(null)])])).toBe("No builds installed");
+	});
+});
+
+describe("runSmokeTest", () => {
+	let root: string;
+	const dir = (name: string) => join(root, name);
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), "smoke-test-spec-"));
+		const builds: Record<string, object> = {
+			pkg: {
+				name: "@test/pkg",
+				version: "1.0.0",
+				type: "module",
+				exports: { ".": "./index.js" },
+				bin: { "pkg-cli": "./cli.js" },
+				dependencies: { "@test/mid": "1.0.0" },
+			},
+			mid: { name: "@test/mid", version: "1.0.0", dependencies: { "@test/leaf": "1.0.0" } },
+			leaf: { name: "@test/leaf", version: "1.0.0" },
+		};
+		for (const [name, manifest] of Object.entries(builds)) {
+			mkdirSync(dir(name));
+			writeFileSync(join(dir(name), "package.json"), JSON.stringify(manifest));
+		}
+	});
+
+	afterEach(() => {
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	const ok = (stdout = ""): CommandResponse => ({ exitCode: 0, stdout, stderr: "" });
+	const key = (cmd: string, args: ReadonlyArray<string>) => [cmd, ...args].join(" ");
+	const supervised = (cmd: string, args: ReadonlyArray<string>, timeoutMs = 30_000) =>
+		key("node", supervisedArgs(cmd, args, timeoutMs));
+	const installKey = supervised(
+		"npm",
+		["install", "--no-audit", "--no-fund", "--no-package-lock", "--registry", "https://registry.npmjs.org/"],
+		300_000,
+	);
+	const importKey = supervised("node", ["--input-type=module", "-e", 'await import("@test/pkg");']);
+
+	/**
+	 * Run the smoke test of `pkg` with `mid` and `leaf` released alongside,
+	 * recording the scratch project and its manifest as the install sees them.
+	 */
+	const run = async (responses: ReadonlyArray<[string, CommandResponse]> = []) => {
+		const packs: Array<[string, CommandResponse]> = ["pkg", "mid", "leaf"].map((name) => [
+			key("npm", ["pack", "--json", "--ignore-scripts", dir(name)]),
+			ok(JSON.stringify([{ filename: `test-${name}-1.0.0.tgz` }])),
+		]);
+		const seen: { project?: string; manifest?: { overrides?: Record<string, string> } } = {};
+		const runner = Layer.effect(
+			CommandRunner,
+			Effect.map(CommandRunner, (inner) => ({
+				...inner,
+				execCapture: (cmd: string, args: ReadonlyArray<string>, options?: { readonly cwd?: string }) => {
+					if (key(cmd, args) === installKey && options?.cwd !== undefined) {
+						seen.project = options.cwd;
+						seen.manifest = JSON.parse(readFileSync(join(options.cwd, "package.json"), "utf8"));
+					}
+					return inner.execCapture(cmd, args, options);
+				},
+			})),
+		).pipe(Layer.provide(CommandRunnerTest.layer(new Map([...packs, ...responses]))));
+		const outcome = await Effect.runPromise(
+			runSmokeTest(
+				"@test/pkg",
+				"pkg",
+				dir("pkg"),
+				new Map([
+					["@test/pkg", dir("pkg")],
+					["@test/mid", dir("mid")],
+					["@test/leaf", dir("leaf")],
+				]),
+				"https://registry.npmjs.org/",
+			).pipe(Effect.provide(runner as never)),
+		);
+		return { outcome, ...seen };
+	};
+
+	it("overrides every sibling, transitive ones included, and removes the scratch project", async () => {
+		const { outcome, project, manifest } = await run();
+
+		expect(outcome?.result).toEqual({ entries: 1, bins: 1, failures: 0 });
+		expect(outcome?.findings).toEqual([]);
+		expect(Object.keys(manifest?.overrides ?? {}).sort()).toEqual(["@test/leaf", "@test/mid"]);
+		expect(manifest?.overrides?.["@test/leaf"]).toMatch(/^file:.*test-leaf-1\.0\.0\.tgz$/);
+		expect(project !== undefined && existsSync(project)).toBe(false);
+	});
+
+	it("reports a failed install and skips the loads", async () => {
+		const { outcome } = await run([
+			[installKey, { exitCode: 1, stdout: "", stderr: "npm ERR! 404 Not Found - @test/other" }],
+		]);
+
+		expect(outcome?.result).toEqual({ entries: 0, bins: 0, failures: 1 });
+		expect(outcome?.findings.map((f) => f.message)).toEqual([
+			"npm install of the packed tarball failed: npm ERR! 404 Not Found - @test/other",
+		]);
+	});
+
+	it("reports an entry point that fails to load", async () => {
+		const { outcome } = await run([
+			[importKey, { exitCode: 1, stdout: "", stderr: "Error [ERR_MODULE_NOT_FOUND]: Cannot find module" }],
+		]);
+
+		expect(outcome?.result).toEqual({ entries: 1, bins: 1, failures: 1 });
+		expect(outcome?.findings).toEqual([
+			{
+				severity: "error",
+				check: "Install Smoke Test",
+				scope: { package: "@test/pkg", directory: "pkg" },
+				message: 'import("@test/pkg") failed: Error [ERR_MODULE_NOT_FOUND]: Cannot find module',
+			},
+		]);
+	});
+
+	it("reports a command the supervisor timed out", async () => {
+		const { outcome, project } = await run([
+			[importKey, { exitCode: 124, stdout: "", stderr: "timed out after 30000 ms" }],
+		]);
+
+		expect(outcome?.findings.map((f) => f.message)).toEqual(['import("@test/pkg") failed: timed out after 30000 ms']);
+		expect(project !== undefined && existsSync(project)).toBe(false);
+	});
+});
@@ -0,0 +1,299 @@
+/**
+ * Installability smoke test of packed builds.
+ *
+ * A build that compiles and dry-run publishes can still fail for consumers:
+ * an `exports` map pointing `require` at ESM, a missing `default` condition,
+ * or a `bin` whose imports do not resolve once installed. This module packs
+ * the build, installs the tarball into a scratch project, and then
+ * `import()`s or `require()`s every `exports` entry (as its conditions
+ * allow) and runs every `bin` with `--help`. Every other package released
+ * alongside is packed from its own build directory and substituted through
+ * `overrides`, so the install sees the versions being released rather than
+ * the ones on the registry — for transitive dependencies too.
+ *
+ * Each command runs under a small Node supervisor that starts it in its own
+ * process group and kills the whole group when it overruns, so nothing the
+ * test started outlives the scratch project.
+ *
+ * A failed install, load, or command is an `Install Smoke Test` error.
+ * Failing to pack is not — the dry-run already reports that. The test only
+ * runs with the `smoke-test` input.
+ *
+ * @module release/smoke-test
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CommandRunner } from "@savvy-web/github-action-effects";
+import { Duration, Effect } from "effect";
+import type { SmokeTestResult, ValidationFinding, ValidationPackageResult } from "./types.js";
+
+/** The check name findings from this module are filed under. */
+export const SMOKE_TEST_CHECK = "Install Smoke Test";
+
+/** How long the install may take, in milliseconds. */
+const INSTALL_TIMEOUT_MS = 300_000;
+
+/** How long one entry-point load or `--help` run may take, in milliseconds. */
+const COMMAND_TIMEOUT_MS = 30_000;
+
+/** Extra time the supervisor gets to kill an overrunning command and exit. */
+const SUPERVISOR_GRACE = "10 seconds";
+
+/**
+ * Runs `argv[2]` with the remaining arguments in its own process group and
+ * exits with its code, or kills the group and exits 124 after `argv[1]` ms.
+ */
+const SUPERVISOR = [
+	'const { spawn } = require("node:child_process");',
+	"const [ms, cmd, ...args] = process.argv.slice(1);",
+	'const posix = process.platform !== "win32";',
+	'const child = spawn(cmd, args, { stdio: "inherit", detached: posix, shell: !posix });',
+	"let timedOut = false;",
+	"const timer = setTimeout(() => {",
+	"\ttimedOut = true;",
+	'\tprocess.stderr.write("timed out after " + ms + " ms\\n");',
+	'\ttry { posix ? process.kill(-child.pid, "SIGKILL") : child.kill("SIGKILL"); } catch {}',
+	"}, Number(ms));",
+	'child.on("error", (e) => { clearTimeout(timer); process.stderr.write(e.message + "\\n"); process.exit(127); });',
+	'child.on("exit", (code) => { clearTimeout(timer); process.exit(timedOut ? 124 : (code ?? 1)); });',
+].join("\n");
+
+/**
+ * The `node` arguments that run `cmd` under the supervisor with a
+ * `timeoutMs` limit.
+ *
+ * @internal
+ */
+export const supervisedArgs = (cmd: string, args: ReadonlyArray<string>, timeoutMs: number): ReadonlyArray<string> => [
+	"-e",
+	SUPERVISOR,
+	String(timeoutMs),
+	cmd,
+	...args,
+];
+
+type Loader = "import" | "require";
+
+/**
+ * One entry point to load after install.
+ *
+ * @internal
+ */
+export interface SmokeEntry {
+	/** The specifier a consumer would use, e.g. `@scope/pkg/sub`. */
+	readonly specifier: string;
+	readonly loader: Loader;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * List the entry points of a built `package.json` and how each can be
+ * loaded.
+ *
+ * @remarks
+ * An `import` condition is loaded with `import()`, a `require` condition
+ * with `require()`; `node` and `default` targets, and plain string targets,
+ * by their module format (`.mjs`, `.cjs`, or the package `type`). `types`
+ * and non-Node conditions are skipped, as are `*` patterns and
+ * `package.json` subpaths. Without `exports`, `main` is the only entry.
+ *
+ * @internal
+ */
+export const smokeEntries = (manifest: Record<string, unknown>): ReadonlyArray<SmokeEntry> => {
+	const name = typeof manifest.name === "string" ? manifest.name : null;
+	if (name === null) return [];
+	const esm = manifest.type === "module";
+	const formatOf = (target: string): ReadonlyArray<Loader> => {
+		if (/\.d\.[cm]?ts$|\.json$/.test(target)) return [];
+		if (target.endsWith(".mjs")) return ["import"];
+		if (target.endsWith(".cjs")) return ["require"];
+		return [esm ? "import" : "require"];
+	};
+	const loadersOf = (value: unknown): ReadonlyArray<Loader> => {
+		if (typeof value === "string") return formatOf(value);
+		if (Array.isArray(value)) return value.flatMap(loadersOf);
+		if (!isRecord(value)) return [];
+		return Object.entries(value).flatMap(([condition, target]): ReadonlyArray<Loader> => {
+			if (condition === "import" || condition === "require") {
+				return loadersOf(target).length > 0 ? [condition] : [];
+			}
+			return condition === "node" || condition === "default" ? loadersOf(target) : [];
+		});
+	};
+
+	const { exports } = manifest;
+	const subpaths: ReadonlyArray<[string, unknown]> =
+		exports === undefined
+			? typeof manifest.main === "string"
+				? [[".", manifest.main]]
+				: []
+			: isRecord(exports) && Object.keys(exports).some((key) => key.startsWith("."))
+				? Object.entries(exports)
+				: [[".", exports]];
+
+	return subpaths.flatMap(([subpath, value]) => {
+		if (subpath.includes("*") || subpath.endsWith("package.json")) return [];
+		const specifier = subpath === "." ? name : `${name}${subpath.slice(1)}`;
+		return [...new Set(loadersOf(value))].map((loader) => ({ specifier, loader }));
+	});
+};
+
+/** The command names of a built `package.json`'s `bin`. */
+const binNames = (manifest: Record<string, unknown>): ReadonlyArray<string> => {
+	if (typeof manifest.bin === "string" && typeof manifest.name === "string") {
+		return [manifest.name.replace(/^@[^/]+\//, "")];
+	}
+	return isRecord(manifest.bin) ? Object.keys(manifest.bin) : [];
+};
+
+const readManifest = (directory: string): Record<string, unknown> | null => {
+	const path = join(directory, "package.json");
+	if (!existsSync(path)) return null;
+	try {
+		const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+		return isRecord(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+};
+
+/** The first few lines of a command's error output, for a finding message. */
+const excerpt = (output: string | undefined): string =>
+	(output ?? "").trim().split("\n").slice(0, 3).join(" ").slice(0, 300) || "no output";
+
+/**
+ * Install the build in `absoluteDirectory` from its packed tarball and load
+ * its entry points.
+ *
+ * @param siblings - Build directories of the packages being released, by
+ *   package name; every one but this package is installed from its own
+ *   tarball wherever it appears in the dependency tree.
+ * @param registry - Registry the remaining dependencies install from.
+ * @returns The outcome and its findings, or `null` when the build (or its
+ *   manifest) could not be packed.
+ *
+ * @public
+ */
+export const runSmokeTest = (
+	packageName: string,
+	directory: string,
+	absoluteDirectory: string,
+	siblings: ReadonlyMap<string, string>,
+	registry: string,
+): Effect.Effect<
+	{ readonly result: SmokeTestResult; readonly findings: ReadonlyArray<ValidationFinding> } | null,
+	never,
+	CommandRunner
+> =>
+	Effect.gen(function* () {
+		const manifest = readManifest(absoluteDirectory);
+		if (manifest === null) return null;
+
+		const runner = yield* CommandRunner;
+		const project = mkdtempSync(join(tmpdir(), "smoke-test-"));
+		return yield* Effect.gen(function* () {
+			// Packs from the scratch project, which is where the tarball lands.
+			const pack = (dir: string) =>
+				runner.execCapture("npm", ["pack", "--json", "--ignore-scripts", dir], { cwd: project }).pipe(
+					Effect.map((r) => {
+						try {
+							const filename = (JSON.parse(r.stdout) as Array<{ filename?: unknown }>)[0]?.filename;
+							return typeof filename === "string" ? join(project, filename) : null;
+						} catch {
+							return null;
+						}
+					}),
+					Effect.catchAll((e) =>
+						Effect.logDebug(`[smoke-test] npm pack in ${dir} failed: ${e.stderr ?? e.message}`).pipe(Effect.as(null)),
+					),
+				);
+
+			const tarball = yield* pack(absoluteDirectory);
+			if (tarball === null) return null;
+
+			// Every sibling, not only direct dependencies: npm applies an override
+			// wherever the package appears, and ignores one it never meets.
+			const overrides: Record<string, string> = {};
+			for (const [sibling, siblingDirectory] of siblings) {
+				if (sibling === packageName) continue;
+				const siblingTarball = yield* pack(siblingDirectory);
+				if (siblingTarball !== null) overrides[sibling] = `file:${siblingTarball}`;
+			}
+			writeFileSync(
+				join(project, "package.json"),
+				JSON.stringify({
+					name: "smoke-test",
+					private: true,
+					dependencies: { [packageName]: `file:${tarball}` },
+					overrides,
+				}),
+			);
+
+			const findings: ValidationFinding[] = [];
+			const fail = (message: string): void => {
+				findings.push({
+					severity: "error",
+					check: SMOKE_TEST_CHECK,
+					scope: { package: packageName, directory },
+					message,
+				});
+			};
+			// Runs a command in the scratch project under the supervisor; resolves
+			// to an error excerpt, or `null` when it exits cleanly in time. The
+			// outer timeout only guards against a supervisor that never exits.
+			const run = (cmd: string, args: ReadonlyArray<string>, timeoutMs = COMMAND_TIMEOUT_MS) =>
+				runner.execCapture("node", [...supervisedArgs(cmd, args, timeoutMs)], { cwd: project }).pipe(
+					Effect.mapError((e) => excerpt(e.stderr ?? e.message)),
+					Effect.timeoutFail({
+						duration: Duration.sum(Duration.millis(timeoutMs), SUPERVISOR_GRACE),
+						onTimeout: () => `timed out after ${timeoutMs} ms`,
+					}),
+					Effect.match({ onFailure: (message) => message, onSuccess: () => null }),
+				);
+
+			const installError = yield* run(
+				"npm",
+				["install", "--no-audit", "--no-fund", "--no-package-lock", "--registry", registry],
+				INSTALL_TIMEOUT_MS,
+			);
+			if (installError !== null) {
+				fail(`npm install of the packed tarball failed: ${installError}`);
+				return { result: { entries: 0, bins: 0, failures: 1 }, findings };
+			}
+
+			const entries = smokeEntries(manifest);
+			for (const { specifier, loader } of entries) {
+				const error =
+					loader === "import"
+						? yield* run("node", ["--input-type=module", "-e", `await import(${JSON.stringify(specifier)});`])
+						: yield* run("node", ["-e", `require(${JSON.stringify(specifier)});`]);
+				if (error !== null) fail(`${loader}("${specifier}") failed: ${error}`);
+			}
+			const bins = binNames(manifest);
+			for (const bin of bins) {
+				const error = yield* run(join("node_modules", ".bin", bin), ["--help"]);
+				if (error !== null) fail(`${bin} --help failed: ${error}`);
+			}
+
+			yield* Effect.logDebug(
+				`[smoke-test] ${packageName}: ${entries.length} load(s), ${bins.length} bin(s), ${findings.length} failure(s)`,
+			);
+			return { result: { entries: entries.length, bins: bins.length, failures: findings.length }, findings };
+		}).pipe(Effect.ensuring(Effect.sync(() => rmSync(project, { recursive: true, force: true }))));
+	});
+
+/**
+ * One-line outcome for the `Install Smoke Test` checks-table row.
+ *
+ * @public
+ */
+export const summarizeSmokeTests = (packages: ReadonlyArray<ValidationPackageResult>): string => {
+	const results = packages.flatMap((p) => p.builds.flatMap((b) => (b.smokeTest ? [b.smokeTest] : [])));
+	if (results.length === 0) return "No builds installed";
+	const sum = (key: keyof SmokeTestResult) => results.reduce((n, r) => n + r[key], 0);
+	return `${results.length} build(s) installed · ${sum("entries")} load(s), ${sum("bins")} bin(s), ${sum("failures")} failure(s)`;
+};
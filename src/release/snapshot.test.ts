@@ -0,0 +1,121 @@
+/**
+ * Unit tests for snapshot versioning (`versionSnapshot`).
+ *
+ * Workspace packages live in a temp directory; the fake `CommandRunner`
+ * stands in for `changeset version --snapshot` by rewriting the version of
+ * the packages it "bumps".
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CommandRunner, CommandRunnerError } from "@savvy-web/github-action-effects";
+import { ActionLoggerTest } from "@savvy-web/github-action-effects/testing";
+import { Effect, Layer } from "effect";
+import { describe, expect, it } from "vitest";
+import { WorkspaceDiscovery, WorkspacePackage } from "workspaces-effect";
+import { versionSnapshot } from "./snapshot.js";
+
+/** Write a workspace package to disk and return its `WorkspacePackage`. */
+const makeWsPkg = (root: string, name: string, version: string): WorkspacePackage => {
+	const path = join(root, name.replace("/", "-"));
+	mkdirSync(path, { recursive: true });
+	writeFileSync(join(path, "package.json"), JSON.stringify({ name, version }));
+	return new WorkspacePackage({ name, version, path, packageJsonPath: join(path, "package.json"), relativePath: name });
+};
+
+const makeDiscoveryLayer = (packages: WorkspacePackage[]): Layer.Layer<WorkspaceDiscovery> =>
+	Layer.succeed(WorkspaceDiscovery, {
+		listPackages: (_cwd?: string) => Effect.succeed(packages as ReadonlyArray<WorkspacePackage>),
+		getPackage: (name: string) => Effect.die(new Error(`Package not found: ${name}`)),
+		importerMap: (_cwd?: string) => Effect.succeed(new Map() as ReadonlyMap<string, WorkspacePackage>),
+	});
+
+/**
+ * A `CommandRunner` whose `exec` records the call and runs `onExec` — the
+ * stand-in for the changeset CLI's package.json rewrite.
+ */
+const makeRunnerLayer = (onExec: () => void, fail = false) => {
+	const calls: Array<{ command: string; args: ReadonlyArray<string> }> = [];
+	const layer = Layer.succeed(CommandRunner, {
+		exec: (command: string, args?: ReadonlyArray<string>) => {
+			calls.push({ command, args: args ?? [] });
+			if (fail) {
+				return Effect.fail(
+					new CommandRunnerError({
+						command,
+						args: args ?? [],
+						exitCode: 1,
+						stderr: "no changesets",
+						reason: "Command exited with code 1",
+					}),
+				);
+			}
+			return Effect.sync(() => {
+				onExec();
+				return 0;
+			});
+		},
+		execCapture: () => Effect.succeed({ stdout: "", stderr: "", exitCode: 0 }),
+		execJson: () => Effect.succeed(undefined as never),
+		execLines: () => Effect.succeed([] as ReadonlyArray<string>),
+	});
+	return { calls, layer };
+};
+
+const loggerLayer = ActionLoggerTest.layer(ActionLoggerTest.empty());
+
+describe("versionSnapshot", () => {
+	it("runs changeset version --snapshot and returns the re-versioned packages", async () => {
+		const root = mkdtempSync(join(tmpdir(), "snapshot-"));
+		const a = makeWsPkg(root, "@test/a", "1.0.0");
+		const b = makeWsPkg(root, "@test/b", "2.0.0");
+		const runner = makeRunnerLayer(() =>
+			writeFileSync(a.packageJsonPath, JSON.stringify({ name: a.name, version: "0.0.0-canary-20260101120000" })),
+		);
+
+		const detected = await Effect.runPromise(
+			versionSnapshot("pnpm", "canary").pipe(
+				Effect.provide(Layer.mergeAll(loggerLayer, runner.layer, makeDiscoveryLayer([a, b]))),
+			),
+		);
+
+		expect(runner.calls).toEqual([{ command: "pnpm", args: ["exec", "changeset", "version", "--snapshot", "canary"] }]);
+		expect(detected).toEqual([{ name: "@test/a", version: "0.0.0-canary-20260101120000", path: a.path }]);
+		expect(JSON.parse(readFileSync(b.packageJsonPath, "utf-8")).version).toBe("2.0.0");
+	});
+
+	it("uses npx for npm", async () => {
+		const root = mkdtempSync(join(tmpdir(), "snapshot-"));
+		const a = makeWsPkg(root, "@test/a", "1.0.0");
+		const runner = makeRunnerLayer(() => undefined);
+
+		const detected = await Effect.runPromise(
+			versionSnapshot("npm", "snapshot").pipe(
+				Effect.provide(Layer.mergeAll(loggerLayer, runner.layer, makeDiscoveryLayer([a]))),
+			),
+		);
+
+		expect(runner.calls[0]).toEqual({ command: "npx", args: ["changeset", "version", "--snapshot", "snapshot"] });
+		expect(detected).toEqual([]);
+	});
+
+	it("fails with a SnapshotError when the version command fails", async () => {
+		const root = mkdtempSync(join(tmpdir(), "snapshot-"));
+		const a = makeWsPkg(root, "@test/a", "1.0.0");
+		const runner = makeRunnerLayer(() => undefined, true);
+
+		const result = await Effect.runPromise(
+			Effect.either(versionSnapshot("pnpm", "snapshot")).pipe(
+				Effect.provide(Layer.mergeAll(loggerLayer, runner.layer, makeDiscoveryLayer([a]))),
+			),
+		);
+
+		expect(result._tag).toBe("Left");
+		if (result._tag === "Left") {
+			expect(result.left._tag).toBe("SnapshotError");
+			expect(result.left.reason).toBe("version");
+			expect(result.left.message).toContain("no changesets");
+		}
+	});
+});
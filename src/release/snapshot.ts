@@ -0,0 +1,116 @@
+/**
+ * Snapshot (canary) versioning for the pull-request snapshot phase.
+ *
+ * Runs `changeset version --snapshot <tag>` in the PR checkout and reports
+ * which workspace packages it re-versioned. The version bump is never
+ * committed — the snapshot versions (`0.0.0-<tag>-<timestamp>` by default)
+ * only exist for the build and publish that follow in the same job.
+ *
+ * @module release/snapshot
+ */
+
+import { readFileSync } from "node:fs";
+import type { CommandRunnerError } from "@savvy-web/github-action-effects";
+import { CommandRunner, Step } from "@savvy-web/github-action-effects";
+import { Effect } from "effect";
+import { WorkspaceDiscovery } from "workspaces-effect";
+import { SnapshotError } from "./errors.js";
+import type { DetectedRelease } from "./publish.js";
+
+/**
+ * Build the `changeset version --snapshot` invocation for the repo's package
+ * manager. The release-branch flow's `ci:version` script is deliberately not
+ * used: it may chain steps (lockfile refresh, formatting) that only make
+ * sense for a committed release.
+ */
+const snapshotVersionCommand = (
+	packageManager: "npm" | "pnpm" | "yarn" | "bun",
+	snapshotTag: string,
+): { readonly command: string; readonly args: ReadonlyArray<string> } => {
+	const cliArgs = ["changeset", "version", "--snapshot", snapshotTag];
+	switch (packageManager) {
+		case "pnpm":
+			return { command: "pnpm", args: ["exec", ...cliArgs] };
+		case "yarn":
+			return { command: "yarn", args: cliArgs };
+		case "bun":
+			return { command: "bun", args: ["x", ...cliArgs] };
+		case "npm":
+			return { command: "npx", args: cliArgs };
+	}
+};
+
+/**
+ * Re-version the workspace with snapshot versions and detect the packages
+ * that received one.
+ *
+ * @remarks
+ * Workspace versions are captured before the command runs; afterwards each
+ * package's `package.json` is re-read from disk and every package whose
+ * version changed is returned as a {@link DetectedRelease}, ready for
+ * `runBuildAndSbom` and `runPublishTargets`. Private packages are included —
+ * target resolution drops them, exactly as in Phase 3.
+ *
+ * @param packageManager - The repo's package manager.
+ * @param snapshotTag - The snapshot tag passed to `--snapshot`; also the
+ *   dist-tag the versions publish under.
+ * @returns The re-versioned packages (empty when no changesets are pending).
+ *
+ * @public
+ */
+export const versionSnapshot = (
+	packageManager: "npm" | "pnpm" | "yarn" | "bun",
+	snapshotTag: string,
+): Effect.Effect<ReadonlyArray<DetectedRelease>, SnapshotError, CommandRunner | WorkspaceDiscovery> =>
+	Step.withStep(
+		"Snapshot version",
+		Effect.gen(function* () {
+			const runner = yield* CommandRunner;
+			const discovery = yield* WorkspaceDiscovery;
+
+			const before = yield* discovery
+				.listPackages()
+				.pipe(
+					Effect.mapError(
+						(e) =>
+							new SnapshotError({ reason: "detect", message: `Workspace discovery failed: ${e.message}`, cause: e }),
+					),
+				);
+
+			const { command, args } = snapshotVersionCommand(packageManager, snapshotTag);
+			yield* Effect.logDebug(`[snapshot] ${command} ${args.join(" ")}`);
+			yield* runner.exec(command, [...args]).pipe(
+				Effect.mapError(
+					(e: CommandRunnerError) =>
+						new SnapshotError({
+							reason: "version",
+							message: `changeset version --snapshot failed: ${e.stderr ?? e.message}`,
+							cause: e,
+						}),
+				),
+			);
+
+			const detected: DetectedRelease[] = [];
+			for (const pkg of before) {
+				let version: string | undefined;
+				try {
+					version = (JSON.parse(readFileSync(pkg.packageJsonPath, "utf-8")) as { version?: string }).version;
+				} catch (e) {
+					return yield* Effect.fail(
+						new SnapshotError({
+							reason: "detect",
+							message: `failed to read ${pkg.packageJsonPath}: ${e instanceof Error ? e.message : String(e)}`,
+							cause: e,
+						}),
+					);
+				}
+				if (version !== undefined && version !== pkg.version) {
+					yield* Effect.logDebug(`[snapshot] ${pkg.name}: ${pkg.version} → ${version}`);
+					detected.push({ name: pkg.name, version, path: pkg.path });
+				}
+			}
+
+			yield* Step.success(`${detected.length} package(s) snapshot-versioned under "${snapshotTag}"`);
+			return detected;
+		}),
+	);
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the tarball content diff (`release/tarball-diff`).
+ */
+
+import { describe, expect, it } from "vitest";
+import type { PackListing } from "./tarball-diff.js";
+import { diffTarballs, parsePackListing, summarizeTarballDiffs, tarballDiffFindings } from "./tarball-diff.js";
+import type { TarballDiff } from "./types.js";
+
+const listing = (files: Record<string, number>, packedBytes: number | null = 1000): PackListing => ({
+	files: new Map(Object.entries(files)),
+	packedBytes,
+	unpackedBytes: packedBytes === null ? null : packedBytes * 3,
+});
+
+describe("parsePackListing", () => {
+	it("reads the files and sizes of the first packed entry", () => {
+		const stdout = JSON.stringify([
+			{
+				name: "@test/pkg",
+				version: "1.0.0",
+				size: 716,
+				unpackedSize: 2300,
+				files: [
+					{ path: "index.js", size: 1200, mode: 420 },
+					{ path: "package.json", size: 400, mode: 420 },
+				],
+			},
+		]);
+		const parsed = parsePackListing(stdout);
+		expect(parsed?.packedBytes).toBe(716);
+		expect(parsed?.unpackedBytes).toBe(2300);
+		expect([...(parsed?.files ?? [])]).toEqual([
+			["index.js", 1200],
+			["package.json", 400],
+		]);
+	});
+
+	it("returns null for output that is not a pack listing", () => {
+		expect(parsePackListing("npm ERR! 404")).toBe(null);
+		expect(parsePackListing("{}")).toBe(null);
+		expect(parsePackListing("[]")).toBe(null);
+	});
+});
+
+describe("diffTarballs", () => {
+	it("reports added, removed, and resized files with size deltas", () => {
+		const diff = diffTarballs(
+			"@test/pkg",
+			"1.0.0",
+			listing({ "index.js": 100, "legacy.js": 50, "package.json": 40 }, 1000),
+			listing({ "index.js": 120, "package.json": 40, "spring.js": 30 }, 900),
+			{},
+			{},
+		);
+		expect(diff.added).toEqual(["spring.js"]);
+		expect(diff.removed).toEqual(["legacy.js"]);
+		expect(diff.changed).toEqual([{ path: "index.js", previousBytes: 100, bytes: 120 }]);
+		expect(diff.packedBytesDelta).toBe(-100);
+		expect(diff.unpackedBytesDelta).toBe(-300);
+		expect(diff.manifestChanges).toEqual([]);
+	});
+
+	it("leaves the size deltas null when either size is unknown", () => {
+		const diff = diffTarballs("@test/pkg", "1.0.0", listing({}, null), listing({}, 900), {}, {});
+		expect(diff.packedBytesDelta).toBe(null);
+		expect(diff.unpackedBytesDelta).toBe(null);
+	});
+
+	it("reports changed exports subpaths, bin commands, and files globs", () => {
+		const diff = diffTarballs(
+			"@test/pkg",
+			"1.0.0",
+			listing({}),
+			listing({}),
+			{ exports: { ".": "./index.js", "./legacy": "./legacy.js" }, bin: "./cli.js", files: ["*.js"] },
+			{ exports: { ".": "./index.js", "./spring": "./spring.js" }, bin: { pkg: "./cli.js" }, files: ["*.js"] },
+		);
+		expect(diff.manifestChanges).toEqual([
+			{ field: "exports", added: ["./spring"], removed: ["./legacy"] },
+			// String-form `bin` is a command named after the unscoped package.
+			{ field: "bin", added: [], removed: [] },
+		]);
+	});
+});
+
+describe("tarballDiffFindings", () => {
+	const diff: TarballDiff = {
+		previousVersion: "1.0.0",
+		added: [],
+		removed: ["legacy.js"],
+		changed: [],
+		packedBytesDelta: null,
+		unpackedBytesDelta: null,
+		manifestChanges: [{ field: "exports", added: [], removed: ["./legacy"] }],
+	};
+
+	it("warns about removed files and entry points on a non-major bump", () => {
+		const findings = tarballDiffFindings("@test/pkg", "1.1.0", "dist/npm", diff);
+		expect(findings.map((f) => [f.severity, f.check])).toEqual([
+			["warning", "Tarball Diff"],
+			["warning", "Tarball Diff"],
+		]);
+		expect(findings[0]?.message).toContain("legacy.js");
+		expect(findings[1]?.message).toContain("./legacy");
+		expect(findings[0]?.scope).toEqual({ package: "@test/pkg", directory: "dist/npm" });
+	});
+
+	it("expects removals on a major bump, including a 0.x minor bump", () => {
+		expect(tarballDiffFindings("@test/pkg", "2.0.0", "dist/npm", diff)).toEqual([]);
+		expect(tarballDiffFindings("@test/pkg", "0.3.0", "dist/npm", { ...diff, previousVersion: "0.2.4" })).toEqual([]);
+	});
+});
+
+describe("summarizeTarballDiffs", () => {
+	it("falls back when no build was compared", () => {
+		expect(summarizeTarballDiffs([])).toBe("No previous version to compare");
+	});
+});
@@ -0,0 +1,278 @@
+/**
+ * Tarball content diff against the previously published version.
+ *
+ * Phase 2 already dry-runs every build; this module additionally lists the
+ * files the build would pack and the files the base version's published
+ * tarball holds, then diffs them — added and removed files, per-file size
+ * changes, and changed `exports` / `bin` / `files` entries in package.json.
+ * Files or entry points disappearing on a non-major bump are surfaced as
+ * `Tarball Diff` warnings, which catches a broken `files` glob before merge.
+ *
+ * Every registry and CLI call is best-effort: a base version that was never
+ * published, an unreachable registry, or unparseable output yields no diff
+ * rather than a failure.
+ *
+ * @module release/tarball-diff
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { CommandRunner } from "@savvy-web/github-action-effects";
+import { Effect } from "effect";
+import type { TarballDiff, TarballManifestChange, ValidationFinding, ValidationPackageResult } from "./types.js";
+
+/** The check name findings from this module are filed under. */
+export const TARBALL_DIFF_CHECK = "Tarball Diff";
+
+/** Most file paths quoted in one finding message. */
+const MAX_LISTED = 5;
+
+/**
+ * File listing of a packed tarball, as reported by `npm pack --dry-run --json`.
+ *
+ * @internal
+ */
+export interface PackListing {
+	/** Packed path → size in bytes. */
+	readonly files: ReadonlyMap<string, number>;
+	readonly packedBytes: number | null;
+	readonly unpackedBytes: number | null;
+}
+
+/**
+ * Parse `npm pack --dry-run --json` output.
+ *
+ * @returns The listing of the first packed entry, or `null` when the output
+ *   is not the expected JSON.
+ *
+ * @internal
+ */
+export const parsePackListing = (stdout: string): PackListing | null => {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(stdout);
+	} catch {
+		return null;
+	}
+	const entry = Array.isArray(parsed) ? (parsed[0] as Record<string, unknown> | undefined) : undefined;
+	if (entry === undefined || !Array.isArray(entry.files)) return null;
+
+	const files = new Map<string, number>();
+	for (const f of entry.files as ReadonlyArray<{ path?: unknown; size?: unknown }>) {
+		if (typeof f.path === "string") files.set(f.path, typeof f.size === "number" ? f.size : 0);
+	}
+	return {
+		files,
+		packedBytes: typeof entry.size === "number" ? entry.size : null,
+		unpackedBytes: typeof entry.unpackedSize === "number" ? entry.unpackedSize : null,
+	};
+};
+
+/**
+ * The keys a package.json field exposes: subpaths for `exports`, command
+ * names for `bin`, globs for `files`.
+ */
+const fieldKeys = (field: TarballManifestChange["field"], value: unknown, packageName: string): string[] => {
+	if (value === undefined || value === null) return [];
+	if (field === "files") return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+	if (typeof value === "string") {
+		// `"exports": "./index.js"` is the root export; `"bin": "./cli.js"`
+		// is a command named after the unscoped package.
+		return [field === "exports" ? "." : (packageName.split("/").pop() ?? packageName)];
+	}
+	if (typeof value !== "object" || Array.isArray(value)) return [];
+	const keys = Object.keys(value);
+	// Conditional-only exports (`{ "import": …, "require": … }`) are the root export.
+	if (field === "exports" && keys.length > 0 && !keys.some((k) => k.startsWith("."))) return ["."];
+	return keys;
+};
+
+/**
+ * Diff two pack listings and their package.json manifests.
+ *
+ * @param packageName - The package name, used to name a string-form `bin`.
+ * @param previousVersion - The version `previous` was published as.
+ * @param previous - Listing of the published tarball.
+ * @param next - Listing of the tarball this build would publish.
+ * @param previousManifest - The published version's package.json.
+ * @param nextManifest - The build's package.json.
+ *
+ * @public
+ */
+export const diffTarballs = (
+	packageName: string,
+	previousVersion: string,
+	previous: PackListing,
+	next: PackListing,
+	previousManifest: Readonly<Record<string, unknown>>,
+	nextManifest: Readonly<Record<string, unknown>>,
+): TarballDiff => {
+	const added = [...next.files.keys()].filter((p) => !previous.files.has(p)).sort();
+	const removed = [...previous.files.keys()].filter((p) => !next.files.has(p)).sort();
+	const changed = [...next.files]
+		.filter(([p, bytes]) => previous.files.has(p) && previous.files.get(p) !== bytes)
+		.map(([path, bytes]) => ({ path, previousBytes: previous.files.get(path) ?? 0, bytes }))
+		.sort((a, b) => a.path.localeCompare(b.path));
+
+	const manifestChanges: TarballManifestChange[] = [];
+	for (const field of ["exports", "bin", "files"] as const) {
+		if (JSON.stringify(previousManifest[field]) === JSON.stringify(nextManifest[field])) continue;
+		const before = fieldKeys(field, previousManifest[field], packageName);
+		const after = fieldKeys(field, nextManifest[field], packageName);
+		manifestChanges.push({
+			field,
+			added: after.filter((k) => !before.includes(k)),
+			removed: before.filter((k) => !after.includes(k)),
+		});
+	}
+
+	return {
+		previousVersion,
+		added,
+		removed,
+		changed,
+		packedBytesDelta:
+			previous.packedBytes !== null && next.packedBytes !== null ? next.packedBytes - previous.packedBytes : null,
+		unpackedBytesDelta:
+			previous.unpackedBytes !== null && next.unpackedBytes !== null
+				? next.unpackedBytes - previous.unpackedBytes
+				: null,
+		manifestChanges,
+	};
+};
+
+/**
+ * Whether going from `from` to `to` is a semver-major bump — where removing
+ * files and entry points is expected. In `0.x`, a minor bump counts.
+ */
+const isMajorBump = (from: string, to: string): boolean => {
+	const [fromMajor, fromMinor] = from.split(".").map(Number);
+	const [toMajor, toMinor] = to.split(".").map(Number);
+	if (fromMajor === undefined || toMajor === undefined || Number.isNaN(fromMajor) || Number.isNaN(toMajor)) {
+		return false;
+	}
+	if (toMajor !== fromMajor) return true;
+	return fromMajor === 0 && toMinor !== fromMinor;
+};
+
+const listed = (items: ReadonlyArray<string>): string =>
+	items.length > MAX_LISTED
+		? `${items.slice(0, MAX_LISTED).join(", ")} and ${items.length - MAX_LISTED} more`
+		: items.join(", ");
+
+/**
+ * Warnings for a build's diff: files, exports, or bins that disappeared on
+ * a non-major bump. A major bump records the diff without warning.
+ *
+ * @public
+ */
+export const tarballDiffFindings = (
+	packageName: string,
+	version: string,
+	directory: string,
+	diff: TarballDiff,
+): ReadonlyArray<ValidationFinding> => {
+	if (isMajorBump(diff.previousVersion, version)) return [];
+	const scope = { package: packageName, directory };
+	const findings: ValidationFinding[] = [];
+	if (diff.removed.length > 0) {
+		findings.push({
+			severity: "warning",
+			check: TARBALL_DIFF_CHECK,
+			scope,
+			message: `${diff.removed.length} file(s) removed since ${diff.previousVersion} on a non-major bump: ${listed(diff.removed)}`,
+		});
+	}
+	for (const change of diff.manifestChanges) {
+		if (change.field === "files" || change.removed.length === 0) continue;
+		findings.push({
+			severity: "warning",
+			check: TARBALL_DIFF_CHECK,
+			scope,
+			message: `\`${change.field}\` entries removed since ${diff.previousVersion} on a non-major bump: ${listed(change.removed)}`,
+		});
+	}
+	return findings;
+};
+
+const readManifest = (directory: string): Record<string, unknown> | null => {
+	const path = join(directory, "package.json");
+	if (!existsSync(path)) return null;
+	try {
+		return JSON.parse(readFileSync(path, "utf8")) as Record<string, unknown>;
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Diff the build in `absoluteDirectory` against `packageName@previousVersion`
+ * as published on `registry`.
+ *
+ * @remarks
+ * Lists the local build with `npm pack --dry-run --json --ignore-scripts`
+ * (run in the build directory), the published tarball with the same command
+ * against the registry spec, and reads the published package.json with
+ * `npm view --json`. Registry auth comes from the `~/.npmrc` entry the
+ * dry-run already set up.
+ *
+ * @returns The diff, or `null` when any listing is unavailable.
+ *
+ * @public
+ */
+export const computeTarballDiff = (
+	packageName: string,
+	previousVersion: string,
+	absoluteDirectory: string,
+	registry: string,
+): Effect.Effect<TarballDiff | null, never, CommandRunner> =>
+	Effect.gen(function* () {
+		const runner = yield* CommandRunner;
+		const spec = `${packageName}@${previousVersion}`;
+		const capture = (args: ReadonlyArray<string>, cwd?: string) =>
+			runner.execCapture("npm", [...args], cwd !== undefined ? { cwd } : undefined).pipe(
+				Effect.map((r) => r.stdout),
+				Effect.catchAll((e) =>
+					Effect.logDebug(`[tarball-diff] npm ${args.join(" ")} failed: ${e.stderr ?? e.message}`).pipe(
+						Effect.as(null),
+					),
+				),
+			);
+
+		const nextOut = yield* capture(["pack", "--dry-run", "--json", "--ignore-scripts"], absoluteDirectory);
+		const previousOut = yield* capture(["pack", spec, "--dry-run", "--json", "--registry", registry]);
+		const viewOut = yield* capture(["view", spec, "--json", "--registry", registry]);
+
+		const next = nextOut !== null ? parsePackListing(nextOut) : null;
+		const previous = previousOut !== null ? parsePackListing(previousOut) : null;
+		const nextManifest = readManifest(absoluteDirectory);
+		let previousManifest: Record<string, unknown> | null = null;
+		try {
+			const parsed: unknown = viewOut !== null ? JSON.parse(viewOut) : null;
+			if (parsed !== null && typeof parsed === "object" && !Array.isArray(parsed)) {
+				previousManifest = parsed as Record<string, unknown>;
+			}
+		} catch {
+			previousManifest = null;
+		}
+
+		if (next === null || previous === null || nextManifest === null || previousManifest === null) {
+			yield* Effect.logDebug(`[tarball-diff] ${spec}: no comparable listing; skipping diff`);
+			return null;
+		}
+		return diffTarballs(packageName, previousVersion, previous, next, previousManifest, nextManifest);
+	});
+
+/**
+ * One-line outcome for the `Tarball Diff` checks-table row.
+ *
+ * @public
+ */
+export const summarizeTarballDiffs = (packages: ReadonlyArray<ValidationPackageResult>): string => {
+	const diffs = packages.flatMap((p) => p.builds.flatMap((b) => (b.tarballDiff ? [b.tarballDiff] : [])));
+	if (diffs.length === 0) return "No previous version to compare";
+	const added = diffs.reduce((n, d) => n + d.added.length, 0);
+	const removed = diffs.reduce((n, d) => n + d.removed.length, 0);
+	const changed = diffs.reduce((n, d) => n + d.changed.length, 0);
+	return `${diffs.length} build(s) compared · +${added} / −${removed} file(s), ${changed} resized`;
+};
@@ -32,9 +32,10 @@ export interface TargetPublishResult {
 	 * Per-target skip reason. Lifted onto the target level so a fully-
 	 * recovered run can report which targets were recovered (the package-
 	 * level `PublishPackage.skipReason` only fires when every target was
-	 * skipped).
+	 * skipped). `resumed` marks a target a previous attempt completed,
+	 * carried over from the publish manifest.
 	 */
-	skipReason?: "already-published-identical" | undefined;
+	skipReason?: "already-published-identical" | "resumed" | undefined;
 	/**
 	 * Pair of digests when the orchestrator made a recovery decision — both
 	 * `status: "skipped"` with `skipReason: "already-published-identical"`
@@ -101,6 +102,54 @@ export interface TargetPublishResult {
 				readonly sbom: boolean;
 		  }
 		| undefined;
+	/**
+	 * Dist-tag changes this run made for the target, in order: the tag the
+	 * version was published under, then any post-publish promotion.
+	 * Absent (or empty) when no tag moved — a failed target, a recovery
+	 * skip, or a JSR target.
+	 */
+	distTags?: ReadonlyArray<DistTagChange> | undefined;
+	/**
+	 * Post-publish visibility check (`verify-publish` input). Absent when
+	 * verification is disabled or the target was not freshly published.
+	 */
+	verification?: PublishVerification | undefined;
+}
+
+/**
+ * Outcome of polling a registry for a freshly-published version.
+ *
+ * @public
+ */
+export interface PublishVerification {
+	/**
+	 * `verified` — the registry serves the version with the packed integrity;
+	 * `timeout` — it did not serve the version before the timeout;
+	 * `mismatch` — it serves the version with a different integrity.
+	 */
+	readonly status: "verified" | "timeout" | "mismatch";
+	/** Milliseconds from the first probe to the last. */
+	readonly latencyMs: number;
+	/** Number of registry probes made. */
+	readonly attempts: number;
+	/** Integrity the registry reported, when it served the version. */
+	readonly remoteDigest?: string | undefined;
+}
+
+/**
+ * A dist-tag change recorded on a {@link TargetPublishResult}.
+ *
+ * @public
+ */
+export interface DistTagChange {
+	/** The dist-tag that was (or should have been) pointed at the version. */
+	readonly tag: string;
+	/** `publish` — set by the publish itself; `promote` — moved afterwards by `npm dist-tag add`. */
+	readonly source: "publish" | "promote";
+	/** Whether the tag now points at the published version. */
+	readonly status: "applied" | "failed";
+	/** Error message when `status` is `failed`. */
+	readonly error?: string | undefined;
 }
 
 /**
@@ -239,6 +288,105 @@ export interface PackageBuildResult {
 	readonly sbom: BuildSbom | null;
 	/** Registry targets that publish this build. */
 	readonly targets: ReadonlyArray<BuildTargetResult>;
+	/**
+	 * Content diff against the base version's published tarball; absent or
+	 * `null` for a new package or when no comparable listing was available.
+	 */
+	readonly tarballDiff?: TarballDiff | null | undefined;
+	/**
+	 * API Extractor model diff against the base version's `.api.json`; absent
+	 * or `null` when either model was unavailable.
+	 */
+	readonly apiDiff?: ApiDiff | null | undefined;
+	/**
+	 * Outcome of installing the packed tarball into a scratch project and
+	 * loading its entry points; absent or `null` when the build was not packed.
+	 */
+	readonly smokeTest?: SmokeTestResult | null | undefined;
+}
+
+/**
+ * A changed `exports` / `bin` / `files` entry in a build's package.json.
+ *
+ * @public
+ */
+export interface TarballManifestChange {
+	/** The package.json field that changed. */
+	readonly field: "exports" | "bin" | "files";
+	/** Subpaths, command names, or globs the build adds. */
+	readonly added: ReadonlyArray<string>;
+	/** Subpaths, command names, or globs the build drops. */
+	readonly removed: ReadonlyArray<string>;
+}
+
+/**
+ * File-level diff of a build's tarball against the previously published one.
+ *
+ * @public
+ */
+export interface TarballDiff {
+	/** The published version the build was compared against. */
+	readonly previousVersion: string;
+	/** Paths only in the new tarball. */
+	readonly added: ReadonlyArray<string>;
+	/** Paths only in the published tarball. */
+	readonly removed: ReadonlyArray<string>;
+	/** Paths in both whose size changed. */
+	readonly changed: ReadonlyArray<{ readonly path: string; readonly previousBytes: number; readonly bytes: number }>;
+	/** Packed size change in bytes, or `null` when either size is unknown. */
+	readonly packedBytesDelta: number | null;
+	/** Unpacked size change in bytes, or `null` when either size is unknown. */
+	readonly unpackedBytesDelta: number | null;
+	/** Changed `exports` / `bin` / `files` entries. */
+	readonly manifestChanges: ReadonlyArray<TarballManifestChange>;
+}
+
+/**
+ * One changed declaration between two API Extractor models.
+ *
+ * @remarks
+ * `breaking` — a public declaration was removed or demoted to `@internal`;
+ * `possibly-breaking` — a public declaration's signature changed in a way
+ * that may or may not be compatible; `additive` — a public declaration was
+ * added or promoted, or only gained optional parameters; `internal` — only
+ * `@internal` declarations are involved.
+ *
+ * @public
+ */
+export interface ApiChange {
+	/** How the change affects consumers. */
+	readonly kind: "breaking" | "possibly-breaking" | "additive" | "internal";
+	/** What happened to the declaration. */
+	readonly change: "added" | "removed" | "changed";
+	/** The declaration's API Extractor canonical reference (e.g. `@scope/pkg!parse:function(1)`). */
+	readonly reference: string;
+}
+
+/**
+ * Declaration-level diff of a build's API Extractor model against the
+ * previously published one.
+ *
+ * @public
+ */
+export interface ApiDiff {
+	/** The published version the build was compared against. */
+	readonly previousVersion: string;
+	/** Changed declarations, breaking ones first. */
+	readonly changes: ReadonlyArray<ApiChange>;
+}
+
+/**
+ * Outcome of a build's installability smoke test.
+ *
+ * @public
+ */
+export interface SmokeTestResult {
+	/** Entry-point loads attempted (`import` and `require` counted separately). */
+	readonly entries: number;
+	/** `bin` commands run with `--help`. */
+	readonly bins: number;
+	/** Failed installs, loads, and commands. */
+	readonly failures: number;
 }
 
 /**
@@ -306,6 +454,20 @@ export interface ReleaseInfo {
 	assets: AssetInfo[];
 }
 
+/**
+ * A floating major or major.minor tag moved onto a release commit
+ *
+ * @public
+ */
+export interface FloatingTagInfo {
+	/** Floating tag name (e.g. `v2` or `v2.3`) */
+	name: string;
+	/** The exact-version tag it now points at alongside */
+	tag: string;
+	/** Commit the floating tag pointed at before the move; `null` when it was created */
+	previousSha: string | null;
+}
+
 /**
  * Information about an uploaded asset
  *
@@ -16,7 +16,7 @@ import {
 	PackagePublishTest,
 	SbomTest,
 } from "@savvy-web/github-action-effects/testing";
-import { Effect, Layer } from "effect";
+import { ConfigProvider, Effect, Layer } from "effect";
 import { describe, expect, it } from "vitest";
 import { PublishTarget, PublishabilityDetector, WorkspaceDiscovery, WorkspacePackage } from "workspaces-effect";
 
@@ -557,6 +557,8 @@ describe("runValidation", () => {
 			expect(report.publishOk).toBe(true);
 			expect(report.packages).toHaveLength(1);
 			expect(report.packages[0]?.name).toBe("@test/counted");
+			// The minor changeset matches the 2.0.0 → 2.1.0 bump.
+			expect(report.findings.filter((f) => f.check === "Bump Consistency")).toEqual([]);
 		});
 
 		it("runs to completion when git ls-tree for changesets fails (best-effort)", async () => {
@@ -1155,4 +1157,77 @@ describe("runValidation", () => {
 			expect(noComponentsWarning).toBeUndefined();
 		});
 	});
+
+	describe("registry auth", () => {
+		const CUSTOM = "https://registry.example.com/";
+
+		const authLayers = (name: string, relativePath: string) => {
+			const pkg = makeWsPkg(name, "1.1.0", relativePath);
+			const target = new PublishTarget({
+				name,
+				registry: CUSTOM,
+				directory: "/tmp/dist/custom",
+				access: "public",
+				provenance: false,
+			});
+			const commandResponses = new Map<string, CommandResponse>([
+				[
+					`git show main:${relativePath}/package.json`,
+					{ exitCode: 0, stdout: JSON.stringify({ name, version: "1.0.0" }), stderr: "" },
+				],
+				[`npm ping --registry ${CUSTOM}`, { exitCode: 0, stdout: "", stderr: "" }],
+			]);
+			const { layer: pubLayer } = PackagePublishTest.empty();
+			return Layer.mergeAll(
+				loggerLayer,
+				actionStateLayer,
+				makeCommandRunnerLayer(commandResponses),
+				pubLayer,
+				npmRegistryLayer,
+				sbomLayer,
+				attestLayer,
+				makeWorkspaceDiscoveryLayer([pkg]),
+				makePublishabilityLayer(new Map([[name, [target]]])),
+			);
+		};
+
+		it("reports a custom registry with no credential before any publish", async () => {
+			const report = await Effect.runPromise(
+				runValidation({ packageManager: "pnpm", targetBranch: "main", dryRun: false }).pipe(
+					Effect.provide(authLayers("@test/no-auth", "packages/no-auth")),
+				),
+			);
+
+			expect(report.publishOk).toBe(false);
+			expect(report.registryAuth?.missingTokens).toEqual([
+				{ registry: CUSTOM, tokenEnv: "REGISTRY_EXAMPLE_COM_TOKEN" },
+			]);
+			expect(report.registryAuth?.unreachableRegistries).toEqual([]);
+			const authError = report.findings.find((f) => f.message.startsWith("no credential"));
+			expect(authError).toMatchObject({
+				severity: "error",
+				check: "Publish Validation",
+				scope: { package: "@test/no-auth" },
+			});
+		});
+
+		it("takes the credential from the custom-registries input", async () => {
+			const report = await Effect.runPromise(
+				runValidation({ packageManager: "pnpm", targetBranch: "main", dryRun: false }).pipe(
+					Effect.provide(authLayers("@test/custom-auth", "packages/custom-auth")),
+					Effect.withConfigProvider(
+						ConfigProvider.fromMap(new Map([["custom-registries", `${CUSTOM}_authToken=npm_abc123`]])),
+					),
+				),
+			);
+
+			expect(report.registryAuth).toEqual({
+				success: true,
+				configuredRegistries: [CUSTOM],
+				missingTokens: [],
+				unreachableRegistries: [],
+			});
+			expect(report.findings.filter((f) => f.message.startsWith("no credential"))).toEqual([]);
+		});
+	});
 });
@@ -26,21 +26,38 @@ import {
 	PackagePublish,
 	Sbom,
 	isGitHubPackagesRegistry,
+	isJsrRegistry,
 	isNpmRegistry,
 } from "@savvy-web/github-action-effects";
 import { Config, Effect, Option } from "effect";
 import type { PublishTarget, WorkspacePackage } from "workspaces-effect";
 import { WorkspaceDiscovery } from "workspaces-effect";
+import type { LicensePolicy, SizeBudget } from "../schema/silk-release-config.js";
 import { GithubPackagesTokenState, STATE_KEYS } from "../state.js";
+import type { AuthSetupResult } from "../types/publish-config.js";
 import type { EnhancedCycloneDXDocument, ResolvedSBOMMetadata, SBOMMetadataConfig } from "../types/sbom-config.js";
-import { countChangesetsPerPackage } from "../utils/count-changesets.js";
+import { readChangesetBumps, tallyChangesets } from "../utils/count-changesets.js";
+import { isMonorepoForTagging } from "../utils/determine-tag-strategy.js";
 import { extractReleaseNotes } from "../utils/extract-release-notes.js";
 import { inferSBOMMetadata, resolveSBOMMetadata } from "../utils/infer-sbom-metadata.js";
 import type { ConfigSource } from "../utils/load-release-config.js";
-import { loadSBOMConfig } from "../utils/load-release-config.js";
+import { checkReleaseNotesTemplate, loadReleaseConfig, loadTagNaming } from "../utils/load-release-config.js";
+import { readChangesetConfig } from "../utils/release-summary-helpers.js";
+import { renderTagName, resolveTagTemplate } from "../utils/tag-template.js";
 import { validateNTIACompliance } from "../utils/validate-ntia-compliance.js";
+import { apiDiffFindings, computeApiDiff } from "./api-diff.js";
+import type { AuthSources, AuthTarget } from "./auth.js";
+import { applyCredential, checkRegistryAuth, parseCustomRegistries, resolveCredential } from "./auth.js";
+import { checkBudget, resolveBudget } from "./budgets.js";
+import { bumpConsistencyFindings, expectedBumps, readDependencyNames } from "./bump-consistency.js";
 import { ValidationError } from "./errors.js";
-import { pickToken, resolvePublishableTargets } from "./resolve-targets.js";
+import type { LicenseVerdict } from "./license-policy.js";
+import { checkLicenses, licenseFindings } from "./license-policy.js";
+import { lintBuiltPackage } from "./package-lint.js";
+import { readTargetTokenEnvs, targetTokenEnvKey } from "./publishability.js";
+import { resolvePublishableTargets } from "./resolve-targets.js";
+import { runSmokeTest } from "./smoke-test.js";
+import { computeTarballDiff, tarballDiffFindings } from "./tarball-diff.js";
 import type {
 	BuildSbom,
 	BuildTargetResult,
@@ -121,6 +138,21 @@ export interface ValidationReport {
 	 * config is never consulted.
 	 */
 	readonly sbomConfigSource: ConfigSource | null;
+	/**
+	 * License verdicts for each build's SBOM components, keyed like
+	 * `resolvedSbomConfig`. Rendered on the SBOM Preview check-run summary;
+	 * empty when no `licensePolicy` is configured.
+	 */
+	readonly licenseReport: ReadonlyMap<string, ReadonlyArray<LicenseVerdict>>;
+	/**
+	 * The up-front registry auth check: which registries have a credential,
+	 * which targets lack one, and which custom registries did not answer.
+	 * Each problem is also a `Publish Validation` finding; `main.ts` renders
+	 * the whole report after the Publish Validation check-run summary.
+	 *
+	 * `null` only for the early-return path (no released packages).
+	 */
+	readonly registryAuth: AuthSetupResult | null;
 }
 
 // ─── Internal types ───────────────────────────────────────────────────────────
@@ -408,8 +440,17 @@ export const runValidation = (args: ValidationInputArgs) =>
 		const ghPkgsToken: string | null =
 			Option.isSome(ghPkgsTokenOpt) && ghPkgsTokenOpt.value.token !== "" ? ghPkgsTokenOpt.value.token : null;
 
-		// ── Resolve the SBOM metadata template once ──────────────────────────
-		// `loadSBOMConfig` looks up `.github/silk-release.json`, then the
+		// Custom registries: the `custom-registries` input, one registry per line.
+		const customRegistries = parseCustomRegistries(
+			yield* Config.string("custom-registries").pipe(Config.withDefault("")),
+		);
+		const auth: AuthSources = { npmToken, ghPkgsToken, customRegistries, env: process.env };
+
+		// The install smoke test hits the registry for every build; opt-in.
+		const smokeTestEnabled = yield* Config.boolean("smoke-test").pipe(Config.withDefault(false));
+
+		// ── Resolve the release config (SBOM template, size budgets) once ────
+		// `loadReleaseConfig` looks up `.github/silk-release.json`, then the
 		// `sbom-config` action input (read via `Config.string("sbom-config")`
 		// under the ambient `ActionsConfigProvider`, which uses the canonical
 		// GitHub Actions env-var convention `INPUT_SBOM-CONFIG` — hyphens
@@ -418,8 +459,9 @@ export const runValidation = (args: ValidationInputArgs) =>
 		// through the `SilkReleaseConfig` Effect Schema; a decode failure
 		// returns `{ ok: false, error }` so the SBOM step can record a warning
 		// finding and proceed with an empty resolved metadata (preserving the
-		// "continue on bad template" behaviour of the prior cast).
-		const sbomConfigResult = yield* loadSBOMConfig().pipe(
+		// "continue on bad template" behaviour of the prior cast) and no
+		// budgets.
+		const sbomConfigResult = yield* loadReleaseConfig().pipe(
 			Effect.catchAllDefect((e) => {
 				const message = e instanceof Error ? e.message : String(e);
 				return Effect.succeed({ ok: false as const, error: message, source: { source: "none" as const } });
@@ -427,12 +469,16 @@ export const runValidation = (args: ValidationInputArgs) =>
 		);
 
 		let sbomConfig: SBOMMetadataConfig | undefined;
-		const sbomConfigFindings: ValidationFinding[] = [];
+		let budgets: ReadonlyArray<SizeBudget> = [];
+		let licensePolicy: LicensePolicy | undefined;
+		const configFindings: ValidationFinding[] = [];
 		if (sbomConfigResult.ok) {
-			sbomConfig = sbomConfigResult.config;
+			sbomConfig = sbomConfigResult.config?.sbom;
+			budgets = sbomConfigResult.config?.budgets ?? [];
+			licensePolicy = sbomConfigResult.config?.licensePolicy;
 		} else {
 			sbomConfig = undefined;
-			sbomConfigFindings.push({
+			configFindings.push({
 				severity: "warning",
 				check: "SBOM Preview",
 				scope: null,
@@ -441,6 +487,21 @@ export const runValidation = (args: ValidationInputArgs) =>
 			yield* Effect.logWarning(`sbom-config decode failed: ${sbomConfigResult.error}`);
 		}
 
+		// A release-notes template Phase 3 could not use falls back to the
+		// built-in notes there; say so here, while it can still be fixed.
+		const notesTemplatePath = sbomConfigResult.ok ? sbomConfigResult.config?.releaseNotes?.template : undefined;
+		if (notesTemplatePath !== undefined) {
+			const problem = yield* checkReleaseNotesTemplate(notesTemplatePath);
+			if (problem !== null) {
+				configFindings.push({
+					severity: "warning",
+					check: "Release Notes Preview",
+					scope: null,
+					message: `Release notes template ${problem}; releases will use the built-in notes`,
+				});
+			}
+		}
+
 		// ── Step 1: Discover workspace packages ──────────────────────────────
 
 		yield* Effect.logDebug("runValidation: discovering workspace packages");
@@ -505,9 +566,11 @@ export const runValidation = (args: ValidationInputArgs) =>
 				validationPackages: [],
 				sbomOk: true,
 				sbomSummary: "No packages require SBOM",
-				findings: [...sbomConfigFindings, noPackagesWarning],
+				findings: [...configFindings, noPackagesWarning],
 				resolvedSbomConfig: new Map<string, ResolvedSBOMMetadata>(),
 				sbomConfigSource: sbomConfigResult.source,
+				licenseReport: new Map<string, ReadonlyArray<LicenseVerdict>>(),
+				registryAuth: null,
 			} satisfies ValidationReport;
 		}
 
@@ -516,7 +579,7 @@ export const runValidation = (args: ValidationInputArgs) =>
 		// is preserved (the comment renderer reorders errors-before-warnings).
 		// Seeded with any sbom-config decode warning so the SBOM Preview check
 		// surfaces a malformed template up-front.
-		const findings: ValidationFinding[] = [...sbomConfigFindings];
+		const findings: ValidationFinding[] = [...configFindings];
 
 		// ── Step 3: Resolve targets, group into builds, dry-run + SBOM ────────
 
@@ -525,13 +588,36 @@ export const runValidation = (args: ValidationInputArgs) =>
 		// Per-package changeset counts read from the target branch's `.changeset`
 		// directory (still present there — Phase 1 consumed them only on the
 		// release branch). Best-effort: an empty map on any failure.
-		const changesetCounts = yield* countChangesetsPerPackage(runner, args.targetBranch);
+		const changesets = yield* readChangesetBumps(runner, args.targetBranch);
+		const changesetCounts = tallyChangesets(changesets);
+
+		// The same changesets, replayed through the fixed/linked groups and
+		// internal dependencies, give the bump each package should carry.
+		// Skipped when none could be read, since every bump would then look
+		// unexplained.
+		if (changesets.length > 0) {
+			const expected = expectedBumps(
+				changesets,
+				readChangesetConfig(),
+				new Map(workspacePackages.map((pkg) => [pkg.name, readDependencyNames(pkg.path)])),
+			);
+			findings.push(
+				...bumpConsistencyFindings(
+					expected,
+					releasedPackages.map(({ pkg, baseVersion }) => ({ name: pkg.name, version: pkg.version, baseVersion })),
+					new Set(workspacePackages.map((pkg) => pkg.name)),
+				),
+			);
+		}
 
 		const workspaceRoot = process.cwd();
 		const validationPackages: ValidationPackageResult[] = [];
 		// Per-build resolved SBOM metadata, keyed by `${pkg.name}:${build.directory}`.
 		// Debug-only — fed into the SBOM Preview check-run summary by `main.ts`.
 		const resolvedSbomConfig = new Map<string, ResolvedSBOMMetadata>();
+		// Per-build license verdicts, same keys; populated only under a
+		// `licensePolicy`.
+		const licenseReport = new Map<string, ReadonlyArray<LicenseVerdict>>();
 		let allPublishOk = true;
 		let npmReadyAll = true;
 		let githubPackagesReadyAll = true;
@@ -541,10 +627,58 @@ export const runValidation = (args: ValidationInputArgs) =>
 		let sbomCount = 0;
 		let sbomSuccess = 0;
 
+		// Resolve publish targets, then drop any whose built `package.json` is
+		// `private` — validation only exercises what will actually be published.
+		const targetsByPackage = new Map<string, ReadonlyArray<PublishTarget>>();
+		for (const { pkg } of releasedPackages) {
+			targetsByPackage.set(pkg.name, yield* resolvePublishableTargets(pkg, workspaceRoot));
+		}
+
+		// The npm-compatible build directory of each released package — the
+		// smoke test installs every released package from these instead of
+		// the registry.
+		const smokeSiblings = new Map<string, string>();
+		for (const { pkg } of releasedPackages) {
+			const npmBuild = groupTargetsIntoBuilds(pkg, targetsByPackage.get(pkg.name) ?? []).find((b) =>
+				b.targets.some((t) => !isJsrRegistry(t.registry)),
+			);
+			if (npmBuild !== undefined) smokeSiblings.set(pkg.name, npmBuild.absoluteDirectory);
+		}
+
+		// ── Registry auth, up front ──────────────────────────────────────────
+		// Every target's credential is resolved before any dry-run, so a
+		// missing token fails this PR's validation rather than the merge-time
+		// publish.
+		const authTargets: AuthTarget[] = [];
+		const tokenEnvsByPackage = new Map<string, ReadonlyMap<string, string>>();
+		for (const { pkg } of releasedPackages) {
+			const tokenEnvs = readTargetTokenEnvs(pkg.path);
+			tokenEnvsByPackage.set(pkg.name, tokenEnvs);
+			for (const build of groupTargetsIntoBuilds(pkg, targetsByPackage.get(pkg.name) ?? [])) {
+				for (const target of build.targets) {
+					authTargets.push({
+						packageName: pkg.name,
+						directory: build.directory,
+						registry: target.registry,
+						tokenEnv: tokenEnvs.get(targetTokenEnvKey(target.registry, target.directory)) ?? null,
+					});
+				}
+			}
+		}
+		const authCheck = yield* logger.group("Registry auth", checkRegistryAuth(authTargets, auth));
+		findings.push(...authCheck.findings);
+		if (authCheck.result.missingTokens.length > 0) {
+			allPublishOk = false;
+		}
+
+		// The base version's release tag, for reading its API model from git
+		// when the published tarball does not carry one.
+		const tagNaming = yield* loadTagNaming();
+		const tagStrategy = isMonorepoForTagging() ? "multiple" : "single";
+
 		for (const { pkg, baseVersion } of releasedPackages) {
-			// Resolve publish targets, then drop any whose built `package.json` is
-			// `private` — validation only exercises what will actually be published.
-			const targets = yield* resolvePublishableTargets(pkg, workspaceRoot);
+			const targets = targetsByPackage.get(pkg.name) ?? [];
+			const tokenEnvs = tokenEnvsByPackage.get(pkg.name) ?? new Map<string, string>();
 
 			// Read the CHANGELOG.md `changeset version` already wrote — the
 			// release branch carries the per-version section. The extractor
@@ -573,6 +707,11 @@ export const runValidation = (args: ValidationInputArgs) =>
 			for (const build of builds) {
 				const distDir = basename(build.directory);
 
+				// ── Per-build package.json lint ────────────────────────────────
+				// Entry points, bins, and dependency ranges of the manifest that
+				// ships — problems a dry-run publish does not catch.
+				findings.push(...lintBuiltPackage(pkg.name, build.directory, build.absoluteDirectory, pkg.path));
+
 				// ── Per-build dry-run (one per directory) ──────────────────────
 				// The tarball is a property of the directory: identical across the
 				// registries publishing it. Run the dry-run once; the first target's
@@ -587,16 +726,14 @@ export const runValidation = (args: ValidationInputArgs) =>
 
 						// Set up auth for the sizing target's registry before the dry-run.
 						if (sizingTarget !== undefined) {
-							const token = pickToken(sizingTarget.registry, npmToken, ghPkgsToken);
-							if (token !== null) {
-								yield* publish
-									.setupAuth(sizingTarget.registry, token)
-									.pipe(
-										Effect.catchAll((e: PackagePublishError) =>
-											Effect.logWarning(`setupAuth failed for ${sizingTarget.registry}: ${e.message}`),
-										),
-									);
-							}
+							yield* applyCredential(
+								sizingTarget.registry,
+								resolveCredential(
+									sizingTarget.registry,
+									tokenEnvs.get(targetTokenEnvKey(sizingTarget.registry, sizingTarget.directory)) ?? null,
+									auth,
+								),
+							);
 						}
 
 						yield* Effect.logDebug(`npm publish --dry-run in ${build.absoluteDirectory}`);
@@ -673,6 +810,53 @@ export const runValidation = (args: ValidationInputArgs) =>
 					}
 				}
 
+				// ── Per-build tarball diff against the base version ────────────
+				// Only for a build that packs and a package that existed before;
+				// compared on the first npm-compatible registry the build targets.
+				const diffRegistry = build.targets.find((t) => !isJsrRegistry(t.registry))?.registry;
+				const tarballDiff =
+					dryRunOutcome.success && baseVersion !== null && diffRegistry !== undefined
+						? yield* logger.group(
+								`Tarball diff · ${pkg.name} · ${distDir}`,
+								computeTarballDiff(pkg.name, baseVersion, build.absoluteDirectory, diffRegistry),
+							)
+						: null;
+				if (tarballDiff !== null) {
+					findings.push(...tarballDiffFindings(pkg.name, pkg.version, build.directory, tarballDiff));
+				}
+
+				// ── Per-build API model diff against the base version ──────────
+				const apiDiff =
+					dryRunOutcome.success && baseVersion !== null && diffRegistry !== undefined
+						? yield* logger.group(
+								`API diff · ${pkg.name} · ${distDir}`,
+								computeApiDiff(
+									pkg.name,
+									baseVersion,
+									build.absoluteDirectory,
+									diffRegistry,
+									renderTagName(resolveTagTemplate(tagNaming, pkg.name, tagStrategy), pkg.name, baseVersion),
+								),
+							)
+						: null;
+				if (apiDiff !== null) {
+					findings.push(...apiDiffFindings(pkg.name, pkg.version, build.directory, apiDiff));
+				}
+
+				// ── Per-build install smoke test ───────────────────────────────
+				// With `smoke-test`, installs the packed tarball into a scratch
+				// project and loads every entry point and bin, as a consumer would.
+				const smokeTest =
+					smokeTestEnabled && dryRunOutcome.success && diffRegistry !== undefined
+						? yield* logger.group(
+								`Smoke test · ${pkg.name} · ${distDir}`,
+								runSmokeTest(pkg.name, build.directory, build.absoluteDirectory, smokeSiblings, diffRegistry),
+							)
+						: null;
+				if (smokeTest !== null) {
+					findings.push(...smokeTest.findings);
+				}
+
 				// ── Per-build SBOM (one per directory) ─────────────────────────
 				// Dependencies come from the built `dist/<dir>/package.json` — the
 				// artifact that actually ships. The resolved `sbom-config` metadata
@@ -745,7 +929,12 @@ export const runValidation = (args: ValidationInputArgs) =>
 											};
 										}
 
-										return { ok: true as const, sbom, findings: sbomFindings };
+										return {
+											ok: true as const,
+											sbom,
+											findings: sbomFindings,
+											components: document?.components ?? [],
+										};
 									}),
 								),
 								Effect.catchAll((e: SbomError) =>
@@ -754,6 +943,7 @@ export const runValidation = (args: ValidationInputArgs) =>
 										return {
 											ok: false as const,
 											sbom: null as BuildSbom | null,
+											components: [],
 											findings: [
 												{
 													severity: "error" as const,
@@ -776,14 +966,35 @@ export const runValidation = (args: ValidationInputArgs) =>
 					sbomOk = false;
 				}
 
-				buildResults.push({
+				// ── License compliance of the BOM's components ────────────────
+				if (licensePolicy !== undefined && sbomOutcome.ok) {
+					const verdicts = checkLicenses(licensePolicy, sbomOutcome.components, [
+						build.absoluteDirectory,
+						pkg.path,
+						workspaceRoot,
+					]);
+					licenseReport.set(`${pkg.name}:${build.directory}`, verdicts);
+					findings.push(...licenseFindings(pkg.name, build.directory, verdicts));
+				}
+
+				const buildResult: PackageBuildResult = {
 					directory: build.directory,
 					packedBytes: dryRunOutcome.packedSize ?? null,
 					unpackedBytes: dryRunOutcome.unpackedSize ?? null,
 					fileCount: dryRunOutcome.fileCount ?? null,
 					sbom: sbomOutcome.sbom,
 					targets: targetResults,
-				});
+					tarballDiff,
+					apiDiff,
+					smokeTest: smokeTest?.result ?? null,
+				};
+				buildResults.push(buildResult);
+
+				// ── Size budget ───────────────────────────────────────────────
+				const budget = resolveBudget(budgets, pkg.name);
+				if (budget !== null && dryRunOutcome.success) {
+					findings.push(...checkBudget(pkg.name, buildResult, budget));
+				}
 			}
 
 			validationPackages.push({
@@ -831,5 +1042,7 @@ export const runValidation = (args: ValidationInputArgs) =>
 			findings,
 			resolvedSbomConfig,
 			sbomConfigSource: sbomConfigResult.source,
+			licenseReport,
+			registryAuth: authCheck.result,
 		} satisfies ValidationReport;
 	});
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for post-publish verification (`release/verify`).
+ */
+
+import { NpmRegistryTest } from "@savvy-web/github-action-effects/testing";
+import { Duration, Effect } from "effect";
+import { describe, expect, it } from "vitest";
+import type { VerifyOptions } from "./verify.js";
+import { verifyPublished } from "./verify.js";
+
+const NAME = "@test/pkg";
+const VERSION = "1.0.0";
+const REGISTRY = "https://registry.npmjs.org/";
+const DIGEST = "sha512-AAAA";
+
+const fast: VerifyOptions = {
+	timeout: Duration.millis(20),
+	initialDelay: Duration.millis(1),
+	maxDelay: Duration.millis(4),
+};
+
+const seeded = (integrity: string) =>
+	NpmRegistryTest.layer({
+		packages: new Map([[NAME, { versions: [VERSION], latest: VERSION, distTags: { latest: VERSION }, integrity }]]),
+	});
+
+describe("verifyPublished", () => {
+	it("verifies on the first probe when the registry serves the packed integrity", async () => {
+		const result = await Effect.runPromise(
+			verifyPublished(NAME, VERSION, REGISTRY, DIGEST, fast).pipe(Effect.provide(seeded(DIGEST))),
+		);
+		expect(result).toMatchObject({ status: "verified", attempts: 1, remoteDigest: DIGEST });
+	});
+
+	it("stops at once on an integrity mismatch", async () => {
+		const result = await Effect.runPromise(
+			verifyPublished(NAME, VERSION, REGISTRY, DIGEST, fast).pipe(Effect.provide(seeded("sha512-BBBB"))),
+		);
+		expect(result).toMatchObject({ status: "mismatch", attempts: 1, remoteDigest: "sha512-BBBB" });
+	});
+
+	it("backs off and times out when the version never appears", async () => {
+		const result = await Effect.runPromise(
+			verifyPublished(NAME, VERSION, REGISTRY, DIGEST, fast).pipe(Effect.provide(NpmRegistryTest.empty())),
+		);
+		expect(result.status).toBe("timeout");
+		expect(result.attempts).toBeGreaterThan(1);
+		expect(result.latencyMs).toBeGreaterThanOrEqual(20);
+	});
+});
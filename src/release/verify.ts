@@ -0,0 +1,100 @@
+/**
+ * Post-publish registry visibility verification.
+ *
+ * A registry can accept an upload and still not serve the version for
+ * minutes. With the `verify-publish` input set, every freshly-published npm
+ * target is polled through `NpmRegistry.getPublishedIntegrity` until the
+ * registry serves the version with the integrity of the tarball we packed,
+ * backing off exponentially between probes until a timeout.
+ *
+ * @module release/verify
+ */
+
+import { NpmRegistry } from "@savvy-web/github-action-effects";
+import { Clock, Duration, Effect, Option } from "effect";
+import type { PublishVerification } from "./types.js";
+
+/**
+ * Polling settings for {@link verifyPublished}.
+ *
+ * @public
+ */
+export interface VerifyOptions {
+	/** Give up once this much time has passed since the first probe. */
+	readonly timeout: Duration.Duration;
+	/** Wait before the second probe; doubled after every miss. */
+	readonly initialDelay: Duration.Duration;
+	/** Upper bound for the wait between probes. */
+	readonly maxDelay: Duration.Duration;
+}
+
+/**
+ * Default polling settings — the timeout comes from the
+ * `verify-publish-timeout` input.
+ *
+ * @public
+ */
+export const defaultVerifyOptions = (timeoutSeconds: number): VerifyOptions => ({
+	timeout: Duration.seconds(timeoutSeconds),
+	initialDelay: Duration.seconds(2),
+	maxDelay: Duration.seconds(30),
+});
+
+/**
+ * Poll `registry` until it serves `packageName@version` with `expectedIntegrity`.
+ *
+ * @remarks
+ * The first probe runs immediately. A probe that errors or finds no version
+ * counts as "not visible yet" and is retried; a probe that finds the version
+ * with a different integrity ends polling at once — the registry is serving
+ * other bytes than were uploaded, and waiting will not change that. The
+ * final wait is clamped so polling never overshoots the timeout.
+ *
+ * @param expectedIntegrity - The locally-packed tarball's integrity
+ *   (`sha512-<base64>`), as compared by the pre-publish probe.
+ * @returns The verification outcome; never fails.
+ *
+ * @public
+ */
+export const verifyPublished = (
+	packageName: string,
+	version: string,
+	registry: string,
+	expectedIntegrity: string,
+	options: VerifyOptions,
+): Effect.Effect<PublishVerification, never, NpmRegistry> =>
+	Effect.gen(function* () {
+		const registrySvc = yield* NpmRegistry;
+		const startedAt = yield* Clock.currentTimeMillis;
+		const timeoutMs = Duration.toMillis(options.timeout);
+		let delayMs = Duration.toMillis(options.initialDelay);
+		let attempts = 0;
+
+		while (true) {
+			attempts += 1;
+			const probe = yield* Effect.either(registrySvc.getPublishedIntegrity(packageName, version, { registry }));
+			const latencyMs = (yield* Clock.currentTimeMillis) - startedAt;
+
+			if (probe._tag === "Right" && Option.isSome(probe.right)) {
+				const remoteDigest = probe.right.value;
+				if (remoteDigest === expectedIntegrity) {
+					yield* Effect.logDebug(
+						`[verify] ${registry}: ${packageName}@${version} visible after ${latencyMs}ms (${attempts} probe(s))`,
+					);
+					return { status: "verified", latencyMs, attempts, remoteDigest } satisfies PublishVerification;
+				}
+				return { status: "mismatch", latencyMs, attempts, remoteDigest } satisfies PublishVerification;
+			}
+
+			if (probe._tag === "Left") {
+				yield* Effect.logDebug(`[verify] ${registry}: probe ${attempts} for ${packageName}@${version} failed`);
+			}
+
+			const remainingMs = timeoutMs - latencyMs;
+			if (remainingMs <= 0) {
+				return { status: "timeout", latencyMs, attempts } satisfies PublishVerification;
+			}
+			yield* Effect.sleep(Duration.millis(Math.min(delayMs, remainingMs)));
+			delayMs = Math.min(delayMs * 2, Duration.toMillis(options.maxDelay));
+		}
+	});
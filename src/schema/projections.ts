@@ -11,6 +11,7 @@
  */
 
 import type {
+	FloatingTagInfo,
 	PackagePublishResult,
 	PublishPackagesResult,
 	ReleaseInfo,
@@ -31,6 +32,8 @@ export interface BranchManagementInput {
 	readonly releasePr: { readonly number: number; readonly url: string; readonly action: "created" | "updated" } | null;
 	readonly changesets: ReadonlyArray<{ readonly name: string; readonly bumpType: "major" | "minor" | "patch" }>;
 	readonly dryRun: boolean;
+	/** Active Changesets pre tag; absent or `null` outside pre mode. */
+	readonly preTag?: string | null | undefined;
 }
 
 /**
@@ -54,6 +57,8 @@ export const toBranchManagementOutput = (input: BranchManagementInput): BranchMa
 		succeeded: flags.succeeded,
 		hasFailures: flags.hasFailures,
 		dryRun: input.dryRun,
+		preMode: (input.preTag ?? null) !== null,
+		preTag: input.preTag ?? null,
 		branchManagement: {
 			releaseBranch: {
 				name: input.releaseBranchName,
@@ -94,7 +99,7 @@ export interface ValidationInput {
 	readonly totalTargets: number;
 	/** Number of registry targets that passed dry-run. */
 	readonly readyTargets: number;
-	/** The five-row checks table outcomes. */
+	/** The checks table outcomes, one row per validation check. */
 	readonly checks: ReadonlyArray<ValidationCheckInput>;
 	/** Every non-pass outcome the validation checks produced. */
 	readonly findings: ReadonlyArray<ValidationFinding>;
@@ -106,6 +111,8 @@ export interface ValidationInput {
 		readonly conclusion: "success" | "failure" | "neutral" | "cancelled" | "skipped" | "timed_out" | "action_required";
 	} | null;
 	readonly dryRun: boolean;
+	/** Active Changesets pre tag; absent or `null` outside pre mode. */
+	readonly preTag?: string | null | undefined;
 }
 
 /**
@@ -168,6 +175,26 @@ const toValidationPublishPackage = (
 				access: t.access,
 				provenance: t.provenance,
 			})),
+			tarballDiff:
+				build.tarballDiff == null
+					? null
+					: {
+							previousVersion: build.tarballDiff.previousVersion,
+							added: build.tarballDiff.added,
+							removed: build.tarballDiff.removed,
+							changed: build.tarballDiff.changed.map((c) => ({
+								path: c.path,
+								previousBytes: c.previousBytes,
+								bytes: c.bytes,
+							})),
+							packedBytesDelta: build.tarballDiff.packedBytesDelta,
+							unpackedBytesDelta: build.tarballDiff.unpackedBytesDelta,
+							manifestChanges: build.tarballDiff.manifestChanges.map((m) => ({
+								field: m.field,
+								added: m.added,
+								removed: m.removed,
+							})),
+						},
 		})),
 		releaseNotes: pkg.releaseNotes,
 	};
@@ -203,6 +230,8 @@ export const toValidationOutput = (input: ValidationInput): ValidationOutput =>
 		succeeded: flags.succeeded,
 		hasFailures: flags.hasFailures,
 		dryRun: input.dryRun,
+		preMode: (input.preTag ?? null) !== null,
+		preTag: input.preTag ?? null,
 		validation: {
 			buildValidation: { passed: input.buildsPassed, packageCount: input.packageCount },
 			checks: input.checks.map((c) => ({ name: c.name, status: c.status, outcome: c.outcome, url: c.url })),
@@ -231,7 +260,11 @@ export interface PublishingInput {
 	readonly releases: ReadonlyArray<ReleaseInfo>;
 	/** Resolved tag-name → commit SHA, keyed by `TagInfo.name`. */
 	readonly tagShas: Readonly<Record<string, string>>;
+	/** Floating tags moved by the release step; absent when none were. */
+	readonly floatingTags?: ReadonlyArray<FloatingTagInfo> | undefined;
 	readonly dryRun: boolean;
+	/** Active Changesets pre tag; absent or `null` outside pre mode. */
+	readonly preTag?: string | null | undefined;
 }
 
 type TargetStatus = "published" | "skipped" | "failed";
@@ -269,15 +302,17 @@ export const toPublishingOutput = (input: PublishingInput): PublishingOutput =>
 	const packages = input.publishResult.packages.map((pkg) => {
 		const targets = pkg.targets.map((t) => {
 			const status = classifyTarget(t);
-			// Per-target skip reason: only the "already-published-identical"
-			// literal is on the wire today. The orchestrator may set it
-			// directly (`t.skipReason`); legacy results infer it from the
-			// `alreadyPublishedReason: "identical"` field.
-			const skipReason: "already-published-identical" | null =
-				status === "skipped" &&
-				(t.skipReason === "already-published-identical" || t.alreadyPublishedReason === "identical")
-					? "already-published-identical"
-					: null;
+			// Per-target skip reason. The orchestrator may set it directly
+			// (`t.skipReason`); legacy results infer "already-published-identical"
+			// from the `alreadyPublishedReason: "identical"` field.
+			const skipReason: "already-published-identical" | "resumed" | null =
+				status !== "skipped"
+					? null
+					: t.skipReason === "resumed"
+						? "resumed"
+						: t.skipReason === "already-published-identical" || t.alreadyPublishedReason === "identical"
+							? "already-published-identical"
+							: null;
 			const recovery =
 				t.recovery !== undefined
 					? { localDigest: t.recovery.localDigest, remoteDigest: t.recovery.remoteDigest }
@@ -296,6 +331,20 @@ export const toPublishingOutput = (input: PublishingInput): PublishingOutput =>
 				error: status === "failed" ? (t.error ?? null) : null,
 				attestationRecovered,
 				sbomAttestationRecovered,
+				distTags: (t.distTags ?? []).map((d) => ({
+					tag: d.tag,
+					source: d.source,
+					status: d.status,
+					error: d.error ?? null,
+				})),
+				verification:
+					t.verification !== undefined
+						? {
+								status: t.verification.status,
+								latencyMs: t.verification.latencyMs,
+								attempts: t.verification.attempts,
+							}
+						: null,
 			};
 		});
 		// Package status: failed if any target failed; skipped if every target
@@ -304,14 +353,18 @@ export const toPublishingOutput = (input: PublishingInput): PublishingOutput =>
 		const allSkipped = targets.length > 0 && targets.every((t) => t.status === "skipped");
 		const status: TargetStatus = anyFailed ? "failed" : allSkipped ? "skipped" : "published";
 		// skipReason only when the package is skipped; "identical" maps to the
-		// identical reason, every other skip reason to "unknown" (curation rules 2/3).
+		// identical reason, a package carried over whole from the publish
+		// manifest to "resumed", every other skip reason to "unknown"
+		// (curation rules 2/3).
 		const skipReason =
 			status === "skipped"
 				? pkg.targets.some(
 						(t) => t.skipReason === "already-published-identical" || t.alreadyPublishedReason === "identical",
 					)
 					? ("already-published-identical" as const)
-					: ("already-published-unknown" as const)
+					: pkg.targets.every((t) => t.skipReason === "resumed")
+						? ("resumed" as const)
+						: ("already-published-unknown" as const)
 				: null;
 		// Attestation URLs: the internal model carries them per target; take the
 		// first non-empty across targets, plus the package-level GitHub attestation.
@@ -345,12 +398,20 @@ export const toPublishingOutput = (input: PublishingInput): PublishingOutput =>
 		succeeded: flags.succeeded,
 		hasFailures: flags.hasFailures,
 		dryRun: input.dryRun,
+		preMode: (input.preTag ?? null) !== null,
+		preTag: input.preTag ?? null,
 		publishing: {
 			packages,
 			// `TagInfo` carries the per-tag package association (a single name, or
 			// a comma-joined list for fixed/linked groups). Releases key on the tag
 			// name, so each release inherits its tag's `packageName` via that join.
-			tags: input.tags.map((t) => ({ name: t.name, sha: input.tagShas[t.name] ?? "", packageName: t.packageName })),
+			// Floating tags are reported on the exact-version tag they follow.
+			tags: input.tags.map((t) => ({
+				name: t.name,
+				sha: input.tagShas[t.name] ?? "",
+				packageName: t.packageName,
+				floatingTags: (input.floatingTags ?? []).filter((f) => f.tag === t.name).map((f) => f.name),
+			})),
 			releases: input.releases.map((r) => {
 				const matchingTag = input.tags.find((t) => t.name === r.tag);
 				return { tag: r.tag, url: r.url, id: r.id, packageName: matchingTag?.packageName ?? null };
@@ -100,6 +100,21 @@ const annotatedDryRunField = Schema.Boolean.annotations({
 		"True when the action ran with `dry-run: true`. Phase 3 publishes nothing in dry-run mode; Phases 1 and 2 still observe and report, but mutations (branch updates, PR creation/updating) are suppressed.",
 });
 
+const annotatedPreModeField = Schema.Boolean.annotations({
+	title: "Pre mode",
+	description:
+		'True when Changesets pre mode is active (`.changeset/pre.json` with `mode: "pre"`). Release PRs are titled as pre-releases, prerelease versions publish under the `preTag` dist-tag instead of `latest`, and GitHub releases are marked as prereleases.',
+});
+
+const annotatedPreTagField = Schema.NullOr(
+	Schema.String.annotations({
+		title: "Pre tag",
+		description:
+			"The Changesets pre tag (the `<tag>` passed to `changeset pre enter`, e.g. `beta`) while pre mode is active. Null outside pre mode.",
+		examples: ["beta", "next", "rc"],
+	}),
+);
+
 // --- branch-management phase ---------------------------------------------
 
 const BranchManagementPayload = Schema.Struct({
@@ -209,6 +224,8 @@ export const BranchManagementOutput = Schema.Struct({
 	succeeded: annotatedSucceededField,
 	hasFailures: annotatedHasFailuresField,
 	dryRun: annotatedDryRunField,
+	preMode: annotatedPreModeField,
+	preTag: annotatedPreTagField,
 	branchManagement: BranchManagementPayload,
 }).annotations({
 	identifier: "BranchManagementOutput",
@@ -225,6 +242,8 @@ export const BranchManagementOutput = Schema.Struct({
 			succeeded: true,
 			hasFailures: false,
 			dryRun: false,
+			preMode: false,
+			preTag: null,
 			branchManagement: {
 				releaseBranch: {
 					name: "changeset-release/main",
@@ -255,8 +274,20 @@ const ValidationCheck = Schema.Struct({
 	name: Schema.String.annotations({
 		title: "Check name",
 		description:
-			"Row label for the Validation Checks table. Canonical five-row set today: 'Build Validation', 'Link Issues', 'Publish Validation', 'Release Notes Preview', 'SBOM Preview'.",
-		examples: ["Build Validation", "Link Issues", "Publish Validation", "Release Notes Preview", "SBOM Preview"],
+			"Row label for the Validation Checks table. Canonical eleven-row set today: 'Build Validation', 'Link Issues', 'Publish Validation', 'Release Notes Preview', 'SBOM Preview', 'Tarball Diff', 'API Compatibility', 'Bump Consistency', 'Package Lint', 'Install Smoke Test', 'License Compliance'.",
+		examples: [
+			"Build Validation",
+			"Link Issues",
+			"Publish Validation",
+			"Release Notes Preview",
+			"SBOM Preview",
+			"Tarball Diff",
+			"API Compatibility",
+			"Bump Consistency",
+			"Package Lint",
+			"Install Smoke Test",
+			"License Compliance",
+		],
 	}),
 	status: Schema.Literal("pass", "warning", "error").annotations({
 		title: "Check status",
@@ -278,7 +309,7 @@ const ValidationCheck = Schema.Struct({
 	identifier: "ValidationCheck",
 	title: "Validation check row",
 	description:
-		"One row of the five-row Validation Checks table shown in the release PR comment and the unified check-run summary.",
+		"One row of the eleven-row Validation Checks table shown in the release PR comment and the unified check-run summary.",
 });
 
 /** A non-pass outcome — the package / build directory it concerns. */
@@ -381,6 +412,93 @@ const ValidationBuildTarget = Schema.Struct({
 		"Per-registry publish readiness for a single build directory: `ready` / `skipped` / `failed`, plus access level and provenance support.",
 });
 
+/** A resized file in a {@link ValidationTarballDiff}. */
+const ValidationTarballDiffFile = Schema.Struct({
+	path: Schema.String.annotations({
+		title: "File path",
+		description: "Path of the file inside the tarball, relative to the package root.",
+		examples: ["index.js", "lib/cli.js"],
+	}),
+	previousBytes: Schema.Number.annotations({
+		title: "Previous size (bytes)",
+		description: "Size of the file in the previously published tarball.",
+	}),
+	bytes: Schema.Number.annotations({
+		title: "Size (bytes)",
+		description: "Size of the file in this build's tarball.",
+	}),
+}).annotations({
+	identifier: "ValidationTarballDiffFile",
+	title: "Resized file",
+	description: "A file present in both tarballs whose size changed.",
+});
+
+/** A changed package.json entry in a {@link ValidationTarballDiff}. */
+const ValidationTarballManifestChange = Schema.Struct({
+	field: Schema.Literal("exports", "bin", "files").annotations({
+		title: "package.json field",
+		description: "The package.json field whose value changed between the published version and this build.",
+	}),
+	added: Schema.Array(Schema.String).annotations({
+		title: "Added entries",
+		description: "Entries only this build declares: `exports` subpaths, `bin` command names, or `files` globs.",
+		examples: [["./utils"], ["my-cli"]],
+	}),
+	removed: Schema.Array(Schema.String).annotations({
+		title: "Removed entries",
+		description:
+			"Entries only the published version declares. Removed `exports` or `bin` entries on a non-major bump raise a `Tarball Diff` warning.",
+		examples: [["./legacy"]],
+	}),
+}).annotations({
+	identifier: "ValidationTarballManifestChange",
+	title: "package.json change",
+	description: "A changed `exports`, `bin`, or `files` entry in the build's package.json.",
+});
+
+/** A build's tarball diff against the previously published version. */
+const ValidationTarballDiff = Schema.Struct({
+	previousVersion: Schema.String.annotations({
+		title: "Previous version",
+		description: "The published version (the target branch's version) the build was compared against.",
+		examples: ["1.1.0"],
+	}),
+	added: Schema.Array(Schema.String).annotations({
+		title: "Added files",
+		description: "Paths only in this build's tarball.",
+	}),
+	removed: Schema.Array(Schema.String).annotations({
+		title: "Removed files",
+		description:
+			"Paths only in the published tarball. Removed files on a non-major bump raise a `Tarball Diff` warning.",
+	}),
+	changed: Schema.Array(ValidationTarballDiffFile).annotations({
+		title: "Resized files",
+		description: "Paths in both tarballs whose size changed.",
+	}),
+	packedBytesDelta: Schema.NullOr(
+		Schema.Number.annotations({
+			title: "Packed size delta (bytes)",
+			description: "This build's packed size minus the published one. Null when either size is unknown.",
+		}),
+	),
+	unpackedBytesDelta: Schema.NullOr(
+		Schema.Number.annotations({
+			title: "Unpacked size delta (bytes)",
+			description: "This build's unpacked size minus the published one. Null when either size is unknown.",
+		}),
+	),
+	manifestChanges: Schema.Array(ValidationTarballManifestChange).annotations({
+		title: "package.json changes",
+		description: "Changed `exports`, `bin`, and `files` entries. Empty when none of the three changed.",
+	}),
+}).annotations({
+	identifier: "ValidationTarballDiff",
+	title: "Tarball diff",
+	description:
+		"File-level diff of the build's tarball against the previously published version's tarball, fetched from the build's first npm-compatible registry.",
+});
+
 /** A build — one per unique target directory of a released package. */
 const ValidationBuild = Schema.Struct({
 	directory: Schema.String.annotations({
@@ -412,6 +530,11 @@ const ValidationBuild = Schema.Struct({
 		title: "Publish targets",
 		description: "The registry targets this build would publish to, with per-target readiness.",
 	}),
+	tarballDiff: Schema.NullOr(ValidationTarballDiff).annotations({
+		title: "Tarball diff",
+		description:
+			"Content diff against the previously published version. Null for a brand-new package, a build whose dry-run failed, or when the published tarball could not be listed.",
+	}),
 }).annotations({
 	identifier: "ValidationBuild",
 	title: "Build",
@@ -562,7 +685,7 @@ const ValidationPayload = Schema.Struct({
 	checks: Schema.Array(ValidationCheck).annotations({
 		title: "Validation checks",
 		description:
-			"The five-row Validation Checks table — one entry per validation step run this phase. Canonical names: 'Build Validation', 'Link Issues', 'Publish Validation', 'Release Notes Preview', 'SBOM Preview'.",
+			"The eleven-row Validation Checks table — one entry per validation step run this phase. Canonical names: 'Build Validation', 'Link Issues', 'Publish Validation', 'Release Notes Preview', 'SBOM Preview', 'Tarball Diff', 'API Compatibility', 'Bump Consistency', 'Package Lint', 'Install Smoke Test', 'License Compliance'.",
 	}),
 	findings: Schema.Array(ValidationFinding).annotations({
 		title: "Findings",
@@ -647,6 +770,8 @@ export const ValidationOutput = Schema.Struct({
 	succeeded: annotatedSucceededField,
 	hasFailures: annotatedHasFailuresField,
 	dryRun: annotatedDryRunField,
+	preMode: annotatedPreModeField,
+	preTag: annotatedPreTagField,
 	validation: ValidationPayload,
 }).annotations({
 	identifier: "ValidationOutput",
@@ -663,6 +788,8 @@ export const ValidationOutput = Schema.Struct({
 			succeeded: true,
 			hasFailures: false,
 			dryRun: false,
+			preMode: false,
+			preTag: null,
 			validation: {
 				buildValidation: { passed: true, packageCount: 1 },
 				checks: [
@@ -691,6 +818,42 @@ export const ValidationOutput = Schema.Struct({
 						outcome: "1/1 SBOM(s) NTIA-compliant",
 						url: "https://github.com/savvy-web/example-repo/runs/123",
 					},
+					{
+						name: "Tarball Diff",
+						status: "pass",
+						outcome: "1 build(s) compared · +1 / −0 file(s), 2 resized",
+						url: null,
+					},
+					{
+						name: "API Compatibility",
+						status: "pass",
+						outcome: "1 API model(s) compared · 0 breaking, 0 possibly breaking, 3 additive, 0 internal change(s)",
+						url: null,
+					},
+					{
+						name: "Bump Consistency",
+						status: "pass",
+						outcome: "1 package bump(s) match their changesets",
+						url: null,
+					},
+					{
+						name: "Package Lint",
+						status: "pass",
+						outcome: "1 build(s) lint-clean",
+						url: null,
+					},
+					{
+						name: "Install Smoke Test",
+						status: "pass",
+						outcome: "1 build(s) installed · 2 load(s), 1 bin(s), 0 failure(s)",
+						url: null,
+					},
+					{
+						name: "License Compliance",
+						status: "pass",
+						outcome: "12 component(s) checked · 0 violation(s), 0 warning(s)",
+						url: null,
+					},
 				],
 				findings: [],
 				publish: {
@@ -732,6 +895,18 @@ export const ValidationOutput = Schema.Struct({
 											provenance: false,
 										},
 									],
+									tarballDiff: {
+										previousVersion: "1.1.0",
+										added: ["spring.js"],
+										removed: [],
+										changed: [
+											{ path: "index.js", previousBytes: 1210, bytes: 1480 },
+											{ path: "package.json", previousBytes: 602, bytes: 640 },
+										],
+										packedBytesDelta: 188,
+										unpackedBytesDelta: 640,
+										manifestChanges: [{ field: "exports", added: ["./spring"], removed: [] }],
+									},
 								},
 							],
 							releaseNotes: {
@@ -777,6 +952,57 @@ const PublishTargetRecovery = Schema.Struct({
 		"Pair of digests recorded when the orchestrator probed the target's registry and made a recovery decision. Present on `skipped` (`skipReason: already-published-identical`) and on `failed` integrity-mismatch outcomes; null when the publish flowed straight through to upload.",
 });
 
+const PublishTargetDistTag = Schema.Struct({
+	tag: Schema.String.annotations({
+		title: "Dist-tag",
+		description: "The dist-tag pointed at the published version.",
+		examples: ["latest", "next", "beta"],
+	}),
+	source: Schema.Literal("publish", "promote").annotations({
+		title: "Dist-tag source",
+		description:
+			"`publish` — the version was published under this tag (the Changesets pre tag for prereleases, otherwise the target's `tag`, otherwise `latest`); `promote` — the tag was moved onto the version after every target for the package succeeded (`promote-dist-tag` input).",
+	}),
+	status: Schema.Literal("applied", "failed").annotations({
+		title: "Dist-tag status",
+		description:
+			"`applied` — the tag now points at the published version; `failed` — the promotion command returned an error. A failed promotion does not fail the target: the version is on the registry regardless.",
+	}),
+	error: Schema.NullOr(
+		Schema.String.annotations({
+			title: "Dist-tag error",
+			description: "Error message when `status` is `failed`. Null otherwise.",
+		}),
+	),
+}).annotations({
+	identifier: "PublishTargetDistTag",
+	title: "Dist-tag change",
+	description: "A dist-tag this run pointed (or tried to point) at the published version on the target's registry.",
+});
+
+const PublishTargetVerification = Schema.Struct({
+	status: Schema.Literal("verified", "timeout", "mismatch").annotations({
+		title: "Verification status",
+		description:
+			"`verified` — the registry serves the version with the locally-packed integrity; `timeout` — the registry did not serve the version before `verify-publish-timeout` elapsed; `mismatch` — the registry serves the version with a different integrity. `timeout` and `mismatch` are warnings — the target stays published, since the registry already accepted the version.",
+	}),
+	latencyMs: Schema.Number.annotations({
+		title: "Visibility latency",
+		description: "Milliseconds from the first registry probe after the upload to the last.",
+		examples: [0, 4213],
+	}),
+	attempts: Schema.Number.annotations({
+		title: "Probe count",
+		description: "Number of registry probes made.",
+		examples: [1, 3],
+	}),
+}).annotations({
+	identifier: "PublishTargetVerification",
+	title: "Publish verification",
+	description:
+		"Post-publish visibility check (`verify-publish` input): the registry was polled, with exponential backoff, until it served the version with the integrity of the uploaded tarball.",
+});
+
 const PublishTarget = Schema.Struct({
 	registry: Schema.String.annotations({
 		title: "Registry URL",
@@ -789,11 +1015,11 @@ const PublishTarget = Schema.Struct({
 			"`published` — the package was successfully published to this target; `skipped` — the publish was intentionally not attempted (e.g. dry-run, no token, already-published); `failed` — the publish call returned an error and the package was not published to this target. A `failed` target means the underlying error is in the per-target `error` field, and the run's overall `hasFailures` flag is set.",
 	}),
 	skipReason: Schema.NullOr(
-		Schema.Literal("already-published-identical").annotations({
+		Schema.Literal("already-published-identical", "resumed").annotations({
 			identifier: "PublishTargetSkipReason",
 			title: "Target skip reason",
 			description:
-				"`already-published-identical` — the version was already on this specific registry and the registry's stored integrity matched the locally-packed digest, so the orchestrator recovered the target rather than re-uploading. Null when the target was not skipped. Finer-grained than the package-level `skipReason`: this fires per target, so a mixed result (one target published, one recovered) records the recovery on the target itself.",
+				"`already-published-identical` — the version was already on this specific registry and the registry's stored integrity matched the locally-packed digest, so the orchestrator recovered the target rather than re-uploading; `resumed` — a previous attempt at this release completed the target, as recorded in the publish manifest, so the resumed run (`resume` input) did not touch it. Null when the target was not skipped. Finer-grained than the package-level `skipReason`: this fires per target, so a mixed result (one target published, one recovered) records the recovery on the target itself.",
 		}),
 	),
 	recovery: Schema.NullOr(PublishTargetRecovery).annotations({
@@ -824,6 +1050,16 @@ const PublishTarget = Schema.Struct({
 		description:
 			"True when the SBOM attestation already existed for this tarball's sha256 and the orchestrator reused the existing URL instead of writing a new one. False when a new attestation was written this run. Null when no SBOM attestation was attempted.",
 	}),
+	distTags: Schema.Array(PublishTargetDistTag).annotations({
+		title: "Dist-tag changes",
+		description:
+			"Dist-tag changes made for this target, in order: the tag the version was published under, then any post-publish promotion. Empty when no tag moved — a failed or recovery-skipped target, or a JSR target (JSR has no dist-tags).",
+	}),
+	verification: Schema.NullOr(PublishTargetVerification).annotations({
+		title: "Publish verification",
+		description:
+			"Outcome of the post-publish visibility check. Null when `verify-publish` is off, or the target was not freshly published to an npm-compatible registry (skipped, failed before upload, or JSR).",
+	}),
 }).annotations({
 	identifier: "PublishTarget",
 	title: "Published target",
@@ -846,11 +1082,11 @@ const PublishPackage = Schema.Struct({
 			"`published` — at least one target accepted the publish; `skipped` — every target was skipped (no work landed); `failed` — every target either failed or skipped, but at least one failed.",
 	}),
 	skipReason: Schema.NullOr(
-		Schema.Literal("already-published-identical", "already-published-unknown").annotations({
+		Schema.Literal("already-published-identical", "already-published-unknown", "resumed").annotations({
 			identifier: "PublishPackageSkipReason",
 			title: "Skip reason",
 			description:
-				"`already-published-identical` — the version is already published and the tarball digest matches what would be published; `already-published-unknown` — the version is already published but the on-registry tarball digest could not be confirmed (advisory only — verify by hand if tarball-digest parity matters; the publish was skipped because the registry has the version but its identity could not be confirmed). Null when the package was not skipped.",
+				"`already-published-identical` — the version is already published and the tarball digest matches what would be published; `already-published-unknown` — the version is already published but the on-registry tarball digest could not be confirmed (advisory only — verify by hand if tarball-digest parity matters; the publish was skipped because the registry has the version but its identity could not be confirmed); `resumed` — every target was completed by a previous attempt at this release, per the publish manifest. Null when the package was not skipped.",
 		}),
 	),
 	targets: Schema.Array(PublishTarget).annotations({
@@ -917,6 +1153,15 @@ export const PublishingTag = Schema.Struct({
 				"The package name this tag belongs to. Non-null for per-package tags in multi-package release mode (the tag name itself is the npm-style `@scope/pkg@version`). Null for an aggregated tag covering every released package (the `vSEMVER` shape in fixed-release mode).",
 		}),
 	),
+	floatingTags: Schema.Array(Schema.String).annotations({
+		title: "Floating tags",
+		description:
+			"Floating major and major.minor tags created or force-moved onto this tag's commit when the `floating-tags` input is enabled. Empty when the input is off, the version is a prerelease, or the tag was not confirmed at the release commit.",
+		examples: [
+			["v2", "v2.3"],
+			["@savvy-web/example@v1", "@savvy-web/example@v1.2"],
+		],
+	}),
 }).annotations({
 	identifier: "PublishingTag",
 	title: "Release tag",
@@ -989,6 +1234,8 @@ export const PublishingOutput = Schema.Struct({
 	succeeded: annotatedSucceededField,
 	hasFailures: annotatedHasFailuresField,
 	dryRun: annotatedDryRunField,
+	preMode: annotatedPreModeField,
+	preTag: annotatedPreTagField,
 	publishing: PublishingPayload,
 }).annotations({
 	identifier: "PublishingOutput",
@@ -1005,6 +1252,8 @@ export const PublishingOutput = Schema.Struct({
 			succeeded: true,
 			hasFailures: false,
 			dryRun: false,
+			preMode: false,
+			preTag: null,
 			publishing: {
 				packages: [
 					{
@@ -1022,6 +1271,8 @@ export const PublishingOutput = Schema.Struct({
 								error: null,
 								attestationRecovered: false,
 								sbomAttestationRecovered: false,
+								distTags: [{ tag: "latest", source: "publish", status: "applied", error: null }],
+								verification: null,
 							},
 							{
 								registry: "https://npm.pkg.github.com/",
@@ -1032,6 +1283,8 @@ export const PublishingOutput = Schema.Struct({
 								error: null,
 								attestationRecovered: false,
 								sbomAttestationRecovered: false,
+								distTags: [{ tag: "latest", source: "publish", status: "applied", error: null }],
+								verification: null,
 							},
 						],
 						attestations: {
@@ -1070,6 +1323,6 @@ export const ReleaseOutput = Schema.Union(BranchManagementOutput, ValidationOutp
 	identifier: "ReleaseOutput",
 	title: "Silk Release Action output",
 	description:
-		'The phase-discriminated release output contract. Use `phase` to discriminate to the right variant. Four orthogonal state signals (`status`, `noop`, `succeeded`, `hasFailures`) are derived from the same underlying outcome and obey a fixed relationship: `noop` is true when the phase had nothing to do (no changesets, no release-branch updates pending, or no publish targets resolved) — in this case `succeeded` is true and `hasFailures` is false; `status` is `"no-op"`. When the phase produced its intended work without errors, `noop` is false, `succeeded` is true, `hasFailures` is false, and `status` is `"success"`. When the phase produced any failure, `noop` is false, `succeeded` is false, `hasFailures` is true, and `status` is `"partial"`. The `status` value `"failed"` is reserved for an impossible flag combination and is never emitted by the current projections; treat `"partial"` as the canonical failure label. `status` is a coarse label for logs and summaries; the three booleans are the machine contract. Every variant carries the same shared top-level fields (`$schema`, `schemaVersion`, `phase`, `status`, `noop`, `succeeded`, `hasFailures`, `dryRun`) plus a phase-specific payload.',
+		'The phase-discriminated release output contract. Use `phase` to discriminate to the right variant. Four orthogonal state signals (`status`, `noop`, `succeeded`, `hasFailures`) are derived from the same underlying outcome and obey a fixed relationship: `noop` is true when the phase had nothing to do (no changesets, no release-branch updates pending, or no publish targets resolved) — in this case `succeeded` is true and `hasFailures` is false; `status` is `"no-op"`. When the phase produced its intended work without errors, `noop` is false, `succeeded` is true, `hasFailures` is false, and `status` is `"success"`. When the phase produced any failure, `noop` is false, `succeeded` is false, `hasFailures` is true, and `status` is `"partial"`. The `status` value `"failed"` is reserved for an impossible flag combination and is never emitted by the current projections; treat `"partial"` as the canonical failure label. `status` is a coarse label for logs and summaries; the three booleans are the machine contract. Every variant carries the same shared top-level fields (`$schema`, `schemaVersion`, `phase`, `status`, `noop`, `succeeded`, `hasFailures`, `dryRun`, `preMode`, `preTag`) plus a phase-specific payload.',
 });
 export type ReleaseOutput = Schema.Schema.Type<typeof ReleaseOutput>;
@@ -18,8 +18,9 @@
  * generated JSON Schema's `$defs` keys remain stable across Effect version
  * upgrades — matching the convention in `release-output.ts`.
  *
- * Only the `sbom` section is consumed by Phase 2 today; the top-level shape
- * leaves room for future release-related sections.
+ * Phase 2 consumes the `sbom`, `budgets`, and `licensePolicy` sections and
+ * Phase 3 the `tags` section; the top-level shape leaves room for future
+ * release-related sections.
  */
 
 import { Schema } from "effect";
@@ -176,6 +177,292 @@ export const SbomConfig = Schema.Struct({
 });
 export type SbomConfig = Schema.Schema.Type<typeof SbomConfig>;
 
+/**
+ * Size budget for the packages matching `package`.
+ *
+ * @remarks
+ * Every limit is optional. The `max*` limits are hard: exceeding one is an
+ * `error` finding. `maxGrowthPercent` compares against the previously
+ * published version and only warns, so `strict-warnings` decides whether a
+ * size regression blocks the merge.
+ */
+export const SizeBudget = Schema.Struct({
+	package: Schema.String.annotations({
+		title: "Package name or glob",
+		description:
+			"Package the budget applies to: an exact name, or a glob where `*` matches within a scope segment and `**` matches anything. The first budget whose pattern matches a package applies — list exact names before broader globs.",
+		examples: ["@savvy-web/example", "@savvy-web/*", "**"],
+	}),
+	maxPackedBytes: Schema.optional(
+		Schema.Int.annotations({
+			title: "Max packed size (bytes)",
+			description: "Largest allowed packed tarball size, per build directory. Exceeding it is an error.",
+			examples: [51200],
+		}),
+	),
+	maxUnpackedBytes: Schema.optional(
+		Schema.Int.annotations({
+			title: "Max unpacked size (bytes)",
+			description: "Largest allowed unpacked size, per build directory. Exceeding it is an error.",
+			examples: [204800],
+		}),
+	),
+	maxFileCount: Schema.optional(
+		Schema.Int.annotations({
+			title: "Max file count",
+			description: "Largest allowed number of files in the tarball, per build directory. Exceeding it is an error.",
+			examples: [40],
+		}),
+	),
+	maxGrowthPercent: Schema.optional(
+		Schema.Number.annotations({
+			title: "Max growth over the previous release (%)",
+			description:
+				"Largest allowed growth of the packed or unpacked size over the previously published version, in percent. Exceeding it is a warning — set `strict-warnings` to gate merges on it.",
+			examples: [10, 25],
+		}),
+	),
+}).annotations({
+	identifier: "SizeBudget",
+	title: "Size budget",
+	description:
+		"Bundle size budget checked against each build's publish dry-run during the validation phase. Hard limits raise errors; growth over the previous release raises warnings.",
+});
+export type SizeBudget = Schema.Schema.Type<typeof SizeBudget>;
+
+/** Extra files attached to a package's GitHub release. */
+export const ReleaseAssets = Schema.Struct({
+	package: Schema.String.annotations({
+		title: "Package pattern",
+		description:
+			"Package name or glob the files belong to. `*` matches within a scope segment and `**` matches anything.",
+		examples: ["@savvy-web/cli", "@savvy-web/*"],
+	}),
+	files: Schema.Array(Schema.String).annotations({
+		title: "File patterns",
+		description:
+			"Globs of files to attach, relative to the package directory. `*` matches within a path segment and `**` across segments.",
+		examples: [["dist/*.zip", "bin/**"]],
+	}),
+}).annotations({
+	identifier: "ReleaseAssets",
+	title: "Release assets",
+	description:
+		"Build artifacts uploaded to the GitHub release of every package matching `package`, alongside the tarball and SBOM. Each file is attested and listed in the release's `SHA256SUMS` asset.",
+});
+export type ReleaseAssets = Schema.Schema.Type<typeof ReleaseAssets>;
+
+/** Release-notes layout for GitHub releases. */
+export const ReleaseNotes = Schema.Struct({
+	template: Schema.optional(
+		Schema.String.annotations({
+			title: "Template file",
+			description:
+				"Path, relative to the repository root, of a release-notes template. Placeholders such as `{{name}}`, `{{version}}`, and `{{changelog}}` are filled in per release, with `{{#each packages}}` and `{{#if}}` blocks; without a template the built-in layout applies.",
+			examples: [".github/release-notes.md"],
+		}),
+	),
+	excludeContributors: Schema.optional(
+		Schema.Array(Schema.String).annotations({
+			title: "Excluded contributors",
+			description:
+				'Logins or commit author names left out of the Contributors section of release notes and the release PR. `*` matches any run of characters. Defaults to `["*[bot]"]`, which excludes GitHub App bots.',
+			examples: [["*[bot]", "release-automation"]],
+		}),
+	),
+}).annotations({
+	identifier: "ReleaseNotes",
+	title: "Release notes",
+	description: "How the body of each GitHub release is laid out, and who its Contributors section credits.",
+});
+export type ReleaseNotes = Schema.Schema.Type<typeof ReleaseNotes>;
+
+/**
+ * License policy for the runtime dependencies of each build.
+ *
+ * @remarks
+ * Evaluated against the components of every build's SBOM. A component's
+ * SPDX expression passes when any of its `OR` alternatives passes; an
+ * alternative is judged by the worst of its `AND`ed licenses, with `AND`
+ * binding tighter than `OR` and parentheses grouping as SPDX specifies.
+ */
+export const LicensePolicy = Schema.Struct({
+	allow: Schema.optional(
+		Schema.Array(Schema.String).annotations({
+			title: "Allowed licenses",
+			description:
+				"SPDX license identifiers dependencies may use. When set, any other license is an error — copyleft licenses listed here are not warned about.",
+			examples: [["MIT", "ISC", "Apache-2.0", "BSD-2-Clause", "BSD-3-Clause"]],
+		}),
+	),
+	deny: Schema.optional(
+		Schema.Array(Schema.String).annotations({
+			title: "Denied licenses",
+			description: "SPDX license identifiers no dependency may use. A denied license is an error.",
+			examples: [["AGPL-3.0-only", "SSPL-1.0"]],
+		}),
+	),
+	copyleft: Schema.optional(
+		Schema.Literal("allow", "warn", "error").annotations({
+			title: "Copyleft licenses",
+			description:
+				"How a copyleft license (the GPL, LGPL, AGPL, MPL, EPL, EUPL, CDDL, OSL, and CC-BY-SA families) is reported. Applies only without `allow`: an allow-list alone decides which licenses pass. Defaults to `warn`.",
+		}),
+	),
+	unknown: Schema.optional(
+		Schema.Literal("allow", "warn", "error").annotations({
+			title: "Unknown licenses",
+			description:
+				"How a dependency with no declared license, or with `UNLICENSED` or a `SEE LICENSE IN` reference, is reported. Defaults to `warn`.",
+		}),
+	),
+}).annotations({
+	identifier: "LicensePolicy",
+	title: "License policy",
+	description:
+		"License compliance rules for the runtime dependencies listed in each build's SBOM, checked during the validation phase as the License Compliance check.",
+});
+export type LicensePolicy = Schema.Schema.Type<typeof LicensePolicy>;
+
+/** A version tag template; it must contain `{version}`. */
+const VersionTagTemplate = Schema.String.pipe(
+	Schema.filter((template) => template.includes("{version}") || "must contain `{version}`", {
+		jsonSchema: { pattern: "\\{version\\}" },
+	}),
+);
+
+/**
+ * A per-package tag template; besides `{version}` it must name the package
+ * with `{name}` or `{unscopedName}`, or every package would share one tag.
+ */
+const PerPackageTagTemplate = Schema.String.pipe(
+	Schema.filter(
+		(template) =>
+			(template.includes("{version}") && (template.includes("{name}") || template.includes("{unscopedName}"))) ||
+			"must contain `{version}` and one of `{name}` or `{unscopedName}`",
+		{ jsonSchema: { pattern: "^(?=.*\\{version\\})(?=.*\\{(?:name|unscopedName)\\})" } },
+	),
+);
+
+/** A tag template for one package, overriding the repo-wide templates. */
+export const TagOverride = Schema.Struct({
+	package: Schema.String.annotations({
+		title: "Package name",
+		description: "Exact name of the package the template applies to.",
+		examples: ["@savvy-web/example"],
+	}),
+	template: VersionTagTemplate.annotations({
+		title: "Tag template",
+		description: "Tag name template for this package. Must contain `{version}`.",
+		examples: ["{unscopedName}-v{version}"],
+	}),
+}).annotations({
+	identifier: "TagOverride",
+	title: "Tag template override",
+	description: "Tag name template for one package, taking precedence over `perPackage` and `single`.",
+});
+export type TagOverride = Schema.Schema.Type<typeof TagOverride>;
+
+/**
+ * Git tag naming templates.
+ *
+ * @remarks
+ * Omitted templates keep the built-in names: `1.0.0` for a single shared tag,
+ * `@scope/pkg@1.0.0` / `pkg@v1.0.0` for per-package tags, and
+ * `release-2026-01-31-abc1234` for a release train. Existing tags are parsed back with
+ * the version templates when computing commit ranges. A version template
+ * without its placeholders fails to decode, so Phase 2 reports it as a
+ * finding instead of Phase 3 pushing colliding tags.
+ */
+export const TagNaming = Schema.Struct({
+	single: Schema.optional(
+		VersionTagTemplate.annotations({
+			title: "Single tag template",
+			description:
+				"Template for the one shared tag of a single-package repo, or of a release whose packages are all in one fixed group. Defaults to `{version}`.",
+			examples: ["v{version}", "release/{version}"],
+		}),
+	),
+	perPackage: Schema.optional(
+		PerPackageTagTemplate.annotations({
+			title: "Per-package tag template",
+			description:
+				"Template for per-package tags in an independently versioned monorepo. Must contain `{version}` and one of `{name}` or `{unscopedName}`. Defaults to `{name}@{version}` for scoped packages and `{name}@v{version}` otherwise.",
+			examples: ["{unscopedName}-v{version}", "{name}@{version}"],
+		}),
+	),
+	packages: Schema.optional(
+		Schema.Array(TagOverride).annotations({
+			title: "Per-package overrides",
+			description: "Templates for individual packages, taking precedence over `perPackage` and `single`.",
+		}),
+	),
+	train: Schema.optional(
+		Schema.String.annotations({
+			title: "Release train tag template",
+			description:
+				"Template for the tag of the combined release created when the `release-train` input is enabled. Placeholders: `{date}` (the UTC date of the release commit, `YYYY-MM-DD`) and `{sha}` (the short release commit SHA). Defaults to `release-{date}-{sha}`; a template without `{sha}` cannot release two trains on the same day.",
+			examples: ["release-{date}-{sha}", "train/{date}-{sha}"],
+		}),
+	),
+}).annotations({
+	identifier: "TagNaming",
+	title: "Tag naming",
+	description:
+		"Git tag name templates. Placeholders: `{name}` (the full package name), `{unscopedName}` (the name without its `@scope/`), and `{version}`, which every version tag template must contain. The `train` template has its own placeholders.",
+});
+export type TagNaming = Schema.Schema.Type<typeof TagNaming>;
+
+/**
+ * One target branch releases are cut from.
+ *
+ * @remarks
+ * The `release-branch` / `target-branch` inputs stay the primary line; each
+ * entry adds a maintenance line (e.g. `release/1.x`) that runs the full
+ * release flow on its own release branch. Unset fields fall back to the
+ * corresponding action inputs.
+ */
+export const TargetBranch = Schema.Struct({
+	target: Schema.String.annotations({
+		title: "Target branch",
+		description: "Branch the release line's packages are versioned and published from.",
+		examples: ["release/1.x"],
+	}),
+	releaseBranch: Schema.optional(
+		Schema.String.annotations({
+			title: "Release branch",
+			description: "Branch the release PR for this line is opened from. Defaults to `changeset-release/<target>`.",
+			examples: ["changeset-release/release/1.x"],
+		}),
+	),
+	distTag: Schema.optional(
+		Schema.String.annotations({
+			title: "Dist-tag",
+			description:
+				"npm dist-tag stable versions from this line publish under, instead of each target's own tag. Set it on every maintenance line so its versions do not take `latest`.",
+			examples: ["v1-lts"],
+		}),
+	),
+	makeLatest: Schema.optional(
+		Schema.Literal("auto", "true", "false").annotations({
+			title: "Make latest",
+			description: "Overrides the `make-latest` input for GitHub releases from this line.",
+		}),
+	),
+	floatingTags: Schema.optional(
+		Schema.Boolean.annotations({
+			title: "Floating tags",
+			description: "Overrides the `floating-tags` input for releases from this line.",
+		}),
+	),
+}).annotations({
+	identifier: "TargetBranch",
+	title: "Target branch",
+	description:
+		"A release line: a target branch with its own release branch, dist-tag, and tag / latest-release behaviour.",
+});
+export type TargetBranch = Schema.Schema.Type<typeof TargetBranch>;
+
 // ─── Top-level config ─────────────────────────────────────────────────────
 
 /**
@@ -183,8 +470,9 @@ export type SbomConfig = Schema.Schema.Type<typeof SbomConfig>;
  *
  * @remarks
  * `$schema` is optional — templates may reference the input schema for editor
- * tooling, but the action does not require it. `sbom` is the only section
- * Phase 2 consumes today.
+ * tooling, but the action does not require it. Phase 2 consumes `sbom`,
+ * `budgets`, and `licensePolicy`; Phase 3 and commit-range lookups consume `tags`, Phase 3
+ * `releaseAssets` and `releaseNotes`; phase detection consumes `branches`.
  */
 export const SilkReleaseConfig = Schema.Struct({
 	$schema: Schema.optional(
@@ -198,10 +486,34 @@ export const SilkReleaseConfig = Schema.Struct({
 		}),
 	),
 	sbom: Schema.optional(SbomConfig),
+	budgets: Schema.optional(
+		Schema.Array(SizeBudget).annotations({
+			title: "Size budgets",
+			description:
+				"Per-package bundle size budgets. Each released package is checked against the first budget whose `package` pattern matches it; packages matching none are unbudgeted.",
+		}),
+	),
+	licensePolicy: Schema.optional(LicensePolicy),
+	tags: Schema.optional(TagNaming),
+	releaseAssets: Schema.optional(
+		Schema.Array(ReleaseAssets).annotations({
+			title: "Release assets",
+			description:
+				"Extra files attached to GitHub releases. Every entry whose `package` pattern matches a released package contributes its files.",
+		}),
+	),
+	releaseNotes: Schema.optional(ReleaseNotes),
+	branches: Schema.optional(
+		Schema.Array(TargetBranch).annotations({
+			title: "Target branches",
+			description:
+				"Maintenance release lines run alongside the `target-branch` input's. An entry for the `target-branch` itself overrides the primary line's settings.",
+		}),
+	),
 }).annotations({
 	identifier: "SilkReleaseConfig",
 	title: "Silk Release Action input config",
 	description:
-		"Input configuration for the Silk Release Action. Sourced (in precedence order) from the `sbom-config` action input, the `.github/silk-release.json` file in the repository, and the `SILK_RELEASE_SBOM_TEMPLATE` environment variable. Only the `sbom` section is consumed by Phase 2 today; the top-level shape leaves room for future release-related sections.",
+		"Input configuration for the Silk Release Action. Sourced (in precedence order) from the `sbom-config` action input, the `.github/silk-release.json` file in the repository, and the `SILK_RELEASE_SBOM_TEMPLATE` environment variable. Phase 2 consumes the `sbom`, `budgets`, and `licensePolicy` sections, Phase 3 the `tags`, `releaseAssets`, and `releaseNotes` sections, and phase detection the `branches` section; the top-level shape leaves room for future release-related sections.",
 });
 export type SilkReleaseConfig = Schema.Schema.Type<typeof SilkReleaseConfig>;
@@ -0,0 +1,155 @@
+/**
+ * Contributor acknowledgements for release notes.
+ *
+ * @remarks
+ * Resolves the authors of a release's commits (see
+ * `getCommitsSinceLatestTag`) to GitHub logins, drops bots and other
+ * accounts matching the `releaseNotes.excludeContributors` patterns of the
+ * Silk release config, and flags first-time contributors — those with no
+ * commit reachable from the previous release tag. The GitHub release body
+ * and the release PR body both render the result with
+ * {@link formatContributors}.
+ */
+
+import { GitHubClient } from "@savvy-web/github-action-effects";
+import { Effect } from "effect";
+import { globToRegExp } from "./glob.js";
+import type { CommitInfo } from "./link-issues-from-commits.js";
+
+/** Patterns excluded when the config sets none: GitHub App bot accounts. */
+export const DEFAULT_EXCLUDED_CONTRIBUTORS: ReadonlyArray<string> = ["*[bot]"];
+
+/**
+ * One contributor to a release.
+ *
+ * @public
+ */
+export interface Contributor {
+	/** GitHub login, or `null` when the commit author has no linked account. */
+	readonly login: string | null;
+	/** Commit author name. */
+	readonly name: string;
+	/** Whether the contributor has no commits before the previous release. */
+	readonly firstTime: boolean;
+}
+
+interface CommitResponse {
+	author: { login: string } | null;
+}
+
+/** `@login`, or the author name when there is no linked account. */
+export const contributorMention = (contributor: Contributor): string =>
+	contributor.login !== null ? `@${contributor.login}` : contributor.name;
+
+/** The GitHub account that authored `sha`, or `null` when none is linked or the lookup fails. */
+const commitLogin = (owner: string, repo: string, sha: string): Effect.Effect<string | null, never, GitHubClient> =>
+	Effect.gen(function* () {
+		const client = yield* GitHubClient;
+		const commit = yield* client.rest<CommitResponse>("repos.getCommit", (octokit) =>
+			(
+				octokit as {
+					rest: {
+						repos: {
+							getCommit: (params: { owner: string; repo: string; ref: string }) => Promise<{ data: CommitResponse }>;
+						};
+					};
+				}
+			).rest.repos.getCommit({ owner, repo, ref: sha }),
+		);
+		return commit.author?.login ?? null;
+	}).pipe(Effect.orElseSucceed(() => null));
+
+/**
+ * Whether `login` authored no commit reachable from `baseSha`. A failed
+ * lookup counts as a returning contributor, so nobody is welcomed twice.
+ */
+const isFirstContribution = (
+	owner: string,
+	repo: string,
+	login: string,
+	baseSha: string,
+): Effect.Effect<boolean, never, GitHubClient> =>
+	Effect.gen(function* () {
+		const client = yield* GitHubClient;
+		const earlier = yield* client.rest<ReadonlyArray<unknown>>("repos.listCommits", (octokit) =>
+			(
+				octokit as {
+					rest: {
+						repos: {
+							listCommits: (params: {
+								owner: string;
+								repo: string;
+								sha: string;
+								author: string;
+								per_page: number;
+							}) => Promise<{ data: ReadonlyArray<unknown> }>;
+						};
+					};
+				}
+			).rest.repos.listCommits({ owner, repo, sha: baseSha, author: login, per_page: 1 }),
+		);
+		return earlier.length === 0;
+	}).pipe(Effect.orElseSucceed(() => false));
+
+/**
+ * Resolve the contributors to a release from its commits.
+ *
+ * @remarks
+ * Each distinct author is looked up once, through the first of their
+ * commits; authors resolving to the same login are merged. A contributor is
+ * excluded when any of `exclude` matches their login or author name (`*`
+ * matches any run of characters). Without a previous release tag
+ * (`latestTagSha` is `null`) every commit is new, so nobody is flagged as a
+ * first-time contributor.
+ *
+ * @param exclude - Glob patterns of logins or names to leave out.
+ * @returns The contributors, in order of their first commit in the range.
+ *
+ * @public
+ */
+export const resolveContributors = (
+	commits: ReadonlyArray<CommitInfo>,
+	latestTagSha: string | null,
+	exclude: ReadonlyArray<string> = DEFAULT_EXCLUDED_CONTRIBUTORS,
+): Effect.Effect<ReadonlyArray<Contributor>, never, GitHubClient> =>
+	Effect.gen(function* () {
+		if (commits.length === 0) return [];
+		const client = yield* GitHubClient;
+		const { owner, repo } = yield* client.repo.pipe(Effect.orElseSucceed(() => ({ owner: "", repo: "" })));
+		const patterns = exclude.map(globToRegExp);
+		const excluded = (value: string | null) => value !== null && patterns.some((p) => p.test(value));
+
+		const firstCommitByAuthor = new Map<string, string>();
+		for (const commit of commits) {
+			if (commit.author !== "" && !firstCommitByAuthor.has(commit.author)) {
+				firstCommitByAuthor.set(commit.author, commit.sha);
+			}
+		}
+
+		const contributors: Contributor[] = [];
+		for (const [name, sha] of firstCommitByAuthor) {
+			if (excluded(name)) continue;
+			const login = yield* commitLogin(owner, repo, sha);
+			if (excluded(login)) continue;
+			if (login !== null && contributors.some((c) => c.login === login)) continue;
+			const firstTime =
+				login !== null && latestTagSha !== null ? yield* isFirstContribution(owner, repo, login, latestTagSha) : false;
+			contributors.push({ login, name, firstTime });
+		}
+		yield* Effect.logDebug(`Resolved ${contributors.length} contributor(s) from ${commits.length} commit(s)`);
+		return contributors;
+	});
+
+/**
+ * Render contributors as a markdown list, first-time contributors marked.
+ *
+ * @example
+ * ```ts
+ * formatContributors([{ login: "octocat", name: "Mona", firstTime: true }]);
+ * // "- @octocat — first contribution 🎉"
+ * ```
+ *
+ * @returns The list, or an empty string when there are no contributors.
+ */
+export const formatContributors = (contributors: ReadonlyArray<Contributor>): string =>
+	contributors.map((c) => `- ${contributorMention(c)}${c.firstTime ? " — first contribution 🎉" : ""}`).join("\n");
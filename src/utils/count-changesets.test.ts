@@ -1,5 +1,5 @@
 /**
- * Unit tests for {@link countChangesetsPerPackage}.
+ * Unit tests for {@link countChangesetsPerPackage} and {@link readChangesetBumps}.
  *
  * The CommandRunner is provided via an in-memory test layer; no real git is
  * exercised. The test layer keys responses by `"command args..."`.
@@ -10,7 +10,7 @@ import { CommandRunner, CommandRunnerTest } from "@savvy-web/github-action-effec
 import { Effect } from "effect";
 import { describe, expect, it } from "vitest";
 
-import { countChangesetsPerPackage } from "./count-changesets.js";
+import { countChangesetsPerPackage, readChangesetBumps } from "./count-changesets.js";
 
 /** Run the helper against a CommandRunner seeded with `responses`. */
 const run = (
@@ -107,3 +107,34 @@ describe("countChangesetsPerPackage", () => {
 		expect(counts.get("pkg-x")).toBe(1);
 	});
 });
+
+describe("readChangesetBumps", () => {
+	it("returns each changeset's declared bumps", async () => {
+		const responses = new Map<string, CommandResponse>([
+			[
+				"git ls-tree --name-only main .changeset/",
+				{ exitCode: 0, stdout: [".changeset/aaa.md", ".changeset/bbb.md"].join("\n"), stderr: "" },
+			],
+			["git show main:.changeset/aaa.md", { exitCode: 0, stdout: frontmatter(['"@scope/alpha": minor']), stderr: "" }],
+			[
+				"git show main:.changeset/bbb.md",
+				{ exitCode: 0, stdout: frontmatter(['"@scope/alpha": patch', "'@scope/beta': major"]), stderr: "" },
+			],
+		]);
+
+		const changesets = await Effect.runPromise(
+			Effect.gen(function* () {
+				const runner = yield* CommandRunner;
+				return yield* readChangesetBumps(runner, "main");
+			}).pipe(Effect.provide(CommandRunnerTest.layer(responses))),
+		);
+
+		expect(changesets).toEqual([
+			[{ name: "@scope/alpha", bump: "minor" }],
+			[
+				{ name: "@scope/alpha", bump: "patch" },
+				{ name: "@scope/beta", bump: "major" },
+			],
+		]);
+	});
+});
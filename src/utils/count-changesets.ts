@@ -1,6 +1,6 @@
 /**
  * Count changesets per package by reading the **target branch's** `.changeset`
- * directory.
+ * directory, and read the bumps they declare.
  *
  * @remarks
  * Phase 1's `changeset version` consumes `.changeset/*.md` on the release
@@ -20,23 +20,33 @@ import type { CommandRunner } from "@savvy-web/github-action-effects";
 import { Effect } from "effect";
 
 /**
- * Parse the per-package names attributed by a single changeset file's YAML
+ * A package bump declared by one changeset.
+ *
+ * @public
+ */
+export interface ChangesetBump {
+	readonly name: string;
+	readonly bump: "major" | "minor" | "patch";
+}
+
+/**
+ * Parse the per-package bumps declared by a single changeset file's YAML
  * frontmatter (the block between the first two `---` lines).
  *
  * Each frontmatter line is `"<pkg>": <bump>` (quotes optional). Returns the
- * package names found; lines that do not match the expected shape are ignored.
+ * bumps found; lines that do not match the expected shape are ignored.
  *
  * @param content - Raw changeset file content.
- * @returns The package names referenced in the frontmatter.
+ * @returns The package bumps declared in the frontmatter.
  */
-function parseChangesetPackages(content: string): ReadonlyArray<string> {
+function parseChangesetBumps(content: string): ReadonlyArray<ChangesetBump> {
 	const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
 	if (!frontmatterMatch) {
 		return [];
 	}
 
 	const [, frontmatter] = frontmatterMatch;
-	const packages: string[] = [];
+	const packages: ChangesetBump[] = [];
 
 	for (const line of frontmatter.split("\n")) {
 		const trimmed = line.trim();
@@ -46,7 +56,7 @@ function parseChangesetPackages(content: string): ReadonlyArray<string> {
 		// Match: "package-name": major | 'package-name': minor | package-name: patch
 		const match = trimmed.match(/^["']?([^"':]+)["']?\s*:\s*(major|minor|patch)\s*$/);
 		if (match) {
-			packages.push(match[1].trim());
+			packages.push({ name: match[1].trim(), bump: match[2] as ChangesetBump["bump"] });
 		}
 	}
 
@@ -54,17 +64,17 @@ function parseChangesetPackages(content: string): ReadonlyArray<string> {
 }
 
 /**
- * Count the changesets attributed to each package on a git branch.
+ * Read the bumps every changeset on a git branch declares.
  *
  * @param runner - The {@link CommandRunner} service instance.
  * @param targetBranch - Git ref whose `.changeset` directory is inspected.
- * @returns A map of package name to changeset count; an empty map on any
- *   wholesale failure. The effect never fails.
+ * @returns One entry per changeset file, each listing its package bumps; an
+ *   empty array on any wholesale failure. The effect never fails.
  */
-export const countChangesetsPerPackage = (
+export const readChangesetBumps = (
 	runner: typeof CommandRunner.Service,
 	targetBranch: string,
-): Effect.Effect<ReadonlyMap<string, number>, never, never> =>
+): Effect.Effect<ReadonlyArray<ReadonlyArray<ChangesetBump>>, never, never> =>
 	Effect.gen(function* () {
 		// List the changeset files tracked on the target branch.
 		const listing = yield* runner
@@ -79,7 +89,7 @@ export const countChangesetsPerPackage = (
 			return base.toLowerCase() !== "readme.md";
 		});
 
-		const counts = new Map<string, number>();
+		const changesets: Array<ReadonlyArray<ChangesetBump>> = [];
 
 		for (const filePath of changesetFiles) {
 			// Read each file; a per-file failure (git error or no content) is
@@ -93,10 +103,40 @@ export const countChangesetsPerPackage = (
 				continue;
 			}
 
-			for (const pkg of parseChangesetPackages(content)) {
-				counts.set(pkg, (counts.get(pkg) ?? 0) + 1);
-			}
+			changesets.push(parseChangesetBumps(content));
 		}
 
-		return counts as ReadonlyMap<string, number>;
+		return changesets;
 	});
+
+/**
+ * Count the changesets attributed to each package.
+ *
+ * @param changesets - The changesets, as {@link readChangesetBumps} returns them.
+ * @returns A map of package name to changeset count.
+ */
+export const tallyChangesets = (
+	changesets: ReadonlyArray<ReadonlyArray<ChangesetBump>>,
+): ReadonlyMap<string, number> => {
+	const counts = new Map<string, number>();
+	for (const changeset of changesets) {
+		for (const { name } of changeset) {
+			counts.set(name, (counts.get(name) ?? 0) + 1);
+		}
+	}
+	return counts;
+};
+
+/**
+ * Count the changesets attributed to each package on a git branch.
+ *
+ * @param runner - The {@link CommandRunner} service instance.
+ * @param targetBranch - Git ref whose `.changeset` directory is inspected.
+ * @returns A map of package name to changeset count; an empty map on any
+ *   wholesale failure. The effect never fails.
+ */
+export const countChangesetsPerPackage = (
+	runner: typeof CommandRunner.Service,
+	targetBranch: string,
+): Effect.Effect<ReadonlyMap<string, number>, never, never> =>
+	Effect.map(readChangesetBumps(runner, targetBranch), tallyChangesets);
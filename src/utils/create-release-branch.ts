@@ -1,7 +1,9 @@
 /**
  * Phase 1 stage: cut the release branch, run changeset version, commit the
  * version bump via the Git Data API, link the branch to closed issues from
- * the release, and open the release PR.
+ * the release, and open the release PR with sections crediting the
+ * release's contributors and listing each package's version bump with a
+ * compare link from its previous release tag.
  *
  * @remarks
  * The commit is created through {@link GitCommit} so it is signed by the
@@ -37,9 +39,14 @@ import {
 import type { ConfigError } from "effect";
 import { Config, Duration, Effect } from "effect";
 import { resolveSignoff } from "./commit-signoff.js";
+import type { Contributor } from "./contributors.js";
+import { formatContributors, resolveContributors } from "./contributors.js";
+import { withPreReleaseTitle } from "./detect-pre-mode.js";
 import { isSinglePackage } from "./detect-repo-type.js";
 import { getLinkedIssuesFromCommits } from "./link-issues-from-commits.js";
+import { loadExcludedContributors, loadTagNaming } from "./load-release-config.js";
 import { summaryWriter } from "./summary-writer.js";
+import { formatVersionChanges, resolveVersionChanges } from "./version-changes.js";
 
 /** Public result returned to the orchestrator. */
 export interface CreateReleaseBranchResult {
@@ -146,10 +153,16 @@ export const CREATE_PULL_REQUEST_MUTATION = `
 /**
  * Run the `createReleaseBranch` stage.
  *
+ * @param packageManager - The detected package manager, used to build the
+ *   default version command.
+ * @param preTag - The active Changesets pre tag; when set, the PR title is
+ *   marked as a pre-release.
+ *
  * @public
  */
 export const createReleaseBranch = (
 	packageManager: string,
+	preTag: string | null = null,
 ): Effect.Effect<
 	CreateReleaseBranchResult,
 	| ActionEnvironmentError
@@ -249,6 +262,7 @@ export const createReleaseBranch = (
 			.join("\n");
 		yield* Effect.logInfo("Version changes:");
 		yield* Effect.logInfo(versionSummary);
+		const versionChanges = yield* resolveVersionChanges(changedFiles, yield* loadTagNaming());
 
 		let prTitle = prTitlePrefix;
 		const singlePackage = isSinglePackage();
@@ -271,6 +285,10 @@ export const createReleaseBranch = (
 			}
 		}
 
+		// Changesets pre mode: flag the PR as a pre-release so reviewers do not
+		// mistake it for a stable release.
+		prTitle = withPreReleaseTitle(prTitle, preTag);
+
 		let parentSha = "";
 		if (!dryRun) {
 			const head = yield* runner.execCapture("git", ["rev-parse", "HEAD"]);
@@ -374,10 +392,12 @@ export const createReleaseBranch = (
 			yield* Effect.logInfo(`Repository node ID: ${repoNodeId}`);
 		}
 
+		let contributors: ReadonlyArray<Contributor> = [];
 		if (!dryRun && finalCommitSha) {
 			yield* Effect.logInfo(`Searching for linked issues from commits on branch: ${targetBranch}`);
-			const { linkedIssues, commits } = yield* getLinkedIssuesFromCommits(targetBranch);
+			const { linkedIssues, commits, latestTagSha } = yield* getLinkedIssuesFromCommits(targetBranch);
 			yield* Effect.logInfo(`Found ${commits.length} commit(s) to analyze`);
+			contributors = yield* resolveContributors(commits, latestTagSha, yield* loadExcludedContributors());
 
 			if (linkedIssues.length > 0) {
 				yield* Effect.logInfo(`Found ${linkedIssues.length} issue(s) to link to branch:`);
@@ -412,7 +432,17 @@ export const createReleaseBranch = (
 
 		let prNumber: number | null = null;
 		let prUrl = "";
-		const prBody = "";
+		const prSections: Array<{ heading: string; content: string }> = [];
+		if (contributors.length > 0) {
+			prSections.push({ heading: "Contributors", content: formatContributors(contributors) });
+		}
+		if (versionChanges.length > 0) {
+			prSections.push({
+				heading: "Packages",
+				content: formatVersionChanges(versionChanges, `https://github.com/${owner}/${repo}`, releaseBranch),
+			});
+		}
+		const prBody = prSections.length > 0 ? summaryWriter.build(prSections) : "";
 
 		if (!dryRun) {
 			yield* Effect.logInfo("Creating PR via GraphQL API...");
@@ -0,0 +1,80 @@
+/**
+ * Detect Changesets pre-release mode from `.changeset/pre.json`.
+ *
+ * @remarks
+ * `changeset pre enter <tag>` writes `.changeset/pre.json` with
+ * `mode: "pre"`; while it is present, `changeset version` produces
+ * prerelease versions (`1.2.0-beta.0`). `changeset pre exit` flips the mode
+ * to `"exit"`, and the next `changeset version` graduates to stable versions
+ * and deletes the file — so only `mode: "pre"` counts as active.
+ */
+
+import { FileSystem } from "@effect/platform";
+import { Effect } from "effect";
+
+/** Path of the Changesets pre-mode state file, relative to the repo root. */
+const PRE_STATE_PATH = ".changeset/pre.json";
+
+/**
+ * The fields of `.changeset/pre.json` this action reads.
+ */
+export interface PreModeState {
+	/** `"pre"` while pre mode is active, `"exit"` once `changeset pre exit` ran. */
+	mode: "pre" | "exit";
+	/** The prerelease tag passed to `changeset pre enter` (e.g. `"beta"`). */
+	tag: string;
+}
+
+/**
+ * Read `.changeset/pre.json` from the working directory.
+ *
+ * @returns The pre-mode state, or `null` when the file is absent, unreadable,
+ *   or malformed — all of which mean "not in pre mode".
+ *
+ * @public
+ */
+export const readPreMode: Effect.Effect<PreModeState | null, never, FileSystem.FileSystem> = Effect.gen(function* () {
+	const fs = yield* FileSystem.FileSystem;
+	const result = yield* Effect.either(fs.readFileString(PRE_STATE_PATH));
+	if (result._tag === "Left") return null;
+	try {
+		const parsed = JSON.parse(result.right) as { mode?: unknown; tag?: unknown };
+		if ((parsed.mode !== "pre" && parsed.mode !== "exit") || typeof parsed.tag !== "string" || parsed.tag === "") {
+			return null;
+		}
+		return { mode: parsed.mode, tag: parsed.tag };
+	} catch {
+		return null;
+	}
+});
+
+/**
+ * Resolve the active prerelease dist-tag.
+ *
+ * @returns The pre tag when pre mode is active (`mode: "pre"`), else `null`.
+ *
+ * @public
+ */
+export const detectPreTag: Effect.Effect<string | null, never, FileSystem.FileSystem> = readPreMode.pipe(
+	Effect.map((state) => (state !== null && state.mode === "pre" ? state.tag : null)),
+);
+
+/**
+ * Mark a release PR title as a pre-release, e.g.
+ * `chore: release` → `chore: release (beta pre-release)`.
+ *
+ * @param title - The title computed for a stable release.
+ * @param preTag - The active pre tag, or `null` outside pre mode.
+ * @returns The title unchanged when `preTag` is `null`.
+ *
+ * @public
+ */
+export const withPreReleaseTitle = (title: string, preTag: string | null): string =>
+	preTag === null ? title : `${title} (${preTag} pre-release)`;
+
+/**
+ * Whether a semver version carries a prerelease component (`1.2.0-beta.0`).
+ *
+ * @public
+ */
+export const isPrereleaseVersion = (version: string): boolean => version.split("+")[0].includes("-");
@@ -12,18 +12,30 @@
  * - **Phase 2 (validation)** — push to the release branch.
  * - **Phase 1 (branch-management)** — push to `main` that is not a
  *   release commit.
+ * - **snapshot** — `pull_request` event on an open PR carrying the
+ *   snapshot label.
  * - **none** — anything else.
+ *
+ * Also reports whether Changesets pre mode (`.changeset/pre.json`) is
+ * active, so every phase can treat the release as a prerelease.
+ *
+ * With release lines configured, "main" and "the release branch" are those
+ * of the line the event is on, so a maintenance branch such as `release/1.x`
+ * runs the same phases against its own release branch.
  */
 
 import { FileSystem } from "@effect/platform";
 import type { ActionEnvironmentError, PullRequestError } from "@savvy-web/github-action-effects";
 import { ActionEnvironment, PullRequest } from "@savvy-web/github-action-effects";
 import { Duration, Effect, Option } from "effect";
+import { detectPreTag } from "./detect-pre-mode.js";
+import type { ReleaseLine } from "./release-lines.js";
+import { selectReleaseLine } from "./release-lines.js";
 
 /**
- * The five phases this action knows how to dispatch.
+ * The six phases this action knows how to dispatch.
  */
-export type WorkflowPhase = "branch-management" | "validation" | "publishing" | "close-issues" | "none";
+export type WorkflowPhase = "branch-management" | "validation" | "publishing" | "close-issues" | "snapshot" | "none";
 
 /**
  * Phase detection result.
@@ -39,6 +51,10 @@ export interface PhaseDetectionResult {
 	isPRMerged: boolean;
 	isReleasePRMerged: boolean;
 	commitMessage: string;
+	/** Changesets pre tag (e.g. `"beta"`) while pre mode is active, else `null`. */
+	preTag: string | null;
+	/** The release line the event is on, when {@link PhaseDetectionOptions.lines} matched one. */
+	releaseLine?: ReleaseLine;
 }
 
 /**
@@ -53,6 +69,17 @@ export interface PhaseDetectionOptions {
 	 * `publishing` / `close-issues`.
 	 */
 	explicitPhase?: WorkflowPhase;
+	/**
+	 * PR label that requests a snapshot publish. An open pull request carrying
+	 * it runs the `snapshot` phase; empty or absent disables label detection.
+	 */
+	snapshotLabel?: string;
+	/**
+	 * Every release line, primary first (see `resolveReleaseLines`). The line
+	 * the event is on replaces `releaseBranch` / `targetBranch`; an event on
+	 * no line is detected against them as given.
+	 */
+	lines?: ReadonlyArray<ReleaseLine>;
 }
 
 /** Subset of the event payload we care about. */
@@ -60,6 +87,8 @@ interface EventPayload {
 	pull_request?: {
 		merged?: boolean;
 		number: number;
+		state?: string;
+		labels?: Array<{ name?: string }>;
 		head?: { ref: string };
 		base?: { ref: string };
 	};
@@ -197,11 +226,19 @@ export const detectWorkflowPhase = (
 > =>
 	Effect.gen(function* () {
 		const env = yield* ActionEnvironment;
-		const { releaseBranch, targetBranch, explicitPhase } = options;
+		const { explicitPhase, snapshotLabel } = options;
 
 		const { ref, eventName } = yield* env.github;
 		const payload = yield* readEventPayload;
 
+		const releaseLine =
+			options.lines !== undefined ? selectReleaseLine(options.lines, ref, payload.pull_request?.base?.ref) : undefined;
+		const releaseBranch = releaseLine?.releaseBranch ?? options.releaseBranch;
+		const targetBranch = releaseLine?.targetBranch ?? options.targetBranch;
+		if (releaseLine !== undefined && releaseLine.targetBranch !== options.targetBranch) {
+			yield* Effect.logInfo(`Release line: ${targetBranch} (release branch ${releaseBranch})`);
+		}
+
 		const commitMessage = payload.head_commit?.message ?? "";
 		const isReleaseBranch = ref === `refs/heads/${releaseBranch}`;
 		const isMainBranch = ref === `refs/heads/${targetBranch}`;
@@ -214,6 +251,9 @@ export const detectWorkflowPhase = (
 
 		const truncatedCommit = commitMessage.substring(0, 100) + (commitMessage.length > 100 ? "..." : "");
 
+		const preTag = yield* detectPreTag;
+		if (preTag !== null) yield* Effect.logInfo(`Changesets pre mode active (tag: ${preTag})`);
+
 		// Explicit phase override.
 		if (explicitPhase !== undefined) {
 			const result: PhaseDetectionResult = {
@@ -226,6 +266,8 @@ export const detectWorkflowPhase = (
 				isPRMerged: isPRMerged === true,
 				isReleasePRMerged: isReleasePRMerged === true,
 				commitMessage: truncatedCommit,
+				preTag,
+				...(releaseLine !== undefined && { releaseLine }),
 			};
 
 			if (explicitPhase === "publishing" && isMainBranch && eventName === "push") {
@@ -253,6 +295,32 @@ export const detectWorkflowPhase = (
 				isPRMerged: isPRMerged === true,
 				isReleasePRMerged: true,
 				commitMessage: truncatedCommit,
+				preTag,
+				...(releaseLine !== undefined && { releaseLine }),
+			};
+		}
+
+		// Snapshot: an open PR labelled for a canary publish.
+		if (
+			isPullRequestEvent &&
+			pullRequest !== undefined &&
+			pullRequest.state === "open" &&
+			snapshotLabel !== undefined &&
+			snapshotLabel !== "" &&
+			(pullRequest.labels ?? []).some((label) => label.name === snapshotLabel)
+		) {
+			return {
+				phase: "snapshot",
+				reason: `Pull request #${pullRequest.number} labelled "${snapshotLabel}"`,
+				isReleaseBranch,
+				isMainBranch,
+				isReleaseCommit: false,
+				isPullRequestEvent,
+				isPRMerged: false,
+				isReleasePRMerged: false,
+				commitMessage: truncatedCommit,
+				preTag,
+				...(releaseLine !== undefined && { releaseLine }),
 			};
 		}
 
@@ -275,6 +343,8 @@ export const detectWorkflowPhase = (
 			isPRMerged: isPRMerged === true,
 			isReleasePRMerged: isReleasePRMerged === true,
 			commitMessage: truncatedCommit,
+			preTag,
+			...(releaseLine !== undefined && { releaseLine }),
 		};
 		if (mergedPR) baseResult.mergedReleasePRNumber = mergedPR.number;
 
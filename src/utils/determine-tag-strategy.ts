@@ -1,5 +1,8 @@
 import type { PackagePublishResult } from "../release/types.js";
+import type { TagNaming } from "../schema/silk-release-config.js";
+import { isPrereleaseVersion } from "./detect-pre-mode.js";
 import { getAllWorkspacePackages, readChangesetConfig } from "./release-summary-helpers.js";
+import { DEFAULT_TRAIN_TEMPLATE, renderTagName, renderTrainTagName, resolveTagTemplate } from "./tag-template.js";
 
 /**
  * Tag strategy result
@@ -77,14 +80,19 @@ export function isMonorepoForTagging(): boolean {
  *
  * @remarks
  * Tagging strategy rules:
- * - Single-package repo → single tag: `v1.0.0`
- * - Monorepo with all packages in same fixed group → single tag: `v1.0.0`
+ * - Single-package repo → single tag: `1.0.0`
+ * - Monorepo with all packages in same fixed group → single tag: `1.0.0`
  * - Monorepo with independent/linked versioning → per-package tags: `@scope/pkg@1.0.0`
  *
+ * Tag names come from the `tags` templates in the release config when set
+ * (see `resolveTagTemplate`). A single tag covering several packages is
+ * rendered with the first package's name.
+ *
  * @param publishResults - Results from publishing packages
+ * @param naming - The release config's `tags` section, if any
  * @returns Tag strategy with tags to create
  */
-export function determineTagStrategy(publishResults: PackagePublishResult[]): TagStrategyResult {
+export function determineTagStrategy(publishResults: PackagePublishResult[], naming?: TagNaming): TagStrategyResult {
 	// Filter to only successful packages: those with at least one successful target,
 	// or version-only packages (empty targets array - nothing to fail)
 	const successfulPackages = publishResults.filter(
@@ -108,9 +116,16 @@ export function determineTagStrategy(publishResults: PackagePublishResult[]): Ta
 		const versions = new Set(successfulPackages.map((pkg) => pkg.version));
 		const isFixedVersioning = versions.size === 1;
 
+		// Only a lone package's override applies to the shared tag.
+		const singleTemplate = resolveTagTemplate(
+			successfulPackages.length === 1 ? naming : { ...naming, packages: [] },
+			successfulPackages[0].name,
+			"single",
+		);
+
 		if (isFixedVersioning) {
 			const version = successfulPackages[0].version;
-			const tag = version;
+			const tag = renderTagName(singleTemplate, successfulPackages[0].name, version);
 			const packageNames =
 				successfulPackages.length === 1 ? successfulPackages[0].name : successfulPackages.map((p) => p.name).join(", ");
 
@@ -135,7 +150,7 @@ export function determineTagStrategy(publishResults: PackagePublishResult[]): Ta
 			strategy: "single",
 			tags: [
 				{
-					name: highestVersion,
+					name: renderTagName(singleTemplate, successfulPackages[0].name, highestVersion),
 					packageName: successfulPackages.map((p) => p.name).join(", "),
 					version: highestVersion,
 				},
@@ -146,9 +161,9 @@ export function determineTagStrategy(publishResults: PackagePublishResult[]): Ta
 
 	// Monorepo with independent/linked versioning - create tag per package
 	const tags = successfulPackages.map((pkg) => {
-		// Use npm-style tags for scoped packages: @scope/pkg@1.0.0
-		// Use v-prefix for non-scoped: pkg@v1.0.0
-		const tag = pkg.name.startsWith("@") ? `${pkg.name}@${pkg.version}` : `${pkg.name}@v${pkg.version}`;
+		// Built-in: npm-style tags for scoped packages (@scope/pkg@1.0.0),
+		// v-prefix for non-scoped (pkg@v1.0.0)
+		const tag = renderTagName(resolveTagTemplate(naming, pkg.name, "multiple"), pkg.name, pkg.version);
 
 		return {
 			name: tag,
@@ -168,6 +183,37 @@ export function determineTagStrategy(publishResults: PackagePublishResult[]): Ta
 	};
 }
 
+/**
+ * Build the tag of a release train — one combined GitHub release for every
+ * per-package tag of an independently versioned release.
+ *
+ * @remarks
+ * The train's `packageName` joins every package, like a fixed-group tag, so
+ * release association and output projection treat it the same way. Its
+ * `version` is that of the first prerelease package, if any, so the train is
+ * marked as a prerelease whenever one of its packages is.
+ *
+ * @param tags - The per-package tags of the release (non-empty)
+ * @param naming - Tag naming config; `naming.train` overrides the built-in `release-{date}-{sha}`
+ * @param date - Release commit date, rendered into `{date}` — the commit's
+ *   rather than today's, so a resumed run renders the same name
+ * @param sha - Release commit SHA, rendered into `{sha}`
+ * @returns The train's tag
+ */
+export function releaseTrainTag(
+	tags: ReadonlyArray<TagInfo>,
+	naming: TagNaming | undefined,
+	date: Date,
+	sha: string,
+): TagInfo {
+	const prerelease = tags.find((t) => isPrereleaseVersion(t.version));
+	return {
+		name: renderTrainTagName(naming?.train ?? DEFAULT_TRAIN_TEMPLATE, date, sha),
+		packageName: tags.map((t) => t.packageName).join(", "),
+		version: (prerelease ?? tags[0])?.version ?? "",
+	};
+}
+
 /**
  * Determine the release type based on version changes
  *
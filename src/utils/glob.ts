@@ -0,0 +1,37 @@
+/**
+ * Minimal glob matching for config patterns.
+ *
+ * @remarks
+ * Supports the two wildcards config patterns need: `**` matches anything,
+ * including `/`, and `*` matches anything but `/`. A whole `**` path segment
+ * also matches zero directories, so a pattern that starts with one finds
+ * top-level files too. Every other character is literal.
+ */
+
+/**
+ * Compile `pattern` to an anchored regex.
+ *
+ * @example
+ * ```ts
+ * globToRegExp("@scope/*").test("@scope/core"); // true
+ * globToRegExp("bin/*.zip").test("bin/app.zip"); // true
+ * globToRegExp("**.zip").test("bin/linux/app.zip"); // true
+ * ```
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+	const source = pattern
+		.split("**/")
+		.map((segment) =>
+			segment
+				.split("**")
+				.map((part) =>
+					part
+						.split("*")
+						.map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+						.join("[^/]*"),
+				)
+				.join(".*"),
+		)
+		.join("(?:.*/)?");
+	return new RegExp(`^${source}$`);
+};
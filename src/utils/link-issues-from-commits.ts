@@ -44,7 +44,10 @@ import {
 } from "@savvy-web/github-action-effects";
 import type { ConfigError } from "effect";
 import { Config, Effect, Layer } from "effect";
+import type { TagNaming } from "../schema/silk-release-config.js";
+import { loadTagNaming } from "./load-release-config.js";
 import { summaryWriter } from "./summary-writer.js";
+import { extractVersionFromTag, lineVersion } from "./tag-template.js";
 import { appToken } from "./tokens.js";
 
 /** Linked issue, with the SHA(s) of the commits that reference it. */
@@ -109,22 +112,6 @@ interface TagEntry {
 	version: string;
 }
 
-/**
- * Extract the version string from a tag name.
- *
- * Handles both `vX.Y.Z` (single-package / `v`-prefixed) and
- * `@scope/pkg@X.Y.Z` (monorepo per-package) formats by taking the
- * substring after the last `@` sign when present, or stripping a
- * leading `v` otherwise.
- *
- * @internal
- */
-const extractVersionFromTag = (tag: string): string => {
-	const atIdx = tag.lastIndexOf("@");
-	if (atIdx !== -1) return tag.slice(atIdx + 1);
-	return tag.startsWith("v") ? tag.slice(1) : tag;
-};
-
 /**
  * Fetch the latest release tag's SHA. Returns `null` when no tags exist,
  * none yield a parseable semver, or the API call fails.
@@ -133,48 +120,105 @@ const extractVersionFromTag = (tag: string): string => {
  * Selects the tag with the highest **semantic** version using
  * `SemverResolver.compare`, so multi-digit version components (e.g.
  * `v1.10.0` vs `v1.9.0`) are ordered correctly regardless of how
- * `GitTag.list()` returns the entries.
+ * `GitTag.list()` returns the entries. Versions are read from tag names
+ * through the `tags` templates in `naming`, falling back to the built-in
+ * formats (see `extractVersionFromTag`).
  *
  * Exported for direct unit testing; consuming modules should prefer
  * {@link getLinkedIssuesFromCommits} which composes this internally.
  *
  * @public
  */
-export const getLatestTagSha = Effect.gen(function* () {
-	const gitTag = yield* GitTag;
-	const result = yield* Effect.either(gitTag.list());
-	if (result._tag === "Left") {
-		yield* Effect.logWarning(`Failed to get latest tag: ${result.left.reason}`);
-		return null;
-	}
-	const tags = result.right;
-	if (tags.length === 0) return null;
-
-	// Filter to tags with parseable semver versions.
-	const parseable: TagEntry[] = [];
-	for (const entry of tags) {
-		const version = extractVersionFromTag(entry.tag);
-		const parseResult = yield* Effect.either(SemverResolver.parse(version));
-		if (parseResult._tag === "Right") {
-			parseable.push({ ...entry, version });
+export const getLatestTagShaFor = (naming: TagNaming | undefined) =>
+	Effect.gen(function* () {
+		const gitTag = yield* GitTag;
+		const result = yield* Effect.either(gitTag.list());
+		if (result._tag === "Left") {
+			yield* Effect.logWarning(`Failed to get latest tag: ${result.left.reason}`);
+			return null;
+		}
+		const tags = result.right;
+		if (tags.length === 0) return null;
+
+		// Filter to tags with parseable semver versions.
+		const parseable: TagEntry[] = [];
+		for (const entry of tags) {
+			const version = extractVersionFromTag(entry.tag, naming);
+			const parseResult = yield* Effect.either(SemverResolver.parse(version));
+			if (parseResult._tag === "Right") {
+				parseable.push({ ...entry, version });
+			}
 		}
-	}
 
-	if (parseable.length === 0) return null;
+		const latest = yield* highestTag(parseable);
+		return latest?.sha ?? null;
+	});
 
-	// Select the tag with the highest semantic version.
-	let latest = parseable[0] as TagEntry;
-	for (let i = 1; i < parseable.length; i++) {
-		const candidate = parseable[i] as TagEntry;
-		const cmp = yield* Effect.either(SemverResolver.compare(candidate.version, latest.version));
-		// On parse failure, keep the current latest.
-		if (cmp._tag === "Right" && cmp.right === 1) {
-			latest = candidate;
+/**
+ * The entry with the highest semantic version, or `undefined` for none.
+ *
+ * @internal
+ */
+const highestTag = (entries: ReadonlyArray<TagEntry>): Effect.Effect<TagEntry | undefined> =>
+	Effect.gen(function* () {
+		const [first, ...rest] = entries;
+		if (first === undefined) return undefined;
+		let latest = first;
+		for (const candidate of rest) {
+			const cmp = yield* Effect.either(SemverResolver.compare(candidate.version, latest.version));
+			// On parse failure, keep the current latest.
+			if (cmp._tag === "Right" && cmp.right === 1) {
+				latest = candidate;
+			}
 		}
-	}
+		return latest;
+	});
 
-	return latest.sha;
-});
+/**
+ * The release tag `tagName` follows: the highest-versioned tag in the same
+ * tag line whose version is below `version`.
+ *
+ * @remarks
+ * A tag line is every tag with the same text around the version (see
+ * `lineVersion`), so per-package tags only match their own package.
+ * Selection uses the same semantic ordering as {@link getLatestTagShaFor}.
+ * Returns `null` when there is no earlier tag, `tagName` does not contain
+ * `version` (a release train), or the tag listing fails.
+ *
+ * @public
+ */
+export const getPreviousTag = (
+	tagName: string,
+	version: string,
+): Effect.Effect<{ tag: string; version: string } | null, never, GitTag> =>
+	Effect.gen(function* () {
+		const gitTag = yield* GitTag;
+		const result = yield* Effect.either(gitTag.list());
+		if (result._tag === "Left") {
+			yield* Effect.logWarning(`Failed to list tags for ${tagName}: ${result.left.reason}`);
+			return null;
+		}
+
+		const earlier: TagEntry[] = [];
+		for (const entry of result.right) {
+			const candidate = lineVersion(entry.tag, tagName, version);
+			if (candidate === null) continue;
+			const cmp = yield* Effect.either(SemverResolver.compare(candidate, version));
+			if (cmp._tag === "Right" && cmp.right === -1) {
+				earlier.push({ ...entry, version: candidate });
+			}
+		}
+
+		const previous = yield* highestTag(earlier);
+		return previous !== undefined ? { tag: previous.tag, version: previous.version } : null;
+	});
+
+/**
+ * {@link getLatestTagShaFor} with the tag naming from the release config.
+ *
+ * @public
+ */
+export const getLatestTagSha = Effect.flatMap(loadTagNaming(), getLatestTagShaFor);
 
 /**
  * Fetch all commits on a branch, paginated.
@@ -296,18 +340,22 @@ const fetchIssueDetails = (issueNumber: number): Effect.Effect<IssueData | null,
 	});
 
 /**
- * Walk commits since the last release tag, collect linked issues from
- * both close-keyword references and PR `closingIssuesReferences`.
+ * The commits since the last release tag, or every commit on `targetBranch`
+ * when there is no tag.
+ *
+ * @remarks
+ * A failed comparison is logged and yields no commits. Shared by
+ * {@link getLinkedIssuesFromCommits} and the contributor acknowledgements in
+ * release notes.
+ *
+ * @returns The commits and the SHA of the release tag they follow, or `null`
+ *   when there is none.
  *
  * @public
  */
-export const getLinkedIssuesFromCommits = (
+export const getCommitsSinceLatestTag = (
 	targetBranch: string,
-): Effect.Effect<
-	{ linkedIssues: LinkedIssue[]; commits: CommitInfo[] },
-	ActionEnvironmentError | GitHubIssueError,
-	ActionEnvironment | GitHubClient | GitHubCommit | GitHubIssue | GitTag
-> =>
+): Effect.Effect<{ commits: CommitInfo[]; latestTagSha: string | null }, never, GitHubCommit | GitTag> =>
 	Effect.gen(function* () {
 		const commitsSvc = yield* GitHubCommit;
 		const latestTagSha = yield* getLatestTagSha;
@@ -327,6 +375,24 @@ export const getLinkedIssuesFromCommits = (
 			yield* Effect.logInfo("No tags found - fetching all commits from branch");
 			commits = yield* getAllCommitsOnBranch(targetBranch);
 		}
+		return { commits, latestTagSha };
+	});
+
+/**
+ * Walk commits since the last release tag, collect linked issues from
+ * both close-keyword references and PR `closingIssuesReferences`.
+ *
+ * @public
+ */
+export const getLinkedIssuesFromCommits = (
+	targetBranch: string,
+): Effect.Effect<
+	{ linkedIssues: LinkedIssue[]; commits: CommitInfo[]; latestTagSha: string | null },
+	ActionEnvironmentError | GitHubIssueError,
+	ActionEnvironment | GitHubClient | GitHubCommit | GitHubIssue | GitTag
+> =>
+	Effect.gen(function* () {
+		const { commits, latestTagSha } = yield* getCommitsSinceLatestTag(targetBranch);
 
 		const issueMap = new Map<number, LinkedIssue>();
 
@@ -403,7 +469,7 @@ export const getLinkedIssuesFromCommits = (
 			}
 		}
 
-		return { linkedIssues, commits };
+		return { linkedIssues, commits, latestTagSha };
 	});
 
 /**
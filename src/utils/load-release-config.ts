@@ -4,8 +4,11 @@ import type { ParseResult } from "effect";
 import { Config, Effect, Either, Schema } from "effect";
 import { ArrayFormatter } from "effect/ParseResult";
 import { parse as parseJsonc } from "jsonc-parser";
+import type { ReleaseAssets, TagNaming, TargetBranch } from "../schema/silk-release-config.js";
 import { SilkReleaseConfig } from "../schema/silk-release-config.js";
 import type { ReleaseConfig, SBOMMetadataConfig } from "../types/sbom-config.js";
+import { DEFAULT_EXCLUDED_CONTRIBUTORS } from "./contributors.js";
+import { renderTemplate } from "./render-template.js";
 
 /**
  * Config file names to search for (in order of preference)
@@ -383,3 +386,150 @@ export function loadSBOMConfig(rootDir?: string): Effect.Effect<LoadSBOMConfigRe
 		return { ok: true, config: result.config?.sbom, source: result.source } as const;
 	});
 }
+
+/**
+ * Load one section of the release configuration.
+ *
+ * @remarks
+ * The shared body of the section loaders below. A config that fails to
+ * decode is logged and treated as absent — `fallback` applies rather than
+ * failing the phase, and Phase 2 reports the decode error as a finding.
+ *
+ * @param select - Picks the section out of the decoded config.
+ * @param fallback - The value used when the config does not decode.
+ * @param fallbackNote - What the fallback means, for the warning.
+ * @param rootDir - Repository root directory (defaults to process.cwd())
+ */
+const loadReleaseConfigSection = <A>(
+	select: (config: ReleaseConfig | undefined) => A,
+	fallback: A,
+	fallbackNote: string,
+	rootDir?: string,
+): Effect.Effect<A> =>
+	Effect.gen(function* () {
+		const result = yield* loadReleaseConfig(rootDir);
+		if (!result.ok) {
+			yield* Effect.logWarning(`Release config did not decode; ${fallbackNote}: ${result.error}`);
+			return fallback;
+		}
+		return select(result.config);
+	});
+
+/**
+ * Load the tag naming templates from the `tags` section.
+ *
+ * @param rootDir - Repository root directory (defaults to process.cwd())
+ * @returns The `tags` section, or `undefined` when none applies.
+ */
+export function loadTagNaming(rootDir?: string): Effect.Effect<TagNaming | undefined> {
+	return loadReleaseConfigSection((config) => config?.tags, undefined, "using built-in tag names", rootDir);
+}
+
+/**
+ * Load the maintenance release lines from the `branches` section.
+ *
+ * @param rootDir - Repository root directory (defaults to process.cwd())
+ * @returns The `branches` section, or an empty array when none applies.
+ */
+export function loadTargetBranches(rootDir?: string): Effect.Effect<ReadonlyArray<TargetBranch>> {
+	return loadReleaseConfigSection(
+		(config) => config?.branches ?? [],
+		[],
+		"using the primary release line only",
+		rootDir,
+	);
+}
+
+/**
+ * Load the extra release asset patterns from the `releaseAssets` section.
+ *
+ * @param rootDir - Repository root directory (defaults to process.cwd())
+ * @returns The `releaseAssets` section, or an empty array when none applies.
+ */
+export function loadReleaseAssets(rootDir?: string): Effect.Effect<ReadonlyArray<ReleaseAssets>> {
+	return loadReleaseConfigSection(
+		(config) => config?.releaseAssets ?? [],
+		[],
+		"attaching no extra release assets",
+		rootDir,
+	);
+}
+
+/**
+ * Read the release-notes template at `templatePath`, relative to `rootDir`,
+ * failing with why it cannot be read — missing, a directory, or unreadable.
+ */
+const readReleaseNotesTemplate = (templatePath: string, rootDir?: string): Effect.Effect<string, string> => {
+	const fullPath = join(rootDir || process.cwd(), templatePath);
+	if (!existsSync(fullPath)) return Effect.fail(`${templatePath} not found`);
+	return Effect.try({
+		try: () => readFileSync(fullPath, "utf-8"),
+		catch: (e) => `${templatePath} cannot be read: ${e instanceof Error ? e.message : String(e)}`,
+	});
+};
+
+/**
+ * Load the release-notes template
+ *
+ * @remarks
+ * Reads the file named by the `releaseNotes.template` config key, relative to
+ * `rootDir`. A template file that cannot be read is logged and treated as
+ * absent, like an undecodable config — releases use the built-in notes
+ * layout.
+ *
+ * @param rootDir - Repository root directory (defaults to process.cwd())
+ * @returns The template source, or `null` when none applies.
+ */
+export function loadReleaseNotesTemplate(rootDir?: string): Effect.Effect<string | null> {
+	return Effect.gen(function* () {
+		const templatePath = yield* loadReleaseConfigSection(
+			(config) => config?.releaseNotes?.template,
+			undefined,
+			"using the built-in release notes",
+			rootDir,
+		);
+		if (templatePath === undefined) return null;
+		return yield* readReleaseNotesTemplate(templatePath, rootDir).pipe(
+			Effect.catchAll((reason) =>
+				Effect.as(Effect.logWarning(`Release notes template ${reason}; using the built-in release notes`), null),
+			),
+		);
+	});
+}
+
+/**
+ * Check the release-notes template at `templatePath` the way Phase 3 will
+ * use it: read it, then render it once with no variables, which surfaces
+ * every syntax error.
+ *
+ * @param rootDir - Repository root directory (defaults to process.cwd())
+ * @returns Why Phase 3 would fall back to the built-in notes, or `null` when
+ *   the template is usable.
+ */
+export function checkReleaseNotesTemplate(templatePath: string, rootDir?: string): Effect.Effect<string | null> {
+	return readReleaseNotesTemplate(templatePath, rootDir).pipe(
+		Effect.map((template) =>
+			Either.match(renderTemplate(template, {}), {
+				onLeft: (error) => `${templatePath} does not render: ${error}`,
+				onRight: () => null,
+			}),
+		),
+		Effect.merge,
+	);
+}
+
+/**
+ * Load the contributor exclusion patterns from the
+ * `releaseNotes.excludeContributors` key.
+ *
+ * @param rootDir - Repository root directory (defaults to process.cwd())
+ * @returns The patterns, or {@link DEFAULT_EXCLUDED_CONTRIBUTORS} when none are configured.
+ */
+export function loadExcludedContributors(rootDir?: string): Effect.Effect<ReadonlyArray<string>> {
+	return loadReleaseConfigSection(
+		(config) => config?.releaseNotes?.excludeContributors ?? DEFAULT_EXCLUDED_CONTRIBUTORS,
+		DEFAULT_EXCLUDED_CONTRIBUTORS,
+		"excluding only bot contributors",
+		rootDir,
+	);
+}
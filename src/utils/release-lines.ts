@@ -0,0 +1,117 @@
+/**
+ * Release lines.
+ *
+ * @remarks
+ * A release line pairs a target branch with the release branch its release
+ * PR is opened from. The `release-branch` / `target-branch` inputs are the
+ * primary line; the `branches` section of the Silk release config adds
+ * maintenance lines (e.g. `release/1.x`), each with its own dist-tag and
+ * tag / latest-release behaviour. Phase detection picks the line the event
+ * is on, and the phase then runs with that line's settings in place of the
+ * corresponding action inputs.
+ */
+
+import { ConfigProvider, Effect } from "effect";
+import type { MakeLatest } from "../release/releases.js";
+import type { TargetBranch } from "../schema/silk-release-config.js";
+
+/**
+ * A resolved release line. `null` settings keep the action input's value.
+ *
+ * @public
+ */
+export interface ReleaseLine {
+	readonly targetBranch: string;
+	readonly releaseBranch: string;
+	/** Dist-tag stable versions publish under (`dist-tag` input). */
+	readonly distTag: string | null;
+	/** `make-latest` input override. */
+	readonly makeLatest: MakeLatest | null;
+	/** `floating-tags` input override. */
+	readonly floatingTags: boolean | null;
+}
+
+/** The release branch of a maintenance line that names none: `changeset-release/<target>`. */
+export const defaultReleaseBranch = (targetBranch: string): string => `changeset-release/${targetBranch}`;
+
+/**
+ * Resolve every release line, the primary one first.
+ *
+ * @remarks
+ * An entry for the primary target branch overrides the primary line's
+ * settings rather than adding a line; its `releaseBranch`, when set,
+ * replaces the `release-branch` input. Later duplicates of a target are
+ * ignored.
+ *
+ * @param primary - The `release-branch` / `target-branch` inputs.
+ * @param branches - The `branches` section of the Silk release config.
+ *
+ * @public
+ */
+export const resolveReleaseLines = (
+	primary: { readonly releaseBranch: string; readonly targetBranch: string },
+	branches: ReadonlyArray<TargetBranch>,
+): ReadonlyArray<ReleaseLine> => {
+	const lines: ReleaseLine[] = [];
+	const primaryEntry = branches.find((b) => b.target === primary.targetBranch);
+	lines.push({
+		targetBranch: primary.targetBranch,
+		releaseBranch: primaryEntry?.releaseBranch ?? primary.releaseBranch,
+		distTag: primaryEntry?.distTag ?? null,
+		makeLatest: primaryEntry?.makeLatest ?? null,
+		floatingTags: primaryEntry?.floatingTags ?? null,
+	});
+	for (const branch of branches) {
+		if (lines.some((l) => l.targetBranch === branch.target)) continue;
+		lines.push({
+			targetBranch: branch.target,
+			releaseBranch: branch.releaseBranch ?? defaultReleaseBranch(branch.target),
+			distTag: branch.distTag ?? null,
+			makeLatest: branch.makeLatest ?? null,
+			floatingTags: branch.floatingTags ?? null,
+		});
+	}
+	return lines;
+};
+
+/**
+ * The release line an event belongs to: the line whose target or release
+ * branch `ref` points at, else — for a pull request event, whose ref is the
+ * PR's merge ref — the line targeting the PR's base branch.
+ *
+ * @returns The matching line, or `undefined` when the event is on none.
+ *
+ * @public
+ */
+export const selectReleaseLine = (
+	lines: ReadonlyArray<ReleaseLine>,
+	ref: string,
+	pullRequestBase: string | undefined,
+): ReleaseLine | undefined =>
+	lines.find((l) => ref === `refs/heads/${l.targetBranch}` || ref === `refs/heads/${l.releaseBranch}`) ??
+	(pullRequestBase !== undefined ? lines.find((l) => l.targetBranch === pullRequestBase) : undefined);
+
+/**
+ * Run `effect` with `line`'s settings in place of the `release-branch`,
+ * `target-branch`, `dist-tag`, `make-latest`, and `floating-tags` inputs.
+ *
+ * @remarks
+ * The phases read those inputs through `Config` wherever they need them, so
+ * the line is layered over the ambient config provider rather than threaded
+ * through every call. Settings the line leaves `null` fall through to the
+ * inputs.
+ *
+ * @public
+ */
+export const withReleaseLine = <A, E, R>(line: ReleaseLine, effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+	Effect.configProviderWith((ambient) => {
+		const overrides = new Map<string, string>([
+			["release-branch", line.releaseBranch],
+			["target-branch", line.targetBranch],
+		]);
+		if (line.distTag !== null) overrides.set("dist-tag", line.distTag);
+		if (line.makeLatest !== null) overrides.set("make-latest", line.makeLatest);
+		if (line.floatingTags !== null) overrides.set("floating-tags", String(line.floatingTags));
+		const provider = ConfigProvider.fromMap(overrides).pipe(ConfigProvider.orElse(() => ambient));
+		return Effect.withConfigProvider(effect, provider);
+	});
@@ -22,6 +22,7 @@ interface RawPackageJson {
 export interface ChangesetConfig {
 	fixed?: string[][];
 	linked?: string[][];
+	updateInternalDependencies?: "patch" | "minor";
 }
 
 /**
@@ -0,0 +1,168 @@
+/**
+ * Handlebars-style text templates.
+ *
+ * @remarks
+ * Renders the release-notes template named by the `releaseNotes` section of
+ * the Silk release config. Only the small subset release notes need is
+ * supported:
+ *
+ * - `{{name}}` and `{{a.b}}` insert a value; arrays are joined with `, ` and
+ *   missing values render empty. Inside a block `{{this}}` is the current
+ *   item.
+ * - `{{#each list}}…{{/each}}` repeats its body per item. Names resolve on
+ *   the item first, then on the enclosing scopes.
+ * - `{{#if name}}…{{else}}…{{/if}}` renders its body when the value is a
+ *   non-empty string or array, a non-zero number, `true`, or an object.
+ *
+ * Values are inserted verbatim — release notes are markdown, so nothing is
+ * escaped.
+ */
+
+import { Either } from "effect";
+
+/** A value a template can reference. */
+export type TemplateValue =
+	| string
+	| number
+	| boolean
+	| null
+	| undefined
+	| ReadonlyArray<TemplateValue>
+	| { readonly [key: string]: TemplateValue };
+
+/** The variables a template is rendered with. */
+export type TemplateContext = { readonly [key: string]: TemplateValue };
+
+type TemplateNode =
+	| { readonly kind: "text"; readonly text: string }
+	| { readonly kind: "value"; readonly path: string }
+	| { readonly kind: "each"; readonly path: string; readonly body: TemplateNode[] }
+	| { readonly kind: "if"; readonly path: string; readonly body: TemplateNode[]; readonly otherwise: TemplateNode[] };
+
+/** A block still open while parsing, with the node list its body is collected into. */
+interface OpenBlock {
+	readonly node: Extract<TemplateNode, { kind: "each" | "if" }>;
+	target: TemplateNode[];
+}
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(?:this|[A-Za-z_$][\w$]*)(?:\.[A-Za-z_$][\w$]*)*$/;
+
+/** Parse `template` into a node tree, or describe the first syntax error. */
+const parse = (template: string): Either.Either<TemplateNode[], string> => {
+	const root: TemplateNode[] = [];
+	const stack: OpenBlock[] = [];
+	const innermost = (): OpenBlock | undefined => stack[stack.length - 1];
+	const current = (): TemplateNode[] => innermost()?.target ?? root;
+	let last = 0;
+
+	for (const match of template.matchAll(TAG_PATTERN)) {
+		const [raw, inner = ""] = match;
+		const index = match.index ?? last;
+		if (index > last) current().push({ kind: "text", text: template.slice(last, index) });
+		last = index + raw.length;
+
+		const block = /^#(each|if)\s+(\S+)$/.exec(inner);
+		if (block !== null) {
+			const [, keyword, path = ""] = block;
+			if (!PATH_PATTERN.test(path)) return Either.left(`invalid name \`${path}\` in \`${raw}\``);
+			const node: OpenBlock["node"] =
+				keyword === "each" ? { kind: "each", path, body: [] } : { kind: "if", path, body: [], otherwise: [] };
+			current().push(node);
+			stack.push({ node, target: node.body });
+			continue;
+		}
+		if (inner === "else") {
+			const open = innermost();
+			if (open === undefined || open.node.kind !== "if" || open.target !== open.node.body) {
+				return Either.left("`{{else}}` outside `{{#if}}`");
+			}
+			open.target = open.node.otherwise;
+			continue;
+		}
+		const close = /^\/(each|if)$/.exec(inner);
+		if (close !== null) {
+			const open = stack.pop();
+			if (open?.node.kind !== close[1]) return Either.left(`unexpected \`${raw}\``);
+			continue;
+		}
+		if (!PATH_PATTERN.test(inner)) return Either.left(`invalid placeholder \`${raw}\``);
+		current().push({ kind: "value", path: inner });
+	}
+
+	if (last < template.length) current().push({ kind: "text", text: template.slice(last) });
+	const unclosed = innermost();
+	if (unclosed !== undefined)
+		return Either.left(`\`{{#${unclosed.node.kind} ${unclosed.node.path}}}\` is never closed`);
+	return Either.right(root);
+};
+
+/** Resolve `path` against the innermost scope that defines its first segment. */
+const lookup = (scopes: ReadonlyArray<TemplateValue>, path: string): TemplateValue => {
+	const [head = "", ...rest] = path.split(".");
+	let value: TemplateValue = undefined;
+	if (head === "this") {
+		value = scopes[scopes.length - 1];
+	} else {
+		for (let i = scopes.length - 1; i >= 0; i--) {
+			const scope = scopes[i];
+			if (isRecord(scope) && head in scope) {
+				value = scope[head];
+				break;
+			}
+		}
+	}
+	for (const key of rest) value = isRecord(value) ? value[key] : undefined;
+	return value;
+};
+
+const isRecord = (value: TemplateValue): value is { readonly [key: string]: TemplateValue } =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isTruthy = (value: TemplateValue): boolean => {
+	if (Array.isArray(value)) return value.length > 0;
+	if (typeof value === "string") return value !== "";
+	if (typeof value === "number") return value !== 0;
+	return value === true || isRecord(value);
+};
+
+const stringify = (value: TemplateValue): string => {
+	if (Array.isArray(value)) return value.map(stringify).join(", ");
+	if (typeof value === "string") return value;
+	if (typeof value === "number" || typeof value === "boolean") return String(value);
+	return "";
+};
+
+const renderNodes = (nodes: ReadonlyArray<TemplateNode>, scopes: ReadonlyArray<TemplateValue>): string => {
+	let out = "";
+	for (const node of nodes) {
+		if (node.kind === "text") {
+			out += node.text;
+		} else if (node.kind === "value") {
+			out += stringify(lookup(scopes, node.path));
+		} else if (node.kind === "if") {
+			out += renderNodes(isTruthy(lookup(scopes, node.path)) ? node.body : node.otherwise, scopes);
+		} else {
+			const list = lookup(scopes, node.path);
+			if (!Array.isArray(list)) continue;
+			for (const item of list) out += renderNodes(node.body, [...scopes, item]);
+		}
+	}
+	return out;
+};
+
+/**
+ * Render `template` with `context`.
+ *
+ * @example
+ * ```ts
+ * renderTemplate("{{#each packages}}- {{name}}@{{version}}\n{{/each}}", {
+ * 	packages: [{ name: "@savvy-web/core", version: "1.2.0" }],
+ * }); // Right("- @savvy-web/core@1.2.0\n")
+ * ```
+ *
+ * @returns The rendered text, or `Left` describing the first syntax error —
+ *   an unbalanced block or a malformed placeholder.
+ */
+export const renderTemplate = (template: string, context: TemplateContext): Either.Either<string, string> =>
+	Either.map(parse(template), (nodes) => renderNodes(nodes, [context]));
@@ -0,0 +1,162 @@
+/**
+ * Git tag naming templates.
+ *
+ * @remarks
+ * Renders the tag names Phase 3 creates from the `tags` section of the Silk
+ * release config, and parses existing tags back to their version so the
+ * commit-range lookup in `link-issues-from-commits.ts` finds the previous
+ * release under a custom naming scheme. Templates use `{name}`,
+ * `{unscopedName}`, and `{version}` placeholders; with no config the
+ * built-in names apply.
+ */
+
+import type { TagNaming } from "../schema/silk-release-config.js";
+
+/** The built-in template for a single shared tag. */
+export const DEFAULT_SINGLE_TEMPLATE = "{version}";
+
+/**
+ * The built-in template for a release train's tag. The short SHA keeps two
+ * trains released on the same day apart.
+ */
+export const DEFAULT_TRAIN_TEMPLATE = "release-{date}-{sha}";
+
+/** The semver a `{version}` placeholder matches when parsing a tag. */
+const VERSION_PATTERN = "\\d+\\.\\d+\\.\\d+(?:-[0-9A-Za-z.-]+)?(?:\\+[0-9A-Za-z.-]+)?";
+
+/** `@scope/name` → `name`; an unscoped name is returned as-is. */
+const unscoped = (packageName: string): string => packageName.replace(/^@[^/]+\//, "");
+
+/**
+ * The built-in per-package template: npm-style `@scope/pkg@1.0.0` for scoped
+ * packages, `pkg@v1.0.0` otherwise.
+ */
+export const defaultPackageTemplate = (packageName: string): string =>
+	packageName.startsWith("@") ? "{name}@{version}" : "{name}@v{version}";
+
+/**
+ * Render a tag name from `template`.
+ *
+ * @example
+ * ```ts
+ * renderTagName("{unscopedName}-v{version}", "@savvy-web/core", "1.2.0"); // "core-v1.2.0"
+ * ```
+ */
+export const renderTagName = (template: string, packageName: string, version: string): string =>
+	template
+		.replace(/\{unscopedName\}/g, unscoped(packageName))
+		.replace(/\{name\}/g, packageName)
+		.replace(/\{version\}/g, version);
+
+/**
+ * Render a release train's tag name from `template`, filling `{date}` with the
+ * UTC date of `date` (`YYYY-MM-DD`) and `{sha}` with the first seven
+ * characters of `sha`.
+ *
+ * @example
+ * ```ts
+ * renderTrainTagName("release-{date}-{sha}", new Date("2026-10-19T12:00:00Z"), "abc1234def"); // "release-2026-10-19-abc1234"
+ * ```
+ */
+export const renderTrainTagName = (template: string, date: Date, sha: string): string =>
+	template.replace(/\{date\}/g, date.toISOString().slice(0, 10)).replace(/\{sha\}/g, sha.slice(0, 7));
+
+/**
+ * The template naming `packageName`'s tag: its override, else the
+ * strategy's configured template, else the built-in one.
+ *
+ * @param strategy - `"single"` for one shared tag, `"multiple"` for per-package tags.
+ */
+export const resolveTagTemplate = (
+	naming: TagNaming | undefined,
+	packageName: string,
+	strategy: "single" | "multiple",
+): string => {
+	const override = naming?.packages?.find((o) => o.package === packageName)?.template;
+	if (override !== undefined) return override;
+	return strategy === "single"
+		? (naming?.single ?? DEFAULT_SINGLE_TEMPLATE)
+		: (naming?.perPackage ?? defaultPackageTemplate(packageName));
+};
+
+/** Compile a template into a regex capturing the `{version}` placeholder. */
+const templateToRegExp = (template: string): RegExp => {
+	const source = template
+		.split(/(\{name\}|\{unscopedName\}|\{version\})/)
+		.map((part) => {
+			if (part === "{version}") return `(${VERSION_PATTERN})`;
+			if (part === "{name}") return ".+?";
+			if (part === "{unscopedName}") return "[^/]+?";
+			return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`);
+};
+
+/**
+ * Extract the version from a tag name.
+ *
+ * @remarks
+ * Each configured template is tried first. A tag no template matches falls
+ * back to the built-in formats: the substring after the last `@`
+ * (`@scope/pkg@X.Y.Z`), else the tag with any leading `v` stripped — so
+ * tags created before a naming change still parse.
+ *
+ * @returns The version string; not guaranteed to be valid semver on the
+ *   fallback path.
+ */
+export const extractVersionFromTag = (tag: string, naming?: TagNaming): string => {
+	const templates = [
+		...(naming?.packages ?? []).map((o) => o.template),
+		...(naming?.perPackage !== undefined ? [naming.perPackage] : []),
+		...(naming?.single !== undefined ? [naming.single] : []),
+	];
+	for (const template of templates) {
+		const match = templateToRegExp(template).exec(tag);
+		if (match?.[1] !== undefined) return match[1];
+	}
+	const atIdx = tag.lastIndexOf("@");
+	if (atIdx !== -1) return tag.slice(atIdx + 1);
+	return tag.startsWith("v") ? tag.slice(1) : tag;
+};
+
+/**
+ * The floating major and major.minor tags that follow an exact-version tag.
+ *
+ * @remarks
+ * The version inside `tagName` is replaced by `v<major>` and
+ * `v<major>.<minor>`, so `@scope/pkg@2.3.1` floats `@scope/pkg@v2` and
+ * `@scope/pkg@v2.3`. A `v` already before the version is kept rather than
+ * doubled (`v2.3.1` → `v2`, `v2.3`). Whether a name should follow this
+ * version — it must be the highest of its line — is left to the caller.
+ *
+ * @returns The `[major, major.minor]` tag names, or an empty array when
+ *   `tagName` does not contain `version`.
+ */
+export const floatingTagNames = (tagName: string, version: string): ReadonlyArray<string> => {
+	const idx = tagName.lastIndexOf(version);
+	const [major, minor] = version.split(".");
+	if (idx === -1 || major === undefined || minor === undefined) return [];
+	const prefix = tagName.slice(0, idx);
+	const suffix = tagName.slice(idx + version.length);
+	const v = prefix.endsWith("v") ? "" : "v";
+	return [`${prefix}${v}${major}${suffix}`, `${prefix}${v}${major}.${minor}${suffix}`];
+};
+
+/**
+ * The version of `otherTag` when it belongs to the same tag line as
+ * `tagName` — the same text around the version, as with `v1.4.2` and
+ * `v2.0.0`, or `@scope/pkg@1.4.2` and `@scope/pkg@2.0.0`.
+ *
+ * @returns The other tag's version, or `null` when it is in a different line
+ *   or `tagName` does not contain `version`.
+ */
+export const lineVersion = (otherTag: string, tagName: string, version: string): string | null => {
+	const idx = tagName.lastIndexOf(version);
+	if (idx === -1) return null;
+	const prefix = tagName.slice(0, idx);
+	const suffix = tagName.slice(idx + version.length);
+	if (!otherTag.startsWith(prefix) || !otherTag.endsWith(suffix)) return null;
+	const candidate = otherTag.slice(prefix.length, otherTag.length - suffix.length);
+	return new RegExp(`^${VERSION_PATTERN}$`).test(candidate) ? candidate : null;
+};
@@ -8,7 +8,10 @@
  * branch ref is fast-forwarded to main's tip. PRs are reopened when a
  * prior force-push closed them, titles are refreshed, and bodies are
  * augmented with a "Linked Issues" section harvested from the changeset
- * commits in the remote target-branch history.
+ * commits in the remote target-branch history, a "Contributors" section
+ * crediting the authors of the commits since the last release, and a
+ * "Packages" section listing each version bump with a compare link from its
+ * previous release tag.
  */
 
 import { FileSystem } from "@effect/platform";
@@ -20,7 +23,9 @@ import type {
 	CommandRunnerError,
 	GitCommitError,
 	GitHubClientError,
+	GitHubCommit,
 	GitHubIssueError,
+	GitTag,
 	PullRequestError,
 } from "@savvy-web/github-action-effects";
 import {
@@ -36,8 +41,15 @@ import {
 import type { ConfigError } from "effect";
 import { Config, Duration, Effect } from "effect";
 import { resolveSignoff } from "./commit-signoff.js";
+import type { Contributor } from "./contributors.js";
+import { formatContributors, resolveContributors } from "./contributors.js";
+import { withPreReleaseTitle } from "./detect-pre-mode.js";
 import { isSinglePackage } from "./detect-repo-type.js";
+import { getCommitsSinceLatestTag } from "./link-issues-from-commits.js";
+import { loadExcludedContributors, loadTagNaming } from "./load-release-config.js";
 import { summaryWriter } from "./summary-writer.js";
+import type { VersionChange } from "./version-changes.js";
+import { formatVersionChanges, resolveVersionChanges } from "./version-changes.js";
 
 /**
  * An issue linked to the release via a changeset commit.
@@ -139,6 +151,32 @@ const buildLinkedIssuesSection = (linkedIssues: ReadonlyArray<LinkedIssue>): str
 	return summaryWriter.build([{ heading: "Linked Issues", content: summaryWriter.list(items) }]);
 };
 
+const buildContributorsSection = (contributors: ReadonlyArray<Contributor>): string => {
+	if (contributors.length === 0) return "";
+	return summaryWriter.build([{ heading: "Contributors", content: formatContributors(contributors) }]);
+};
+
+const buildPackagesSection = (
+	versionChanges: ReadonlyArray<VersionChange>,
+	owner: string,
+	repo: string,
+	releaseBranch: string,
+): string => {
+	if (versionChanges.length === 0) return "";
+	const content = formatVersionChanges(versionChanges, `https://github.com/${owner}/${repo}`, releaseBranch);
+	return summaryWriter.build([{ heading: "Packages", content }]);
+};
+
+/** Drop the `## <heading>` section (up to the next H2) from a PR body. */
+const withoutSection = (body: string, heading: string): string => {
+	const existingIdx = body.indexOf(`## ${heading}`);
+	if (existingIdx === -1) return body;
+	const nextHeadingIdx = body.indexOf("\n## ", existingIdx + 1);
+	return nextHeadingIdx !== -1
+		? body.substring(0, existingIdx) + body.substring(nextHeadingIdx + 1)
+		: body.substring(0, existingIdx);
+};
+
 interface RefResponse {
 	object: { sha: string };
 }
@@ -146,10 +184,16 @@ interface RefResponse {
 /**
  * Run the `updateReleaseBranch` stage.
  *
+ * @param packageManager - The detected package manager, used to build the
+ *   default version command.
+ * @param preTag - The active Changesets pre tag; when set, the PR title is
+ *   marked as a pre-release.
+ *
  * @public
  */
 export const updateReleaseBranch = (
 	packageManager: string,
+	preTag: string | null = null,
 ): Effect.Effect<
 	UpdateReleaseBranchResult,
 	| ActionEnvironmentError
@@ -169,7 +213,9 @@ export const updateReleaseBranch = (
 	| FileSystem.FileSystem
 	| GitCommit
 	| GitHubClient
+	| GitHubCommit
 	| GitHubIssue
+	| GitTag
 	| PullRequest
 > =>
 	Effect.gen(function* () {
@@ -230,6 +276,14 @@ export const updateReleaseBranch = (
 			yield* Effect.logInfo("[DRY RUN] Would collect linked issues from changeset commits");
 		}
 
+		// ---------- Collect contributors since the last release ----------
+		let contributors: ReadonlyArray<Contributor> = [];
+		if (!dryRun) {
+			const { commits, latestTagSha } = yield* getCommitsSinceLatestTag(targetBranch);
+			contributors = yield* resolveContributors(commits, latestTagSha, yield* loadExcludedContributors());
+			yield* Effect.logInfo(`Found ${contributors.length} contributor(s) since the last release`);
+		}
+
 		// ---------- Recreate the release branch from main locally ----------
 		yield* Effect.logInfo(`Recreating release branch '${releaseBranch}' from '${targetBranch}'`);
 		if (!dryRun) {
@@ -261,6 +315,7 @@ export const updateReleaseBranch = (
 		}
 
 		let versionSummary = "";
+		let versionChanges: ReadonlyArray<VersionChange> = [];
 		let prTitle = prTitlePrefix;
 
 		if (hasChanges) {
@@ -270,6 +325,7 @@ export const updateReleaseBranch = (
 				.join("\n");
 			yield* Effect.logInfo("New version changes:");
 			yield* Effect.logInfo(versionSummary);
+			versionChanges = yield* resolveVersionChanges(changedFiles, yield* loadTagNaming());
 
 			if (isSinglePackage()) {
 				const readResult = yield* Effect.either(fs.readFileString("package.json"));
@@ -309,6 +365,10 @@ export const updateReleaseBranch = (
 			yield* Effect.logInfo(`✓ Updated '${releaseBranch}' to match '${targetBranch}' (${newSha})`);
 		}
 
+		// Changesets pre mode: flag the PR as a pre-release so reviewers do not
+		// mistake it for a stable release.
+		prTitle = withPreReleaseTitle(prTitle, preTag);
+
 		// ---------- Reopen PR if it was closed ----------
 		if (prWasClosed && prNumber !== null && !dryRun) {
 			const reopen = yield* Effect.either(pr.update(prNumber, { state: "open" }));
@@ -335,7 +395,16 @@ export const updateReleaseBranch = (
 
 		// ---------- Create new PR if none exists ----------
 		if (prNumber === null && !dryRun) {
-			const prBody = buildPrBody({ versionSummary, linkedIssues, owner, repo, runId });
+			const prBody = buildPrBody({
+				versionSummary,
+				versionChanges,
+				linkedIssues,
+				contributors,
+				owner,
+				repo,
+				releaseBranch,
+				runId,
+			});
 			const create = (): Effect.Effect<{ number: number; url: string }, PullRequestError, PullRequest> =>
 				pr.create({ title: prTitle, body: prBody, head: releaseBranch, base: targetBranch });
 
@@ -350,26 +419,31 @@ export const updateReleaseBranch = (
 			yield* Effect.logInfo("[DRY RUN] Would create new release PR (no existing PR found)");
 		}
 
-		// ---------- Update PR body with linked issues ----------
-		if (prNumber !== null && linkedIssues.length > 0 && !dryRun) {
+		// ---------- Update PR body with linked issues, contributors, and packages ----------
+		if (
+			prNumber !== null &&
+			(linkedIssues.length > 0 || contributors.length > 0 || versionChanges.length > 0) &&
+			!dryRun
+		) {
 			const getPr = yield* Effect.either(pr.get(prNumber));
 
 			if (getPr._tag === "Right") {
 				const linkedSection = buildLinkedIssuesSection(linkedIssues);
-				let currentBody = getPr.right.body ?? "";
-				const existingIdx = currentBody.indexOf("## Linked Issues");
-				if (existingIdx !== -1) {
-					const nextHeadingIdx = currentBody.indexOf("\n## ", existingIdx + 1);
-					currentBody =
-						nextHeadingIdx !== -1
-							? currentBody.substring(0, existingIdx) + currentBody.substring(nextHeadingIdx + 1)
-							: currentBody.substring(0, existingIdx);
-				}
-				const newBody = `${linkedSection}\n${currentBody.trim()}`;
+				const contributorsSection = buildContributorsSection(contributors);
+				const packagesSection = buildPackagesSection(versionChanges, owner, repo, releaseBranch);
+				const currentBody = ["Linked Issues", "Contributors", "Packages"].reduce(
+					withoutSection,
+					getPr.right.body ?? "",
+				);
+				const newBody = [linkedSection, contributorsSection, packagesSection, currentBody.trim()]
+					.filter((part) => part !== "")
+					.join("\n");
 
 				const update = yield* Effect.either(pr.update(prNumber, { body: newBody }));
 				if (update._tag === "Right") {
-					yield* Effect.logInfo(`✓ Updated PR #${prNumber} with ${linkedIssues.length} linked issue(s)`);
+					yield* Effect.logInfo(
+						`✓ Updated PR #${prNumber} with ${linkedIssues.length} linked issue(s), ${contributors.length} contributor(s), and ${versionChanges.length} package(s)`,
+					);
 				} else {
 					yield* Effect.logWarning(`Could not update PR body: ${update.left.reason}`);
 				}
@@ -691,9 +765,12 @@ export const updateReleaseBranch = (
 
 const buildPrBody = (args: {
 	versionSummary: string;
+	versionChanges: ReadonlyArray<VersionChange>;
 	linkedIssues: ReadonlyArray<LinkedIssue>;
+	contributors: ReadonlyArray<Contributor>;
 	owner: string;
 	repo: string;
+	releaseBranch: string;
 	runId: string;
 }): string => {
 	const sections: Array<{ heading?: string; level?: 2 | 3; content: string }> = [
@@ -706,6 +783,14 @@ const buildPrBody = (args: {
 			content: summaryWriter.codeBlock(args.versionSummary, "text"),
 		});
 	}
+	if (args.versionChanges.length > 0) {
+		sections.unshift({
+			content: buildPackagesSection(args.versionChanges, args.owner, args.repo, args.releaseBranch),
+		});
+	}
+	if (args.contributors.length > 0) {
+		sections.unshift({ content: buildContributorsSection(args.contributors) });
+	}
 	if (args.linkedIssues.length > 0) {
 		sections.unshift({ content: buildLinkedIssuesSection(args.linkedIssues) });
 	}
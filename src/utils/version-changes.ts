@@ -0,0 +1,113 @@
+/**
+ * Previous versions and compare links for a release.
+ *
+ * @remarks
+ * Each released package is paired with the tag it follows (see
+ * `getPreviousTag`), so release notes and the release PR can say what the
+ * package moves from and link to the full diff. The GitHub release compares
+ * the previous tag with the new one; the release PR, whose tags do not exist
+ * yet, compares it with the release branch.
+ */
+
+import { join, relative } from "node:path";
+import type { GitTag } from "@savvy-web/github-action-effects";
+import { Effect } from "effect";
+import type { TagNaming } from "../schema/silk-release-config.js";
+import { determineTagStrategy } from "./determine-tag-strategy.js";
+import { getPreviousTag } from "./link-issues-from-commits.js";
+import { getAllWorkspacePackages } from "./release-summary-helpers.js";
+
+/**
+ * One package's move to a new version.
+ *
+ * @public
+ */
+export interface VersionChange {
+	/** Package name. */
+	readonly name: string;
+	/** The new version. */
+	readonly version: string;
+	/** The tag the new version is released under. */
+	readonly tag: string;
+	/** The release tag before it, or `null` for a first release. */
+	readonly previousTag: string | null;
+	/** The version of `previousTag`, or `null` for a first release. */
+	readonly previousVersion: string | null;
+}
+
+/**
+ * The GitHub compare URL between two refs.
+ *
+ * @example
+ * ```ts
+ * compareUrl("https://github.com/o/r", "@scope/pkg@1.0.0", "@scope/pkg@1.1.0");
+ * // "https://github.com/o/r/compare/%40scope%2Fpkg%401.0.0...%40scope%2Fpkg%401.1.0"
+ * ```
+ */
+export const compareUrl = (repoUrl: string, base: string, head: string): string =>
+	`${repoUrl}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`;
+
+/**
+ * The version changes a changeset version command made in the working tree.
+ *
+ * @remarks
+ * A workspace package changed when its `package.json` is among the paths
+ * `status` lists. Its tag is named as Phase 3 will name it (see
+ * `determineTagStrategy`), and the previous tag is looked up in that tag
+ * line.
+ *
+ * @param status - `git status --porcelain` output
+ * @param naming - The release config's `tags` section, if any
+ */
+export const resolveVersionChanges = (
+	status: string,
+	naming: TagNaming | undefined,
+): Effect.Effect<ReadonlyArray<VersionChange>, never, GitTag> =>
+	Effect.gen(function* () {
+		const changed = new Set(
+			status
+				.split("\n")
+				.filter((line) => line.length > 3)
+				.map((line) => line.substring(3).split(" -> ").pop() ?? ""),
+		);
+		const packages = getAllWorkspacePackages().filter((pkg) =>
+			changed.has(relative(process.cwd(), join(pkg.path, "package.json"))),
+		);
+		if (packages.length === 0) return [];
+
+		const strategy = determineTagStrategy(
+			packages.map((pkg) => ({ name: pkg.name, version: pkg.version, targets: [] })),
+			naming,
+		);
+		const changes: VersionChange[] = [];
+		for (const pkg of packages) {
+			const tag =
+				strategy.strategy === "multiple" ? strategy.tags.find((t) => t.packageName === pkg.name) : strategy.tags[0];
+			if (tag === undefined) continue;
+			const previous = yield* getPreviousTag(tag.name, tag.version);
+			changes.push({
+				name: pkg.name,
+				version: pkg.version,
+				tag: tag.name,
+				previousTag: previous?.tag ?? null,
+				previousVersion: previous?.version ?? null,
+			});
+		}
+		return changes;
+	});
+
+/**
+ * Render version changes as a markdown list, each linking the full
+ * changelog from its previous tag to `head`.
+ *
+ * @param head - The ref to compare against: the new tag, or the release branch
+ * @returns The list, or an empty string when there are no changes.
+ */
+export const formatVersionChanges = (changes: ReadonlyArray<VersionChange>, repoUrl: string, head: string): string =>
+	changes
+		.map((change) =>
+			change.previousTag !== null
+				? `- \`${change.name}\`: ${change.previousVersion} → ${change.version} ([full changelog](${compareUrl(repoUrl, change.previousTag, head)}))`
+				: `- \`${change.name}\`: ${change.version} (first release)`,
+		)
+		.join("\n");